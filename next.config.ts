@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // PDFKit reads its font metrics from its package at runtime, so it is loaded
+  // from node_modules instead of being bundled
+  serverExternalPackages: ["pdfkit"],
 };
 
 export default nextConfig;
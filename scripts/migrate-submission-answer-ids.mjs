@@ -0,0 +1,146 @@
+// Converts the selected answers of existing submissions from an index into the
+// answers of the question (`selectedAnswerId_Index`) to the `_id` of the answer
+// (`selectedAnswer_id`).
+//
+// The index is resolved against the current version of the quiz. Run this
+// before editing quizzes that already have submissions, indexes into answers
+// that were reordered since can not be recovered. For shuffled quizzes the index
+// refers to the order stored in `presentedOrder`. Answers that can not be
+// resolved (the question or answer no longer exists) keep their index and are
+// reported.
+//
+// Usage:
+//   node scripts/migrate-submission-answer-ids.mjs [--dry-run]
+//
+// Reads MONGODB_URI from the environment, `.env.local` or `.env`.
+
+import dotenv from "dotenv";
+import { MongoClient } from "mongodb";
+
+dotenv.config({ path: [".env.local", ".env"] });
+
+const dryRun = process.argv.includes("--dry-run");
+const uri = process.env.MONGODB_URI;
+if (!uri) {
+  console.error("Please define the MONGODB_URI environment variable.");
+  process.exit(1);
+}
+
+/**
+ * Returns the `_id` of the answer at the given index of a question, taking the
+ * presented answer order of shuffled quizzes into account.
+ *
+ * @param {object | undefined} question - The question of the quiz.
+ * @param {number} index - The stored `selectedAnswerId_Index`.
+ * @param {object[] | undefined} presentedOrder - The presented order stored on the submission.
+ * @returns {import("mongodb").ObjectId | undefined} The answer ID, or undefined if it can not be resolved.
+ */
+function resolveAnswerId(question, index, presentedOrder) {
+  if (!question?.answers) return undefined;
+  const answerOrder = presentedOrder?.find((presented) =>
+    presented.question_id.equals(question._id)
+  )?.answerOrder;
+  const answerIndex = answerOrder ? answerOrder[index] : index;
+  return answerIndex === undefined
+    ? undefined
+    : question.answers[answerIndex]?._id;
+}
+
+async function migrate() {
+  const client = new MongoClient(uri);
+  await client.connect();
+  try {
+    const db = client.db();
+    const quizzes = db.collection("quizzes");
+    const submissions = db.collection("submissions");
+
+    const quizCache = new Map();
+    const loadQuiz = async (quizId) => {
+      const key = quizId.toString();
+      if (!quizCache.has(key)) {
+        quizCache.set(
+          key,
+          await quizzes.findOne(
+            { _id: quizId },
+            { projection: { questions: 1 } }
+          )
+        );
+      }
+      return quizCache.get(key);
+    };
+
+    const cursor = submissions.find({
+      "answers.selectedAnswerId_Index": { $exists: true },
+    });
+
+    let migratedSubmissions = 0;
+    let migratedAnswers = 0;
+    const unresolved = [];
+    let updates = [];
+
+    for await (const submission of cursor) {
+      const quiz = await loadQuiz(submission.quiz_id);
+      const questionMap = new Map(
+        (quiz?.questions ?? []).map((question) => [
+          question._id.toString(),
+          question,
+        ])
+      );
+
+      let changed = false;
+      const answers = submission.answers.map((answer) => {
+        if (answer.selectedAnswerId_Index === undefined) return answer;
+        const answerId = resolveAnswerId(
+          questionMap.get(answer.question_id.toString()),
+          answer.selectedAnswerId_Index,
+          submission.presentedOrder
+        );
+        if (!answerId) {
+          unresolved.push({
+            submission_id: submission._id.toString(),
+            question_id: answer.question_id.toString(),
+            selectedAnswerId_Index: answer.selectedAnswerId_Index,
+          });
+          return answer;
+        }
+        changed = true;
+        migratedAnswers++;
+        const { selectedAnswerId_Index, ...rest } = answer;
+        return { ...rest, selectedAnswer_id: answerId };
+      });
+      if (!changed) continue;
+
+      migratedSubmissions++;
+      updates.push({
+        updateOne: {
+          filter: { _id: submission._id },
+          update: { $set: { answers } },
+        },
+      });
+      if (updates.length >= 500) {
+        if (!dryRun) await submissions.bulkWrite(updates);
+        updates = [];
+      }
+    }
+    if (updates.length > 0 && !dryRun) await submissions.bulkWrite(updates);
+
+    console.log(
+      `${
+        dryRun ? "Would migrate" : "Migrated"
+      } ${migratedAnswers} answers in ${migratedSubmissions} submissions.`
+    );
+    if (unresolved.length > 0) {
+      console.warn(
+        `${unresolved.length} answers could not be resolved and keep their index:`
+      );
+      console.table(unresolved);
+    }
+  } finally {
+    await client.close();
+  }
+}
+
+migrate().catch((error) => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,116 @@
+// Converts the `student_id` of existing submissions from the free string that
+// was stored before the student roster to a reference to the student
+// (`Student._id`).
+//
+// A string is resolved to a student with that `_id`, or else to a student with
+// that email. Run this after importing the class rosters, so the students of
+// older submissions can be found. Strings that can not be resolved are removed
+// from `student_id`, the submission then counts as anonymous, and are kept in
+// `legacyStudentId` and reported so they can be resolved by hand.
+//
+// Usage:
+//   node scripts/migrate-submission-student-ids.mjs [--dry-run]
+//
+// Reads MONGODB_URI from the environment, `.env.local` or `.env`.
+
+import dotenv from "dotenv";
+import { MongoClient, ObjectId } from "mongodb";
+
+dotenv.config({ path: [".env.local", ".env"] });
+
+const dryRun = process.argv.includes("--dry-run");
+const uri = process.env.MONGODB_URI;
+if (!uri) {
+  console.error("Please define the MONGODB_URI environment variable.");
+  process.exit(1);
+}
+
+async function migrate() {
+  const client = new MongoClient(uri);
+  await client.connect();
+  try {
+    const db = client.db();
+    const students = db.collection("students");
+    const submissions = db.collection("submissions");
+
+    const studentCache = new Map();
+    const resolveStudent = async (legacyId) => {
+      const value = legacyId.trim();
+      if (!studentCache.has(value)) {
+        const student =
+          (ObjectId.isValid(value) &&
+            value.length === 24 &&
+            (await students.findOne(
+              { _id: new ObjectId(value) },
+              { projection: { _id: 1 } }
+            ))) ||
+          (value &&
+            (await students.findOne(
+              { email: value.toLowerCase() },
+              { projection: { _id: 1 } }
+            )));
+        studentCache.set(value, student?._id);
+      }
+      return studentCache.get(value);
+    };
+
+    const cursor = submissions.find(
+      { student_id: { $type: "string" } },
+      { projection: { student_id: 1 } }
+    );
+
+    let migratedSubmissions = 0;
+    const unresolved = [];
+    let updates = [];
+
+    for await (const submission of cursor) {
+      const studentId = await resolveStudent(submission.student_id);
+      if (studentId) {
+        migratedSubmissions++;
+      } else if (submission.student_id.trim()) {
+        unresolved.push({
+          submission_id: submission._id.toString(),
+          student_id: submission.student_id,
+        });
+      }
+
+      updates.push({
+        updateOne: {
+          filter: { _id: submission._id },
+          update: studentId
+            ? { $set: { student_id: studentId } }
+            : {
+                $set: { legacyStudentId: submission.student_id },
+                $unset: { student_id: "" },
+              },
+        },
+      });
+      if (updates.length >= 500) {
+        if (!dryRun) await submissions.bulkWrite(updates);
+        updates = [];
+      }
+    }
+    if (updates.length > 0 && !dryRun) await submissions.bulkWrite(updates);
+
+    console.log(
+      `${
+        dryRun ? "Would link" : "Linked"
+      } ${migratedSubmissions} submissions to their student.`
+    );
+    if (unresolved.length > 0) {
+      console.warn(
+        `${unresolved.length} student IDs could not be resolved and ${
+          dryRun ? "would be" : "were"
+        } moved to legacyStudentId:`
+      );
+      console.table(unresolved);
+    }
+  } finally {
+    await client.close();
+  }
+}
+
+migrate().catch((error) => {
+  console.error("Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,302 @@
+"use client";
+
+import { JSX, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface ListedApiClient {
+  _id: string;
+  name: string;
+  keyPrefix: string;
+  revokedAt?: string | null;
+  lastUsedAt?: string;
+  usageCount: number;
+  usageByEndpoint?: Record<string, number>;
+  scopes?: string[];
+  createdAt: string;
+}
+
+/**
+ * Formats a date for display in the API key table.
+ * @param {string | null | undefined} date The ISO date string
+ * @returns {string} The formatted date, or "Never" if not set
+ */
+const formatDate = (date: string | null | undefined): string =>
+  date ? new Date(date).toLocaleString("nl-NL") : "Never";
+
+/**
+ * Page component for admins to issue and revoke API keys for the Unreal Engine client.
+ *
+ * Newly issued keys are shown once, after which only their prefix is visible.
+ * For every key the total and per-endpoint usage counters are shown.
+ *
+ * @returns {JSX.Element} The API key management page.
+ */
+export default function ManageApiKeysPage(): JSX.Element {
+  const [clients, setClients] = useState<ListedApiClient[]>([]);
+  const [name, setName] = useState("");
+  // Grants the "select-organ-targets" scope, see models/ApiClient.ts
+  const [includeTargets, setIncludeTargets] = useState(false);
+  const [newApiKey, setNewApiKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchClients = async () => {
+    try {
+      const response = await fetch("/api/api-clients");
+      if (!response.ok) throw new Error("Failed to fetch API keys");
+      setClients(await response.json());
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to fetch API keys");
+    }
+  };
+
+  useEffect(() => {
+    fetchClients();
+  }, []);
+
+  /**
+   * Handles form submission by issuing a new API key.
+   * @param {React.FormEvent} e The form event
+   */
+  const handleCreateKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const response = await fetch("/api/api-clients", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scopes: includeTargets ? ["select-organ-targets"] : [],
+        }),
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to create API key");
+      }
+      const data = await response.json();
+      setNewApiKey(data.apiKey);
+      setName("");
+      setIncludeTargets(false);
+      fetchClients();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Revokes an API key and refreshes the list.
+   * @param {string} clientId The ID of the API client to revoke
+   */
+  const handleRevokeKey = async (clientId: string) => {
+    try {
+      const response = await fetch(`/api/api-clients/${clientId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to revoke API key");
+      }
+      toast.success("API key revoked");
+      fetchClients();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <h1 className="text-3xl font-bold">API Keys</h1>
+      <p className="text-gray-600">
+        API keys are used by the Unreal Engine client to submit quizzes and look
+        up meshes. Send them in the{" "}
+        <code className="text-sm">Authorization: Bearer &lt;key&gt;</code>{" "}
+        header.
+      </p>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Issue New Key</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleCreateKey} className="flex items-end gap-4">
+            <div className="flex-1">
+              <Label htmlFor="name">Client Name</Label>
+              <Input
+                id="name"
+                placeholder="e.g. Anatomy lab PCs"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-2"
+                required
+              />
+            </div>
+            <Button type="submit" disabled={loading}>
+              {loading ? "Issuing..." : "Issue Key"}
+            </Button>
+          </form>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="includeTargets"
+              checked={includeTargets}
+              onChange={(e) => setIncludeTargets(e.target.checked)}
+              className="h-4 w-4"
+            />
+            <Label htmlFor="includeTargets">
+              Include the target meshes of select-organ questions (reveals the
+              answer, only for clients that highlight the target after
+              answering)
+            </Label>
+          </div>
+          {newApiKey && (
+            <div className="p-3 border rounded-md bg-amber-50 space-y-2">
+              <p className="text-sm font-semibold">
+                Copy this key now, it will not be shown again:
+              </p>
+              <div className="flex gap-2">
+                <Input readOnly value={newApiKey} className="font-mono" />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard.writeText(newApiKey);
+                    toast.success("Copied to clipboard");
+                  }}
+                >
+                  Copy
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Issued Keys</CardTitle>
+          <CardDescription>
+            Revoked keys are kept for their usage history.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {clients.length === 0 ? (
+            <p className="text-sm text-gray-500">No API keys issued yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2">Name</th>
+                  <th className="py-2">Key</th>
+                  <th className="py-2">Created</th>
+                  <th className="py-2">Last Used</th>
+                  <th className="py-2">Requests</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {clients.map((client) => (
+                  <tr key={client._id} className="border-b last:border-0">
+                    <td className="py-2">
+                      {client.name}
+                      {client.scopes?.includes("select-organ-targets") && (
+                        <span className="block text-xs text-gray-500">
+                          Includes select-organ targets
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 font-mono">{client.keyPrefix}...</td>
+                    <td className="py-2">{formatDate(client.createdAt)}</td>
+                    <td className="py-2">{formatDate(client.lastUsedAt)}</td>
+                    <td className="py-2">
+                      {client.usageCount}
+                      {client.usageByEndpoint &&
+                        Object.keys(client.usageByEndpoint).length > 0 && (
+                          <span className="block text-xs text-gray-500">
+                            {Object.entries(client.usageByEndpoint)
+                              .map(
+                                ([endpoint, count]) => `${endpoint}: ${count}`
+                              )
+                              .join(", ")}
+                          </span>
+                        )}
+                    </td>
+                    <td className="py-2">
+                      {client.revokedAt ? (
+                        <span className="text-red-600">
+                          Revoked {formatDate(client.revokedAt)}
+                        </span>
+                      ) : (
+                        <span className="text-green-700">Active</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {!client.revokedAt && (
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="destructive" size="sm">
+                              Revoke
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>
+                                Revoke key for {client.name}?
+                              </AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Unreal Engine clients using this key will no
+                                longer be able to submit quizzes. This cannot be
+                                undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                className="bg-destructive text-white hover:bg-destructive/90"
+                                onClick={() => handleRevokeKey(client._id)}
+                              >
+                                Revoke
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
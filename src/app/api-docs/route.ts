@@ -21,6 +21,7 @@ const specContent = {
         description:
           "Retrieves a list of mesh catalog items. Supports searching by displayName or meshName, and exact matching for a specific meshName.",
         tags: ["Mesh Catalog"],
+        security: [{ apiKey: [] }, { sessionCookie: [] }],
         parameters: [
           {
             name: "search",
@@ -130,7 +131,7 @@ const specContent = {
       get: {
         summary: "Get Quizzes",
         description:
-          "Retrieves quizzes, optionally filtered by study year and/or month.",
+          "Retrieves quizzes, optionally filtered by study year and/or month. Without a teacher session the quizzes are returned in the student view, without correct-answer flags, accepted short answers and select-organ targets.",
         tags: ["Quizzes"],
         parameters: [
           {
@@ -149,6 +150,13 @@ const specContent = {
               type: "string",
             },
           },
+          {
+            name: "view",
+            in: "query",
+            description:
+              "`student` omits the answer key. Requests without a teacher session always get the student view, `teacher` requires a teacher session.",
+            schema: { type: "string", enum: ["student", "teacher"] },
+          },
         ],
         responses: {
           "200": {
@@ -158,12 +166,17 @@ const specContent = {
                 schema: {
                   type: "array",
                   items: {
-                    $ref: "#/components/schemas/Quiz",
+                    oneOf: [
+                      { $ref: "#/components/schemas/Quiz" },
+                      { $ref: "#/components/schemas/StudentQuiz" },
+                    ],
                   },
                 },
               },
             },
           },
+          "400": { description: "Invalid studyYear or view parameter." },
+          "403": { description: "The teacher view requires a session." },
         },
       },
       post: {
@@ -198,10 +211,133 @@ const specContent = {
         },
       },
     },
+    "/api/quizzes/active": {
+      get: {
+        summary: "Get Active Quizzes",
+        description:
+          "Retrieves the quizzes of a study year that are open for submissions right now, the quiz that closes first comes first. Quizzes without an availability window are always active.",
+        tags: ["Quizzes"],
+        security: [{ apiKey: [] }, { sessionCookie: [] }],
+        parameters: [
+          {
+            name: "studyYear",
+            in: "query",
+            required: true,
+            description: "The study year of the student.",
+            schema: { type: "integer" },
+          },
+          {
+            name: "student_id",
+            in: "query",
+            description:
+              "The ID of the student, the quiz is shuffled for this student if shuffling is enabled.",
+            schema: { type: "string" },
+          },
+          {
+            name: "studentEmail",
+            in: "query",
+            description:
+              "The email of the student, as an alternative to `student_id`.",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "A list of active quizzes in the student view.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/StudentQuiz" },
+                },
+              },
+            },
+          },
+          "400": { description: "Missing or invalid studyYear parameter." },
+          "401": { description: "Missing, invalid or revoked API key." },
+          "404": { description: "Student not found." },
+        },
+      },
+    },
+    "/api/client/quizzes": {
+      get: {
+        summary: "Get Client Quizzes",
+        description:
+          "Retrieves the quizzes of a study year that are open right now in the format of the Unreal Engine client. Correct-answer flags and accepted short answers are left out and select-organ targets are resolved to mesh names. The contract is versioned, the client sends the version it was built against in the `X-Client-Api-Version` header.",
+        tags: ["Client"],
+        security: [{ apiKey: [] }, { sessionCookie: [] }],
+        parameters: [
+          {
+            name: "studyYear",
+            in: "query",
+            required: true,
+            description: "The study year of the student.",
+            schema: { type: "integer" },
+          },
+          {
+            name: "student_id",
+            in: "query",
+            description:
+              "The ID of the student, the quiz is shuffled for this student if shuffling is enabled.",
+            schema: { type: "string" },
+          },
+          {
+            name: "studentEmail",
+            in: "query",
+            description:
+              "The email of the student, as an alternative to `student_id`.",
+            schema: { type: "string" },
+          },
+          {
+            name: "X-Client-Api-Version",
+            in: "header",
+            required: false,
+            description:
+              "The contract version the client expects, defaults to the current version.",
+            schema: { type: "integer", enum: [1] },
+          },
+        ],
+        responses: {
+          "200": {
+            description:
+              "The open quizzes, the quiz that closes first comes first.",
+            headers: {
+              "X-Client-Api-Version": {
+                description: "The contract version of the response.",
+                schema: { type: "integer" },
+              },
+            },
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    apiVersion: { type: "integer", example: 1 },
+                    generatedAt: { type: "string", format: "date-time" },
+                    studyYear: { type: "integer" },
+                    quizzes: {
+                      type: "array",
+                      items: { $ref: "#/components/schemas/ClientQuiz" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "400": {
+            description:
+              "Missing or invalid studyYear parameter, or an unsupported client API version.",
+          },
+          "401": { description: "Missing, invalid or revoked API key." },
+          "404": { description: "Student not found." },
+        },
+      },
+    },
     "/api/quizzes/{id}": {
       get: {
         summary: "Get Quiz by ID",
-        description: "Retrieves a single quiz by its unique ID.",
+        description:
+          "Retrieves a single quiz by its unique ID. Without a teacher session the quiz is returned in the student view, without correct-answer flags, accepted short answers and select-organ targets.",
         tags: ["Quizzes"],
         parameters: [
           {
@@ -213,6 +349,27 @@ const specContent = {
               type: "string",
             },
           },
+          {
+            name: "view",
+            in: "query",
+            description:
+              "`student` omits the answer key. Requests without a teacher session always get the student view, `teacher` requires a teacher session.",
+            schema: { type: "string", enum: ["student", "teacher"] },
+          },
+          {
+            name: "student_id",
+            in: "query",
+            description:
+              "The ID of the student, the quiz is shuffled for this student if shuffling is enabled. A student who is not on the roster gets an order derived from the given ID, so the response does not reveal who is enrolled.",
+            schema: { type: "string" },
+          },
+          {
+            name: "studentEmail",
+            in: "query",
+            description:
+              "The email of the student, as an alternative to `student_id`.",
+            schema: { type: "string" },
+          },
         ],
         responses: {
           "200": {
@@ -220,11 +377,18 @@ const specContent = {
             content: {
               "application/json": {
                 schema: {
-                  $ref: "#/components/schemas/Quiz",
+                  oneOf: [
+                    { $ref: "#/components/schemas/Quiz" },
+                    { $ref: "#/components/schemas/StudentQuiz" },
+                  ],
                 },
               },
             },
           },
+          "400": {
+            description: "Invalid quiz ID, view or student parameter.",
+          },
+          "403": { description: "The teacher view requires a session." },
           "404": {
             description: "Quiz not found.",
           },
@@ -232,7 +396,8 @@ const specContent = {
       },
       put: {
         summary: "Update a Quiz",
-        description: "Updates an existing quiz by its ID.",
+        description:
+          "Updates an existing quiz by its ID. Every update increments the version of the quiz and stores a snapshot of the saved quiz as that version. Send the `version` the changes are based on: if the quiz was saved by someone else since, the update is rejected with a 409 and the current version. If the quiz has submissions, an update that removes questions or changes their answer key must be confirmed with `confirm=true`.",
         tags: ["Quizzes"],
         parameters: [
           {
@@ -244,13 +409,34 @@ const specContent = {
               type: "string",
             },
           },
+          {
+            name: "confirm",
+            in: "query",
+            required: false,
+            description:
+              "Set to `true` to confirm a change to the results of existing submissions.",
+            schema: { type: "boolean" },
+          },
         ],
         requestBody: {
           required: true,
           content: {
             "application/json": {
               schema: {
-                $ref: "#/components/schemas/NewQuiz",
+                allOf: [
+                  { $ref: "#/components/schemas/NewQuiz" },
+                  {
+                    type: "object",
+                    properties: {
+                      version: {
+                        type: "integer",
+                        minimum: 1,
+                        description:
+                          "The version of the quiz the changes are based on.",
+                      },
+                    },
+                  },
+                ],
               },
             },
           },
@@ -269,11 +455,35 @@ const specContent = {
           "404": {
             description: "Quiz not found.",
           },
+          "409": {
+            description:
+              "The quiz has submissions and the update changes their results, the affected questions are returned in `details`. Or the quiz was saved by someone else since the given version, `details.currentVersion` is the current version.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    error: { type: "string" },
+                    details: {
+                      oneOf: [
+                        { $ref: "#/components/schemas/QuizEditImpact" },
+                        {
+                          type: "object",
+                          properties: { currentVersion: { type: "integer" } },
+                        },
+                      ],
+                    },
+                  },
+                },
+              },
+            },
+          },
         },
       },
       delete: {
         summary: "Delete a Quiz",
-        description: "Deletes a quiz by its ID.",
+        description:
+          "Moves a quiz to the trash by setting its `deletedAt`. Quizzes in the trash are not listed and do not accept submissions, they can be restored or purged. Deleting a quiz with submissions must be confirmed with `confirm=true`.",
         tags: ["Quizzes"],
         parameters: [
           {
@@ -285,13 +495,36 @@ const specContent = {
               type: "string",
             },
           },
+          {
+            name: "confirm",
+            in: "query",
+            required: false,
+            description:
+              "Set to `true` to confirm deleting a quiz with submissions.",
+            schema: { type: "boolean" },
+          },
         ],
         responses: {
           "200": {
-            description: "Quiz deleted successfully.",
+            description: "Quiz moved to the trash successfully.",
           },
           "404": {
-            description: "Quiz not found.",
+            description: "Quiz not found or already in the trash.",
+          },
+          "409": {
+            description:
+              "The quiz has submissions. The number of submissions and answers per question are returned in `details`.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    error: { type: "string" },
+                    details: { $ref: "#/components/schemas/QuizEditImpact" },
+                  },
+                },
+              },
+            },
           },
         },
       },
@@ -300,7 +533,7 @@ const specContent = {
       get: {
         summary: "Get Quiz Results",
         description:
-          "Retrieves the aggregated results and answer breakdowns for a specific quiz.",
+          "Retrieves the aggregated results and answer breakdowns for a specific quiz. Each submission is graded against the version of the quiz it answered. The submissions can be filtered by study year at submission, date range, cohort and first or latest attempt, e.g. to compare year 1 and year 4 students.",
         tags: ["Quizzes"],
         parameters: [
           {
@@ -312,6 +545,11 @@ const specContent = {
               type: "string",
             },
           },
+          { $ref: "#/components/parameters/ResultsStudyYear" },
+          { $ref: "#/components/parameters/ResultsFrom" },
+          { $ref: "#/components/parameters/ResultsTo" },
+          { $ref: "#/components/parameters/ResultsCohort" },
+          { $ref: "#/components/parameters/ResultsAttempt" },
         ],
         responses: {
           "200": {
@@ -327,71 +565,212 @@ const specContent = {
               },
             },
           },
+          "400": {
+            description: "Invalid ID or filter parameter.",
+          },
           "404": {
             description: "Quiz not found.",
           },
         },
       },
     },
-    "/api/submissions": {
-      get: {
-        summary: "Get Submissions",
+    "/api/quizzes/{id}/duplicate": {
+      post: {
+        summary: "Duplicate a Quiz",
         description:
-          "Retrieves a list of submissions, optionally filtered by quiz ID.",
-        tags: ["Submissions"],
+          "Creates a copy of a quiz, e.g. for the next cohort. The questions and answers of the copy get new IDs, so its results are separate from the original quiz. The copy starts at version 1.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
         parameters: [
           {
-            name: "quiz_id",
-            in: "query",
-            description: "Filter submissions by a specific quiz ID.",
-            schema: {
-              type: "string",
-            },
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the quiz to duplicate.",
+            schema: { type: "string" },
           },
         ],
+        requestBody: {
+          required: false,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  title: {
+                    type: "string",
+                    description:
+                      'The title of the copy, defaults to the title of the quiz with " (copy)".',
+                  },
+                  studyYear: {
+                    type: "integer",
+                    minimum: 1,
+                    description:
+                      "The study year of the copy, defaults to the study year of the quiz.",
+                  },
+                  clearSchedule: {
+                    type: "boolean",
+                    default: true,
+                    description:
+                      "Whether the scheduled date, availability window and grace period are cleared.",
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "The copy of the quiz.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Quiz" },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid quiz ID or request body.",
+          },
+          "404": {
+            description: "Quiz not found.",
+          },
+        },
+      },
+    },
+    "/api/quizzes/trash": {
+      get: {
+        summary: "List Trashed Quizzes",
+        description:
+          "Lists the quizzes in the trash, most recently deleted first, with the number of questions and submissions.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
         responses: {
           "200": {
-            description: "A list of submissions.",
+            description: "The quizzes in the trash.",
             content: {
               "application/json": {
                 schema: {
                   type: "array",
-                  items: {
-                    $ref: "#/components/schemas/Submission",
-                  },
+                  items: { $ref: "#/components/schemas/TrashedQuiz" },
                 },
               },
             },
           },
         },
       },
+    },
+    "/api/quizzes/{id}/restore": {
       post: {
-        summary: "Create a Submission",
-        description: "Creates a new submission for a quiz.",
-        tags: ["Submissions"],
-        requestBody: {
-          required: true,
-          content: {
-            "application/json": {
-              schema: {
-                $ref: "#/components/schemas/NewSubmission",
+        summary: "Restore a Quiz",
+        description:
+          "Restores a quiz from the trash, so it is listed and accepts submissions again.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the quiz to restore.",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Quiz restored successfully.",
+          },
+          "400": {
+            description: "Invalid quiz ID or filter parameter.",
+          },
+          "404": {
+            description: "Quiz not found in the trash.",
+          },
+        },
+      },
+    },
+    "/api/quizzes/{id}/purge": {
+      delete: {
+        summary: "Purge a Quiz",
+        description:
+          "Permanently removes a quiz from the trash. Its submissions are kept unless `deleteSubmissions=true` is given, which also removes its short-answer grades and version snapshots.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the quiz to purge.",
+            schema: { type: "string" },
+          },
+          {
+            name: "deleteSubmissions",
+            in: "query",
+            required: false,
+            description:
+              "Set to `true` to remove the submissions of the quiz too.",
+            schema: { type: "boolean" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "Quiz purged successfully.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    message: { type: "string" },
+                    deletedSubmissions: {
+                      type: "integer",
+                      description: "The number of removed submissions.",
+                    },
+                  },
+                },
               },
             },
           },
+          "400": {
+            description: "Invalid quiz ID or filter parameter.",
+          },
+          "404": {
+            description: "Quiz not found in the trash.",
+          },
         },
+      },
+    },
+    "/api/quizzes/{id}/versions": {
+      get: {
+        summary: "List Quiz Versions",
+        description:
+          "Lists the versions of a quiz, newest first, with the number of submissions that answered each version.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the quiz.",
+            schema: { type: "string" },
+          },
+        ],
         responses: {
-          "201": {
-            description: "The created submission.",
+          "200": {
+            description: "The versions of the quiz.",
             content: {
               "application/json": {
                 schema: {
-                  $ref: "#/components/schemas/Submission",
+                  type: "array",
+                  items: {
+                    $ref: "#/components/schemas/QuizVersionSummary",
+                  },
                 },
               },
             },
           },
           "400": {
-            description: "Bad Request - Invalid data.",
+            description: "Invalid quiz ID or filter parameter.",
           },
           "404": {
             description: "Quiz not found.",
@@ -399,48 +778,1832 @@ const specContent = {
         },
       },
     },
-  },
-  components: {
-    schemas: {
-      MeshCatalogItem: {
-        type: "object",
-        properties: {
-          _id: { type: "string" },
-          meshName: { type: "string" },
-          displayName: { type: "string" },
-          organGroupIds: { type: "array", items: { type: "string" } },
-          defaultStudyYear: { type: "integer" },
-        },
-      },
+    "/api/quizzes/{id}/versions/{version}": {
+      get: {
+        summary: "Get a Quiz Version",
+        description:
+          "Retrieves the snapshot of a quiz as it was saved in a version, including the answer key.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the quiz.",
+            schema: { type: "string" },
+          },
+          {
+            name: "version",
+            in: "path",
+            required: true,
+            description: "The version of the quiz.",
+            schema: { type: "integer", minimum: 1 },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The version of the quiz.",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/QuizVersion",
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid quiz ID or version.",
+          },
+          "404": {
+            description: "Quiz or version not found.",
+          },
+        },
+      },
+    },
+    "/api/quizzes/{id}/short-answer-grades": {
+      get: {
+        summary: "Get Short Answer Grades",
+        description:
+          "Retrieves the manual grades teachers gave to short-answer responses of a quiz.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the quiz.",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The manual grades of the quiz.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/ShortAnswerGrade" },
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid quiz ID.",
+          },
+        },
+      },
+      put: {
+        summary: "Grade Short Answer",
+        description:
+          "Grades all identical responses to a short-answer question as correct, partially correct (half credit) or incorrect. The grade overrides the automatic grading and all submissions of the quiz are regraded.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the quiz.",
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/NewShortAnswerGrade",
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description:
+              "The saved grade and the number of submissions whose score changed.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    grade: { $ref: "#/components/schemas/ShortAnswerGrade" },
+                    regradedSubmissions: { type: "integer" },
+                  },
+                },
+              },
+            },
+          },
+          "400": {
+            description: "Bad Request - Invalid data.",
+          },
+          "404": {
+            description:
+              "Quiz not found, or the question is not a short-answer question.",
+          },
+        },
+      },
+      delete: {
+        summary: "Remove Short Answer Grade",
+        description:
+          "Removes a manual grade, so the responses are graded automatically again. All submissions of the quiz are regraded.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the quiz.",
+            schema: { type: "string" },
+          },
+          {
+            name: "question_id",
+            in: "query",
+            required: true,
+            schema: { type: "string" },
+          },
+          {
+            name: "responseText",
+            in: "query",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The grade was removed.",
+          },
+          "400": {
+            description: "Missing or invalid parameters.",
+          },
+          "404": {
+            description: "Quiz, question or grade not found.",
+          },
+        },
+      },
+    },
+    "/api/submissions": {
+      get: {
+        summary: "Get Submissions",
+        description:
+          "Retrieves a list of submissions, optionally filtered by quiz ID or student ID.",
+        tags: ["Submissions"],
+        parameters: [
+          {
+            name: "quiz_id",
+            in: "query",
+            description: "Filter submissions by a specific quiz ID.",
+            schema: {
+              type: "string",
+            },
+          },
+          {
+            name: "student_id",
+            in: "query",
+            description: "Filter submissions by a specific student ID.",
+            schema: {
+              type: "string",
+            },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "A list of submissions.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: {
+                    $ref: "#/components/schemas/Submission",
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        summary: "Create a Submission",
+        description:
+          "Creates a new submission for a quiz. Every answer is graded automatically (short answers are left ungraded) and the score is stored on the submission and returned to the client. When `student_id` or `studentEmail` is given, the student is looked up in the roster and linked to the submission. Selected answers are sent and stored by their `_id`, so results stay correct when a quiz is edited later. The submission is graded against the version of the quiz given in `quizVersion`, or the current version.",
+        tags: ["Submissions"],
+        security: [{ apiKey: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                $ref: "#/components/schemas/NewSubmission",
+              },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "The created and graded submission.",
+            content: {
+              "application/json": {
+                schema: {
+                  $ref: "#/components/schemas/SubmissionCreated",
+                },
+              },
+            },
+          },
+          "400": {
+            description:
+              "Bad Request - Invalid data, an answer does not belong to the quiz, or the quizVersion does not exist.",
+          },
+          "401": {
+            description: "Missing, invalid or revoked API key.",
+          },
+          "403": {
+            description:
+              "The quiz is not open yet, or it closed and the grace period has passed.",
+          },
+          "404": {
+            description: "Quiz or student not found.",
+          },
+        },
+      },
+    },
+    "/api/auth/login": {
+      post: {
+        summary: "Log In",
+        description:
+          "Logs a teacher or admin in and sets a signed session cookie.",
+        tags: ["Auth"],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/LoginRequest" },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The logged in user.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/User" },
+              },
+            },
+          },
+          "400": { description: "Bad Request - Invalid data." },
+          "401": { description: "Invalid email or password." },
+        },
+      },
+    },
+    "/api/auth/logout": {
+      post: {
+        summary: "Log Out",
+        description: "Clears the session cookie.",
+        tags: ["Auth"],
+        responses: {
+          "200": { description: "Logged out successfully." },
+        },
+      },
+    },
+    "/api/auth/me": {
+      get: {
+        summary: "Get Current User",
+        description: "Returns the user of the current session.",
+        tags: ["Auth"],
+        responses: {
+          "200": {
+            description: "The current user.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/User" },
+              },
+            },
+          },
+          "401": { description: "Not logged in." },
+        },
+      },
+    },
+    "/api/auth/setup": {
+      get: {
+        summary: "Get Setup Status",
+        description:
+          "Returns whether the first admin account still has to be created.",
+        tags: ["Auth"],
+        responses: {
+          "200": { description: "{ setupRequired: boolean }" },
+        },
+      },
+      post: {
+        summary: "Create First Admin",
+        description:
+          "Creates the first admin account and logs it in. Only allowed while there are no users.",
+        tags: ["Auth"],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/NewUser" },
+            },
+          },
+        },
+        responses: {
+          "201": { description: "The created admin." },
+          "409": { description: "Setup has already been completed." },
+        },
+      },
+    },
+    "/api/students": {
+      get: {
+        summary: "Get Students",
+        description:
+          "Retrieves the student roster sorted by name, optionally filtered.",
+        tags: ["Students"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "studyYear",
+            in: "query",
+            description: "Filter students by study year.",
+            schema: { type: "integer" },
+          },
+          {
+            name: "cohort",
+            in: "query",
+            description: "Filter students by cohort.",
+            schema: { type: "string" },
+          },
+          {
+            name: "search",
+            in: "query",
+            description:
+              "Filter students whose name or email contains the text.",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "A list of students.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Student" },
+                },
+              },
+            },
+          },
+          "400": { description: "Invalid studyYear parameter." },
+        },
+      },
+      post: {
+        summary: "Create Student",
+        description: "Adds a student to the roster.",
+        tags: ["Students"],
+        security: [{ sessionCookie: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/NewStudent" },
+            },
+          },
+        },
+        responses: {
+          "201": { description: "The created student." },
+          "400": { description: "Bad Request - Invalid data." },
+          "409": { description: "A student with this email already exists." },
+        },
+      },
+    },
+    "/api/students/import": {
+      post: {
+        summary: "Import Students",
+        description:
+          "Imports a class roster from a CSV file with the header columns `name`, `email` and optionally `studyYear` and `cohort` (comma or semicolon separated). Students are matched by email: existing students are updated, new ones are created. Invalid rows are skipped and reported.",
+        tags: ["Students"],
+        security: [{ sessionCookie: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "text/csv": { schema: { type: "string" } },
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: { csv: { type: "string" } },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The import report.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    created: { type: "integer" },
+                    updated: { type: "integer" },
+                    errors: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          line: { type: "integer" },
+                          error: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          "400": {
+            description:
+              "The file is empty or misses the name or email column.",
+          },
+        },
+      },
+    },
+    "/api/students/{id}": {
+      get: {
+        summary: "Get Student",
+        description:
+          "Retrieves a student with the number of linked submissions.",
+        tags: ["Students"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the student.",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": { description: "The student." },
+          "404": { description: "Student not found." },
+        },
+      },
+      put: {
+        summary: "Update Student",
+        description: "Updates the details of a student.",
+        tags: ["Students"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the student.",
+            schema: { type: "string" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/NewStudent" },
+            },
+          },
+        },
+        responses: {
+          "200": { description: "The updated student." },
+          "400": { description: "Bad Request - Invalid data." },
+          "404": { description: "Student not found." },
+          "409": { description: "A student with this email already exists." },
+        },
+      },
+      delete: {
+        summary: "Delete Student",
+        description:
+          "Removes a student from the roster. Their submissions are kept but unlinked.",
+        tags: ["Students"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the student to delete.",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": { description: "Student deleted successfully." },
+          "404": { description: "Student not found." },
+        },
+      },
+    },
+    "/api/students/{id}/results": {
+      get: {
+        summary: "Get Student Results",
+        description:
+          "Retrieves the submissions of a student with the score per quiz and the accuracy per question type and organ group, overall and per submission (sorted by date, for a trend chart). Organ groups are derived from select organ questions.",
+        tags: ["Students"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the student.",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The results of the student.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/StudentResults" },
+              },
+            },
+          },
+          "400": { description: "Invalid student ID." },
+          "404": { description: "Student not found." },
+        },
+      },
+    },
+    "/api/users": {
+      get: {
+        summary: "Get Users",
+        description: "Retrieves all teacher and admin accounts (admin only).",
+        tags: ["Users"],
+        security: [{ sessionCookie: [] }],
+        responses: {
+          "200": {
+            description: "A list of users.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/User" },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        summary: "Create User",
+        description: "Creates a teacher or admin account (admin only).",
+        tags: ["Users"],
+        security: [{ sessionCookie: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/NewUser" },
+            },
+          },
+        },
+        responses: {
+          "201": { description: "The created user." },
+          "400": { description: "Bad Request - Invalid data." },
+          "409": { description: "A user with this email already exists." },
+        },
+      },
+    },
+    "/api/users/{id}": {
+      delete: {
+        summary: "Delete User",
+        description:
+          "Deletes a teacher or admin account (admin only). Admins cannot delete themselves.",
+        tags: ["Users"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the user to delete.",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": { description: "User deleted successfully." },
+          "404": { description: "User not found." },
+        },
+      },
+    },
+    "/api/api-clients": {
+      get: {
+        summary: "Get API Clients",
+        description:
+          "Retrieves all API clients with their usage counters (admin only). Key hashes are never returned.",
+        tags: ["API Clients"],
+        security: [{ sessionCookie: [] }],
+        responses: {
+          "200": {
+            description: "A list of API clients.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/ApiClient" },
+                },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        summary: "Issue API Key",
+        description:
+          "Issues a new API key for the Unreal Engine client (admin only). The plain key is only returned in this response.",
+        tags: ["API Clients"],
+        security: [{ sessionCookie: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  scopes: {
+                    type: "array",
+                    items: { type: "string", enum: ["select-organ-targets"] },
+                    description:
+                      "`select-organ-targets` includes the targets of select-organ questions in `/api/client/quizzes`.",
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "The created API client, including the plain apiKey.",
+          },
+          "400": { description: "Bad Request - Invalid data." },
+        },
+      },
+    },
+    "/api/api-clients/{id}": {
+      delete: {
+        summary: "Revoke API Key",
+        description:
+          "Revokes an API key (admin only). The client is kept for its usage history.",
+        tags: ["API Clients"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the API client to revoke.",
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": { description: "API key revoked successfully." },
+          "404": { description: "API client not found or already revoked." },
+        },
+      },
+    },
+    "/api/questions": {
+      get: {
+        summary: "Get Bank Questions",
+        description:
+          "Retrieves the questions of the question bank, most recently updated first, optionally filtered.",
+        tags: ["Question Bank"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "search",
+            in: "query",
+            description: "Filter questions whose text contains the text.",
+            schema: { type: "string" },
+          },
+          {
+            name: "type",
+            in: "query",
+            description: "Filter questions by question type.",
+            schema: { type: "string" },
+          },
+          {
+            name: "organGroupId",
+            in: "query",
+            description: "Filter questions tagged with the organ group.",
+            schema: { type: "string" },
+          },
+          {
+            name: "studyYear",
+            in: "query",
+            description: "Filter questions tagged with the study year.",
+            schema: { type: "integer" },
+          },
+          {
+            name: "difficulty",
+            in: "query",
+            description: "Filter questions by difficulty.",
+            schema: { type: "string", enum: ["easy", "medium", "hard"] },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "A list of bank questions.",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/BankQuestion" },
+                },
+              },
+            },
+          },
+          "400": { description: "Invalid query parameter." },
+        },
+      },
+      post: {
+        summary: "Create Bank Question",
+        description: "Adds a question to the question bank.",
+        tags: ["Question Bank"],
+        security: [{ sessionCookie: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/BankQuestion" },
+            },
+          },
+        },
+        responses: {
+          "201": { description: "The created question." },
+          "400": { description: "Bad Request - Invalid data." },
+        },
+      },
+    },
+    "/api/questions/{id}": {
+      get: {
+        summary: "Get Bank Question",
+        description:
+          "Retrieves a bank question together with the quizzes that use it.",
+        tags: ["Question Bank"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The question and its usage.",
+            content: {
+              "application/json": {
+                schema: {
+                  allOf: [
+                    { $ref: "#/components/schemas/BankQuestion" },
+                    {
+                      type: "object",
+                      properties: {
+                        usedIn: {
+                          type: "array",
+                          items: {
+                            type: "object",
+                            properties: {
+                              quizId: { type: "string" },
+                              title: { type: "string" },
+                              studyYear: { type: "integer" },
+                              bankLink: {
+                                type: "string",
+                                enum: ["reference", "copy"],
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  ],
+                },
+              },
+            },
+          },
+          "400": { description: "Invalid Question ID format." },
+          "404": { description: "Question not found." },
+        },
+      },
+      put: {
+        summary: "Update Bank Question",
+        description:
+          "Updates a bank question and every quiz question that references it. Copies and quizzes in the trash are left unchanged. Answers keep their `_id` if it is sent, otherwise the `_id` of the answer at the same position. If the update changes the answer key of referencing quizzes that students already took, including the `_id` of an answer, it has to be confirmed with `?confirm=true`. The response contains the number of updated quizzes as `syncedQuizzes`.",
+        tags: ["Question Bank"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+          {
+            name: "confirm",
+            in: "query",
+            required: false,
+            description:
+              "Set to `true` to confirm a change to the results of existing submissions.",
+            schema: { type: "boolean" },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/BankQuestion" },
+            },
+          },
+        },
+        responses: {
+          "200": { description: "The updated question." },
+          "400": { description: "Bad Request - Invalid data." },
+          "404": { description: "Question not found." },
+          "409": {
+            description:
+              "Referencing quizzes have submissions and the update changes their results. The affected quizzes with their impact are returned in `details.quizzes`.",
+          },
+        },
+      },
+      delete: {
+        summary: "Delete Bank Question",
+        description:
+          "Removes a question from the bank. Quizzes keep the question, references to it become copies.",
+        tags: ["Question Bank"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          },
+        ],
+        responses: {
+          "200": { description: "Question deleted successfully." },
+          "400": { description: "Invalid Question ID format." },
+          "404": { description: "Question not found." },
+        },
+      },
+    },
+    "/api/quizzes/generate": {
+      post: {
+        summary: "Generate Quiz Draft",
+        description:
+          'Draws random select-organ questions ("Select the {displayName}") from the meshes of the given organ groups whose `defaultStudyYear` is the study year, and optionally questions from the question bank (as copies). The draft is not saved, it has the format of the body of `POST /api/quizzes`. Fewer questions are returned if not enough match.',
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["organGroupIds", "studyYear", "questionCount"],
+                properties: {
+                  organGroupIds: { type: "array", items: { type: "string" } },
+                  studyYear: { type: "integer" },
+                  questionCount: { type: "integer", minimum: 0, maximum: 50 },
+                  bankQuestionCount: {
+                    type: "integer",
+                    minimum: 0,
+                    maximum: 50,
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The quiz draft.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/NewQuiz" },
+              },
+            },
+          },
+          "400": { description: "Bad Request - Invalid data." },
+          "404": {
+            description:
+              "No meshes or bank questions match the organ groups and study year.",
+          },
+        },
+      },
+    },
+    "/api/quizzes/export": {
+      get: {
+        summary: "Export Quizzes",
+        description:
+          "Exports all quizzes that are not in the trash as a portable JSON document, to import them into another database. Select-organ targets are referenced by mesh and organ group name instead of their ID. Returned as a file download.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "studyYear",
+            in: "query",
+            required: false,
+            description: "Only export the quizzes of this study year.",
+            schema: { type: "integer" },
+          },
+          {
+            name: "format",
+            in: "query",
+            required: false,
+            description:
+              "`json` (default) for the export document, or `qti` for a QTI 2.1 package (zip) to import into an LMS. Select-organ questions are exported as a custom interaction.",
+            schema: { type: "string", enum: ["json", "qti"], default: "json" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The export document, or the QTI package.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/QuizExportDocument" },
+              },
+              "application/zip": {
+                schema: { type: "string", format: "binary" },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid studyYear or format parameter.",
+          },
+        },
+      },
+    },
+    "/api/quizzes/{id}/export": {
+      get: {
+        summary: "Export a Quiz",
+        description:
+          "Exports a quiz as a portable JSON document, see `GET /api/quizzes/export`. Returned as a file download.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the quiz to export.",
+            schema: { type: "string" },
+          },
+          {
+            name: "format",
+            in: "query",
+            required: false,
+            description:
+              "`json` (default) for the export document, or `qti` for a QTI 2.1 package (zip) to import into an LMS. Select-organ questions are exported as a custom interaction.",
+            schema: { type: "string", enum: ["json", "qti"], default: "json" },
+          },
+        ],
+        responses: {
+          "200": {
+            description:
+              "The export document with the quiz, or the QTI package.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/QuizExportDocument" },
+              },
+              "application/zip": {
+                schema: { type: "string", format: "binary" },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid quiz ID or format parameter.",
+          },
+          "404": {
+            description: "Quiz not found.",
+          },
+        },
+      },
+    },
+    "/api/quizzes/import": {
+      post: {
+        summary: "Import Quizzes",
+        description:
+          "Imports the quizzes of an export document, or of a QTI 2.1 package (zip body), as new quizzes. Select-organ targets are resolved by mesh and organ group name. Quizzes with a target that does not exist in this database, or with invalid content, are skipped and listed in the report. QTI items other than choice, text entry and our select-organ custom interaction are left out and listed in `skippedItems`.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "dryRun",
+            in: "query",
+            required: false,
+            description:
+              "Set to `true` to only validate the quizzes and resolve their targets, without saving them.",
+            schema: { type: "boolean" },
+          },
+          {
+            name: "studyYear",
+            in: "query",
+            required: false,
+            description:
+              "The study year of the imported quizzes. Required for a QTI package.",
+            schema: { type: "integer", minimum: 1 },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/QuizExportDocument" },
+            },
+            "application/zip": {
+              schema: { type: "string", format: "binary" },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "The import report.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/QuizImportReport" },
+              },
+            },
+          },
+          "400": {
+            description:
+              "Invalid JSON body, not a quiz export document, an unsupported version, an invalid QTI package or a QTI package without a studyYear.",
+          },
+        },
+      },
+    },
+    "/api/quizzes/{id}/results/export": {
+      get: {
+        summary: "Export Quiz Results",
+        description:
+          "Exports the results of a quiz as CSV or Excel, e.g. for the grade system of the faculty. The submissions sheet has one row per submission with the student, the study year at submission, the submission date, the answer and result (Correct, Partial, Incorrect, Not graded or Not answered) of every question and the total score. The summary sheet has the totals per question. Submissions are graded against the version of the quiz they answered.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the quiz.",
+            schema: { type: "string" },
+          },
+          {
+            name: "format",
+            in: "query",
+            required: true,
+            description:
+              "`xlsx` for a workbook with both sheets, or `csv` for a single sheet.",
+            schema: { type: "string", enum: ["csv", "xlsx"] },
+          },
+          {
+            name: "sheet",
+            in: "query",
+            required: false,
+            description: "The sheet to export as CSV.",
+            schema: {
+              type: "string",
+              enum: ["submissions", "summary"],
+              default: "submissions",
+            },
+          },
+          { $ref: "#/components/parameters/ResultsStudyYear" },
+          { $ref: "#/components/parameters/ResultsFrom" },
+          { $ref: "#/components/parameters/ResultsTo" },
+          { $ref: "#/components/parameters/ResultsCohort" },
+          { $ref: "#/components/parameters/ResultsAttempt" },
+        ],
+        responses: {
+          "200": {
+            description: "The export file.",
+            content: {
+              "text/csv": {
+                schema: { type: "string" },
+              },
+              "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet":
+                {
+                  schema: { type: "string", format: "binary" },
+                },
+            },
+          },
+          "400": {
+            description: "Invalid quiz ID, format, sheet or filter parameter.",
+          },
+          "404": {
+            description: "Quiz not found.",
+          },
+        },
+      },
+    },
+    "/api/quizzes/{id}/results/report": {
+      get: {
+        summary: "Download Quiz Results Report",
+        description:
+          "Generates a printable PDF report of the results of a quiz: the quiz details and overall scores, followed by the number of submissions and correct answers, the correct answer and a bar chart of the given answers for every question, and the grouped responses to short-answer questions with their grades. Submissions are graded against the version of the quiz they answered.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the quiz.",
+            schema: { type: "string" },
+          },
+          { $ref: "#/components/parameters/ResultsStudyYear" },
+          { $ref: "#/components/parameters/ResultsFrom" },
+          { $ref: "#/components/parameters/ResultsTo" },
+          { $ref: "#/components/parameters/ResultsCohort" },
+          { $ref: "#/components/parameters/ResultsAttempt" },
+        ],
+        responses: {
+          "200": {
+            description: "The PDF report.",
+            content: {
+              "application/pdf": {
+                schema: { type: "string", format: "binary" },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid quiz ID or filter parameter.",
+          },
+          "404": {
+            description: "Quiz not found.",
+          },
+        },
+      },
+    },
+    "/api/quizzes/{id}/results/item-analysis": {
+      get: {
+        summary: "Get Item Analysis",
+        description:
+          "Returns the item analysis of a quiz. For every question: the difficulty (p-value, the mean credit), the point-biserial correlation with the score on the other questions, the discrimination index (difficulty in the upper 27% minus the lower 27% of the submissions by score) and, for MCQ/TF questions, how often every option was chosen overall and in both groups. Questions that should be reviewed are flagged. The reliability of the quiz is KR-20 if every answer is fully correct or incorrect, otherwise Cronbach's alpha. Questions with ungraded short answers are not analyzed.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "id",
+            in: "path",
+            required: true,
+            description: "The ID of the quiz.",
+            schema: { type: "string" },
+          },
+          { $ref: "#/components/parameters/ResultsStudyYear" },
+          { $ref: "#/components/parameters/ResultsFrom" },
+          { $ref: "#/components/parameters/ResultsTo" },
+          { $ref: "#/components/parameters/ResultsCohort" },
+          { $ref: "#/components/parameters/ResultsAttempt" },
+        ],
+        responses: {
+          "200": {
+            description: "The item analysis.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ItemAnalysis" },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid quiz ID or filter parameter.",
+          },
+          "404": {
+            description: "Quiz not found.",
+          },
+        },
+      },
+    },
+    "/api/results/organ-confusion": {
+      get: {
+        summary: "Get Organ Confusion",
+        description:
+          "Returns the confusion analysis of select-organ questions across all quizzes that are not in the trash. For every target mesh or organ group, the number of answers, correct answers and unanswered questions, and the meshes clicked instead, most frequent first. Targets and meshes are sorted by organ group and name, so they can be rendered as a confusion matrix. Answers are graded against the version of the quiz they answered.",
+        tags: ["Quizzes"],
+        security: [{ sessionCookie: [] }],
+        parameters: [
+          {
+            name: "studyYear",
+            in: "query",
+            required: false,
+            description: "Only include the quizzes of this study year.",
+            schema: { type: "integer" },
+          },
+        ],
+        responses: {
+          "200": {
+            description: "The confusion analysis.",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/OrganConfusion" },
+              },
+            },
+          },
+          "400": {
+            description: "Invalid studyYear parameter.",
+          },
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      apiKey: {
+        type: "http",
+        scheme: "bearer",
+        description:
+          "API key issued on /admin/api-keys. Required for the Unreal Engine client endpoints.",
+      },
+      sessionCookie: {
+        type: "apiKey",
+        in: "cookie",
+        name: "quiz_manager_session",
+        description:
+          "Signed session cookie set by /api/auth/login. Required for all quiz management endpoints.",
+      },
+    },
+    parameters: {
+      ResultsStudyYear: {
+        name: "studyYearAtSubmission",
+        in: "query",
+        required: false,
+        description:
+          "Only include submissions made in this study year. `studyYear` is accepted as well.",
+        schema: { type: "integer", minimum: 1 },
+      },
+      ResultsFrom: {
+        name: "from",
+        in: "query",
+        required: false,
+        description: "Only include submissions made at or after this date.",
+        schema: { type: "string", format: "date-time" },
+      },
+      ResultsTo: {
+        name: "to",
+        in: "query",
+        required: false,
+        description:
+          "Only include submissions made at or before this date. A date without a time includes that whole day (UTC).",
+        schema: { type: "string", format: "date-time" },
+      },
+      ResultsCohort: {
+        name: "cohort",
+        in: "query",
+        required: false,
+        description: "Only include submissions of students of this cohort.",
+        schema: { type: "string" },
+      },
+      ResultsAttempt: {
+        name: "attempt",
+        in: "query",
+        required: false,
+        description:
+          "Only include the first or latest submission of every student, determined before the study year and date filters. Anonymous submissions each count as their own attempt.",
+        schema: { type: "string", enum: ["first", "latest"] },
+      },
+    },
+    schemas: {
+      MeshCatalogItem: {
+        type: "object",
+        properties: {
+          _id: { type: "string" },
+          meshName: { type: "string" },
+          displayName: { type: "string" },
+          organGroupIds: { type: "array", items: { type: "string" } },
+          defaultStudyYear: { type: "integer" },
+        },
+      },
       NewMeshCatalogItem: {
         type: "object",
         properties: {
-          meshName: { type: "string" },
-          displayName: { type: "string" },
-          organGroupIds: { type: "array", items: { type: "string" } },
-          defaultStudyYear: { type: "integer" },
+          meshName: { type: "string" },
+          displayName: { type: "string" },
+          organGroupIds: { type: "array", items: { type: "string" } },
+          defaultStudyYear: { type: "integer" },
+        },
+      },
+      OrganGroup: {
+        type: "object",
+        properties: {
+          _id: { type: "string" },
+          groupName: { type: "string" },
+          description: { type: "string" },
+          defaultStudyYear: { type: "integer" },
+        },
+      },
+      Answer: {
+        type: "object",
+        properties: {
+          _id: {
+            type: "string",
+            description:
+              "The ID of an existing answer. Send it when updating a question, so submissions that selected the answer stay valid.",
+          },
+          text: { type: "string" },
+          isCorrect: { type: "boolean" },
+        },
+      },
+      Question: {
+        type: "object",
+        properties: {
+          questionText: { type: "string" },
+          type: {
+            type: "string",
+            enum: [
+              "multiple-choice",
+              "true-false",
+              "select-organ",
+              "short-answer",
+            ],
+          },
+          answers: {
+            type: "array",
+            items: { $ref: "#/components/schemas/Answer" },
+            description:
+              "Multiple-choice and true/false only, empty for the other types.",
+          },
+          targetType: { type: "string", enum: ["mesh", "group"] },
+          target_id: { type: "string" },
+          acceptedAnswers: {
+            type: "array",
+            items: { type: "string" },
+            description:
+              "Short-answer only. Answers graded as correct, matched case- and diacritic-insensitive.",
+          },
+          typoTolerance: {
+            type: "integer",
+            minimum: 0,
+            maximum: 5,
+            description:
+              "Short-answer only. Max edit distance for a typo, based on the answer length if not set.",
+          },
+          bankQuestion_id: {
+            type: "string",
+            description:
+              "Set when the question was added from the question bank.",
+          },
+          bankLink: {
+            type: "string",
+            enum: ["reference", "copy"],
+            description:
+              "A reference is overwritten with the bank question whenever the quiz or the bank question is saved, a copy is independent.",
+          },
+        },
+      },
+      Quiz: {
+        type: "object",
+        properties: {
+          _id: { type: "string" },
+          title: { type: "string" },
+          description: { type: "string" },
+          studyYear: { type: "integer" },
+          questions: {
+            type: "array",
+            items: { $ref: "#/components/schemas/Question" },
+          },
+          scheduledAt: { type: "string", format: "date-time" },
+          opensAt: {
+            type: "string",
+            format: "date-time",
+            nullable: true,
+            description: "Submissions are accepted from this moment.",
+          },
+          closesAt: {
+            type: "string",
+            format: "date-time",
+            nullable: true,
+            description:
+              "Submissions are accepted until this moment plus the grace period.",
+          },
+          gracePeriodMinutes: {
+            type: "integer",
+            nullable: true,
+            description:
+              "Minutes after closing in which late submissions are accepted. Defaults to SUBMISSION_GRACE_PERIOD_MINUTES (5).",
+          },
+          shuffleQuestions: {
+            type: "boolean",
+            description:
+              "Presents the questions in a different order to each student.",
+          },
+          shuffleAnswers: {
+            type: "boolean",
+            description:
+              "Presents the answers of multiple-choice questions in a different order to each student.",
+          },
+          version: {
+            type: "integer",
+            description:
+              "Incremented on every save. Quizzes that were not saved since versioning have no version and are version 1.",
+          },
+          deletedAt: {
+            type: "string",
+            format: "date-time",
+            nullable: true,
+            description: "Set while the quiz is in the trash.",
+          },
+          createdAt: { type: "string", format: "date-time" },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      NewQuiz: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          description: { type: "string" },
+          studyYear: { type: "integer" },
+          scheduledAt: { type: "string", format: "date-time" },
+          opensAt: {
+            type: "string",
+            format: "date-time",
+            nullable: true,
+            description: "Submissions are accepted from this moment.",
+          },
+          closesAt: {
+            type: "string",
+            format: "date-time",
+            nullable: true,
+            description:
+              "Submissions are accepted until this moment plus the grace period.",
+          },
+          gracePeriodMinutes: {
+            type: "integer",
+            nullable: true,
+            description:
+              "Minutes after closing in which late submissions are accepted. Defaults to SUBMISSION_GRACE_PERIOD_MINUTES (5).",
+          },
+          shuffleQuestions: {
+            type: "boolean",
+            description:
+              "Presents the questions in a different order to each student.",
+          },
+          shuffleAnswers: {
+            type: "boolean",
+            description:
+              "Presents the answers of multiple-choice questions in a different order to each student.",
+          },
+          questions: {
+            type: "array",
+            items: { $ref: "#/components/schemas/Question" },
+          },
+        },
+      },
+      SubmissionAnswer: {
+        type: "object",
+        properties: {
+          question_id: { type: "string" },
+          selectedAnswer_id: {
+            type: "string",
+            description:
+              "The `_id` of the selected answer of a multiple-choice or true/false question.",
+          },
+          selectedAnswerId_Index: {
+            type: "integer",
+            deprecated: true,
+            description:
+              "Only accepted when submitting: the position of the selected answer in the order it was presented. The server stores it as `selectedAnswer_id`.",
+          },
+          responseText_ClickedMesh_id: { type: "string" },
+          responseText_ShortAnswer: { type: "string" },
+          isCorrect: {
+            type: "boolean",
+            description:
+              "Set by the server when grading, absent for answers that cannot be graded automatically.",
+          },
+          credit: {
+            type: "number",
+            description:
+              "Score for this answer between 0 and 1. Partially correct short answers get 0.5.",
+          },
+          manualVerdict: {
+            type: "string",
+            enum: ["correct", "incorrect", "partial"],
+          },
+        },
+      },
+      Submission: {
+        type: "object",
+        properties: {
+          _id: { type: "string" },
+          quiz_id: { type: "string" },
+          student_id: { type: "string" },
+          studyYearAtSubmission: { type: "integer" },
+          submittedAt: { type: "string", format: "date-time" },
+          answers: {
+            type: "array",
+            items: { $ref: "#/components/schemas/SubmissionAnswer" },
+          },
+          score: {
+            type: "number",
+            description: "Sum of the answer credits.",
+          },
+          maxScore: {
+            type: "integer",
+            description: "Number of questions in the quiz.",
+          },
+          quizVersion: {
+            type: "integer",
+            description:
+              "The version of the quiz that was answered and graded against. Version 1 if not set.",
+          },
+          presentedOrder: {
+            type: "array",
+            description:
+              "The order in which the questions and answers were presented to the student, absent if the quiz was not shuffled.",
+            items: {
+              type: "object",
+              properties: {
+                question_id: { type: "string" },
+                answerOrder: {
+                  type: "array",
+                  description:
+                    "The indexes of the quiz answers in the presented order.",
+                  items: { type: "integer" },
+                },
+              },
+            },
+          },
+        },
+      },
+      SubmissionCreated: {
+        type: "object",
+        properties: {
+          success: { type: "boolean" },
+          submissionId: { type: "string" },
+          score: { type: "number" },
+          maxScore: { type: "integer" },
+          results: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                question_id: { type: "string" },
+                isCorrect: { type: "boolean", nullable: true },
+              },
+            },
+          },
+          data: { $ref: "#/components/schemas/Submission" },
+        },
+      },
+      NewSubmission: {
+        type: "object",
+        properties: {
+          quiz_id: { type: "string" },
+          student_id: {
+            type: "string",
+            description: "The ID of the submitting student (optional).",
+          },
+          studentEmail: {
+            type: "string",
+            description:
+              "The email of the submitting student, used when student_id is not given (optional).",
+          },
+          quizVersion: {
+            type: "integer",
+            description:
+              "The version of the quiz the student answered (optional), defaults to the current version.",
+          },
+          studyYearAtSubmission: { type: "integer" },
+          submittedAt: { type: "string", format: "date-time" },
+          answers: {
+            type: "array",
+            items: { $ref: "#/components/schemas/SubmissionAnswer" },
+          },
+        },
+      },
+      AnswerBreakdown: {
+        type: "object",
+        properties: {
+          answerText: { type: "string" },
+          studentCount: { type: "integer" },
+          isCorrectOption: { type: "boolean" },
+        },
+      },
+      QuestionResult: {
+        type: "object",
+        properties: {
+          questionId: { type: "string" },
+          questionText: { type: "string" },
+          questionType: { type: "string" },
+          totalSubmissionsForQuestion: { type: "integer" },
+          totalCorrect: { type: "integer" },
+          totalPartiallyCorrect: { type: "integer" },
+          answersBreakdown: {
+            type: "array",
+            items: { $ref: "#/components/schemas/AnswerBreakdown" },
+          },
+          submittedTextAnswers: { type: "array", items: { type: "string" } },
+          shortAnswerResponses: {
+            type: "array",
+            items: { $ref: "#/components/schemas/ShortAnswerResponse" },
+          },
+          acceptedAnswers: { type: "array", items: { type: "string" } },
+          correctTargetDisplayName: { type: "string" },
+        },
+      },
+      ShortAnswerResponse: {
+        type: "object",
+        properties: {
+          responseText: { type: "string" },
+          studentCount: { type: "integer" },
+          isCorrect: { type: "boolean" },
+          credit: { type: "number" },
+          manualGrade: {
+            type: "object",
+            properties: {
+              verdict: {
+                type: "string",
+                enum: ["correct", "incorrect", "partial"],
+              },
+              comment: { type: "string" },
+              gradedByName: { type: "string" },
+              updatedAt: { type: "string", format: "date-time" },
+            },
+          },
+          matchType: {
+            type: "string",
+            enum: ["exact", "normalized", "fuzzy", "none"],
+          },
+          matchedAnswer: { type: "string" },
+          distance: { type: "integer" },
         },
       },
-      OrganGroup: {
+      User: {
         type: "object",
         properties: {
           _id: { type: "string" },
-          groupName: { type: "string" },
-          description: { type: "string" },
-          defaultStudyYear: { type: "integer" },
+          name: { type: "string" },
+          email: { type: "string" },
+          role: { type: "string", enum: ["teacher", "admin"] },
         },
       },
-      Answer: {
+      NewUser: {
         type: "object",
         properties: {
-          text: { type: "string" },
-          isCorrect: { type: "boolean" },
+          name: { type: "string" },
+          email: { type: "string" },
+          password: { type: "string", minLength: 8 },
+          role: { type: "string", enum: ["teacher", "admin"] },
         },
       },
-      Question: {
+      LoginRequest: {
         type: "object",
         properties: {
-          questionText: { type: "string" },
+          email: { type: "string" },
+          password: { type: "string" },
+        },
+      },
+      ApiClient: {
+        type: "object",
+        properties: {
+          _id: { type: "string" },
+          name: { type: "string" },
+          keyPrefix: { type: "string" },
+          revokedAt: { type: "string", format: "date-time", nullable: true },
+          lastUsedAt: { type: "string", format: "date-time" },
+          usageCount: { type: "integer" },
+          usageByEndpoint: {
+            type: "object",
+            additionalProperties: { type: "integer" },
+          },
+          scopes: {
+            type: "array",
+            items: { type: "string", enum: ["select-organ-targets"] },
+          },
+          createdAt: { type: "string", format: "date-time" },
+        },
+      },
+      ShortAnswerGrade: {
+        type: "object",
+        properties: {
+          _id: { type: "string" },
+          quiz_id: { type: "string" },
+          question_id: { type: "string" },
+          responseText: { type: "string" },
+          verdict: {
+            type: "string",
+            enum: ["correct", "incorrect", "partial"],
+          },
+          comment: { type: "string" },
+          gradedBy: { type: "string" },
+          gradedByName: { type: "string" },
+          updatedAt: { type: "string", format: "date-time" },
+        },
+      },
+      NewShortAnswerGrade: {
+        type: "object",
+        required: ["question_id", "responseText", "verdict"],
+        properties: {
+          question_id: { type: "string" },
+          responseText: { type: "string" },
+          verdict: {
+            type: "string",
+            enum: ["correct", "incorrect", "partial"],
+          },
+          comment: { type: "string" },
+        },
+      },
+      Student: {
+        type: "object",
+        properties: {
+          _id: { type: "string" },
+          name: { type: "string" },
+          email: { type: "string" },
+          studyYear: { type: "integer" },
+          cohort: { type: "string" },
+        },
+      },
+      NewStudent: {
+        type: "object",
+        required: ["name", "email"],
+        properties: {
+          name: { type: "string" },
+          email: { type: "string" },
+          studyYear: { type: "integer", nullable: true },
+          cohort: { type: "string", nullable: true },
+        },
+      },
+      AccuracyResult: {
+        type: "object",
+        properties: {
+          answered: {
+            type: "integer",
+            description: "Number of graded answers.",
+          },
+          correct: {
+            type: "number",
+            description: "Sum of the answer credits.",
+          },
+          accuracy: { type: "number", description: "Percentage 0-100." },
+        },
+      },
+      StudentResults: {
+        type: "object",
+        properties: {
+          student: { $ref: "#/components/schemas/Student" },
+          submissionCount: { type: "integer" },
+          averagePercentage: { type: "number" },
+          submissions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                submissionId: { type: "string" },
+                quizId: { type: "string" },
+                quizTitle: { type: "string" },
+                submittedAt: { type: "string", format: "date-time" },
+                studyYearAtSubmission: { type: "integer" },
+                score: { type: "number" },
+                maxScore: { type: "integer" },
+                percentage: { type: "number" },
+                accuracyByQuestionType: {
+                  type: "object",
+                  additionalProperties: { type: "number" },
+                },
+                accuracyByOrganGroup: {
+                  type: "object",
+                  description: "Accuracy percentage per organ group ID.",
+                  additionalProperties: { type: "number" },
+                },
+              },
+            },
+          },
+          byQuestionType: {
+            type: "array",
+            items: {
+              allOf: [
+                { $ref: "#/components/schemas/AccuracyResult" },
+                {
+                  type: "object",
+                  properties: { questionType: { type: "string" } },
+                },
+              ],
+            },
+          },
+          byOrganGroup: {
+            type: "array",
+            items: {
+              allOf: [
+                { $ref: "#/components/schemas/AccuracyResult" },
+                {
+                  type: "object",
+                  properties: {
+                    organGroupId: { type: "string" },
+                    groupName: { type: "string" },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      ClientQuestion: {
+        type: "object",
+        properties: {
+          _id: { type: "string" },
           type: {
             type: "string",
             enum: [
@@ -450,101 +2613,460 @@ const specContent = {
               "short-answer",
             ],
           },
+          questionText: { type: "string" },
           answers: {
             type: "array",
-            items: { $ref: "#/components/schemas/Answer" },
+            description: "For multiple-choice and true-false questions.",
+            items: {
+              type: "object",
+              properties: {
+                _id: { type: "string" },
+                text: { type: "string" },
+              },
+            },
+          },
+          target: {
+            type: "object",
+            description:
+              "For select-organ questions, only for API keys with the `select-organ-targets` scope since it is the answer. A mesh target has `meshName` and `displayName`, a group target has `groupName` and the `meshNames` of the group.",
+            properties: {
+              type: { type: "string", enum: ["mesh", "group"] },
+              meshName: { type: "string", example: "Heart" },
+              displayName: { type: "string" },
+              groupName: { type: "string" },
+              meshNames: { type: "array", items: { type: "string" } },
+            },
           },
-          targetType: { type: "string", enum: ["mesh", "group"] },
-          target_id: { type: "string" },
         },
       },
-      Quiz: {
+      ClientQuiz: {
         type: "object",
         properties: {
           _id: { type: "string" },
+          version: {
+            type: "integer",
+            description:
+              "The version of the quiz, send it back as `quizVersion` with the submission.",
+          },
           title: { type: "string" },
           description: { type: "string" },
           studyYear: { type: "integer" },
+          opensAt: { type: "string", format: "date-time" },
+          closesAt: { type: "string", format: "date-time" },
           questions: {
             type: "array",
-            items: { $ref: "#/components/schemas/Question" },
+            items: { $ref: "#/components/schemas/ClientQuestion" },
+          },
+        },
+      },
+      StudentQuiz: {
+        description:
+          "A quiz as a student may see it: the fields of a Quiz, but the questions only have their ID, type, text and the answer options of MCQ/TF questions.",
+        allOf: [
+          { $ref: "#/components/schemas/Quiz" },
+          {
+            type: "object",
+            properties: {
+              questions: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    _id: { type: "string" },
+                    type: { type: "string" },
+                    questionText: { type: "string" },
+                    answers: {
+                      type: "array",
+                      items: {
+                        type: "object",
+                        properties: {
+                          _id: { type: "string" },
+                          text: { type: "string" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        ],
+      },
+      BankQuestion: {
+        allOf: [
+          { $ref: "#/components/schemas/Question" },
+          {
+            type: "object",
+            properties: {
+              organGroupIds: { type: "array", items: { type: "string" } },
+              studyYear: { type: "integer", nullable: true },
+              difficulty: {
+                type: "string",
+                enum: ["easy", "medium", "hard"],
+                nullable: true,
+              },
+            },
+          },
+        ],
+      },
+      QuizVersionSummary: {
+        type: "object",
+        properties: {
+          version: { type: "integer" },
+          title: { type: "string" },
+          questionCount: { type: "integer" },
+          submissionCount: {
+            type: "integer",
+            description: "Number of submissions that answered this version.",
+          },
+          editedByName: {
+            type: "string",
+            description: "The teacher who saved this version.",
           },
-          scheduledAt: { type: "string", format: "date-time" },
           createdAt: { type: "string", format: "date-time" },
-          updatedAt: { type: "string", format: "date-time" },
+          isCurrent: { type: "boolean" },
         },
       },
-      NewQuiz: {
+      QuizVersion: {
         type: "object",
         properties: {
+          quiz_id: { type: "string" },
+          version: { type: "integer" },
           title: { type: "string" },
           description: { type: "string" },
           studyYear: { type: "integer" },
-          scheduledAt: { type: "string", format: "date-time" },
           questions: {
             type: "array",
             items: { $ref: "#/components/schemas/Question" },
           },
+          scheduledAt: { type: "string", format: "date-time" },
+          opensAt: { type: "string", format: "date-time" },
+          closesAt: { type: "string", format: "date-time" },
+          gracePeriodMinutes: { type: "integer" },
+          shuffleQuestions: { type: "boolean" },
+          shuffleAnswers: { type: "boolean" },
+          editedByName: { type: "string" },
+          createdAt: { type: "string", format: "date-time" },
         },
       },
-      SubmissionAnswer: {
+      AffectedQuestion: {
         type: "object",
         properties: {
-          question_id: { type: "string" },
-          selectedAnswerId_Index: { type: "integer" },
-          responseText_ClickedMesh_id: { type: "string" },
-          responseText_ShortAnswer: { type: "string" },
+          questionId: { type: "string" },
+          questionText: { type: "string" },
+          answerCount: {
+            type: "integer",
+            description: "Number of submissions that answered the question.",
+          },
+          changedFields: {
+            type: "array",
+            description: "The changed fields of a changed question.",
+            items: { type: "string" },
+          },
         },
       },
-      Submission: {
+      QuizEditImpact: {
+        type: "object",
+        properties: {
+          submissionCount: { type: "integer" },
+          removedQuestions: {
+            type: "array",
+            items: { $ref: "#/components/schemas/AffectedQuestion" },
+          },
+          changedQuestions: {
+            type: "array",
+            description:
+              "Questions whose type, answers, target or accepted answers changed.",
+            items: { $ref: "#/components/schemas/AffectedQuestion" },
+          },
+        },
+      },
+      TrashedQuiz: {
         type: "object",
         properties: {
           _id: { type: "string" },
-          quiz_id: { type: "string" },
-          student_id: { type: "string" },
-          studyYearAtSubmission: { type: "integer" },
-          submittedAt: { type: "string", format: "date-time" },
-          answers: {
+          title: { type: "string" },
+          studyYear: { type: "integer" },
+          questionCount: { type: "integer" },
+          submissionCount: { type: "integer" },
+          deletedAt: { type: "string", format: "date-time" },
+        },
+      },
+      PortableTarget: {
+        type: "object",
+        required: ["type"],
+        properties: {
+          type: { type: "string", enum: ["mesh", "group"] },
+          meshName: {
+            type: "string",
+            description: "The mesh name, for a mesh target.",
+          },
+          groupName: {
+            type: "string",
+            description: "The organ group name, for a group target.",
+          },
+        },
+      },
+      QuizExportDocument: {
+        type: "object",
+        required: ["format", "version", "quizzes"],
+        properties: {
+          format: { type: "string", enum: ["quiz-manager/quizzes"] },
+          version: {
+            type: "integer",
+            description: "The version of the export format.",
+            example: 1,
+          },
+          exportedAt: { type: "string", format: "date-time" },
+          quizzes: {
             type: "array",
-            items: { $ref: "#/components/schemas/SubmissionAnswer" },
+            items: {
+              type: "object",
+              required: ["title", "studyYear", "questions"],
+              properties: {
+                title: { type: "string" },
+                description: { type: "string" },
+                studyYear: { type: "integer" },
+                scheduledAt: {
+                  type: "string",
+                  format: "date-time",
+                  nullable: true,
+                },
+                opensAt: {
+                  type: "string",
+                  format: "date-time",
+                  nullable: true,
+                },
+                closesAt: {
+                  type: "string",
+                  format: "date-time",
+                  nullable: true,
+                },
+                gracePeriodMinutes: { type: "integer", nullable: true },
+                shuffleQuestions: { type: "boolean" },
+                shuffleAnswers: { type: "boolean" },
+                questions: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    required: ["questionText", "type"],
+                    properties: {
+                      questionText: { type: "string" },
+                      type: {
+                        type: "string",
+                        enum: [
+                          "multiple-choice",
+                          "true-false",
+                          "select-organ",
+                          "short-answer",
+                        ],
+                      },
+                      answers: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            text: { type: "string" },
+                            isCorrect: { type: "boolean" },
+                          },
+                        },
+                      },
+                      target: { $ref: "#/components/schemas/PortableTarget" },
+                      acceptedAnswers: {
+                        type: "array",
+                        items: { type: "string" },
+                      },
+                      typoTolerance: { type: "integer" },
+                    },
+                  },
+                },
+              },
+            },
           },
         },
       },
-      NewSubmission: {
+      QuizImportReport: {
         type: "object",
         properties: {
-          quiz_id: { type: "string" },
-          student_id: { type: "string" },
-          studyYearAtSubmission: { type: "integer" },
-          submittedAt: { type: "string", format: "date-time" },
-          answers: {
+          dryRun: { type: "boolean" },
+          imported: {
             type: "array",
-            items: { $ref: "#/components/schemas/SubmissionAnswer" },
+            description:
+              "The imported quizzes, or the quizzes that would be imported in a dry run.",
+            items: {
+              type: "object",
+              properties: {
+                title: { type: "string" },
+                questionCount: { type: "integer" },
+                _id: {
+                  type: "string",
+                  description: "The ID of the new quiz, not set in a dry run.",
+                },
+              },
+            },
+          },
+          skipped: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                title: { type: "string" },
+                errors: { type: "array", items: { type: "string" } },
+              },
+            },
+          },
+          unresolvedReferences: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                quizTitle: { type: "string" },
+                questionIndex: { type: "integer" },
+                questionText: { type: "string" },
+                target: { $ref: "#/components/schemas/PortableTarget" },
+              },
+            },
+          },
+          skippedItems: {
+            type: "array",
+            description:
+              "Only for a QTI package: the items that could not be converted to a question.",
+            items: {
+              type: "object",
+              properties: {
+                quizTitle: { type: "string" },
+                item: {
+                  type: "string",
+                  description: "The identifier or path of the item.",
+                },
+                reason: { type: "string" },
+              },
+            },
           },
         },
       },
-      AnswerBreakdown: {
+      ItemAnalysis: {
         type: "object",
         properties: {
-          answerText: { type: "string" },
-          studentCount: { type: "integer" },
-          isCorrectOption: { type: "boolean" },
+          submissionCount: { type: "integer" },
+          upperLowerGroupSize: {
+            type: "integer",
+            description: "Number of submissions in the upper and lower group.",
+          },
+          reliability: {
+            type: "object",
+            properties: {
+              method: { type: "string", enum: ["KR-20", "Cronbach's alpha"] },
+              coefficient: { type: "number", nullable: true },
+              itemCount: { type: "integer" },
+              submissionCount: {
+                type: "integer",
+                description: "Submissions that had every analyzed question.",
+              },
+            },
+          },
+          items: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                questionId: { type: "string" },
+                questionText: { type: "string" },
+                questionType: { type: "string" },
+                submissionCount: { type: "integer" },
+                answeredCount: { type: "integer" },
+                difficulty: { type: "number", nullable: true },
+                pointBiserial: { type: "number", nullable: true },
+                discriminationIndex: { type: "number", nullable: true },
+                upperDifficulty: { type: "number", nullable: true },
+                lowerDifficulty: { type: "number", nullable: true },
+                options: {
+                  type: "array",
+                  description: "For MCQ/TF questions.",
+                  items: {
+                    type: "object",
+                    properties: {
+                      answerId: { type: "string" },
+                      answerText: { type: "string" },
+                      isCorrect: { type: "boolean" },
+                      count: { type: "integer" },
+                      proportion: { type: "number" },
+                      upperProportion: { type: "number", nullable: true },
+                      lowerProportion: { type: "number", nullable: true },
+                      discrimination: { type: "number", nullable: true },
+                    },
+                  },
+                },
+                flags: {
+                  type: "array",
+                  items: {
+                    type: "string",
+                    enum: [
+                      "not-graded",
+                      "very-difficult",
+                      "very-easy",
+                      "low-discrimination",
+                      "negative-discrimination",
+                      "distractor-attracts-upper-group",
+                      "non-functioning-distractors",
+                    ],
+                  },
+                },
+              },
+            },
+          },
         },
       },
-      QuestionResult: {
+      OrganConfusion: {
         type: "object",
         properties: {
-          questionId: { type: "string" },
-          questionText: { type: "string" },
-          questionType: { type: "string" },
-          totalSubmissionsForQuestion: { type: "integer" },
-          totalCorrect: { type: "integer" },
-          answersBreakdown: {
+          targets: {
             type: "array",
-            items: { $ref: "#/components/schemas/AnswerBreakdown" },
+            items: {
+              type: "object",
+              properties: {
+                targetType: { type: "string", enum: ["mesh", "group"] },
+                targetId: { type: "string" },
+                displayName: { type: "string" },
+                organGroupIds: { type: "array", items: { type: "string" } },
+                answerCount: { type: "integer" },
+                correctCount: { type: "integer" },
+                noAnswerCount: { type: "integer" },
+                confusions: {
+                  type: "array",
+                  description: "Meshes clicked instead of the target.",
+                  items: {
+                    type: "object",
+                    properties: {
+                      meshId: { type: "string" },
+                      count: { type: "integer" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          meshes: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                meshId: { type: "string" },
+                displayName: { type: "string" },
+                organGroupIds: { type: "array", items: { type: "string" } },
+              },
+            },
+          },
+          organGroups: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                groupId: { type: "string" },
+                groupName: { type: "string" },
+              },
+            },
           },
-          submittedTextAnswers: { type: "array", items: { type: "string" } },
-          correctTargetDisplayName: { type: "string" },
         },
       },
     },
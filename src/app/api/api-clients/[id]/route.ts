@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { ApiClient } from "@/app/models/ApiClient";
+import { Types } from "mongoose";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+/**
+ * Handles DELETE requests to revoke an API key.
+ * Only available to admins (enforced by the middleware).
+ *
+ * The API client is not removed from the database so its usage counters stay
+ * available, but the key is rejected from then on. Returns a 404 status if the
+ * client does not exist or has already been revoked.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the API client ID.
+ * @returns {Promise<NextResponse>} The response containing the revoked API client or an error message.
+ */
+export async function DELETE(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const clientId = context.params.id;
+
+    if (!clientId || !Types.ObjectId.isValid(clientId)) {
+      return NextResponse.json(
+        { error: "Invalid API client ID format" },
+        { status: 400 }
+      );
+    }
+
+    const revokedClient = await ApiClient.findOneAndUpdate(
+      { _id: clientId, revokedAt: null },
+      { revokedAt: new Date() },
+      { new: true }
+    ).lean();
+
+    if (!revokedClient) {
+      return NextResponse.json(
+        { error: "API client not found or already revoked" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { message: "API key revoked successfully", revokedClient },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to revoke API key:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to revoke API key", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { API_CLIENT_SCOPES, ApiClient } from "@/app/models/ApiClient";
+import { generateApiKey, hashApiKey } from "@/app/lib/apiKeys";
+import { getSessionFromRequest } from "@/app/lib/session";
+import { Types } from "mongoose";
+import { z } from "zod";
+
+const apiClientRequestBodySchema = z.object({
+  name: z
+    .string({ required_error: "Name is required" })
+    .trim()
+    .min(1, { message: "Name must be at least 1 character long" }),
+  scopes: z.array(z.enum(API_CLIENT_SCOPES)).default([]),
+});
+
+/**
+ * Handles GET requests to retrieve all API clients, including revoked ones,
+ * sorted by creation date in descending order. Key hashes are never returned.
+ * Only available to admins (enforced by the middleware).
+ *
+ * @returns {Promise<NextResponse>} The response containing the list of API clients or an error message.
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const clients = await ApiClient.find().sort({ createdAt: -1 }).lean();
+    return NextResponse.json(clients, { status: 200 });
+  } catch (error) {
+    console.error("Failed to get API clients:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to get API clients", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handles POST requests to issue a new API key for the Unreal Engine client.
+ * Only available to admins (enforced by the middleware).
+ *
+ * The function expects a JSON body with the following structure:
+ * - name: string (required) - A name to recognise the client by, e.g. "Anatomy lab PCs".
+ * - scopes: string[] (optional) - Additional permissions, e.g. "select-organ-targets"
+ *   to include the targets of select-organ questions in /api/client/quizzes.
+ *
+ * Only a hash of the key is stored. The plain key is returned once in the `apiKey`
+ * field of the response with a 201 status and cannot be retrieved afterwards.
+ * Returns a 400 status if validation fails.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the created API client and key or an error message.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const body = await req.json();
+
+    const validationResult = apiClientRequestBodySchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.message,
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const session = await getSessionFromRequest(req);
+    const apiKey = generateApiKey();
+
+    const client = await ApiClient.create({
+      name: validationResult.data.name,
+      scopes: validationResult.data.scopes,
+      keyPrefix: apiKey.slice(0, 10),
+      keyHash: hashApiKey(apiKey),
+      createdBy:
+        session && Types.ObjectId.isValid(session.sub)
+          ? new Types.ObjectId(session.sub)
+          : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        _id: client._id.toString(),
+        name: client.name,
+        keyPrefix: client.keyPrefix,
+        scopes: client.scopes,
+        usageCount: client.usageCount,
+        createdAt: client.createdAt,
+        apiKey,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to create API client:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to create API client", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { User } from "@/app/models/User";
+import { verifyPassword } from "@/app/lib/password";
+import {
+  SESSION_COOKIE_NAME,
+  createSessionToken,
+  getSessionCookieOptions,
+} from "@/app/lib/session";
+import { z } from "zod";
+
+const loginRequestBodySchema = z.object({
+  email: z
+    .string({ required_error: "Email is required" })
+    .trim()
+    .email({ message: "Email must be a valid email address" }),
+  password: z
+    .string({ required_error: "Password is required" })
+    .min(1, { message: "Password is required" }),
+});
+
+/**
+ * Handles POST requests to log a teacher or admin in.
+ *
+ * The function expects a JSON body with the following structure:
+ * - email: string (required) - The email address of the user.
+ * - password: string (required) - The password of the user.
+ *
+ * If the credentials are valid, a signed session cookie is set and the user
+ * (without password hash) is returned with a 200 status. Returns a 400 status
+ * if the body is invalid and a 401 status if the credentials are incorrect.
+ * Logs and returns a 500 status with an error message if an exception occurs.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the logged in user or an error message.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const body = await req.json();
+
+    const validationResult = loginRequestBodySchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.message,
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { email, password } = validationResult.data;
+    const user = await User.findOne({ email: email.toLowerCase() }).select(
+      "+passwordHash"
+    );
+
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    user.lastLoginAt = new Date();
+    await user.save();
+
+    const sessionUser = {
+      sub: user._id.toString(),
+      name: user.name,
+      email: user.email,
+      role: user.role,
+    };
+    const token = await createSessionToken({
+      ...sessionUser,
+      ver: user.sessionVersion ?? 0,
+    });
+
+    const response = NextResponse.json(
+      {
+        _id: sessionUser.sub,
+        name: sessionUser.name,
+        email: sessionUser.email,
+        role: sessionUser.role,
+      },
+      { status: 200 }
+    );
+    response.cookies.set(SESSION_COOKIE_NAME, token, getSessionCookieOptions());
+    return response;
+  } catch (error) {
+    console.error("Failed to log in:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to log in", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import {
+  SESSION_COOKIE_NAME,
+  revokeSessionsFromRequest,
+} from "@/app/lib/session";
+
+/**
+ * Handles POST requests to log the current user out by clearing the session cookie.
+ * Revokes all sessions of the user, so copies of the session token (e.g. on
+ * other devices) stop working as well.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} A 200 response with the session cookie removed.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    await revokeSessionsFromRequest(req);
+
+    const response = NextResponse.json(
+      { message: "Logged out successfully" },
+      { status: 200 }
+    );
+    response.cookies.delete(SESSION_COOKIE_NAME);
+    return response;
+  } catch (error) {
+    console.error("Failed to log out:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to log out", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { getSessionFromRequest } from "@/app/lib/session";
+
+/**
+ * Handles GET requests to retrieve the currently logged in user.
+ *
+ * Reads the user from the signed session cookie. Returns a 401 status if there
+ * is no valid session or the session has been revoked.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the current user or an error message.
+ */
+export async function GET(req: Request): Promise<NextResponse> {
+  await dbConnect();
+  const session = await getSessionFromRequest(req);
+  if (!session) {
+    return NextResponse.json({ error: "Not logged in" }, { status: 401 });
+  }
+  return NextResponse.json(
+    {
+      _id: session.sub,
+      name: session.name,
+      email: session.email,
+      role: session.role,
+    },
+    { status: 200 }
+  );
+}
@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { User } from "@/app/models/User";
+import { hashPassword } from "@/app/lib/password";
+import { newUserRequestBodySchema } from "@/app/lib/userSchemas";
+import {
+  SESSION_COOKIE_NAME,
+  createSessionToken,
+  getSessionCookieOptions,
+} from "@/app/lib/session";
+
+/**
+ * Handles GET requests to check whether the initial admin account still needs to be created.
+ *
+ * @returns {Promise<NextResponse>} `{ setupRequired: boolean }` with a 200 status, or an error message.
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const userCount = await User.countDocuments();
+    return NextResponse.json(
+      { setupRequired: userCount === 0 },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to check setup status:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to check setup status", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handles POST requests to create the first admin account.
+ *
+ * Only allowed while there are no users in the database; afterwards new accounts
+ * have to be created by an admin through `/api/users`. The created user always
+ * gets the "admin" role and is logged in immediately.
+ *
+ * The function expects a JSON body with the following structure:
+ * - name: string (required) - The name of the admin.
+ * - email: string (required) - The email address used to log in.
+ * - password: string (required) - The password, at least 8 characters.
+ *
+ * Returns a 409 status if setup has already been completed and a 400 status if
+ * validation fails. On success, it returns the created user with a 201 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the created admin or an error message.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+
+    if ((await User.countDocuments()) > 0) {
+      return NextResponse.json(
+        { error: "Setup has already been completed" },
+        { status: 409 }
+      );
+    }
+
+    const body = await req.json();
+    const validationResult = newUserRequestBodySchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.message,
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, email, password } = validationResult.data;
+    const admin = await User.create({
+      name,
+      email,
+      passwordHash: await hashPassword(password),
+      role: "admin",
+      lastLoginAt: new Date(),
+    });
+
+    const token = await createSessionToken({
+      sub: admin._id.toString(),
+      name: admin.name,
+      email: admin.email,
+      role: admin.role,
+      ver: admin.sessionVersion,
+    });
+
+    const response = NextResponse.json(
+      {
+        _id: admin._id.toString(),
+        name: admin.name,
+        email: admin.email,
+        role: admin.role,
+      },
+      { status: 201 }
+    );
+    response.cookies.set(SESSION_COOKIE_NAME, token, getSessionCookieOptions());
+    return response;
+  } catch (error) {
+    console.error("Failed to complete setup:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to complete setup", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
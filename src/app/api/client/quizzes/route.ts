@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { authorizeApiClient } from "@/app/lib/apiKeys";
+import { findOpenQuizzes } from "@/app/lib/openQuizzes";
+import {
+  CLIENT_API_VERSION,
+  CLIENT_API_VERSION_HEADER,
+  SUPPORTED_CLIENT_API_VERSIONS,
+  loadClientTargets,
+  toClientQuiz,
+} from "@/app/lib/clientQuiz";
+
+/**
+ * Handles GET requests from the Unreal Engine client to discover the quizzes a
+ * student can take right now.
+ *
+ * Query Parameters:
+ * - studyYear: (required) The study year of the student.
+ * - student_id / studentEmail: (optional) The student taking the quizzes, shuffled
+ *   quizzes are returned in the order of this student.
+ *
+ * Returns the open quizzes of the study year, the same as `/api/quizzes/active`
+ * (see {@link findOpenQuizzes}), projected onto the versioned client contract (see
+ * lib/clientQuiz.ts): correct-answer flags and accepted short answers are left
+ * out. Select-organ targets are resolved to the mesh names used in UE, but only
+ * for clients with the "select-organ-targets" scope since they give the answer away.
+ *
+ * The client may send the contract version it understands in the
+ * `X-Client-Api-Version` header; the response always carries the version it
+ * was built with. Requires an API key or a teacher session, see
+ * {@link authorizeApiClient}. Returns a 400 status if the study year is
+ * missing or invalid, or if the requested version is not supported, and a 404
+ * status if the student is unknown.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the quizzes or an error message.
+ * @example
+ * GET /api/client/quizzes?studyYear=2
+ */
+export async function GET(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+
+    const access = await authorizeApiClient(req, "client-quizzes");
+    if (access instanceof NextResponse) return access;
+
+    const requestedVersion = req.headers.get(CLIENT_API_VERSION_HEADER);
+    if (
+      requestedVersion !== null &&
+      !SUPPORTED_CLIENT_API_VERSIONS.includes(Number(requestedVersion))
+    ) {
+      return NextResponse.json(
+        {
+          error: `Unsupported client API version: ${requestedVersion}`,
+          details: { supportedVersions: SUPPORTED_CLIENT_API_VERSIONS },
+        },
+        { status: 400 }
+      );
+    }
+
+    const openQuizzes = await findOpenQuizzes(new URL(req.url).searchParams);
+    if (openQuizzes instanceof NextResponse) return openQuizzes;
+    const { studyYear, now, quizzes } = openQuizzes;
+
+    const targets = access.scopes.includes("select-organ-targets")
+      ? await loadClientTargets(quizzes)
+      : null;
+
+    return NextResponse.json(
+      {
+        apiVersion: CLIENT_API_VERSION,
+        generatedAt: now,
+        studyYear,
+        quizzes: quizzes.map((quiz) => toClientQuiz(quiz, targets)),
+      },
+      {
+        status: 200,
+        headers: { [CLIENT_API_VERSION_HEADER]: String(CLIENT_API_VERSION) },
+      }
+    );
+  } catch (error) {
+    console.error("Failed to get client quizzes:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to get client quizzes", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -1,21 +1,26 @@
 import { NextResponse } from "next/server";
 import dbConnect from "@/app/lib/dbConnect";
 import { MeshCatalogItem } from "@/app/models/Quiz";
+import { authenticateApiClient } from "@/app/lib/apiKeys";
 
 /**
  * Handles GET requests to retrieve mesh catalog items from the database.
  * This function supports searching by displayName or meshName using a case-insensitive
  * regex and allows exact matching for a specific meshName.
+ * Requires an API key or a teacher session, see {@link authenticateApiClient}.
  *
  * @param {Request} req - The incoming HTTP request.
  * @returns {Promise<NextResponse>} A promise that resolves with a JSON response containing
- * the list of mesh catalog items and a status code of 200 on success, or an error message
- * with a status code of 500 on failure.
+ * the list of mesh catalog items and a status code of 200 on success, a 401 if the request
+ * is not authenticated, or an error message with a status code of 500 on failure.
  */
 export async function GET(req: Request): Promise<NextResponse> {
   try {
     await dbConnect();
 
+    const unauthorized = await authenticateApiClient(req, "mesh-catalog");
+    if (unauthorized) return unauthorized;
+
     const { searchParams } = new URL(req.url);
     const searchQuery = searchParams.get("search")?.trim();
     const meshNameQuery = searchParams.get("meshName")?.trim();
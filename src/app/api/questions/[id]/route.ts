@@ -0,0 +1,264 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { BankQuestion, Quiz } from "@/app/models/Quiz";
+import { bankQuestionRequestBodySchema } from "@/app/lib/questionSchemas";
+import {
+  getBankQuestionSyncImpact,
+  type QuestionContent,
+  syncReferencingQuizzes,
+  toBankQuestionData,
+  unlinkReferencingQuizzes,
+} from "@/app/lib/questionBank";
+import { getSessionFromRequest } from "@/app/lib/session";
+import { isConfirmed } from "@/app/lib/quizEditImpact";
+import { Types } from "mongoose";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+/**
+ * Handles GET requests to retrieve a single bank question by ID.
+ *
+ * Returns a 400 status if the ID is invalid and a 404 status if the question
+ * does not exist. On success, it returns the question together with the
+ * quizzes that use it (`usedIn`, with the link of every quiz) with a 200
+ * status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the question ID.
+ * @returns {Promise<NextResponse>} The response containing the question or an error message.
+ */
+export async function GET(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const questionId = context.params.id;
+
+    if (!questionId || !Types.ObjectId.isValid(questionId)) {
+      return NextResponse.json(
+        { error: "Invalid Question ID format" },
+        { status: 400 }
+      );
+    }
+
+    const question = await BankQuestion.findById(questionId).lean();
+    if (!question) {
+      return NextResponse.json(
+        { error: "Question not found" },
+        { status: 404 }
+      );
+    }
+
+    const bankQuestionId = new Types.ObjectId(questionId);
+    const quizzes = await Quiz.find({
+      "questions.bankQuestion_id": bankQuestionId,
+    })
+      .select("title studyYear questions.bankQuestion_id questions.bankLink")
+      .lean<
+        {
+          _id: Types.ObjectId;
+          title: string;
+          studyYear: number;
+          questions: {
+            bankQuestion_id?: Types.ObjectId;
+            bankLink?: "reference" | "copy";
+          }[];
+        }[]
+      >();
+    const usedIn = quizzes.map((quiz) => ({
+      quizId: quiz._id,
+      title: quiz.title,
+      studyYear: quiz.studyYear,
+      bankLink: quiz.questions.some(
+        (q) =>
+          q.bankQuestion_id?.equals(bankQuestionId) &&
+          q.bankLink === "reference"
+      )
+        ? "reference"
+        : "copy",
+    }));
+
+    return NextResponse.json({ ...question, usedIn }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to get bank question:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to get bank question", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handles PUT requests to update a bank question.
+ *
+ * Expects the same JSON body as `POST /api/questions`; answers that are sent
+ * with their `_id` keep it, see {@link toBankQuestionData}. Quizzes that use the
+ * question by reference are updated as well and get a new version, copies are
+ * left unchanged, as are quizzes in the trash. If the update changes the
+ * answer key of referencing quizzes that students already took (see
+ * {@link getBankQuestionSyncImpact}), it returns a 409 status with the affected
+ * quizzes, unless it is confirmed with the `confirm=true` query parameter.
+ * Returns a 400 status if validation fails and a 404 status if the question
+ * does not exist. On success, it returns the updated question and the number
+ * of updated quizzes (`syncedQuizzes`) with a 200 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the question ID.
+ * @returns {Promise<NextResponse>} The response containing the updated question or an error message.
+ */
+export async function PUT(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const questionId = context.params.id;
+
+    if (!questionId || !Types.ObjectId.isValid(questionId)) {
+      return NextResponse.json(
+        { error: "Invalid Question ID format" },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = bankQuestionRequestBodySchema.safeParse(
+      await req.json()
+    );
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.message,
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const currentQuestion = await BankQuestion.findById(questionId)
+      .select("answers")
+      .lean<{ answers?: { _id?: Types.ObjectId }[] }>();
+    if (!currentQuestion) {
+      return NextResponse.json(
+        { error: "Question not found" },
+        { status: 404 }
+      );
+    }
+
+    const questionData = toBankQuestionData(
+      validationResult.data,
+      currentQuestion.answers
+    );
+    if (!isConfirmed(req)) {
+      const impact = await getBankQuestionSyncImpact({
+        ...questionData,
+        _id: new Types.ObjectId(questionId),
+      });
+      if (impact.length > 0) {
+        return NextResponse.json(
+          {
+            error: `The question is used by ${impact.length} quiz(zes) with submissions. Changing its answers changes their results, confirm the update with ?confirm=true.`,
+            details: { quizzes: impact },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const update: any = { $set: {} };
+    const unset: Record<string, 1> = {};
+    Object.entries(questionData).forEach(([field, value]) => {
+      if (value === undefined) unset[field] = 1;
+      else update.$set[field] = value;
+    });
+    if (Object.keys(unset).length > 0) update.$unset = unset;
+
+    const updatedQuestion = await BankQuestion.findByIdAndUpdate(
+      questionId,
+      update,
+      { new: true, runValidators: true }
+    ).lean<QuestionContent & { _id: Types.ObjectId }>();
+    if (!updatedQuestion) {
+      return NextResponse.json(
+        { error: "Question not found" },
+        { status: 404 }
+      );
+    }
+
+    const syncedQuizzes = await syncReferencingQuizzes(
+      updatedQuestion,
+      await getSessionFromRequest(req)
+    );
+
+    return NextResponse.json(
+      { ...updatedQuestion, syncedQuizzes },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to update bank question:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to update bank question", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handles DELETE requests to remove a question from the question bank.
+ *
+ * Quizzes keep the question: references to it become copies. Returns a 400
+ * status if the ID is invalid and a 404 status if the question does not exist.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the question ID.
+ * @returns {Promise<NextResponse>} The response confirming the deletion or an error message.
+ */
+export async function DELETE(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const questionId = context.params.id;
+
+    if (!questionId || !Types.ObjectId.isValid(questionId)) {
+      return NextResponse.json(
+        { error: "Invalid Question ID format" },
+        { status: 400 }
+      );
+    }
+
+    const deletedQuestion = await BankQuestion.findByIdAndDelete(
+      questionId
+    ).lean();
+    if (!deletedQuestion) {
+      return NextResponse.json(
+        { error: "Question not found" },
+        { status: 404 }
+      );
+    }
+
+    const unlinkedQuizzes = await unlinkReferencingQuizzes(
+      new Types.ObjectId(questionId)
+    );
+
+    return NextResponse.json(
+      { message: "Question deleted successfully", unlinkedQuizzes },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to delete bank question:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to delete bank question", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
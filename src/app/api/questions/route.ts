@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { BankQuestion } from "@/app/models/Quiz";
+import {
+  QUESTION_DIFFICULTIES,
+  bankQuestionRequestBodySchema,
+} from "@/app/lib/questionSchemas";
+import { toBankQuestionData } from "@/app/lib/questionBank";
+import { Types } from "mongoose";
+
+/**
+ * Escapes a string for use in a regular expression.
+ *
+ * @param {string} value - The raw search text.
+ * @returns {string} The escaped text.
+ */
+const escapeRegex = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Handles GET requests to browse the question bank.
+ *
+ * Query Parameters:
+ * - search: Filters questions whose text contains the search text.
+ * - type: Filters questions by question type (e.g., "select-organ").
+ * - organGroupId: Filters questions tagged with the specified organ group.
+ * - studyYear: Filters questions tagged with the specified study year.
+ * - difficulty: Filters questions by difficulty ("easy", "medium" or "hard").
+ *
+ * Returns a 400 status if a parameter is invalid. On success, it returns the
+ * questions, most recently updated first, with a 200 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the questions or an error message.
+ */
+export async function GET(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(req.url);
+    const searchQuery = searchParams.get("search");
+    const typeQuery = searchParams.get("type");
+    const organGroupQuery = searchParams.get("organGroupId");
+    const studyYearQuery = searchParams.get("studyYear");
+    const difficultyQuery = searchParams.get("difficulty");
+
+    const filter: any = {};
+    if (searchQuery) {
+      filter.questionText = new RegExp(escapeRegex(searchQuery), "i");
+    }
+    if (typeQuery) filter.type = typeQuery;
+    if (organGroupQuery) {
+      if (!Types.ObjectId.isValid(organGroupQuery)) {
+        return NextResponse.json(
+          { error: "Invalid organGroupId parameter." },
+          { status: 400 }
+        );
+      }
+      filter.organGroupIds = new Types.ObjectId(organGroupQuery);
+    }
+    if (studyYearQuery) {
+      const year = parseInt(studyYearQuery, 10);
+      if (isNaN(year)) {
+        return NextResponse.json(
+          { error: "Invalid studyYear parameter. Must be a number." },
+          { status: 400 }
+        );
+      }
+      filter.studyYear = year;
+    }
+    if (difficultyQuery) {
+      if (
+        !(QUESTION_DIFFICULTIES as readonly string[]).includes(difficultyQuery)
+      ) {
+        return NextResponse.json(
+          {
+            error: `Invalid difficulty parameter. Must be one of: ${QUESTION_DIFFICULTIES.join(
+              ", "
+            )}.`,
+          },
+          { status: 400 }
+        );
+      }
+      filter.difficulty = difficultyQuery;
+    }
+
+    const questions = await BankQuestion.find(filter)
+      .sort({ updatedAt: -1 })
+      .lean();
+    return NextResponse.json(questions, { status: 200 });
+  } catch (error) {
+    console.error("Failed to get bank questions:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to get bank questions", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handles POST requests to add a question to the question bank.
+ *
+ * Expects a question in the same format as the questions of
+ * `POST /api/quizzes`, with the following optional tags:
+ * - organGroupIds: string[] - The organ groups the question is about.
+ * - studyYear: number - The study year the question is intended for.
+ * - difficulty: string - "easy", "medium" or "hard".
+ *
+ * Returns a 400 status if validation fails. On success, it returns the created
+ * question with a 201 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the created question or an error message.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const body = await req.json();
+
+    const validationResult = bankQuestionRequestBodySchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.message,
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const question = await BankQuestion.create(
+      toBankQuestionData(validationResult.data)
+    );
+
+    return NextResponse.json(question, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create bank question:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to create bank question", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Quiz } from "@/app/models/Quiz";
+import type { IQuestion, IQuiz } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { z } from "zod";
+import { getSessionFromRequest } from "@/app/lib/session";
+import { saveQuizVersion } from "@/app/lib/quizVersions";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+const duplicateQuizRequestBodySchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, { message: "Title must be at least 1 character long" })
+    .optional(),
+  studyYear: z
+    .number()
+    .int({ message: "Study year must be an integer" })
+    .min(1, { message: "Study year must be a positive number" })
+    .optional(),
+  clearSchedule: z.boolean().optional(),
+});
+
+/**
+ * Copies a question with new IDs for the question and its answers, so the copy
+ * does not share results with the original question.
+ *
+ * @param {IQuestion} question - The question of the original quiz.
+ * @returns {IQuestion} The copy of the question.
+ */
+function copyQuestion(question: IQuestion): IQuestion {
+  return {
+    questionText: question.questionText,
+    type: question.type,
+    answers: question.answers?.map(({ text, isCorrect }) => ({
+      _id: new Types.ObjectId(),
+      text,
+      isCorrect,
+    })),
+    targetType: question.targetType,
+    target_id: question.target_id,
+    acceptedAnswers: question.acceptedAnswers,
+    typoTolerance: question.typoTolerance,
+    bankQuestion_id: question.bankQuestion_id,
+    bankLink: question.bankLink,
+    _id: new Types.ObjectId(),
+  };
+}
+
+/**
+ * Handles POST requests to duplicate a quiz, e.g. to reuse it for the next
+ * cohort.
+ *
+ * Expects an optional JSON body with the following fields:
+ * - title?: string - The title of the copy, defaults to the title of the quiz with " (copy)".
+ * - studyYear?: number - The study year of the copy, defaults to the study year of the quiz.
+ * - clearSchedule?: boolean - Whether the copy is created without the scheduled date,
+ *   availability window and grace period of the quiz, defaults to true.
+ *
+ * The questions and answers of the copy get new IDs and the copy starts at
+ * version 1, its results are separate from the original quiz. Questions that
+ * reference the question bank keep the reference. Returns a 400 status if the
+ * ID or body is invalid and a 404 status if the quiz does not exist. On
+ * success, it returns the created quiz with a 201 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID.
+ * @returns {Promise<NextResponse>} The response containing the created quiz or an error message.
+ * @example
+ * POST /api/quizzes/123/duplicate
+ * { "studyYear": 2 }
+ */
+export async function POST(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const quizId = context.params.id;
+
+    if (!quizId || !Types.ObjectId.isValid(quizId)) {
+      return NextResponse.json(
+        { error: "Invalid Quiz ID format" },
+        { status: 400 }
+      );
+    }
+
+    const requestBody = await req.text();
+    const validationResult = duplicateQuizRequestBodySchema.safeParse(
+      requestBody ? JSON.parse(requestBody) : {}
+    );
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.message,
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+    const { title, studyYear, clearSchedule = true } = validationResult.data;
+
+    const quiz = await Quiz.findById(quizId).lean<IQuiz>();
+    if (!quiz) {
+      return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+    }
+
+    const newQuiz = new Quiz({
+      title: title ?? `${quiz.title} (copy)`,
+      description: quiz.description,
+      studyYear: studyYear ?? quiz.studyYear,
+      questions: quiz.questions.map(copyQuestion),
+      scheduledAt: clearSchedule ? null : quiz.scheduledAt,
+      opensAt: clearSchedule ? undefined : quiz.opensAt,
+      closesAt: clearSchedule ? undefined : quiz.closesAt,
+      gracePeriodMinutes: clearSchedule ? undefined : quiz.gracePeriodMinutes,
+      shuffleQuestions: quiz.shuffleQuestions,
+      shuffleAnswers: quiz.shuffleAnswers,
+    });
+    await newQuiz.save();
+    await saveQuizVersion(newQuiz.toObject(), await getSessionFromRequest(req));
+
+    return NextResponse.json(newQuiz, { status: 201 });
+  } catch (error) {
+    console.error("Failed to duplicate quiz:", error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body", details: error.message },
+        { status: 400 }
+      );
+    }
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to duplicate quiz", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Quiz } from "@/app/models/Quiz";
+import type { IQuiz } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { buildQuizExport } from "@/app/lib/quizTransfer";
+import { buildQtiPackage } from "@/app/lib/qti";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+/**
+ * Returns a file name for the export of a quiz, based on its title.
+ *
+ * @param {string} title - The title of the quiz.
+ * @param {string} extension - The file extension.
+ * @returns {string} The file name.
+ */
+const toFileName = (title: string, extension: string): string =>
+  `${
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "quiz"
+  }.${extension}`;
+
+/**
+ * Handles GET requests to export a quiz as a portable JSON document, to import
+ * it into another database (see `POST /api/quizzes/import`).
+ *
+ * Select-organ targets are referenced by mesh and group name instead of their
+ * ID, see {@link buildQuizExport}. The document is returned as a file download.
+ *
+ * Query Parameters:
+ * - format: (optional) `json` (default) or `qti` for a QTI 2.1 package (zip)
+ *   to import into an LMS, see {@link buildQtiPackage}.
+ *
+ * Returns a 400 status if the ID or format is invalid and a 404 status if the
+ * quiz does not exist.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID.
+ * @returns {Promise<NextResponse>} The response containing the export document or an error message.
+ * @example
+ * GET /api/quizzes/123/export?format=qti
+ */
+export async function GET(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const quizId = context.params.id;
+
+    if (!quizId || !Types.ObjectId.isValid(quizId)) {
+      return NextResponse.json(
+        { error: "Invalid Quiz ID format" },
+        { status: 400 }
+      );
+    }
+
+    const format = new URL(req.url).searchParams.get("format") ?? "json";
+    if (format !== "json" && format !== "qti") {
+      return NextResponse.json(
+        { error: "Invalid format parameter. Must be 'json' or 'qti'." },
+        { status: 400 }
+      );
+    }
+
+    const quiz = await Quiz.findById(quizId).lean<IQuiz>();
+    if (!quiz) {
+      return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+    }
+
+    if (format === "qti") {
+      return new NextResponse(new Uint8Array(await buildQtiPackage([quiz])), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="${toFileName(
+            quiz.title,
+            "zip"
+          )}"`,
+        },
+      });
+    }
+
+    return NextResponse.json(await buildQuizExport([quiz]), {
+      status: 200,
+      headers: {
+        "Content-Disposition": `attachment; filename="${toFileName(
+          quiz.title,
+          "json"
+        )}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export quiz:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to export quiz", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Types } from "mongoose";
+import { purgeQuiz } from "@/app/lib/quizTrash";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+/**
+ * Handles DELETE requests to permanently remove a quiz from the trash.
+ *
+ * Only quizzes in the trash can be purged, see `DELETE /api/quizzes/[id]`. The
+ * submissions of the quiz are kept unless they are removed explicitly with the
+ * `deleteSubmissions=true` query parameter, which also removes the short-answer
+ * grades and version snapshots of the quiz (see {@link purgeQuiz}). Returns a
+ * 400 status if the ID is invalid and a 404 status if the quiz is not in the
+ * trash. On success, it returns the number of removed submissions with a 200
+ * status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID.
+ * @returns {Promise<NextResponse>} The response containing the number of removed submissions or an error message.
+ * @example
+ * DELETE /api/quizzes/123/purge?deleteSubmissions=true
+ */
+export async function DELETE(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const quizId = context.params.id;
+
+    if (!quizId || !Types.ObjectId.isValid(quizId)) {
+      return NextResponse.json(
+        { error: "Invalid Quiz ID format" },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const deleteSubmissions = searchParams.get("deleteSubmissions") === "true";
+
+    const result = await purgeQuiz(quizId, deleteSubmissions);
+    if (!result) {
+      return NextResponse.json(
+        { error: "Quiz not found in trash" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(
+      { message: "Quiz purged successfully", ...result },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to purge quiz:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to purge quiz", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
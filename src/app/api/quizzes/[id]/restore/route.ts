@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Quiz } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { IN_TRASH } from "@/app/lib/quizTrash";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+/**
+ * Handles POST requests to restore a quiz from the trash.
+ *
+ * Clears the `deletedAt` of the quiz, so it is listed and accepts submissions
+ * again. Returns a 400 status if the ID is invalid and a 404 status if the quiz
+ * is not in the trash. On success, it returns the restored quiz with a 200
+ * status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID.
+ * @returns {Promise<NextResponse>} The response containing the restored quiz or an error message.
+ * @example
+ * POST /api/quizzes/123/restore
+ */
+export async function POST(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const quizId = context.params.id;
+
+    if (!quizId || !Types.ObjectId.isValid(quizId)) {
+      return NextResponse.json(
+        { error: "Invalid Quiz ID format" },
+        { status: 400 }
+      );
+    }
+
+    const restoredQuiz = await Quiz.findOneAndUpdate(
+      { _id: quizId, ...IN_TRASH },
+      { $set: { deletedAt: null } },
+      { new: true }
+    ).lean();
+
+    if (!restoredQuiz) {
+      return NextResponse.json(
+        { error: "Quiz not found in trash" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(
+      { message: "Quiz restored successfully", restoredQuiz },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to restore quiz:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to restore quiz", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
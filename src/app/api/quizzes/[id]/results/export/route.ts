@@ -0,0 +1,141 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Quiz } from "@/app/models/Quiz";
+import type { IQuiz } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { formatCsv } from "@/app/lib/csv";
+import { createXlsx } from "@/app/lib/xlsx";
+import {
+  buildResultsTables,
+  loadGradedSubmissions,
+} from "@/app/lib/quizResults";
+import { parseResultsFilter } from "@/app/lib/resultsFilter";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+/**
+ * Returns the base file name for the results export of a quiz.
+ *
+ * @param {string} title - The title of the quiz.
+ * @returns {string} The file name without extension.
+ */
+const toFileName = (title: string): string =>
+  `${
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "quiz"
+  }-results`;
+
+/**
+ * Handles GET requests to export the results of a quiz, e.g. to enter the
+ * scores into the grade system of the faculty.
+ *
+ * The export has one row per submission with the student, the study year at
+ * submission, the submission date, the answer and result of every question and
+ * the total score, plus a summary with the totals per question (see
+ * {@link buildResultsTables}). Submissions are graded against the version of
+ * the quiz they answered, including the manual short-answer grades.
+ *
+ * Query Parameters:
+ * - format: `csv` or `xlsx`. The Excel workbook has a sheet for the
+ *   submissions and a sheet for the summary.
+ * - sheet: (optional, CSV only) `submissions` (default) or `summary`, since a
+ *   CSV file has a single sheet.
+ * - studyYearAtSubmission, from, to, cohort, attempt: (optional) Only include
+ *   the matching submissions, as for GET /api/quizzes/[id]/results (see
+ *   {@link parseResultsFilter}).
+ *
+ * Returns a 400 status if the ID or a parameter is invalid and a 404 status if
+ * the quiz does not exist. On success, the file is returned as a download.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID.
+ * @returns {Promise<NextResponse>} The response containing the export file or an error message.
+ * @example
+ * GET /api/quizzes/123/results/export?format=xlsx
+ * GET /api/quizzes/123/results/export?format=csv&sheet=summary
+ */
+export async function GET(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const quizId = context.params.id;
+
+    if (!quizId || !Types.ObjectId.isValid(quizId)) {
+      return NextResponse.json(
+        { error: "Invalid Quiz ID format" },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const format = searchParams.get("format");
+    if (format !== "csv" && format !== "xlsx") {
+      return NextResponse.json(
+        { error: "Invalid format parameter. Must be 'csv' or 'xlsx'." },
+        { status: 400 }
+      );
+    }
+    const sheet = searchParams.get("sheet") ?? "submissions";
+    if (sheet !== "submissions" && sheet !== "summary") {
+      return NextResponse.json(
+        {
+          error: "Invalid sheet parameter. Must be 'submissions' or 'summary'.",
+        },
+        { status: 400 }
+      );
+    }
+
+    const filter = parseResultsFilter(searchParams);
+    if (filter instanceof NextResponse) return filter;
+
+    const quiz = await Quiz.findById(quizId).lean<IQuiz>();
+    if (!quiz) {
+      return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+    }
+
+    const tables = await buildResultsTables(
+      quiz,
+      await loadGradedSubmissions(quiz, filter)
+    );
+    const fileName = toFileName(quiz.title);
+
+    if (format === "xlsx") {
+      const workbook = await createXlsx([
+        { name: "Submissions", rows: tables.submissions },
+        { name: "Summary", rows: tables.summary },
+      ]);
+      return new NextResponse(new Uint8Array(workbook), {
+        status: 200,
+        headers: {
+          "Content-Type":
+            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": `attachment; filename="${fileName}.xlsx"`,
+        },
+      });
+    }
+
+    return new NextResponse(formatCsv(tables[sheet]), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}${
+          sheet === "summary" ? "-summary" : ""
+        }.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export quiz results:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to export quiz results", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
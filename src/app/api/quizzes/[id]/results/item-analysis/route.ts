@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Quiz } from "@/app/models/Quiz";
+import type { IQuiz } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { analyzeItems } from "@/app/lib/itemAnalysis";
+import { loadGradedSubmissions } from "@/app/lib/quizResults";
+import { parseResultsFilter } from "@/app/lib/resultsFilter";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+/**
+ * Handles GET requests to retrieve the item analysis of a quiz.
+ *
+ * For every question, returns its difficulty (p-value), its point-biserial
+ * correlation with the score on the other questions, the upper-lower
+ * discrimination index and, for MCQ/TF questions, how often every option was
+ * chosen overall and in the upper and lower group. Questions that should be
+ * reviewed are flagged, e.g. if they are very easy or do not discriminate
+ * between strong and weak students. The reliability of the whole quiz is
+ * returned as KR-20 or Cronbach's alpha (see {@link analyzeItems}).
+ * Submissions are graded against the version of the quiz they answered,
+ * including the manual short-answer grades.
+ * Accepts the filter query parameters of GET /api/quizzes/[id]/results
+ * (`studyYearAtSubmission`, `from`, `to`, `cohort` and `attempt`, see
+ * {@link parseResultsFilter}) to only include the matching submissions.
+ *
+ * Returns a 400 status if the ID or a filter parameter is invalid and a 404 status if the quiz does
+ * not exist.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID.
+ * @returns {Promise<NextResponse>} The response containing the item analysis or an error message.
+ * @example
+ * GET /api/quizzes/123/results/item-analysis
+ */
+export async function GET(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const quizId = context.params.id;
+
+    if (!quizId || !Types.ObjectId.isValid(quizId)) {
+      return NextResponse.json(
+        { error: "Invalid Quiz ID format" },
+        { status: 400 }
+      );
+    }
+
+    const filter = parseResultsFilter(new URL(req.url).searchParams);
+    if (filter instanceof NextResponse) return filter;
+
+    const quiz = await Quiz.findById(quizId).lean<IQuiz>();
+    if (!quiz) {
+      return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+    }
+
+    const analysis = analyzeItems(
+      quiz,
+      await loadGradedSubmissions(quiz, filter)
+    );
+    return NextResponse.json(analysis, { status: 200 });
+  } catch (error) {
+    console.error("Failed to get item analysis:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to get item analysis", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Quiz } from "@/app/models/Quiz";
+import type { IQuiz } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { computeQuestionResults } from "@/app/lib/questionResults";
+import { loadGradedSubmissions } from "@/app/lib/quizResults";
+import { buildResultsReport } from "@/app/lib/resultsReport";
+import {
+  describeResultsFilter,
+  parseResultsFilter,
+} from "@/app/lib/resultsFilter";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+/**
+ * Returns the file name for the results report of a quiz.
+ *
+ * @param {string} title - The title of the quiz.
+ * @returns {string} The file name.
+ */
+const toFileName = (title: string): string =>
+  `${
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "quiz"
+  }-report.pdf`;
+
+/**
+ * Handles GET requests to download a printable PDF report of the results of a
+ * quiz.
+ *
+ * The report lists the quiz details and the overall scores, followed by the
+ * statistics of every question as on the results page: the number of
+ * submissions and correct answers, the correct answer, a bar chart of the
+ * given answers and the grouped responses to short-answer questions (see
+ * {@link buildResultsReport}). The PDF, including the charts, is generated
+ * entirely on the server.
+ * Accepts the filter query parameters of GET /api/quizzes/[id]/results
+ * (`studyYearAtSubmission`, `from`, `to`, `cohort` and `attempt`, see
+ * {@link parseResultsFilter}) to only include the matching submissions.
+ * The report lists the applied filters with the quiz details.
+ *
+ * Returns a 400 status if the ID or a filter parameter is invalid and a 404 status if the quiz does
+ * not exist. On success, the PDF is returned as a download.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID.
+ * @returns {Promise<NextResponse>} The response containing the PDF report or an error message.
+ * @example
+ * GET /api/quizzes/123/results/report
+ */
+export async function GET(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const quizId = context.params.id;
+
+    if (!quizId || !Types.ObjectId.isValid(quizId)) {
+      return NextResponse.json(
+        { error: "Invalid Quiz ID format" },
+        { status: 400 }
+      );
+    }
+
+    const filter = parseResultsFilter(new URL(req.url).searchParams);
+    if (filter instanceof NextResponse) return filter;
+
+    const quiz = await Quiz.findById(quizId).lean<IQuiz>();
+    if (!quiz) {
+      return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+    }
+
+    const [questionResults, submissions] = await Promise.all([
+      computeQuestionResults(quiz, filter),
+      loadGradedSubmissions(quiz, filter),
+    ]);
+    const report = await buildResultsReport(
+      quiz,
+      questionResults,
+      submissions,
+      describeResultsFilter(filter)
+    );
+
+    return new NextResponse(new Uint8Array(report), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${toFileName(
+          quiz.title
+        )}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to generate results report:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to generate results report", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,23 @@
 import { NextResponse } from "next/server";
 import dbConnect from "@/app/lib/dbConnect";
 import { Quiz } from "@/app/models/Quiz";
+import type { IQuiz } from "@/app/models/Quiz";
 import mongoose, { Types } from "mongoose";
+import { isValidAvailabilityWindow } from "@/app/lib/availability";
+import { resolveQuizView, toStudentQuiz } from "@/app/lib/studentQuiz";
+import { applyBankReferences } from "@/app/lib/questionBank";
+import { resolveStudent } from "@/app/lib/students";
+import { presentQuizToStudent } from "@/app/lib/shuffle";
+import { getSessionFromRequest } from "@/app/lib/session";
+import {
+  ensureQuizVersioned,
+  getQuizVersion,
+  saveQuizVersion,
+  type VersionedQuiz,
+} from "@/app/lib/quizVersions";
+import { getQuizEditImpact, isConfirmed } from "@/app/lib/quizEditImpact";
+import type { DiffableQuiz } from "@/app/lib/quizDiff";
+import { NOT_IN_TRASH } from "@/app/lib/quizTrash";
 
 interface RequestContext {
   params: { id: string };
@@ -13,9 +29,19 @@ interface RequestContext {
  * Connects to the database and fetches a quiz document based on the provided
  * ID from the request context. If the ID is missing or invalid, it returns
  * a 400 status with an error message. If the quiz is not found, it returns
- * a 404 status. On success, it returns the quiz data with a 200 status.
+ * a 404 status. Quizzes in the trash are only returned to teachers, with their
+ * `deletedAt`. On success, it returns the quiz data with a 200 status.
  * Logs and returns a 500 status with an error message if an exception occurs.
  *
+ * Query Parameters:
+ * - view: (optional) "student" or "teacher". Requests without a teacher session
+ *   and `view=student` get the quiz without correct-answer flags, accepted short
+ *   answers and select-organ targets, see {@link resolveQuizView}.
+ * - student_id / studentEmail: (optional) The student taking the quiz. The
+ *   student view of a shuffled quiz is returned in the order of this student,
+ *   see {@link presentQuizToStudent}. A student who is not on the roster gets
+ *   an order derived from the given ID or email instead of a 404 status.
+ *
  * @param {Request} req - The incoming HTTP request.
  * @param {RequestContext} context - Contains the parameters including the quiz ID.
  * @returns {Promise<NextResponse>} The response containing the quiz data or an error message.
@@ -35,12 +61,41 @@ export async function GET(
       );
     }
 
-    const quiz = await Quiz.findById(quizId).lean();
+    const view = await resolveQuizView(req);
+    if (view instanceof NextResponse) return view;
+
+    const quiz = await Quiz.findById(quizId).lean<IQuiz>();
 
     if (!quiz) {
       return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
     }
-    return NextResponse.json(quiz, { status: 200 });
+    if (view === "teacher") {
+      return NextResponse.json(quiz, { status: 200 });
+    }
+    if (quiz.deletedAt) {
+      return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const studentIdParam = searchParams.get("student_id") ?? undefined;
+    const studentEmail = searchParams.get("studentEmail") ?? undefined;
+    const studentId = await resolveStudent(studentIdParam, studentEmail);
+    if (studentId instanceof NextResponse && studentId.status !== 404) {
+      return studentId;
+    }
+
+    // The endpoint is public: a student who is not on the roster gets the quiz
+    // shuffled by the given ID or email, so the response does not reveal who
+    // is enrolled. Their submission is rejected.
+    const shuffleKey =
+      studentId instanceof NextResponse
+        ? studentIdParam ?? studentEmail!.trim().toLowerCase()
+        : studentId;
+
+    return NextResponse.json(
+      toStudentQuiz(presentQuizToStudent(quiz, shuffleKey)),
+      { status: 200 }
+    );
   } catch (error) {
     console.error("Failed to get quiz:", error);
     const errorMessage =
@@ -52,6 +107,23 @@ export async function GET(
   }
 }
 
+/**
+ * Returns the 409 response for an update based on an outdated version of a quiz.
+ *
+ * @param {number} currentVersion - The current version of the quiz.
+ * @returns {NextResponse} The 409 response.
+ */
+function versionConflict(currentVersion: number): NextResponse {
+  return NextResponse.json(
+    {
+      error:
+        "The quiz was saved by someone else in the meantime. Reload the quiz and apply your changes again.",
+      details: { currentVersion },
+    },
+    { status: 409 }
+  );
+}
+
 /**
  * Handles PUT requests to update an existing quiz in the database.
  *
@@ -67,11 +139,27 @@ export async function GET(
  *     - isCorrect: boolean (required for each answer) - Whether the answer is correct.
  *   - targetType: string (required for select-organ) - The target type ('mesh' or 'group') for select-organ questions.
  *   - target_id: ObjectId (required for select-organ) - The target identifier for select-organ questions.
+ *   - acceptedAnswers: string[] (optional for short-answer) - The answers accepted when grading short-answer questions.
+ *   - typoTolerance: number (optional for short-answer) - The max edit distance allowed when grading short-answer questions.
+ *   - bankQuestion_id: string (optional) - The bank question the question was pulled from.
+ *   - bankLink: string (optional) - "reference" to use the content of the bank question, or "copy".
  * - scheduledAt: string (optional) - An ISO date string indicating when the quiz is scheduled.
+ * - opensAt: string | null (optional) - An ISO date string from when submissions are accepted, null to clear.
+ * - closesAt: string | null (optional) - An ISO date string until when submissions are accepted, null to clear.
+ * - gracePeriodMinutes: number | null (optional) - Minutes after closing in which submissions are still accepted.
+ * - shuffleQuestions: boolean (optional) - Present the questions in a different order to every student.
+ * - shuffleAnswers: boolean (optional) - Present the answers of multiple-choice questions in a different order to every student.
+ * - version: number (optional) - The version of the quiz the changes are based on, as returned by GET.
  *
  * The function validates the input data, ensuring required fields are present and have correct types.
  * If validation fails, it returns a 400 status with an error message. If the quiz is not found, it returns
- * a 404 status. On success, it returns the updated quiz data with a 200 status. Logs and returns a 500 status
+ * a 404 status. If the quiz has submissions, an update that removes questions or changes their answer
+ * key (see {@link getQuizEditImpact}) returns a 409 status with the affected questions, unless it is
+ * confirmed with the `confirm=true` query parameter. If the quiz was saved by someone else since
+ * the given version was read, it returns a 409 status with the current version instead of
+ * overwriting their changes. Every save increments the version of the quiz and stores a snapshot of the saved quiz
+ * (see {@link saveQuizVersion}), so existing submissions are still graded against the version they
+ * answered. On success, it returns the updated quiz data with a 200 status. Logs and returns a 500 status
  * with an error message if an exception occurs.
  *
  * @param {Request} req - The incoming HTTP request.
@@ -110,6 +198,55 @@ export async function PUT(
       );
     }
 
+    // Validate the availability window
+    for (const field of ["opensAt", "closesAt"]) {
+      if (
+        body[field] !== undefined &&
+        body[field] !== null &&
+        (typeof body[field] !== "string" || isNaN(Date.parse(body[field])))
+      ) {
+        return NextResponse.json(
+          { error: `${field} must be an ISO 8601 date string or null.` },
+          { status: 400 }
+        );
+      }
+    }
+    if (!isValidAvailabilityWindow(body.opensAt, body.closesAt)) {
+      return NextResponse.json(
+        { error: "The quiz must close after it opens." },
+        { status: 400 }
+      );
+    }
+    if (
+      body.version !== undefined &&
+      (!Number.isInteger(body.version) || body.version < 1)
+    ) {
+      return NextResponse.json(
+        { error: "version must be a positive integer." },
+        { status: 400 }
+      );
+    }
+    if (
+      body.gracePeriodMinutes !== undefined &&
+      body.gracePeriodMinutes !== null &&
+      (!Number.isInteger(body.gracePeriodMinutes) ||
+        body.gracePeriodMinutes < 0)
+    ) {
+      return NextResponse.json(
+        { error: "gracePeriodMinutes must be a non-negative integer." },
+        { status: 400 }
+      );
+    }
+
+    for (const field of ["shuffleQuestions", "shuffleAnswers"]) {
+      if (body[field] !== undefined && typeof body[field] !== "boolean") {
+        return NextResponse.json(
+          { error: `${field} must be a boolean.` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Validate each question if questions are part of the update payload
     if (Array.isArray(body?.questions)) {
       for (const q of body.questions) {
@@ -149,6 +286,62 @@ export async function PUT(
           // Ensure target_id is ObjectId for saving
           q.target_id = new Types.ObjectId(q.target_id);
         }
+        if (q.type === "short-answer") {
+          if (
+            q.acceptedAnswers !== undefined &&
+            (!Array.isArray(q.acceptedAnswers) ||
+              q.acceptedAnswers.some((ans: unknown) => typeof ans !== "string"))
+          ) {
+            return NextResponse.json(
+              {
+                error: `acceptedAnswers must be an array of strings for question: ${q.questionText}`,
+              },
+              { status: 400 }
+            );
+          }
+          if (
+            q.typoTolerance !== undefined &&
+            q.typoTolerance !== null &&
+            (!Number.isInteger(q.typoTolerance) ||
+              q.typoTolerance < 0 ||
+              q.typoTolerance > 5)
+          ) {
+            return NextResponse.json(
+              {
+                error: `typoTolerance must be an integer between 0 and 5 for question: ${q.questionText}`,
+              },
+              { status: 400 }
+            );
+          }
+          // Drop empty accepted answers left over from the editor
+          q.acceptedAnswers = (q.acceptedAnswers || [])
+            .map((ans: string) => ans.trim())
+            .filter((ans: string) => ans.length > 0);
+        }
+        if (q.bankQuestion_id !== undefined) {
+          if (!Types.ObjectId.isValid(q.bankQuestion_id)) {
+            return NextResponse.json(
+              {
+                error: `Invalid bankQuestion_id ObjectId format for question: ${q.questionText}`,
+              },
+              { status: 400 }
+            );
+          }
+          if (
+            q.bankLink !== undefined &&
+            !["reference", "copy"].includes(q.bankLink)
+          ) {
+            return NextResponse.json(
+              {
+                error:
+                  "Invalid bankLink for question. Must be 'reference' or 'copy'.",
+              },
+              { status: 400 }
+            );
+          }
+          q.bankQuestion_id = new Types.ObjectId(q.bankQuestion_id);
+          q.bankLink = q.bankLink ?? "copy";
+        }
         // Ensure answers sub-documents also have ObjectIds if they are new and don't have one
         if (q.answers && Array.isArray(q.answers)) {
           q.answers = q.answers.map((ans: any) => ({
@@ -159,6 +352,21 @@ export async function PUT(
         // Ensure questions have ObjectIds
         q._id = q._id ? new Types.ObjectId(q._id) : new Types.ObjectId();
       }
+
+      // Questions referencing the question bank always use its current content
+      const { questions, missingIds } = await applyBankReferences(
+        body.questions
+      );
+      if (missingIds.length > 0) {
+        return NextResponse.json(
+          {
+            error: "Referenced bank question not found",
+            details: { bankQuestion_id: missingIds },
+          },
+          { status: 400 }
+        );
+      }
+      body.questions = questions;
     }
 
     const updateData = {
@@ -171,6 +379,19 @@ export async function PUT(
         : body.scheduledAt === null
         ? null
         : undefined,
+      opensAt: body.opensAt
+        ? new Date(body.opensAt)
+        : body.opensAt === null
+        ? null
+        : undefined,
+      closesAt: body.closesAt
+        ? new Date(body.closesAt)
+        : body.closesAt === null
+        ? null
+        : undefined,
+      gracePeriodMinutes: body.gracePeriodMinutes,
+      shuffleQuestions: body.shuffleQuestions,
+      shuffleAnswers: body.shuffleAnswers,
     };
 
     // Filter out undefined values to prevent overwriting fields with undefined
@@ -180,14 +401,50 @@ export async function PUT(
         delete updateData[key as keyof typeof updateData]
     );
 
-    const updatedQuiz = await Quiz.findByIdAndUpdate(quizId, updateData, {
-      new: true,
-      runValidators: true,
-    }).lean(); //
+    const existingQuiz = await Quiz.findById(quizId).lean<VersionedQuiz>();
+    if (!existingQuiz) {
+      return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+    }
+    // The update only applies to the version the changes are based on, so two
+    // concurrent saves can not both increment the same version
+    const baseVersion: number = body.version ?? getQuizVersion(existingQuiz);
+    if (baseVersion !== getQuizVersion(existingQuiz)) {
+      return versionConflict(getQuizVersion(existingQuiz));
+    }
+
+    if (!isConfirmed(req)) {
+      const impact = await getQuizEditImpact(quizId, existingQuiz, {
+        ...existingQuiz,
+        ...updateData,
+      });
+      if (impact) {
+        return NextResponse.json(
+          {
+            error: `The quiz has ${impact.submissionCount} submissions. Removing questions or changing their answers changes the results, confirm the update with ?confirm=true.`,
+            details: impact,
+          },
+          { status: 409 }
+        );
+      }
+    }
+    await ensureQuizVersioned(existingQuiz);
+
+    const updatedQuiz = await Quiz.findOneAndUpdate(
+      { _id: quizId, version: baseVersion },
+      { ...updateData, $inc: { version: 1 } },
+      { new: true, runValidators: true }
+    ).lean<VersionedQuiz>();
 
     if (!updatedQuiz) {
-      return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+      const currentQuiz = await Quiz.findById(quizId)
+        .select("version")
+        .lean<Pick<VersionedQuiz, "version">>();
+      if (!currentQuiz) {
+        return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+      }
+      return versionConflict(getQuizVersion(currentQuiz));
     }
+    await saveQuizVersion(updatedQuiz, await getSessionFromRequest(req));
 
     return NextResponse.json(updatedQuiz, { status: 200 });
   } catch (error) {
@@ -207,6 +464,21 @@ export async function PUT(
   }
 }
 
+/**
+ * Handles DELETE requests to move a quiz to the trash by its ID.
+ *
+ * The quiz is not removed: its `deletedAt` is set, so its submissions keep
+ * referring to it and it can be restored (see `/api/quizzes/[id]/restore`) or
+ * removed permanently (see `/api/quizzes/[id]/purge`). Returns a 400 status if
+ * the ID is invalid and a 404 status if the quiz is not found or already in the
+ * trash. If the quiz has submissions, the deletion returns a 409 status with the
+ * number of submissions and answers per question, unless it is confirmed with
+ * the `confirm=true` query parameter.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID.
+ * @returns {Promise<NextResponse>} The response containing the trashed quiz or an error message.
+ */
 export async function DELETE(req: Request, context: RequestContext) {
   try {
     await dbConnect();
@@ -219,13 +491,37 @@ export async function DELETE(req: Request, context: RequestContext) {
       );
     }
 
-    const deletedQuiz = await Quiz.findByIdAndDelete(quizId).lean();
+    if (!isConfirmed(req)) {
+      const quiz = await Quiz.findOne({
+        _id: quizId,
+        ...NOT_IN_TRASH,
+      }).lean<DiffableQuiz>();
+      if (!quiz) {
+        return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+      }
+      const impact = await getQuizEditImpact(quizId, quiz);
+      if (impact) {
+        return NextResponse.json(
+          {
+            error: `The quiz has ${impact.submissionCount} submissions. Confirm moving it to the trash with ?confirm=true.`,
+            details: impact,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const deletedQuiz = await Quiz.findOneAndUpdate(
+      { _id: quizId, ...NOT_IN_TRASH },
+      { $set: { deletedAt: new Date() } },
+      { new: true }
+    ).lean();
 
     if (!deletedQuiz) {
       return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
     }
     return NextResponse.json(
-      { message: "Quiz deleted successfully", deletedQuiz },
+      { message: "Quiz moved to trash successfully", deletedQuiz },
       { status: 200 }
     );
   } catch (error) {
@@ -0,0 +1,245 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Quiz, ShortAnswerGrade } from "@/app/models/Quiz";
+import type { IQuiz } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { z } from "zod";
+import { getSessionFromRequest } from "@/app/lib/session";
+import { regradeQuizSubmissions } from "@/app/lib/grading";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+const shortAnswerGradeRequestBodySchema = z.object({
+  question_id: z
+    .string({ required_error: "question_id is required" })
+    .refine((val) => Types.ObjectId.isValid(val), {
+      message: "Invalid question_id format. Must be a valid ObjectId string.",
+    }),
+  responseText: z
+    .string({ required_error: "responseText is required" })
+    .trim()
+    .min(1, { message: "Empty responses cannot be graded" }),
+  verdict: z.enum(["correct", "incorrect", "partial"], {
+    required_error: "Verdict ('correct', 'incorrect' or 'partial') is required",
+  }),
+  comment: z.string().trim().max(1000).optional(),
+});
+
+/**
+ * Fetches a quiz and checks that the given question is a short-answer question of it.
+ *
+ * @param {string} quizId - The ID of the quiz.
+ * @param {string} questionId - The ID of the question.
+ * @returns {Promise<IQuiz | NextResponse>} The quiz, or an error response if the quiz or question does not exist.
+ */
+async function findQuizWithShortAnswerQuestion(
+  quizId: string,
+  questionId: string
+): Promise<IQuiz | NextResponse> {
+  const quiz = await Quiz.findById(quizId).lean<IQuiz>();
+  if (!quiz) {
+    return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+  }
+  const question = quiz.questions.find((q) => q._id?.toString() === questionId);
+  if (!question || question.type !== "short-answer") {
+    return NextResponse.json(
+      { error: "Question not found or not a short-answer question" },
+      { status: 404 }
+    );
+  }
+  return quiz;
+}
+
+/**
+ * Handles GET requests to retrieve the manual short-answer grades of a quiz.
+ *
+ * Returns a 400 status if the quiz ID is invalid. On success, it returns the
+ * grades with a 200 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID.
+ * @returns {Promise<NextResponse>} The response containing the grades or an error message.
+ */
+export async function GET(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const quizId = context.params.id;
+
+    if (!quizId || !Types.ObjectId.isValid(quizId)) {
+      return NextResponse.json(
+        { error: "Invalid Quiz ID format" },
+        { status: 400 }
+      );
+    }
+
+    const grades = await ShortAnswerGrade.find({
+      quiz_id: new Types.ObjectId(quizId),
+    })
+      .sort({ updatedAt: -1 })
+      .lean();
+    return NextResponse.json(grades, { status: 200 });
+  } catch (error) {
+    console.error("Failed to get short answer grades:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to get short answer grades", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handles PUT requests to grade all identical responses to a short-answer question.
+ *
+ * The function expects a JSON body with the following structure:
+ * - question_id: string (required) - The short-answer question.
+ * - responseText: string (required) - The response to grade, compared after trimming.
+ * - verdict: string (required) - "correct", "incorrect" or "partial".
+ * - comment: string (optional) - A comment for the response.
+ *
+ * The grade overrides the automatic grading. Every submission of the quiz is
+ * regraded so the stored scores reflect the new grade. Returns a 400 status if
+ * validation fails and a 404 status if the quiz or question does not exist.
+ * On success, it returns the grade and the number of regraded submissions with
+ * a 200 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID.
+ * @returns {Promise<NextResponse>} The response containing the grade or an error message.
+ */
+export async function PUT(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const quizId = context.params.id;
+
+    if (!quizId || !Types.ObjectId.isValid(quizId)) {
+      return NextResponse.json(
+        { error: "Invalid Quiz ID format" },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = shortAnswerGradeRequestBodySchema.safeParse(
+      await req.json()
+    );
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.message,
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+    const { question_id, responseText, verdict, comment } =
+      validationResult.data;
+
+    const quiz = await findQuizWithShortAnswerQuestion(quizId, question_id);
+    if (quiz instanceof NextResponse) return quiz;
+
+    const session = await getSessionFromRequest(req);
+    const grade = await ShortAnswerGrade.findOneAndUpdate(
+      {
+        quiz_id: new Types.ObjectId(quizId),
+        question_id: new Types.ObjectId(question_id),
+        responseText,
+      },
+      {
+        verdict,
+        comment: comment ?? "",
+        gradedBy: session ? new Types.ObjectId(session.sub) : undefined,
+        gradedByName: session?.name,
+      },
+      { new: true, upsert: true, runValidators: true }
+    ).lean();
+
+    const regradedSubmissions = await regradeQuizSubmissions(quiz);
+
+    return NextResponse.json({ grade, regradedSubmissions }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to save short answer grade:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to save short answer grade", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handles DELETE requests to remove a manual grade, so the responses are graded
+ * automatically again.
+ *
+ * Query Parameters:
+ * - question_id: The short-answer question.
+ * - responseText: The graded response.
+ *
+ * Every submission of the quiz is regraded afterwards. Returns a 400 status if a
+ * parameter is missing or invalid and a 404 status if there is no such grade.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID.
+ * @returns {Promise<NextResponse>} The response confirming the removal or an error message.
+ */
+export async function DELETE(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const quizId = context.params.id;
+    const { searchParams } = new URL(req.url);
+    const questionId = searchParams.get("question_id");
+    const responseText = searchParams.get("responseText")?.trim();
+
+    if (!quizId || !Types.ObjectId.isValid(quizId)) {
+      return NextResponse.json(
+        { error: "Invalid Quiz ID format" },
+        { status: 400 }
+      );
+    }
+    if (!questionId || !Types.ObjectId.isValid(questionId) || !responseText) {
+      return NextResponse.json(
+        { error: "A valid question_id and responseText are required" },
+        { status: 400 }
+      );
+    }
+
+    const quiz = await findQuizWithShortAnswerQuestion(quizId, questionId);
+    if (quiz instanceof NextResponse) return quiz;
+
+    const deletedGrade = await ShortAnswerGrade.findOneAndDelete({
+      quiz_id: new Types.ObjectId(quizId),
+      question_id: new Types.ObjectId(questionId),
+      responseText,
+    }).lean();
+    if (!deletedGrade) {
+      return NextResponse.json({ error: "Grade not found" }, { status: 404 });
+    }
+
+    const regradedSubmissions = await regradeQuizSubmissions(quiz);
+
+    return NextResponse.json(
+      { message: "Grade removed successfully", regradedSubmissions },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to remove short answer grade:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to remove short answer grade", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
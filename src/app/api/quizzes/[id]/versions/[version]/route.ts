@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Quiz } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { findQuizVersion, type VersionedQuiz } from "@/app/lib/quizVersions";
+
+interface RequestContext {
+  params: { id: string; version: string };
+}
+
+/**
+ * Handles GET requests to retrieve a version of a quiz.
+ *
+ * Returns the snapshot of the quiz as it was saved in that version, including
+ * its questions and answer key. Returns a 400 status if the quiz ID or version
+ * is invalid and a 404 status if the quiz or version does not exist.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID and version.
+ * @returns {Promise<NextResponse>} The response containing the version or an error message.
+ * @example
+ * GET /api/quizzes/123/versions/2
+ */
+export async function GET(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const { id: quizId } = context.params;
+    const version = Number(context.params.version);
+
+    if (!quizId || !Types.ObjectId.isValid(quizId)) {
+      return NextResponse.json(
+        { error: "Invalid Quiz ID format" },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json(
+        { error: "Version must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    const quiz = await Quiz.findById(quizId).lean<VersionedQuiz>();
+    if (!quiz) {
+      return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+    }
+
+    const quizVersion = await findQuizVersion(quiz, version);
+    if (!quizVersion) {
+      return NextResponse.json(
+        { error: "Quiz version not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(quizVersion, { status: 200 });
+  } catch (error) {
+    console.error("Failed to fetch quiz version:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch quiz version" },
+      { status: 500 }
+    );
+  }
+}
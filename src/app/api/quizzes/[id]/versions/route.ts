@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Quiz, QuizVersion, Submission } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { getQuizVersion } from "@/app/lib/quizVersions";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+interface QuizVersionSummary {
+  version: number;
+  title: string;
+  questionCount: number;
+  submissionCount: number;
+  editedByName?: string;
+  createdAt?: Date;
+  isCurrent: boolean;
+}
+
+/**
+ * Handles GET requests to list the versions of a quiz.
+ *
+ * Returns the versions newest first, with the number of questions and the
+ * number of submissions that answered each version. The current version of a
+ * quiz that was not saved since versioning has no snapshot; it is listed with
+ * the date the quiz was last updated. Returns a 400 status if the quiz ID is
+ * invalid and a 404 status if the quiz does not exist.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the quiz ID.
+ * @returns {Promise<NextResponse>} The response containing the versions or an error message.
+ * @example
+ * GET /api/quizzes/123/versions
+ */
+export async function GET(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const quizId = context.params.id;
+
+    if (!quizId || !Types.ObjectId.isValid(quizId)) {
+      return NextResponse.json(
+        { error: "Invalid Quiz ID format" },
+        { status: 400 }
+      );
+    }
+
+    const quiz = await Quiz.findById(quizId)
+      .select("title questions version updatedAt")
+      .lean<{
+        title: string;
+        questions: unknown[];
+        version?: number;
+        updatedAt?: Date;
+      }>();
+    if (!quiz) {
+      return NextResponse.json({ error: "Quiz not found" }, { status: 404 });
+    }
+    const currentVersion = getQuizVersion(quiz);
+
+    const [snapshots, submissionCounts] = await Promise.all([
+      QuizVersion.find({ quiz_id: new Types.ObjectId(quizId) })
+        .select("version title questions editedByName createdAt")
+        .sort({ version: -1 })
+        .lean<
+          {
+            version: number;
+            title: string;
+            questions: unknown[];
+            editedByName?: string;
+            createdAt: Date;
+          }[]
+        >(),
+      Submission.aggregate<{ _id: number; count: number }>([
+        { $match: { quiz_id: new Types.ObjectId(quizId) } },
+        {
+          $group: {
+            _id: { $ifNull: ["$quizVersion", 1] },
+            count: { $sum: 1 },
+          },
+        },
+      ]),
+    ]);
+    const countMap = new Map(
+      submissionCounts.map(({ _id, count }) => [_id, count])
+    );
+
+    const versions: QuizVersionSummary[] = snapshots.map((snapshot) => ({
+      version: snapshot.version,
+      title: snapshot.title,
+      questionCount: snapshot.questions.length,
+      submissionCount: countMap.get(snapshot.version) ?? 0,
+      editedByName: snapshot.editedByName,
+      createdAt: snapshot.createdAt,
+      isCurrent: snapshot.version === currentVersion,
+    }));
+    if (!versions.some((version) => version.isCurrent)) {
+      versions.unshift({
+        version: currentVersion,
+        title: quiz.title,
+        questionCount: quiz.questions.length,
+        submissionCount: countMap.get(currentVersion) ?? 0,
+        createdAt: quiz.updatedAt,
+        isCurrent: true,
+      });
+    }
+
+    return NextResponse.json(versions, { status: 200 });
+  } catch (error) {
+    console.error("Failed to fetch quiz versions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch quiz versions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { authenticateApiClient } from "@/app/lib/apiKeys";
+import { findOpenQuizzes } from "@/app/lib/openQuizzes";
+import { toStudentQuiz } from "@/app/lib/studentQuiz";
+
+/**
+ * Handles GET requests from the Unreal Engine client to retrieve the quizzes a
+ * student can take right now.
+ *
+ * Query Parameters:
+ * - studyYear: (required) The study year of the student.
+ * - student_id / studentEmail: (optional) The student taking the quizzes, shuffled
+ *   quizzes are returned in the order of this student.
+ *
+ * Returns the open quizzes of the study year, see {@link findOpenQuizzes}, in
+ * the student view, see {@link toStudentQuiz}. `/api/client/quizzes` returns
+ * the same quizzes in the versioned format of the UE client. Requires an API
+ * key or a teacher session, see {@link authenticateApiClient}. Returns a 400
+ * status if the study year is missing or invalid and a 404 status if the
+ * student is unknown.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the active quizzes or an error message.
+ * @example
+ * GET /api/quizzes/active?studyYear=2
+ */
+export async function GET(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+
+    const unauthorized = await authenticateApiClient(req, "active-quizzes");
+    if (unauthorized) return unauthorized;
+
+    const openQuizzes = await findOpenQuizzes(new URL(req.url).searchParams);
+    if (openQuizzes instanceof NextResponse) return openQuizzes;
+
+    return NextResponse.json(openQuizzes.quizzes.map(toStudentQuiz), {
+      status: 200,
+    });
+  } catch (error) {
+    console.error("Failed to get active quizzes:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to get active quizzes", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Quiz } from "@/app/models/Quiz";
+import type { IQuiz } from "@/app/models/Quiz";
+import { NOT_IN_TRASH } from "@/app/lib/quizTrash";
+import { buildQuizExport } from "@/app/lib/quizTransfer";
+import { buildQtiPackage } from "@/app/lib/qti";
+
+/**
+ * Handles GET requests to export all quizzes as a portable JSON document, to
+ * import them into another database (see `POST /api/quizzes/import`).
+ *
+ * Select-organ targets are referenced by mesh and group name instead of their
+ * ID, see {@link buildQuizExport}. Quizzes in the trash are not exported. The
+ * document is returned as a file download.
+ *
+ * Query Parameters:
+ * - studyYear: (optional) Only export the quizzes of this study year.
+ * - format: (optional) `json` (default) or `qti` for a QTI 2.1 package (zip)
+ *   to import into an LMS, see {@link buildQtiPackage}.
+ *
+ * Returns a 400 status if the study year or format is invalid.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the export document or an error message.
+ * @example
+ * GET /api/quizzes/export?studyYear=1&format=qti
+ */
+export async function GET(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(req.url);
+    const studyYearQuery = searchParams.get("studyYear");
+    const filter: Record<string, unknown> = { ...NOT_IN_TRASH };
+    if (studyYearQuery) {
+      const studyYear = parseInt(studyYearQuery, 10);
+      if (isNaN(studyYear)) {
+        return NextResponse.json(
+          { error: "Invalid studyYear parameter. Must be a number." },
+          { status: 400 }
+        );
+      }
+      filter.studyYear = studyYear;
+    }
+    const format = searchParams.get("format") ?? "json";
+    if (format !== "json" && format !== "qti") {
+      return NextResponse.json(
+        { error: "Invalid format parameter. Must be 'json' or 'qti'." },
+        { status: 400 }
+      );
+    }
+
+    const quizzes = await Quiz.find(filter)
+      .sort({ createdAt: -1 })
+      .lean<IQuiz[]>();
+
+    if (format === "qti") {
+      const date = new Date().toISOString().slice(0, 10);
+      return new NextResponse(new Uint8Array(await buildQtiPackage(quizzes)), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="quizzes-${date}.zip"`,
+        },
+      });
+    }
+
+    const exportDocument = await buildQuizExport(quizzes);
+    const date = exportDocument.exportedAt?.slice(0, 10);
+
+    return NextResponse.json(exportDocument, {
+      status: 200,
+      headers: {
+        "Content-Disposition": `attachment; filename="quizzes-${date}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export quizzes:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to export quizzes", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Types } from "mongoose";
+import { z } from "zod";
+import { generateQuizDraft } from "@/app/lib/quizGenerator";
+
+const MAX_GENERATED_QUESTIONS = 50;
+
+const generateQuizRequestBodySchema = z.object({
+  organGroupIds: z
+    .array(
+      z.string().refine((val) => Types.ObjectId.isValid(val), {
+        message: "Invalid organ group ID format.",
+      })
+    )
+    .min(1, { message: "At least one organ group is required" }),
+  studyYear: z
+    .number({ required_error: "Study year is required" })
+    .int({ message: "Study year must be an integer" })
+    .min(1, { message: "Study year must be a positive number" }),
+  questionCount: z
+    .number({ required_error: "Number of questions is required" })
+    .int({ message: "Number of questions must be an integer" })
+    .min(0, { message: "Number of questions cannot be negative" })
+    .max(MAX_GENERATED_QUESTIONS, {
+      message: `Number of questions cannot be higher than ${MAX_GENERATED_QUESTIONS}`,
+    }),
+  bankQuestionCount: z
+    .number()
+    .int({ message: "Number of bank questions must be an integer" })
+    .min(0, { message: "Number of bank questions cannot be negative" })
+    .max(MAX_GENERATED_QUESTIONS, {
+      message: `Number of bank questions cannot be higher than ${MAX_GENERATED_QUESTIONS}`,
+    })
+    .optional(),
+});
+
+/**
+ * Handles POST requests to generate a randomized quiz draft.
+ *
+ * Expects a JSON body with the following fields:
+ * - organGroupIds: string[] - The organ groups to draw the questions from.
+ * - studyYear: number - The study year of the quiz, meshes are drawn by their `defaultStudyYear`.
+ * - questionCount: number - The number of select-organ questions ("Select the {displayName}").
+ * - bankQuestionCount?: number - The number of questions drawn from the question bank.
+ *
+ * The draft is not saved: it has the format of the body of `POST /api/quizzes`
+ * and can be edited before it is created. Returns a 400 status if validation
+ * fails and a 404 status if no questions match. On success, it returns the
+ * draft with a 200 status, with fewer questions than requested if not enough
+ * meshes or bank questions match.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the quiz draft or an error message.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const body = await req.json();
+
+    const validationResult = generateQuizRequestBodySchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.message,
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const draft = await generateQuizDraft(validationResult.data);
+    if (draft.questions.length === 0) {
+      return NextResponse.json(
+        {
+          error:
+            "No meshes or bank questions match the selected organ groups and study year",
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(draft, { status: 200 });
+  } catch (error) {
+    console.error("Failed to generate quiz:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to generate quiz", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import mongoose from "mongoose";
+import { getSessionFromRequest } from "@/app/lib/session";
+import {
+  importPortableQuizzes,
+  quizExportDocumentSchema,
+} from "@/app/lib/quizTransfer";
+import { readQtiPackage, type QtiImportReport } from "@/app/lib/qti";
+
+const ZIP_CONTENT_TYPES = [
+  "application/zip",
+  "application/x-zip-compressed",
+  "application/octet-stream",
+];
+
+/**
+ * Handles POST requests to import quizzes from a portable JSON document, as
+ * created by `GET /api/quizzes/export` or `GET /api/quizzes/[id]/export`, or
+ * from a QTI 2.1 package (a zip body, e.g. `Content-Type: application/zip`).
+ *
+ * The quizzes are created as new quizzes. Select-organ targets are resolved by
+ * mesh and group name against the mesh catalog and organ groups of this
+ * database. Quizzes with a target that cannot be found, or with invalid
+ * content, are skipped (see {@link importPortableQuizzes}). QTI items with an
+ * unsupported interaction are left out and listed in `skippedItems` (see
+ * {@link readQtiPackage}).
+ *
+ * Query Parameters:
+ * - dryRun: (optional) Set to `true` to only resolve and validate the quizzes,
+ *   without saving them.
+ * - studyYear: The study year of the imported quizzes, required for a QTI
+ *   package since QTI has no study year.
+ *
+ * Returns a 400 status if the body is not a supported export document or QTI
+ * package. On success, it returns a report with the imported and skipped
+ * quizzes and the unresolved references with a 200 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the import report or an error message.
+ * @example
+ * POST /api/quizzes/import?dryRun=true
+ * { "format": "quiz-manager/quizzes", "version": 1, "quizzes": [...] }
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(req.url);
+    const dryRun = searchParams.get("dryRun") === "true";
+    const contentType = req.headers.get("content-type") || "";
+    if (ZIP_CONTENT_TYPES.some((type) => contentType.includes(type))) {
+      return await importQtiPackage(req, searchParams, dryRun);
+    }
+
+    const body = await req.json();
+    const validationResult = quizExportDocumentSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.message,
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const report = await importPortableQuizzes(validationResult.data.quizzes, {
+      dryRun,
+      editor: await getSessionFromRequest(req),
+    });
+
+    return NextResponse.json(report, { status: 200 });
+  } catch (error) {
+    console.error("Failed to import quizzes:", error);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid JSON body", details: error.message },
+        { status: 400 }
+      );
+    }
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    if (error instanceof mongoose.Error.ValidationError) {
+      return NextResponse.json(
+        { error: "Validation failed", details: error.errors },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      { error: "Failed to import quizzes", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Imports the quizzes of a QTI 2.1 package in the request body.
+ *
+ * @param {Request} req - The incoming HTTP request with the zip file as body.
+ * @param {URLSearchParams} searchParams - The query parameters with the study year.
+ * @param {boolean} dryRun - Whether to only validate the quizzes.
+ * @returns {Promise<NextResponse>} The response containing the import report or an error message.
+ */
+async function importQtiPackage(
+  req: Request,
+  searchParams: URLSearchParams,
+  dryRun: boolean
+): Promise<NextResponse> {
+  const studyYear = parseInt(searchParams.get("studyYear") ?? "", 10);
+  if (isNaN(studyYear) || studyYear < 1) {
+    return NextResponse.json(
+      {
+        error:
+          "A studyYear parameter (a positive number) is required to import a QTI package.",
+      },
+      { status: 400 }
+    );
+  }
+
+  let content;
+  try {
+    content = readQtiPackage(Buffer.from(await req.arrayBuffer()), studyYear);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: "Invalid QTI package",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 400 }
+    );
+  }
+
+  const report: QtiImportReport = {
+    ...(await importPortableQuizzes(content.quizzes, {
+      dryRun,
+      editor: await getSessionFromRequest(req),
+    })),
+    skippedItems: content.skippedItems,
+  };
+  return NextResponse.json(report, { status: 200 });
+}
@@ -1,93 +1,19 @@
 import { NextResponse } from "next/server";
 import dbConnect from "@/app/lib/dbConnect";
 import { Quiz } from "@/app/models/Quiz";
+import type { IQuiz } from "@/app/models/Quiz";
 import mongoose, { Types } from "mongoose";
 import { z } from "zod";
+import { isValidAvailabilityWindow } from "@/app/lib/availability";
+import { resolveQuizView, toStudentQuiz } from "@/app/lib/studentQuiz";
+import { requestQuestionSchema } from "@/app/lib/questionSchemas";
+import { applyBankReferences } from "@/app/lib/questionBank";
+import { getSessionFromRequest } from "@/app/lib/session";
+import { saveQuizVersion } from "@/app/lib/quizVersions";
+import { NOT_IN_TRASH } from "@/app/lib/quizTrash";
 
 // --- Zod Schemas ---
 
-// Schema for an answer (within a Question for MCQ/TF)
-const answerSchema = z.object({
-  text: z
-    .string({ required_error: "Answer text is required" })
-    .trim()
-    .min(1, { message: "Answer text must be at least 1 character long" }),
-  isCorrect: z.boolean({ required_error: "isCorrect flag is required" }),
-});
-
-const selectOrganAnswerSchema = z.object({
-  text: z
-    .string({ required_error: "Answer text is required" })
-    .trim()
-    .min(1, { message: "Answer text must be at least 1 character long" }),
-  isCorrect: z.boolean({ required_error: "isCorrect flag is required" }),
-  target_id: z
-    .string({
-      required_error: "target_id is required for select-organ questions.",
-    })
-    .refine((val) => Types.ObjectId.isValid(val), {
-      message: "Invalid target_id format. Must be a valid ObjectId string.",
-    }),
-});
-
-// Base Question Schema (common fields for request body from client)
-const baseRequestBodyQuestionSchema = z.object({
-  questionText: z
-    .string({ required_error: "Question text is required" })
-    .trim()
-    .min(1, { message: "Question text must be at least 1 character long" }),
-});
-
-// Specific Question Type Schemas for request body
-
-const multipleChoiceQuestionRequestBodySchema =
-  baseRequestBodyQuestionSchema.extend({
-    type: z.literal("multiple-choice"),
-    answers: z
-      .array(answerSchema)
-      .min(1, { message: "At least one answer is required" }),
-  });
-
-const trueFalseQuestionRequestBodySchema = baseRequestBodyQuestionSchema.extend(
-  {
-    type: z.literal("true-false"),
-    answers: z
-      .array(answerSchema)
-      .min(1, { message: "At least one answer is required" }),
-  }
-);
-
-const selectOrganQuestionRequestBodySchema =
-  baseRequestBodyQuestionSchema.extend({
-    type: z.literal("select-organ"),
-    targetType: z.enum(["mesh", "group"], {
-      required_error: "Target Type ('mesh' or 'group') is required",
-    }),
-    target_id: z
-      .string({
-        required_error: "target_id is required for select-organ questions.",
-      })
-      .refine((val) => Types.ObjectId.isValid(val), {
-        message: "Invalid target_id format. Must be a valid ObjectId string.",
-      }),
-    answers: z.array(selectOrganAnswerSchema),
-  });
-
-const shortAnswerQuestionRequestBodySchema =
-  baseRequestBodyQuestionSchema.extend({
-    type: z.literal("short-answer"),
-    answers: z
-      .array(answerSchema)
-      .max(0, "Short answer questions should not have predefined answers."),
-  });
-
-const requestQuestionSchema = z.discriminatedUnion("type", [
-  multipleChoiceQuestionRequestBodySchema,
-  trueFalseQuestionRequestBodySchema,
-  selectOrganQuestionRequestBodySchema,
-  shortAnswerQuestionRequestBodySchema,
-]);
-
 // Main Quiz Schema for request body
 const quizRequestBodySchema = z.object({
   title: z
@@ -107,18 +33,38 @@ const quizRequestBodySchema = z.object({
     .datetime({ message: "Scheduled date must be in ISO 8601 format" })
     .optional()
     .nullable(),
+  opensAt: z
+    .string()
+    .datetime({ message: "Opening date must be in ISO 8601 format" })
+    .optional()
+    .nullable(),
+  closesAt: z
+    .string()
+    .datetime({ message: "Closing date must be in ISO 8601 format" })
+    .optional()
+    .nullable(),
+  gracePeriodMinutes: z
+    .number()
+    .int({ message: "Grace period must be a whole number of minutes" })
+    .min(0, { message: "Grace period cannot be negative" })
+    .optional()
+    .nullable(),
+  shuffleQuestions: z.boolean().optional(),
+  shuffleAnswers: z.boolean().optional(),
 });
 
 /**
  * Handles GET requests to retrieve quizzes from the database.
  *
  * This function connects to the database and fetches quizzes based on optional
- * query parameters for study year and month. The results are sorted by creation
- * date in descending order.
+ * query parameters for study year and month. Quizzes in the trash are excluded.
+ * The results are sorted by creation date in descending order.
  *
  * Query Parameters:
  * - studyYear: Filters quizzes by the specified study year.
  * - month: Filters quizzes scheduled within the specified month (format: YYYY-MM).
+ * - view: "student" or "teacher". Without a teacher session the quizzes are
+ *   returned without the answer key, see {@link resolveQuizView}.
  *
  * Returns a 400 status with an error message if the study year parameter is invalid.
  * Logs and returns a 500 status with an error message if an exception occurs.
@@ -134,7 +80,7 @@ export async function GET(req: Request): Promise<NextResponse> {
     const studyYearQuery = searchParams.get("studyYear");
     const monthQuery = searchParams.get("month");
 
-    const filter: any = {};
+    const filter: any = { ...NOT_IN_TRASH };
     if (studyYearQuery) {
       const year = parseInt(studyYearQuery, 10);
       if (!isNaN(year)) {
@@ -163,8 +109,16 @@ export async function GET(req: Request): Promise<NextResponse> {
       }
     }
 
-    const quizzes = await Quiz.find(filter).sort({ createdAt: -1 }).lean();
-    return NextResponse.json(quizzes, { status: 200 });
+    const view = await resolveQuizView(req);
+    if (view instanceof NextResponse) return view;
+
+    const quizzes = await Quiz.find(filter)
+      .sort({ createdAt: -1 })
+      .lean<IQuiz[]>();
+    return NextResponse.json(
+      view === "student" ? quizzes.map(toStudentQuiz) : quizzes,
+      { status: 200 }
+    );
   } catch (error) {
     console.error("Failed to get quizzes:", error);
     const errorMessage =
@@ -191,10 +145,20 @@ export async function GET(req: Request): Promise<NextResponse> {
  *     - isCorrect: boolean (optional) - Whether the answer is correct or not.
  *     - target_id: ObjectId (optional) - The ID of the selected organ, for select-organ questions only.
  *   - targetType: string (optional) - The type of the target, for select-organ questions only.
+ *   - acceptedAnswers: string[] (optional) - Accepted answers used to grade short-answer questions.
+ *   - typoTolerance: number (optional) - Max edit distance for short-answer questions.
+ *   - bankQuestion_id: string (optional) - The bank question the question was pulled from.
+ *   - bankLink: string (optional) - "reference" to use the content of the bank question, or "copy".
  * - scheduledAt: string (optional) - The ISO date string of when the quiz should be scheduled.
+ * - opensAt: string (optional) - The ISO date string from when submissions are accepted.
+ * - closesAt: string (optional) - The ISO date string until when submissions are accepted, must be after opensAt.
+ * - gracePeriodMinutes: number (optional) - Minutes after closing in which submissions are still accepted.
+ * - shuffleQuestions: boolean (optional) - Present the questions in a different order to every student.
+ * - shuffleAnswers: boolean (optional) - Present the answers of multiple-choice questions in a different order to every student.
  *
  * The function validates the input data, ensuring required fields are present and have correct types.
- * If validation fails, it returns a 400 status with an error message. On success, it returns the created quiz data with a 201 status.
+ * If validation fails, it returns a 400 status with an error message. The created quiz is stored as version 1
+ * (see {@link saveQuizVersion}). On success, it returns the created quiz data with a 201 status.
  * Logs and returns a 500 status with an error message if an exception occurs.
  *
  * @param {Request} req - The incoming HTTP request.
@@ -218,33 +182,83 @@ export async function POST(req: Request): Promise<NextResponse> {
     }
 
     const validatedData = validationResult.data;
+    if (
+      !isValidAvailabilityWindow(validatedData.opensAt, validatedData.closesAt)
+    ) {
+      return NextResponse.json(
+        {
+          error: "The quiz must close after it opens",
+          details: {
+            closesAt: ["Closing date must be after the opening date"],
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { questions, missingIds } = await applyBankReferences(
+      validatedData.questions
+    );
+    if (missingIds.length > 0) {
+      return NextResponse.json(
+        {
+          error: "Referenced bank question not found",
+          details: { bankQuestion_id: missingIds },
+        },
+        { status: 400 }
+      );
+    }
 
     const quizData = {
       title: validatedData.title,
       description: validatedData.description,
       studyYear: validatedData.studyYear,
-      questions: validatedData.questions.map((q) => {
+      questions: questions.map((q) => {
         // Map to ensure only expected fields go into the DB model,
         // and convert target_id to ObjectId for select-organ.
         // Mongoose will generate _id for questions and answers.
         let questionPayload: any = {
           questionText: q.questionText,
           type: q.type,
-          answers: q.answers || [], // Ensure answers is an array
+          // Ensure answers is an array, without client-side answer IDs
+          answers: (q.answers || []).map(({ text, isCorrect }) => ({
+            text,
+            isCorrect,
+          })),
         };
         if (q.type === "select-organ") {
           questionPayload.targetType = q.targetType;
           questionPayload.target_id = new Types.ObjectId(q.target_id); // Already validated as valid ObjectId string by Zod
         }
+        if (q.type === "short-answer") {
+          questionPayload.acceptedAnswers = q.acceptedAnswers || [];
+          questionPayload.typoTolerance = q.typoTolerance;
+        }
+        if (q.bankQuestion_id) {
+          questionPayload.bankQuestion_id = new Types.ObjectId(
+            q.bankQuestion_id
+          );
+          questionPayload.bankLink = q.bankLink ?? "copy";
+        }
         return questionPayload;
       }),
       scheduledAt: validatedData.scheduledAt
         ? new Date(validatedData.scheduledAt)
         : null,
+      opensAt: validatedData.opensAt
+        ? new Date(validatedData.opensAt)
+        : undefined,
+      closesAt: validatedData.closesAt
+        ? new Date(validatedData.closesAt)
+        : undefined,
+      gracePeriodMinutes: validatedData.gracePeriodMinutes ?? undefined,
+      shuffleQuestions: validatedData.shuffleQuestions,
+      shuffleAnswers: validatedData.shuffleAnswers,
     };
 
     const newQuiz = new Quiz(quizData);
     await newQuiz.save();
+    await saveQuizVersion(newQuiz.toObject(), await getSessionFromRequest(req));
 
     return NextResponse.json(newQuiz, { status: 201 });
   } catch (error) {
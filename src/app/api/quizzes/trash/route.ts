@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Quiz, Submission } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { IN_TRASH } from "@/app/lib/quizTrash";
+
+interface TrashedQuiz {
+  _id: Types.ObjectId;
+  title: string;
+  studyYear: number;
+  questionCount: number;
+  submissionCount: number;
+  deletedAt: Date;
+}
+
+/**
+ * Handles GET requests to list the quizzes in the trash.
+ *
+ * Returns the trashed quizzes, most recently trashed first, with the number of
+ * questions and submissions, so a teacher can decide whether to restore or
+ * purge a quiz and whether to purge its submissions too.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the trashed quizzes or an error message.
+ * @example
+ * GET /api/quizzes/trash
+ */
+export async function GET(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+
+    const quizzes = await Quiz.find(IN_TRASH)
+      .select("title studyYear questions deletedAt")
+      .sort({ deletedAt: -1 })
+      .lean<
+        {
+          _id: Types.ObjectId;
+          title: string;
+          studyYear: number;
+          questions: unknown[];
+          deletedAt: Date;
+        }[]
+      >();
+
+    const submissionCounts = await Submission.aggregate<{
+      _id: Types.ObjectId;
+      count: number;
+    }>([
+      { $match: { quiz_id: { $in: quizzes.map((quiz) => quiz._id) } } },
+      { $group: { _id: "$quiz_id", count: { $sum: 1 } } },
+    ]);
+    const countMap = new Map(
+      submissionCounts.map(({ _id, count }) => [String(_id), count])
+    );
+
+    const trashedQuizzes: TrashedQuiz[] = quizzes.map((quiz) => ({
+      _id: quiz._id,
+      title: quiz.title,
+      studyYear: quiz.studyYear,
+      questionCount: quiz.questions.length,
+      submissionCount: countMap.get(String(quiz._id)) ?? 0,
+      deletedAt: quiz.deletedAt,
+    }));
+
+    return NextResponse.json(trashedQuizzes, { status: 200 });
+  } catch (error) {
+    console.error("Failed to fetch trashed quizzes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trashed quizzes" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { loadOrganConfusion } from "@/app/lib/organConfusion";
+
+/**
+ * Handles GET requests to retrieve the confusion analysis of select-organ
+ * questions across all quizzes.
+ *
+ * For every target mesh or organ group of a select-organ question, returns how
+ * often it was asked and answered correctly and which meshes students clicked
+ * instead, most frequent first. Targets and meshes are sorted by organ group,
+ * so systematic confusions between neighbouring structures (e.g. left and
+ * right ribs) show up as blocks in a matrix (see {@link loadOrganConfusion}).
+ * Quizzes in the trash are not included.
+ *
+ * Query Parameters:
+ * - studyYear: (optional) Only include the quizzes of this study year.
+ *
+ * Returns a 400 status if the study year is invalid.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the confusion analysis or an error message.
+ * @example
+ * GET /api/results/organ-confusion?studyYear=1
+ */
+export async function GET(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(req.url);
+    const studyYearQuery = searchParams.get("studyYear");
+    let studyYear: number | undefined;
+    if (studyYearQuery) {
+      studyYear = parseInt(studyYearQuery, 10);
+      if (isNaN(studyYear)) {
+        return NextResponse.json(
+          { error: "Invalid studyYear parameter. Must be a number." },
+          { status: 400 }
+        );
+      }
+    }
+
+    const confusion = await loadOrganConfusion({ studyYear });
+    return NextResponse.json(confusion, { status: 200 });
+  } catch (error) {
+    console.error("Failed to get organ confusion:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to get organ confusion", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
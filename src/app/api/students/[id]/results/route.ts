@@ -0,0 +1,336 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import {
+  Quiz,
+  Submission,
+  Student,
+  MeshCatalogItem,
+  OrganGroup,
+} from "@/app/models/Quiz";
+import type { IQuestion, ISubmissionAnswer } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { loadVersionQuestions } from "@/app/lib/quizVersions";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+interface AccuracyTotals {
+  answered: number; // Number of graded answers
+  correct: number; // Sum of the answer credits, partial credit counts as a fraction
+}
+
+interface AccuracyResult extends AccuracyTotals {
+  accuracy: number; // Percentage 0-100
+}
+
+interface QuestionTypeAccuracy extends AccuracyResult {
+  questionType: IQuestion["type"];
+}
+
+interface OrganGroupAccuracy extends AccuracyResult {
+  organGroupId: string;
+  groupName: string;
+}
+
+interface StudentSubmissionResult {
+  submissionId: string;
+  quizId: string;
+  quizTitle: string;
+  submittedAt: Date;
+  studyYearAtSubmission: number;
+  score: number;
+  maxScore: number;
+  percentage: number; // Score as percentage of the maximum score, 0-100
+  accuracyByQuestionType: Partial<Record<IQuestion["type"], number>>; // Percentage per question type
+  accuracyByOrganGroup: Record<string, number>; // Percentage per organ group ID
+}
+
+type LeanQuiz = {
+  _id: Types.ObjectId;
+  title: string;
+  version?: number;
+  questions: IQuestion[];
+};
+type LeanSubmission = {
+  _id: Types.ObjectId;
+  quiz_id: Types.ObjectId;
+  quizVersion?: number;
+  studyYearAtSubmission: number;
+  submittedAt: Date;
+  answers: ISubmissionAnswer[];
+  score?: number;
+  maxScore?: number;
+};
+
+/**
+ * Returns the credit of a graded answer. Submissions stored before partial
+ * credit existed only have `isCorrect`.
+ *
+ * @param {ISubmissionAnswer} answer - The stored answer.
+ * @returns {number | undefined} The credit between 0 and 1, or undefined if the answer was not graded.
+ */
+const getAnswerCredit = (answer: ISubmissionAnswer): number | undefined =>
+  answer.credit ??
+  (answer.isCorrect === undefined ? undefined : answer.isCorrect ? 1 : 0);
+
+/**
+ * Adds a graded answer to the totals of a category.
+ *
+ * @param {Map<string, AccuracyTotals>} totals - The totals per category.
+ * @param {string} key - The category, e.g. a question type or organ group ID.
+ * @param {number} credit - The credit of the answer.
+ */
+const addToTotals = (
+  totals: Map<string, AccuracyTotals>,
+  key: string,
+  credit: number
+) => {
+  const current = totals.get(key) ?? { answered: 0, correct: 0 };
+  current.answered += 1;
+  current.correct += credit;
+  totals.set(key, current);
+};
+
+const toPercentage = (correct: number, total: number): number =>
+  total > 0 ? Math.round((correct / total) * 1000) / 10 : 0;
+
+/**
+ * Handles GET requests to retrieve the results and progress history of a student.
+ *
+ * Connects to the database and fetches every submission linked to the student
+ * together with the submitted quizzes. For each submission it returns the score
+ * and the accuracy per question type and per organ group, sorted by submission
+ * date so they can be plotted as a trend. The accuracy over all submissions is
+ * returned per question type and per organ group as well. Every submission is
+ * evaluated against the questions of the version of the quiz it answered.
+ *
+ * Only graded answers count towards the accuracy; short answers without accepted
+ * answers or a manual grade are skipped. Organ groups are derived from
+ * `select-organ` questions: the targeted group, or the groups of the targeted mesh.
+ *
+ * Returns a 400 status if the ID is invalid and a 404 status if the student does
+ * not exist.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the student ID.
+ * @returns {Promise<NextResponse>} The response containing the student results or an error message.
+ * @example
+ * GET /api/students/123/results
+ */
+export async function GET(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const studentId = context.params.id;
+
+    if (!studentId || !Types.ObjectId.isValid(studentId)) {
+      return NextResponse.json(
+        { error: "Invalid Student ID format" },
+        { status: 400 }
+      );
+    }
+
+    const student = await Student.findById(studentId).lean();
+    if (!student) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+
+    const submissions = await Submission.find({
+      student_id: new Types.ObjectId(studentId),
+    })
+      .sort({ submittedAt: 1 })
+      .lean<LeanSubmission[]>();
+
+    const quizIds = Array.from(
+      new Set(submissions.map((submission) => submission.quiz_id.toString()))
+    ).map((id) => new Types.ObjectId(id));
+    const quizzes = await Quiz.find({ _id: { $in: quizIds } })
+      .select("title version questions")
+      .lean<LeanQuiz[]>();
+    const quizMap = new Map(quizzes.map((quiz) => [quiz._id.toString(), quiz]));
+
+    // The questions of every quiz per version answered by the student
+    const versionQuestions = new Map(
+      await Promise.all(
+        quizzes.map(
+          async (quiz) =>
+            [
+              quiz._id.toString(),
+              await loadVersionQuestions(
+                quiz,
+                submissions
+                  .filter((submission) => submission.quiz_id.equals(quiz._id))
+                  .map((submission) => submission.quizVersion)
+              ),
+            ] as const
+        )
+      )
+    );
+
+    // Resolve the organ groups targeted by select-organ questions
+    const targetMeshIds = new Set<string>();
+    versionQuestions.forEach((questionsByVersion) =>
+      questionsByVersion.forEach((questions) =>
+        questions.forEach((question) => {
+          if (
+            question.type === "select-organ" &&
+            question.targetType === "mesh" &&
+            question.target_id
+          ) {
+            targetMeshIds.add(question.target_id.toString());
+          }
+        })
+      )
+    );
+    const targetMeshes = targetMeshIds.size
+      ? await MeshCatalogItem.find({
+          _id: {
+            $in: Array.from(targetMeshIds).map((id) => new Types.ObjectId(id)),
+          },
+        })
+          .select("organGroupIds")
+          .lean<{ _id: Types.ObjectId; organGroupIds?: Types.ObjectId[] }[]>()
+      : [];
+    const meshGroupMap = new Map(
+      targetMeshes.map((mesh) => [
+        mesh._id.toString(),
+        (mesh.organGroupIds ?? []).map((id) => id.toString()),
+      ])
+    );
+    const getOrganGroupIds = (question: IQuestion): string[] => {
+      if (question.type !== "select-organ" || !question.target_id) return [];
+      const targetId = question.target_id.toString();
+      return question.targetType === "group"
+        ? [targetId]
+        : meshGroupMap.get(targetId) ?? [];
+    };
+
+    const typeTotals = new Map<string, AccuracyTotals>();
+    const groupTotals = new Map<string, AccuracyTotals>();
+
+    const submissionResults: StudentSubmissionResult[] = submissions.map(
+      (submission) => {
+        const quiz = quizMap.get(submission.quiz_id.toString());
+        const questions =
+          versionQuestions
+            .get(submission.quiz_id.toString())
+            ?.get(submission.quizVersion ?? 1) ?? [];
+        const questionMap = new Map(
+          questions.map((q) => [q._id?.toString(), q])
+        );
+        const submissionTypeTotals = new Map<string, AccuracyTotals>();
+        const submissionGroupTotals = new Map<string, AccuracyTotals>();
+
+        submission.answers.forEach((answer) => {
+          const question = questionMap.get(answer.question_id.toString());
+          const credit = getAnswerCredit(answer);
+          if (!question || credit === undefined) return;
+
+          addToTotals(typeTotals, question.type, credit);
+          addToTotals(submissionTypeTotals, question.type, credit);
+          getOrganGroupIds(question).forEach((groupId) => {
+            addToTotals(groupTotals, groupId, credit);
+            addToTotals(submissionGroupTotals, groupId, credit);
+          });
+        });
+
+        const score =
+          submission.score ??
+          submission.answers.reduce(
+            (sum, answer) => sum + (getAnswerCredit(answer) ?? 0),
+            0
+          );
+        const maxScore =
+          submission.maxScore ??
+          (quiz ? questions.length : submission.answers.length);
+
+        return {
+          submissionId: submission._id.toString(),
+          quizId: submission.quiz_id.toString(),
+          quizTitle: quiz?.title ?? "Deleted quiz",
+          submittedAt: submission.submittedAt,
+          studyYearAtSubmission: submission.studyYearAtSubmission,
+          score,
+          maxScore,
+          percentage: toPercentage(score, maxScore),
+          accuracyByQuestionType: Object.fromEntries(
+            Array.from(submissionTypeTotals, ([type, totals]) => [
+              type,
+              toPercentage(totals.correct, totals.answered),
+            ])
+          ),
+          accuracyByOrganGroup: Object.fromEntries(
+            Array.from(submissionGroupTotals, ([groupId, totals]) => [
+              groupId,
+              toPercentage(totals.correct, totals.answered),
+            ])
+          ),
+        };
+      }
+    );
+
+    const organGroups = groupTotals.size
+      ? await OrganGroup.find({
+          _id: {
+            $in: Array.from(groupTotals.keys()).map(
+              (id) => new Types.ObjectId(id)
+            ),
+          },
+        })
+          .select("groupName")
+          .lean<{ _id: Types.ObjectId; groupName: string }[]>()
+      : [];
+    const groupNameMap = new Map(
+      organGroups.map((group) => [group._id.toString(), group.groupName])
+    );
+
+    const byQuestionType: QuestionTypeAccuracy[] = Array.from(
+      typeTotals,
+      ([questionType, totals]) => ({
+        questionType: questionType as IQuestion["type"],
+        ...totals,
+        accuracy: toPercentage(totals.correct, totals.answered),
+      })
+    );
+    const byOrganGroup: OrganGroupAccuracy[] = Array.from(
+      groupTotals,
+      ([organGroupId, totals]) => ({
+        organGroupId,
+        groupName: groupNameMap.get(organGroupId) ?? "Unknown group",
+        ...totals,
+        accuracy: toPercentage(totals.correct, totals.answered),
+      })
+    ).sort((a, b) => a.groupName.localeCompare(b.groupName));
+
+    const averagePercentage = submissionResults.length
+      ? Math.round(
+          (submissionResults.reduce((sum, s) => sum + s.percentage, 0) /
+            submissionResults.length) *
+            10
+        ) / 10
+      : 0;
+
+    return NextResponse.json(
+      {
+        student,
+        submissionCount: submissionResults.length,
+        averagePercentage,
+        submissions: submissionResults,
+        byQuestionType,
+        byOrganGroup,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to get student results:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to get student results", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Student, Submission } from "@/app/models/Quiz";
+import { studentRequestBodySchema } from "@/app/lib/studentSchemas";
+import { Types } from "mongoose";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+/**
+ * Handles GET requests to retrieve a single student by ID.
+ *
+ * Returns a 400 status if the ID is invalid and a 404 status if the student
+ * does not exist. On success, it returns the student together with the number
+ * of linked submissions with a 200 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the student ID.
+ * @returns {Promise<NextResponse>} The response containing the student or an error message.
+ */
+export async function GET(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const studentId = context.params.id;
+
+    if (!studentId || !Types.ObjectId.isValid(studentId)) {
+      return NextResponse.json(
+        { error: "Invalid Student ID format" },
+        { status: 400 }
+      );
+    }
+
+    const student = await Student.findById(studentId).lean();
+    if (!student) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+
+    const submissionCount = await Submission.countDocuments({
+      student_id: new Types.ObjectId(studentId),
+    });
+
+    return NextResponse.json({ ...student, submissionCount }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to get student:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to get student", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handles PUT requests to update a student.
+ *
+ * Expects the same JSON body as `POST /api/students`. Returns a 400 status if
+ * validation fails, a 404 status if the student does not exist and a 409 status
+ * if another student already uses the email. On success, it returns the updated
+ * student with a 200 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the student ID.
+ * @returns {Promise<NextResponse>} The response containing the updated student or an error message.
+ */
+export async function PUT(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const studentId = context.params.id;
+
+    if (!studentId || !Types.ObjectId.isValid(studentId)) {
+      return NextResponse.json(
+        { error: "Invalid Student ID format" },
+        { status: 400 }
+      );
+    }
+
+    const validationResult = studentRequestBodySchema.safeParse(
+      await req.json()
+    );
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.message,
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, email, studyYear, cohort } = validationResult.data;
+    if (
+      (await Student.countDocuments({ email, _id: { $ne: studentId } })) > 0
+    ) {
+      return NextResponse.json(
+        { error: "A student with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    const update: any = { $set: { name, email } };
+    const unset: Record<string, 1> = {};
+    if (studyYear != null) update.$set.studyYear = studyYear;
+    else unset.studyYear = 1;
+    if (cohort) update.$set.cohort = cohort;
+    else unset.cohort = 1;
+    if (Object.keys(unset).length > 0) update.$unset = unset;
+
+    const updatedStudent = await Student.findByIdAndUpdate(studentId, update, {
+      new: true,
+      runValidators: true,
+    }).lean();
+    if (!updatedStudent) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updatedStudent, { status: 200 });
+  } catch (error) {
+    console.error("Failed to update student:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to update student", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handles DELETE requests to remove a student from the roster.
+ *
+ * The submissions of the student are kept for the quiz results, but are no
+ * longer linked to a student. Returns a 400 status if the ID is invalid and a
+ * 404 status if the student does not exist.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the student ID.
+ * @returns {Promise<NextResponse>} The response confirming the deletion or an error message.
+ */
+export async function DELETE(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const studentId = context.params.id;
+
+    if (!studentId || !Types.ObjectId.isValid(studentId)) {
+      return NextResponse.json(
+        { error: "Invalid Student ID format" },
+        { status: 400 }
+      );
+    }
+
+    const deletedStudent = await Student.findByIdAndDelete(studentId).lean();
+    if (!deletedStudent) {
+      return NextResponse.json({ error: "Student not found" }, { status: 404 });
+    }
+
+    const { modifiedCount } = await Submission.updateMany(
+      { student_id: new Types.ObjectId(studentId) },
+      { $unset: { student_id: 1 } }
+    );
+
+    return NextResponse.json(
+      {
+        message: "Student deleted successfully",
+        unlinkedSubmissions: modifiedCount,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to delete student:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to delete student", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Student } from "@/app/models/Quiz";
+import { parseCsv } from "@/app/lib/csv";
+import {
+  studentRequestBodySchema,
+  type StudentRequestBody,
+} from "@/app/lib/studentSchemas";
+
+// Accepted header names (lowercase, without spaces/underscores) per student field
+const COLUMN_ALIASES: Record<keyof StudentRequestBody, string[]> = {
+  name: ["name", "fullname", "student", "studentname"],
+  email: ["email", "emailaddress", "mail"],
+  studyYear: ["studyyear", "year"],
+  cohort: ["cohort", "class", "group"],
+};
+
+interface ImportRowError {
+  line: number;
+  error: string;
+}
+
+/**
+ * Finds the column index of every student field in the header row.
+ *
+ * @param {string[]} header - The header row of the CSV file.
+ * @returns {Partial<Record<keyof StudentRequestBody, number>>} The column index per field.
+ */
+const mapColumns = (
+  header: string[]
+): Partial<Record<keyof StudentRequestBody, number>> => {
+  const normalized = header.map((h) =>
+    h
+      .trim()
+      .toLowerCase()
+      .replace(/[\s_-]/g, "")
+  );
+  const columns: Partial<Record<keyof StudentRequestBody, number>> = {};
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+    const index = normalized.findIndex((h) => aliases.includes(h));
+    if (index !== -1) columns[field as keyof StudentRequestBody] = index;
+  }
+  return columns;
+};
+
+/**
+ * Handles POST requests to import a class roster from a CSV file.
+ *
+ * The body is either the CSV text itself (`Content-Type: text/csv`) or a JSON
+ * object `{ "csv": "<text>" }`. The first row must be a header with at least
+ * the `name` and `email` columns; `studyYear` and `cohort` are optional. The
+ * separator may be a comma or a semicolon.
+ *
+ * Students are matched by email: existing students are updated, new ones are
+ * created. Invalid rows (and repeated emails within the file) are skipped and
+ * reported with their line number, so a single typo does not block the import.
+ * Returns a 400 status if the file is empty or misses required columns. On
+ * success, it returns the number of created and updated students and the
+ * skipped rows with a 200 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the import report or an error message.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+
+    const contentType = req.headers.get("content-type") || "";
+    const csv = contentType.includes("application/json")
+      ? (await req.json())?.csv
+      : await req.text();
+    if (typeof csv !== "string" || csv.trim() === "") {
+      return NextResponse.json(
+        { error: "The CSV file is empty" },
+        { status: 400 }
+      );
+    }
+
+    const [header, ...rows] = parseCsv(csv);
+    const columns = mapColumns(header);
+    if (columns.name === undefined || columns.email === undefined) {
+      return NextResponse.json(
+        {
+          error:
+            "The CSV file must have a header row with 'name' and 'email' columns",
+          details: { header },
+        },
+        { status: 400 }
+      );
+    }
+
+    const errors: ImportRowError[] = [];
+    const students = new Map<string, StudentRequestBody>();
+    rows.forEach((row, index) => {
+      const line = index + 2; // 1-based, after the header
+      const value = (field: keyof StudentRequestBody) =>
+        columns[field] !== undefined ? row[columns[field]!]?.trim() : undefined;
+      const studyYear = value("studyYear");
+
+      const validationResult = studentRequestBodySchema.safeParse({
+        name: value("name"),
+        email: value("email"),
+        studyYear: studyYear ? Number(studyYear) : undefined,
+        cohort: value("cohort") || undefined,
+      });
+      if (!validationResult.success) {
+        errors.push({
+          line,
+          error: validationResult.error.errors.map((e) => e.message).join(", "),
+        });
+        return;
+      }
+      if (students.has(validationResult.data.email)) {
+        errors.push({
+          line,
+          error: `Duplicate email ${validationResult.data.email} in file`,
+        });
+        return;
+      }
+      students.set(validationResult.data.email, validationResult.data);
+    });
+
+    if (students.size === 0) {
+      return NextResponse.json(
+        { created: 0, updated: 0, errors },
+        { status: 200 }
+      );
+    }
+
+    const result = await Student.bulkWrite(
+      Array.from(students.values()).map(
+        ({ name, email, studyYear, cohort }) => ({
+          updateOne: {
+            filter: { email },
+            update: {
+              $set: {
+                name,
+                email,
+                ...(studyYear != null && { studyYear }),
+                ...(cohort && { cohort }),
+              },
+            },
+            upsert: true,
+          },
+        })
+      )
+    );
+
+    return NextResponse.json(
+      {
+        created: result.upsertedCount,
+        updated: result.matchedCount,
+        errors,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to import students:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to import students", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { Student } from "@/app/models/Quiz";
+import { studentRequestBodySchema } from "@/app/lib/studentSchemas";
+
+/**
+ * Escapes a string for use in a regular expression.
+ *
+ * @param {string} value - The raw search text.
+ * @returns {string} The escaped text.
+ */
+const escapeRegex = (value: string): string =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Handles GET requests to retrieve the student roster.
+ *
+ * Query Parameters:
+ * - studyYear: Filters students by the specified study year.
+ * - cohort: Filters students by the specified cohort.
+ * - search: Filters students whose name or email contains the search text.
+ *
+ * Returns a 400 status if the study year parameter is invalid. On success, it
+ * returns the students sorted by name with a 200 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the list of students or an error message.
+ */
+export async function GET(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+
+    const { searchParams } = new URL(req.url);
+    const studyYearQuery = searchParams.get("studyYear");
+    const cohortQuery = searchParams.get("cohort");
+    const searchQuery = searchParams.get("search");
+
+    const filter: any = {};
+    if (studyYearQuery) {
+      const year = parseInt(studyYearQuery, 10);
+      if (isNaN(year)) {
+        return NextResponse.json(
+          { error: "Invalid studyYear parameter. Must be a number." },
+          { status: 400 }
+        );
+      }
+      filter.studyYear = year;
+    }
+    if (cohortQuery) filter.cohort = cohortQuery;
+    if (searchQuery) {
+      const searchRegex = new RegExp(escapeRegex(searchQuery), "i");
+      filter.$or = [{ name: searchRegex }, { email: searchRegex }];
+    }
+
+    const students = await Student.find(filter).sort({ name: 1 }).lean();
+    return NextResponse.json(students, { status: 200 });
+  } catch (error) {
+    console.error("Failed to get students:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to get students", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handles POST requests to add a student to the roster.
+ *
+ * The function expects a JSON body with the following structure:
+ * - name: string (required) - The name of the student.
+ * - email: string (required) - The email address of the student, must be unique.
+ * - studyYear: number (optional) - The current study year of the student.
+ * - cohort: string (optional) - The cohort (class) of the student.
+ *
+ * Returns a 400 status if validation fails and a 409 status if a student with
+ * the email already exists. On success, it returns the created student with a
+ * 201 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the created student or an error message.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const body = await req.json();
+
+    const validationResult = studentRequestBodySchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.message,
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, email, studyYear, cohort } = validationResult.data;
+    if ((await Student.countDocuments({ email })) > 0) {
+      return NextResponse.json(
+        { error: "A student with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    const student = await Student.create({
+      name,
+      email,
+      studyYear: studyYear ?? undefined,
+      cohort: cohort || undefined,
+    });
+
+    return NextResponse.json(student, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create student:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to create student", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
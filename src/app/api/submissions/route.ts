@@ -1,25 +1,65 @@
 import { NextResponse } from "next/server";
 import dbConnect from "@/app/lib/dbConnect";
-import { Submission, Quiz, MeshCatalogItem } from "@/app/models/Quiz";
+import { Submission, Quiz } from "@/app/models/Quiz";
 import mongoose, { Types } from "mongoose";
-import type { ISubmissionAnswer } from "@/app/models/Quiz";
+import type { IQuiz, ISubmissionAnswer } from "@/app/models/Quiz";
+import { authenticateApiClient } from "@/app/lib/apiKeys";
+import { getSubmissionWindowError } from "@/app/lib/availability";
+import { resolveStudent } from "@/app/lib/students";
+import { getPresentedAnswerId, getPresentedOrder } from "@/app/lib/shuffle";
+import { getQuizVersion, loadVersionQuestions } from "@/app/lib/quizVersions";
+import {
+  gradeSubmission,
+  loadGradingMeshes,
+  loadShortAnswerGrades,
+} from "@/app/lib/grading";
 
 /**
  * Handles POST requests to create a new submission in the database.
  *
  * The function expects a JSON body with the following structure:
  * - quiz_id: ObjectId (required) - The ID of the quiz being submitted.
+ * - student_id: ObjectId (optional) - The ID of the submitting student.
+ * - studentEmail: string (optional) - The email of the submitting student, used when the UE
+ *   client does not know the student ID.
  * - studyYearAtSubmission: number (required) - The student's study year.
  * - submittedAt: string (required) - The ISO date string of the submission.
+ * - quizVersion: number (optional) - The version of the quiz the student answered, defaults to the
+ *   current version.
  * - answers: Array (required) - A list of answer objects, each containing:
  *   - question_id: ObjectId (required) - The ID of the question.
- *   - selectedAnswerId_Index: number (optional) - The index of the selected answer.
+ *   - selectedAnswer_id: ObjectId (optional) - The ID of the selected answer, for MCQ/TF questions.
+ *   - selectedAnswerId_Index: number (optional) - The index of the selected answer in the order it was
+ *     presented, accepted from clients that do not send `selectedAnswer_id` yet.
  *   - responseText_ClickedMesh_id: ObjectId (optional) - The ID of the selected mesh.
  *   - responseText_ShortAnswer: string (optional) - The student's short answer.
  *
- * The function validates the input data, ensuring required fields are present and have correct types.
- * If validation fails, it returns a 400 status with an error message. If the quiz is not found, it returns
- * a 404 status. On success, it returns the created submission data with a 201 status. Logs and returns a 500 status
+ * The request must be authenticated with an API key (`Authorization: Bearer <key>`), see
+ * {@link authenticateApiClient}. Returns a 401 status if the key is missing, invalid or revoked.
+ *
+ * The function validates the input data, ensuring required fields are present and have correct types,
+ * and that every answer belongs to a question of the quiz. If validation fails, it returns a 400 status
+ * with an error message. If the quiz is not found or in the trash, it returns a 404 status. When a student is given, it
+ * is resolved against the student roster (see {@link resolveStudent}) and linked to the submission; an
+ * unknown student results in a 404 status. Submissions received before the quiz opens or after it
+ * closes (plus the grace period, see {@link getSubmissionWindowError}) are rejected with a 403 status.
+ *
+ * Selected answers are stored by their `_id`, so results stay correct when the answers of the quiz are
+ * reordered or removed later. A `selectedAnswerId_Index` is converted to the `_id` of the answer at that
+ * position (see {@link getPresentedAnswerId}). If the quiz shuffles questions or answers, the index refers
+ * to the order the student was presented (see {@link getPresentedOrder}), which is stored on the
+ * submission. Without a student the quiz is presented in its own order.
+ *
+ * The submission records the version of the quiz it answered (see {@link loadVersionQuestions}) and
+ * is graded against the questions of that version, so a quiz that is edited while students take it
+ * does not affect their grades. A `quizVersion` newer than the current version of the quiz results
+ * in a 400 status.
+ *
+ * Every answer is graded with the shared grading module (see {@link gradeSubmission}) and the
+ * per-answer `isCorrect` flags plus the total `score` and `maxScore` are stored on the submission.
+ * Short answers that a teacher already graded manually (for an identical response) get that grade.
+ * On success, it returns the created submission data with a 201 status, including the score and the
+ * correctness per question so the UE client can show feedback immediately. Logs and returns a 500 status
  * with an error message if an exception occurs.
  *
  * @param {Request} req - The incoming HTTP request.
@@ -28,9 +68,21 @@ import type { ISubmissionAnswer } from "@/app/models/Quiz";
 export async function POST(req: Request): Promise<NextResponse> {
   try {
     await dbConnect();
+
+    const unauthorized = await authenticateApiClient(req, "submissions");
+    if (unauthorized) return unauthorized;
+
     const body = await req.json();
 
-    const { quiz_id, studyYearAtSubmission, submittedAt, answers } = body;
+    const {
+      quiz_id,
+      student_id,
+      studentEmail,
+      studyYearAtSubmission,
+      submittedAt,
+      answers,
+      quizVersion,
+    } = body;
 
     // Validate required fields
     if (!quiz_id || !Types.ObjectId.isValid(quiz_id)) {
@@ -54,6 +106,15 @@ export async function POST(req: Request): Promise<NextResponse> {
         { status: 400 }
       );
     }
+    if (
+      quizVersion !== undefined &&
+      (!Number.isInteger(quizVersion) || quizVersion < 1)
+    ) {
+      return NextResponse.json(
+        { error: "quizVersion must be a positive integer." },
+        { status: 400 }
+      );
+    }
     if (!Array.isArray(answers) || answers.length === 0) {
       return NextResponse.json(
         { error: "Answers array is missing or empty." },
@@ -62,6 +123,7 @@ export async function POST(req: Request): Promise<NextResponse> {
     }
 
     // Validate each answer structure
+    const answeredQuestionIds = new Set<string>();
     for (const ans of answers) {
       if (!ans.question_id || !Types.ObjectId.isValid(ans.question_id)) {
         return NextResponse.json(
@@ -69,8 +131,17 @@ export async function POST(req: Request): Promise<NextResponse> {
           { status: 400 }
         );
       }
+      // Every copy of an answer would be credited, scoring above the maximum
+      if (answeredQuestionIds.has(String(ans.question_id))) {
+        return NextResponse.json(
+          { error: `Duplicate answer for question_id: ${ans.question_id}.` },
+          { status: 400 }
+        );
+      }
+      answeredQuestionIds.add(String(ans.question_id));
       // Ensure at least one answer type field is present
       const hasAnswerField =
+        ans.selectedAnswer_id !== undefined ||
         ans.selectedAnswerId_Index !== undefined ||
         ans.responseText_ClickedMesh_id !== undefined ||
         ans.responseText_ShortAnswer !== undefined;
@@ -80,6 +151,28 @@ export async function POST(req: Request): Promise<NextResponse> {
           { status: 400 }
         );
       }
+      if (
+        ans.selectedAnswer_id !== undefined &&
+        !Types.ObjectId.isValid(ans.selectedAnswer_id)
+      ) {
+        return NextResponse.json(
+          {
+            error: `Invalid selectedAnswer_id ObjectId format for question_id: ${ans.question_id}.`,
+          },
+          { status: 400 }
+        );
+      }
+      if (
+        ans.responseText_ShortAnswer !== undefined &&
+        typeof ans.responseText_ShortAnswer !== "string"
+      ) {
+        return NextResponse.json(
+          {
+            error: `responseText_ShortAnswer must be a string for question_id: ${ans.question_id}.`,
+          },
+          { status: 400 }
+        );
+      }
       if (
         ans.responseText_ClickedMesh_id &&
         !Types.ObjectId.isValid(ans.responseText_ClickedMesh_id)
@@ -93,31 +186,115 @@ export async function POST(req: Request): Promise<NextResponse> {
       }
     }
 
-    // Ensure the quiz exists
-    const quizExists = await Quiz.findById(quiz_id).countDocuments();
-    if (quizExists === 0) {
+    // Ensure the quiz exists and is not in the trash
+    const quiz = await Quiz.findById(quiz_id).lean<IQuiz>();
+    if (!quiz || quiz.deletedAt) {
       return NextResponse.json({ error: "Quiz not found." }, { status: 404 });
     }
 
+    // Ensure the quiz is open, using the server time so clients cannot backdate submissions
+    const windowError = getSubmissionWindowError(quiz);
+    if (windowError) {
+      return NextResponse.json(
+        {
+          error: windowError,
+          details: { opensAt: quiz.opensAt, closesAt: quiz.closesAt },
+        },
+        { status: 403 }
+      );
+    }
+
+    const studentId = await resolveStudent(student_id, studentEmail);
+    if (studentId instanceof NextResponse) return studentId;
+
+    // Ensure every answer belongs to a question of this quiz
+    // Grade against the version the student answered, the quiz may have been edited since
+    const currentVersion = getQuizVersion(quiz);
+    const answeredVersion: number = quizVersion ?? currentVersion;
+    if (answeredVersion > currentVersion) {
+      return NextResponse.json(
+        {
+          error: `quizVersion ${answeredVersion} does not exist, the current version is ${currentVersion}.`,
+        },
+        { status: 400 }
+      );
+    }
+    const answeredQuestions = (
+      await loadVersionQuestions(quiz, [answeredVersion])
+    ).get(answeredVersion)!;
+
+    const questionMap = new Map(
+      answeredQuestions.map((q) => [q._id?.toString(), q])
+    );
+    const unknownAnswer = answers.find(
+      (ans: any) => !questionMap.has(String(ans.question_id))
+    );
+    if (unknownAnswer) {
+      return NextResponse.json(
+        {
+          error: `question_id ${unknownAnswer.question_id} does not belong to this quiz.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Shuffled quizzes are presented in a per-student order, recomputed from the seed
+    const presentedOrder = studentId
+      ? getPresentedOrder({ ...quiz, questions: answeredQuestions }, studentId)
+      : undefined;
+
+    const submittedAnswers: ISubmissionAnswer[] = answers.map((ans: any) => ({
+      question_id: new Types.ObjectId(ans.question_id),
+      selectedAnswer_id:
+        ans.selectedAnswer_id !== undefined
+          ? new Types.ObjectId(ans.selectedAnswer_id)
+          : typeof ans.selectedAnswerId_Index === "number"
+          ? getPresentedAnswerId(
+              questionMap.get(String(ans.question_id))!,
+              ans.selectedAnswerId_Index,
+              presentedOrder
+            )
+          : undefined,
+      responseText_ClickedMesh_id: ans.responseText_ClickedMesh_id
+        ? new Types.ObjectId(ans.responseText_ClickedMesh_id)
+        : undefined,
+      responseText_ShortAnswer: ans.responseText_ShortAnswer,
+    }));
+
+    const gradedSubmission = gradeSubmission(
+      answeredQuestions,
+      submittedAnswers,
+      await loadGradingMeshes(submittedAnswers),
+      await loadShortAnswerGrades(quiz_id)
+    );
+
     const submissionData = {
       quiz_id: new Types.ObjectId(quiz_id),
+      student_id: studentId ?? undefined,
       studyYearAtSubmission: studyYearAtSubmission,
       submittedAt: new Date(submittedAt),
-      answers: answers.map((ans: any) => ({
-        question_id: new Types.ObjectId(ans.question_id),
-        selectedAnswerId_Index: ans.selectedAnswerId_Index,
-        responseText_ClickedMesh_id: ans.responseText_ClickedMesh_id
-          ? new Types.ObjectId(ans.responseText_ClickedMesh_id)
-          : undefined,
-        responseText_ShortAnswer: ans.responseText_ShortAnswer,
-      })),
+      answers: gradedSubmission.answers,
+      score: gradedSubmission.score,
+      maxScore: gradedSubmission.maxScore,
+      presentedOrder,
+      quizVersion: answeredVersion,
     };
 
     const newSubmission = new Submission(submissionData);
     await newSubmission.save();
 
     return NextResponse.json(
-      { success: true, submissionId: newSubmission._id, data: newSubmission },
+      {
+        success: true,
+        submissionId: newSubmission._id,
+        score: gradedSubmission.score,
+        maxScore: gradedSubmission.maxScore,
+        results: gradedSubmission.answers.map((ans) => ({
+          question_id: ans.question_id,
+          isCorrect: ans.isCorrect ?? null,
+        })),
+        data: newSubmission,
+      },
       { status: 201 }
     );
   } catch (error) {
@@ -141,10 +318,12 @@ export async function POST(req: Request): Promise<NextResponse> {
  * Handles GET requests to retrieve submissions from the database.
  *
  * This function connects to the database and fetches submissions based on
- * the provided `quiz_id` query parameter. If `quiz_id` is valid, it filters
- * submissions by the specified quiz ID. The function populates the `quiz_id`
- * field with the quiz's title and study year, sorts the results by
- * submission date in descending order, and returns them as a JSON response
+ * the provided `quiz_id` and `student_id` query parameters. If either is valid,
+ * it filters submissions by the specified quiz or student. The function populates
+ * the `quiz_id` field with the quiz's title, study year and `deletedAt` (set if
+ * the quiz is in the trash) and the `student_id` field with the student's name
+ * and email, sorts the results by submission date in descending order, and
+ * returns them as a JSON response
  * with a status of 200 on success. If an error occurs, it logs the error
  * and returns a 500 status with an error message.
  *
@@ -156,13 +335,17 @@ export async function GET(req: Request): Promise<NextResponse> {
     await dbConnect();
     const { searchParams } = new URL(req.url);
     const quizId = searchParams.get("quiz_id");
+    const studentId = searchParams.get("student_id");
 
     const filter: any = {};
     if (quizId && Types.ObjectId.isValid(quizId))
       filter.quiz_id = new Types.ObjectId(quizId);
+    if (studentId && Types.ObjectId.isValid(studentId))
+      filter.student_id = new Types.ObjectId(studentId);
 
     const submissions = await Submission.find(filter)
-      .populate({ path: "quiz_id", select: "title studyYear" })
+      .populate({ path: "quiz_id", select: "title studyYear deletedAt" })
+      .populate({ path: "student_id", select: "name email" })
       .sort({ submittedAt: -1 })
       .lean();
 
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { User } from "@/app/models/User";
+import { getSessionFromRequest } from "@/app/lib/session";
+import { Types } from "mongoose";
+
+interface RequestContext {
+  params: { id: string };
+}
+
+/**
+ * Handles DELETE requests to remove a teacher or admin account.
+ * Only available to admins (enforced by the middleware). Admins cannot delete
+ * their own account, so there is always at least one admin left. The sessions of
+ * the deleted user stop working right away, see lib/session.ts.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {RequestContext} context - Contains the parameters including the user ID.
+ * @returns {Promise<NextResponse>} The response confirming the deletion or an error message.
+ */
+export async function DELETE(
+  req: Request,
+  context: RequestContext
+): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const userId = context.params.id;
+
+    if (!userId || !Types.ObjectId.isValid(userId)) {
+      return NextResponse.json(
+        { error: "Invalid User ID format" },
+        { status: 400 }
+      );
+    }
+
+    const session = await getSessionFromRequest(req);
+    if (session?.sub === userId) {
+      return NextResponse.json(
+        { error: "You cannot delete your own account" },
+        { status: 400 }
+      );
+    }
+
+    const deletedUser = await User.findByIdAndDelete(userId).lean();
+    if (!deletedUser) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { message: "User deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Failed to delete user:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to delete user", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
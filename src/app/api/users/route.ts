@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import { User } from "@/app/models/User";
+import { hashPassword } from "@/app/lib/password";
+import { newUserRequestBodySchema } from "@/app/lib/userSchemas";
+
+/**
+ * Handles GET requests to retrieve all teacher and admin accounts.
+ * Only available to admins (enforced by the middleware).
+ *
+ * @returns {Promise<NextResponse>} The response containing the list of users or an error message.
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const users = await User.find().sort({ name: 1 }).lean();
+    return NextResponse.json(users, { status: 200 });
+  } catch (error) {
+    console.error("Failed to get users:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to get users", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Handles POST requests to create a new teacher or admin account.
+ * Only available to admins (enforced by the middleware).
+ *
+ * The function expects a JSON body with the following structure:
+ * - name: string (required) - The name of the user.
+ * - email: string (required) - The email address used to log in.
+ * - password: string (required) - The initial password, at least 8 characters.
+ * - role: string (optional) - Either "teacher" (default) or "admin".
+ *
+ * Returns a 400 status if validation fails and a 409 status if the email is
+ * already in use. On success, it returns the created user with a 201 status.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<NextResponse>} The response containing the created user or an error message.
+ */
+export async function POST(req: Request): Promise<NextResponse> {
+  try {
+    await dbConnect();
+    const body = await req.json();
+
+    const validationResult = newUserRequestBodySchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: validationResult.error.message,
+          details: validationResult.error.flatten().fieldErrors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { name, email, password, role } = validationResult.data;
+    if ((await User.countDocuments({ email })) > 0) {
+      return NextResponse.json(
+        { error: "A user with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    const user = await User.create({
+      name,
+      email,
+      passwordHash: await hashPassword(password),
+      role,
+    });
+
+    return NextResponse.json(
+      {
+        _id: user._id.toString(),
+        name: user.name,
+        email: user.email,
+        role: user.role,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Failed to create user:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to create user", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { JSX } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface AcceptedAnswersEditorProps {
+  id: string;
+  acceptedAnswers: string[];
+  typoTolerance?: number;
+  onChangeAcceptedAnswers: (acceptedAnswers: string[]) => void;
+  onChangeTypoTolerance: (typoTolerance: number | undefined) => void;
+}
+
+/**
+ * Editor for the accepted answers of a short-answer question.
+ *
+ * Teachers can add every answer that should be graded as correct (synonyms, Latin and
+ * English names) and choose how many typos are allowed. Matching is always case- and
+ * diacritic-insensitive, see `matchShortAnswer` in lib/grading.ts.
+ *
+ * The component accepts the following props:
+ *
+ * - `id`: A unique prefix for the input ids.
+ * - `acceptedAnswers`: The current accepted answers.
+ * - `typoTolerance`: The current max edit distance, undefined for automatic.
+ * - `onChangeAcceptedAnswers`: Called with the new list when an answer is added, changed or removed.
+ * - `onChangeTypoTolerance`: Called when the typo tolerance changes.
+ */
+export function AcceptedAnswersEditor({
+  id,
+  acceptedAnswers,
+  typoTolerance,
+  onChangeAcceptedAnswers,
+  onChangeTypoTolerance,
+}: AcceptedAnswersEditorProps): JSX.Element {
+  return (
+    <div className="space-y-3 p-3 border rounded-md bg-slate-50">
+      <Label className="font-medium">
+        Accepted Answers ({acceptedAnswers.length})
+      </Label>
+      <p className="text-xs text-gray-500">
+        Add synonyms and both the Latin and English names. Answers are matched
+        regardless of capitals and accents. Leave empty to grade this question
+        manually.
+      </p>
+      {acceptedAnswers.map((answer, answerIndex) => (
+        <div key={answerIndex} className="flex items-center gap-2">
+          <Input
+            id={`${id}-accepted-${answerIndex}`}
+            type="text"
+            value={answer}
+            onChange={(e) =>
+              onChangeAcceptedAnswers(
+                acceptedAnswers.map((a, i) =>
+                  i === answerIndex ? e.target.value : a
+                )
+              )
+            }
+            className="flex-1 bg-white"
+            placeholder={`Accepted answer ${answerIndex + 1}`}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() =>
+              onChangeAcceptedAnswers(
+                acceptedAnswers.filter((_, i) => i !== answerIndex)
+              )
+            }
+          >
+            Remove
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChangeAcceptedAnswers([...acceptedAnswers, ""])}
+      >
+        Add Accepted Answer
+      </Button>
+      <div>
+        <Label htmlFor={`${id}-typo-tolerance`} className="mb-2">
+          Allowed Typos
+        </Label>
+        <Select
+          value={typoTolerance !== undefined ? String(typoTolerance) : "auto"}
+          onValueChange={(value) =>
+            onChangeTypoTolerance(
+              value === "auto" ? undefined : parseInt(value, 10)
+            )
+          }
+        >
+          <SelectTrigger id={`${id}-typo-tolerance`} className="bg-white">
+            <SelectValue placeholder="Automatic" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">Automatic (based on length)</SelectItem>
+            <SelectItem value="0">None (exact spelling)</SelectItem>
+            <SelectItem value="1">1 typo</SelectItem>
+            <SelectItem value="2">2 typos</SelectItem>
+            <SelectItem value="3">3 typos</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
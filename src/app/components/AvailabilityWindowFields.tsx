@@ -0,0 +1,101 @@
+"use client";
+
+import { JSX } from "react";
+import { DateTimePicker24h } from "./DateTimePicker";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface AvailabilityWindowFieldsProps {
+  opensAt?: Date;
+  closesAt?: Date;
+  gracePeriodMinutes?: number;
+  onChangeOpensAt: (date: Date | undefined) => void;
+  onChangeClosesAt: (date: Date | undefined) => void;
+  onChangeGracePeriodMinutes: (minutes: number | undefined) => void;
+  stacked?: boolean;
+}
+
+/**
+ * Fields to edit the availability window of a quiz: when the Unreal Engine client
+ * starts and stops accepting submissions, and how many minutes late submissions
+ * are still accepted. Leaving a date empty keeps the window open on that side.
+ *
+ * The component accepts the following props:
+ *
+ * - `opensAt`: The current opening date and time.
+ * - `closesAt`: The current closing date and time.
+ * - `gracePeriodMinutes`: The current grace period, undefined for the server default.
+ * - `onChangeOpensAt`: Called when the opening date changes or is cleared.
+ * - `onChangeClosesAt`: Called when the closing date changes or is cleared.
+ * - `onChangeGracePeriodMinutes`: Called when the grace period changes.
+ * - `stacked`: Whether to show the fields below each other, for narrow columns.
+ */
+export function AvailabilityWindowFields({
+  opensAt,
+  closesAt,
+  gracePeriodMinutes,
+  onChangeOpensAt,
+  onChangeClosesAt,
+  onChangeGracePeriodMinutes,
+  stacked = false,
+}: AvailabilityWindowFieldsProps): JSX.Element {
+  const isInvalid = !!opensAt && !!closesAt && closesAt <= opensAt;
+
+  return (
+    <div className="space-y-2">
+      <div
+        className={`grid grid-cols-1 gap-6 ${stacked ? "" : "md:grid-cols-3"}`}
+      >
+        <div>
+          <Label className="mb-2">Opens At</Label>
+          <DateTimePicker24h
+            date={opensAt}
+            setDate={onChangeOpensAt}
+            clearable
+            placeholder="Open immediately"
+          />
+        </div>
+        <div>
+          <Label className="mb-2">Closes At</Label>
+          <DateTimePicker24h
+            date={closesAt}
+            setDate={onChangeClosesAt}
+            minDate={opensAt}
+            clearable
+            placeholder="Never closes"
+          />
+        </div>
+        <div>
+          <Label htmlFor="gracePeriodMinutes" className="mb-2">
+            Grace Period (minutes)
+          </Label>
+          <Input
+            id="gracePeriodMinutes"
+            type="number"
+            min={0}
+            value={gracePeriodMinutes ?? ""}
+            onChange={(e) =>
+              onChangeGracePeriodMinutes(
+                e.target.value === ""
+                  ? undefined
+                  : Math.max(0, parseInt(e.target.value, 10))
+              )
+            }
+            placeholder="Default"
+          />
+        </div>
+      </div>
+      {isInvalid ? (
+        <p className="text-sm text-red-500">
+          The quiz must close after it opens.
+        </p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Submissions from the Unreal Engine application are only accepted while
+          the quiz is open. Late submissions are accepted during the grace
+          period after closing.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect, JSX } from "react";
 import { useRouter } from "next/navigation";
+import { toast } from "sonner";
 import {
   CommandDialog,
   CommandEmpty,
@@ -15,7 +16,11 @@ import {
   HomeIcon,
   BarChartIcon,
   CalendarIcon,
+  CopyIcon,
   Pencil2Icon,
+  PersonIcon,
+  ReaderIcon,
+  TrashIcon,
 } from "@radix-ui/react-icons";
 
 // Simplified type for quizzes fetched for the command palette
@@ -31,7 +36,8 @@ interface CommandQuiz {
  * API when opened and allows users to search for quizzes by title. The
  * component renders a list of commands that can be run, including navigation,
  * creating a new quiz, viewing planned quizzes, and viewing quiz results. The
- * component also renders a list of quizzes with edit and results commands.
+ * component also renders a list of quizzes with edit, duplicate and results
+ * commands.
  *
  * @returns {JSX.Element} A JSX element containing the command palette.
  */
@@ -93,6 +99,31 @@ export function CommandPalette(): JSX.Element {
     command();
   };
 
+  /**
+   * Duplicates a quiz with the default settings of the duplicate API (same
+   * study year, cleared schedule) and opens the editor of the copy. If the
+   * request fails, shows an error toast.
+   *
+   * @param {CommandQuiz} quiz - The quiz to duplicate.
+   */
+  const duplicateQuiz = async (quiz: CommandQuiz) => {
+    try {
+      const response = await fetch(`/api/quizzes/${quiz._id}/duplicate`, {
+        method: "POST",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to duplicate quiz.");
+      }
+      toast.success(`Duplicated "${quiz.title}".`);
+      router.push(`/edit/${data._id}`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    }
+  };
+
   return (
     <CommandDialog open={open} onOpenChange={setOpen}>
       <CommandInput placeholder="Type a command or search..." />
@@ -121,6 +152,22 @@ export function CommandPalette(): JSX.Element {
             <BarChartIcon className="mr-2 h-4 w-4" />
             <span>View Results</span>
           </CommandItem>
+          <CommandItem
+            onSelect={() => runCommand(() => router.push("/questions"))}
+          >
+            <ReaderIcon className="mr-2 h-4 w-4" />
+            <span>Question Bank</span>
+          </CommandItem>
+          <CommandItem
+            onSelect={() => runCommand(() => router.push("/students"))}
+          >
+            <PersonIcon className="mr-2 h-4 w-4" />
+            <span>Students</span>
+          </CommandItem>
+          <CommandItem onSelect={() => runCommand(() => router.push("/trash"))}>
+            <TrashIcon className="mr-2 h-4 w-4" />
+            <span>Trash</span>
+          </CommandItem>
         </CommandGroup>
         {quizzes.length > 0 && (
           <>
@@ -139,6 +186,19 @@ export function CommandPalette(): JSX.Element {
               ))}
             </CommandGroup>
 
+            <CommandGroup heading="Duplicate Quiz">
+              {quizzes.map((quiz) => (
+                <CommandItem
+                  key={`duplicate-${quiz._id}`}
+                  value={`Duplicate ${quiz.title}`}
+                  onSelect={() => runCommand(() => duplicateQuiz(quiz))}
+                >
+                  <CopyIcon className="mr-2 h-4 w-4" />
+                  <span>{quiz.title}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+
             <CommandGroup heading="View Quiz Results">
               {quizzes.map((quiz) => (
                 <CommandItem
@@ -2,7 +2,7 @@
 
 import * as React from "react";
 import { CalendarIcon } from "@radix-ui/react-icons";
-import { format } from "date-fns";
+import { format, startOfDay } from "date-fns";
 
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -22,14 +22,23 @@ import { JSX } from "react";
  *
  * @param {Date | undefined} date The currently selected date.
  * @param {(date: Date | undefined) => void} setDate The function to be called when the date is changed.
+ * @param {Date | undefined} minDate Days before this date cannot be selected, defaults to today.
+ * @param {boolean} clearable Whether to show a button to clear the date.
+ * @param {string} placeholder The text shown when no date is selected.
  * @returns {JSX.Element} The datetime picker component.
  */
 export function DateTimePicker24h({
   date,
   setDate,
+  minDate,
+  clearable = false,
+  placeholder = "DD/MM/YYYY hh:mm",
 }: {
   date: Date | undefined;
   setDate: (date: Date | undefined) => void;
+  minDate?: Date;
+  clearable?: boolean;
+  placeholder?: string;
 }): JSX.Element {
   const [isOpen, setIsOpen] = React.useState(false);
 
@@ -40,7 +49,8 @@ export function DateTimePicker24h({
     }
   };
 
-  const disabledDates = (date: Date) => date < new Date();
+  const disabledDates = (date: Date) =>
+    minDate ? date < startOfDay(minDate) : date < new Date();
 
   /**
    * Handles changes to the time input fields by updating the date state.
@@ -71,11 +81,7 @@ export function DateTimePicker24h({
           )}
         >
           <CalendarIcon className="mr-2 h-4 w-4" />
-          {date ? (
-            format(date, "dd/MM/yyyy HH:mm")
-          ) : (
-            <span>DD/MM/YYYY hh:mm</span>
-          )}
+          {date ? format(date, "dd/MM/yyyy HH:mm") : <span>{placeholder}</span>}
         </Button>
       </PopoverTrigger>
       <PopoverContent className="w-auto p-0">
@@ -128,6 +134,21 @@ export function DateTimePicker24h({
             </ScrollArea>
           </div>
         </div>
+        {clearable && date && (
+          <div className="border-t p-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => {
+                setDate(undefined);
+                setIsOpen(false);
+              }}
+            >
+              Clear
+            </Button>
+          </div>
+        )}
       </PopoverContent>
     </Popover>
   );
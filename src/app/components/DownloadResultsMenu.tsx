@@ -0,0 +1,73 @@
+"use client";
+
+import { JSX } from "react";
+import { DownloadIcon } from "@radix-ui/react-icons";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+interface DownloadResultsMenuProps {
+  quizId: string;
+  filterQuery?: string; // Query string of the results filters, see ResultsFilters
+}
+
+/**
+ * A menu to download the results of a quiz as a file, e.g. to enter the scores
+ * into the grade system of the faculty.
+ *
+ * @param {DownloadResultsMenuProps} props - The ID of the quiz and the results filters to apply.
+ * @returns {JSX.Element} The download button with its menu.
+ */
+export function DownloadResultsMenu({
+  quizId,
+  filterQuery,
+}: DownloadResultsMenuProps): JSX.Element {
+  const exportUrl = `/api/quizzes/${quizId}/results/export`;
+  const filterSuffix = filterQuery ? `&${filterQuery}` : "";
+  const downloads = [
+    {
+      label: "Excel (.xlsx)",
+      description: "Submissions and per-question summary",
+      href: `${exportUrl}?format=xlsx${filterSuffix}`,
+    },
+    {
+      label: "Submissions (.csv)",
+      description: "One row per submission",
+      href: `${exportUrl}?format=csv${filterSuffix}`,
+    },
+    {
+      label: "Summary (.csv)",
+      description: "One row per question",
+      href: `${exportUrl}?format=csv&sheet=summary${filterSuffix}`,
+    },
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <DownloadIcon className="mr-2 h-4 w-4" />
+          Download Results
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-1">
+        {downloads.map((download) => (
+          <a
+            key={download.href}
+            href={download.href}
+            download
+            className="block rounded-sm px-3 py-2 hover:bg-gray-100"
+          >
+            <span className="block text-sm font-medium">{download.label}</span>
+            <span className="block text-xs text-gray-500">
+              {download.description}
+            </span>
+          </a>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
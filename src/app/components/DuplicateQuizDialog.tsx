@@ -0,0 +1,164 @@
+"use client";
+
+import { JSX, ReactNode, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface DuplicateQuizDialogProps {
+  quizId: string;
+  quizTitle: string;
+  studyYear?: number;
+  trigger?: ReactNode;
+}
+
+/**
+ * A dialog to duplicate a quiz, e.g. to reuse it for the next cohort. The
+ * teacher can change the title and study year of the copy and choose whether
+ * the schedule is cleared. After duplicating, the editor of the copy opens.
+ *
+ * The component accepts the following props:
+ *
+ * - `quizId`: The ID of the quiz to duplicate.
+ * - `quizTitle`: The title of the quiz, used for the initial title of the copy.
+ * - `studyYear`: The study year of the quiz, used as the initial study year.
+ * - `trigger`: The element that opens the dialog, defaults to a "Duplicate"
+ *   button.
+ */
+export function DuplicateQuizDialog({
+  quizId,
+  quizTitle,
+  studyYear,
+  trigger,
+}: DuplicateQuizDialogProps): JSX.Element {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState(`${quizTitle} (copy)`);
+  const [copyStudyYear, setCopyStudyYear] = useState(
+    studyYear !== undefined ? String(studyYear) : ""
+  );
+  const [clearSchedule, setClearSchedule] = useState(true);
+  const [loading, setLoading] = useState(false);
+
+  /**
+   * Sends a POST request to duplicate the quiz with the chosen settings and
+   * navigates to the editor of the copy.
+   */
+  const handleDuplicate = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/quizzes/${quizId}/duplicate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title,
+          studyYear: copyStudyYear ? parseInt(copyStudyYear, 10) : undefined,
+          clearSchedule,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to duplicate quiz.");
+      }
+      toast.success("Quiz duplicated successfully!");
+      setOpen(false);
+      router.push(`/edit/${data._id}`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger ?? (
+          <Button type="button" variant="outline">
+            Duplicate
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Duplicate Quiz</DialogTitle>
+          <DialogDescription>
+            The copy has the same questions, its results are separate from the
+            results of this quiz.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="duplicate-title" className="mb-2">
+              Title
+            </Label>
+            <Input
+              id="duplicate-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="duplicate-studyYear" className="mb-2">
+              Study Year
+            </Label>
+            <Select value={copyStudyYear} onValueChange={setCopyStudyYear}>
+              <SelectTrigger id="duplicate-studyYear">
+                <SelectValue placeholder="Select study year" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Year 1</SelectItem>
+                <SelectItem value="2">Year 2</SelectItem>
+                <SelectItem value="3">Year 3</SelectItem>
+                <SelectItem value="4">Year 4</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="duplicate-clearSchedule"
+              checked={clearSchedule}
+              onChange={(e) => setClearSchedule(e.target.checked)}
+              className="h-4 w-4"
+            />
+            <Label htmlFor="duplicate-clearSchedule">
+              Clear the schedule and availability window
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            onClick={handleDuplicate}
+            disabled={loading || !title.trim()}
+          >
+            {loading ? "Duplicating..." : "Duplicate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
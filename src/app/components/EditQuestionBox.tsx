@@ -4,6 +4,8 @@ import { JSX } from "react";
 import type { FrontendQuestion, FrontendAnswer } from "../lib/types";
 import { MeshCatalogCombobox } from "./MeshCatalogCombobox";
 import { OrganGroupCombobox } from "./OrganGroupCombobox";
+import { AcceptedAnswersEditor } from "./AcceptedAnswersEditor";
+import { LinkedBankQuestion } from "./LinkedBankQuestion";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
@@ -29,7 +31,7 @@ interface EditQuestionProps {
   onSetCorrectAnswer: (questionIndex: number, answerIndex: number) => void;
   onAddAnswer: (questionIndex: number) => void;
   onRemoveAnswer: (questionIndex: number, answerIndex: number) => void;
-  onRemoveQuestion: (questionIndex: number) => void;
+  onRemoveQuestion?: (questionIndex: number) => void;
   onChangeTargetType: (
     questionIndex: number,
     targetType: "mesh" | "group" | undefined
@@ -38,6 +40,15 @@ interface EditQuestionProps {
     questionIndex: number,
     targetId: string | undefined
   ) => void;
+  onChangeAcceptedAnswers: (
+    questionIndex: number,
+    acceptedAnswers: string[]
+  ) => void;
+  onChangeTypoTolerance: (
+    questionIndex: number,
+    typoTolerance: number | undefined
+  ) => void;
+  onUnlinkFromBank?: (questionIndex: number) => void;
 }
 
 /**
@@ -54,9 +65,13 @@ interface EditQuestionProps {
  * - `onSetCorrectAnswer`: Called when the user selects a correct answer.
  * - `onAddAnswer`: Called when the user adds a new answer.
  * - `onRemoveAnswer`: Called when the user removes an answer.
- * - `onRemoveQuestion`: Called when the user removes the question.
+ * - `onRemoveQuestion`: Called when the user removes the question, the button is hidden if not set.
  * - `onChangeTargetType`: Called when the user changes the target type for a select-organ question.
  * - `onChangeTargetId`: Called when the user changes the target ID for a select-organ question.
+ * - `onChangeAcceptedAnswers`: Called when the user changes the accepted answers for a short-answer question.
+ * - `onChangeTypoTolerance`: Called when the user changes the allowed typos for a short-answer question.
+ * - `onUnlinkFromBank`: Called when the user unlinks a question that references the question bank.
+ *   Referenced questions are shown read-only.
  */
 export default function EditQuestionBox({
   index,
@@ -70,6 +85,9 @@ export default function EditQuestionBox({
   onRemoveQuestion,
   onChangeTargetType,
   onChangeTargetId,
+  onChangeAcceptedAnswers,
+  onChangeTypoTolerance,
+  onUnlinkFromBank,
 }: EditQuestionProps): JSX.Element {
   const handleTypeChange = (value: string) => {
     onChangeQuestionType(index, value);
@@ -85,10 +103,10 @@ export default function EditQuestionBox({
     onChangeTargetId(index, undefined); // Reset target ID when type changes
   };
 
-  return (
-    <div className="mb-6 border border-gray-300 rounded-lg p-4 space-y-4">
-      <div className="flex justify-between items-center">
-        <Label className="text-lg font-semibold">Question {index + 1}</Label>
+  const header = (
+    <div className="flex justify-between items-center">
+      <Label className="text-lg font-semibold">Question {index + 1}</Label>
+      {onRemoveQuestion && (
         <Button
           variant="destructive"
           size="sm"
@@ -96,7 +114,25 @@ export default function EditQuestionBox({
         >
           Remove Question
         </Button>
+      )}
+    </div>
+  );
+
+  if (question.bankLink === "reference" && onUnlinkFromBank) {
+    return (
+      <div className="mb-6 border border-gray-300 rounded-lg p-4 space-y-4">
+        {header}
+        <LinkedBankQuestion
+          question={question}
+          onUnlink={() => onUnlinkFromBank(index)}
+        />
       </div>
+    );
+  }
+
+  return (
+    <div className="mb-6 border border-gray-300 rounded-lg p-4 space-y-4">
+      {header}
 
       <div>
         <Label htmlFor={`question-text-${index}`}>Question Text</Label>
@@ -215,7 +251,19 @@ export default function EditQuestionBox({
           </Button>
         </div>
       )}
-      {/* Short-answer questions typically don't need predefined answers in the quiz creation UI */}
+      {question.type === "short-answer" && (
+        <AcceptedAnswersEditor
+          id={`question-${index}`}
+          acceptedAnswers={question.acceptedAnswers || []}
+          typoTolerance={question.typoTolerance}
+          onChangeAcceptedAnswers={(acceptedAnswers) =>
+            onChangeAcceptedAnswers(index, acceptedAnswers)
+          }
+          onChangeTypoTolerance={(typoTolerance) =>
+            onChangeTypoTolerance(index, typoTolerance)
+          }
+        />
+      )}
     </div>
   );
 }
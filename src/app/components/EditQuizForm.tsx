@@ -6,6 +6,11 @@ import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 import type { FrontendQuestion, FrontendAnswer } from "../lib/types";
 import { DateTimePicker24h } from "./DateTimePicker";
+import { AvailabilityWindowFields } from "./AvailabilityWindowFields";
+import { ShuffleSettingsFields } from "./ShuffleSettingsFields";
+import { QuestionBankDialog } from "./QuestionBankDialog";
+import { QuizEditImpactDialog } from "./QuizEditImpactDialog";
+import type { QuizEditImpact } from "../lib/quizEditImpact";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -36,16 +41,23 @@ interface EditQuizFormProps {
   initialStudyYear: number;
   initialQuestions: FrontendQuestion[];
   initialScheduledAt?: Date | string; // Allow string for initial fetch
+  initialOpensAt?: Date | string;
+  initialClosesAt?: Date | string;
+  initialGracePeriodMinutes?: number;
+  initialShuffleQuestions?: boolean;
+  initialShuffleAnswers?: boolean;
+  initialVersion?: number;
 }
 
 /**
  * A form component for editing a quiz.
  *
  * The form component renders a series of input fields and other components to edit the
- * quiz title, description, study year, questions, and scheduled date and time.
+ * quiz title, description, study year, questions, scheduled date and time, and the
+ * availability window in which submissions are accepted.
  *
- * The component also renders a button to add a new question, and a button to delete the
- * quiz.
+ * The component also renders buttons to add a new question or a question from the
+ * question bank, and a button to delete the quiz.
  *
  * The component accepts the following props:
  *
@@ -55,6 +67,12 @@ interface EditQuizFormProps {
  * - `initialStudyYear`: The initial study year of the quiz.
  * - `initialQuestions`: The initial questions of the quiz.
  * - `initialScheduledAt`: The initial scheduled date and time of the quiz.
+ * - `initialOpensAt`: The initial date and time from when submissions are accepted.
+ * - `initialClosesAt`: The initial date and time until when submissions are accepted.
+ * - `initialGracePeriodMinutes`: The initial grace period for late submissions.
+ * - `initialShuffleQuestions`: Whether the question order is shuffled per student.
+ * - `initialShuffleAnswers`: Whether the multiple-choice answer order is shuffled per student.
+ * - `initialVersion`: The version of the quiz the form was loaded with.
  *
  * The component returns a JSX element containing the form.
  */
@@ -65,6 +83,12 @@ export default function EditQuizForm({
   initialStudyYear,
   initialQuestions,
   initialScheduledAt,
+  initialOpensAt,
+  initialClosesAt,
+  initialGracePeriodMinutes,
+  initialShuffleQuestions = false,
+  initialShuffleAnswers = false,
+  initialVersion,
 }: EditQuizFormProps): JSX.Element {
   const router = useRouter();
   const [title, setTitle] = useState(initialTitle);
@@ -85,8 +109,28 @@ export default function EditQuizForm({
   const [scheduledAt, setScheduledAt] = useState<Date | undefined>(
     initialScheduledAt ? new Date(initialScheduledAt) : undefined
   );
+  const [opensAt, setOpensAt] = useState<Date | undefined>(
+    initialOpensAt ? new Date(initialOpensAt) : undefined
+  );
+  const [closesAt, setClosesAt] = useState<Date | undefined>(
+    initialClosesAt ? new Date(initialClosesAt) : undefined
+  );
+  const [gracePeriodMinutes, setGracePeriodMinutes] = useState<
+    number | undefined
+  >(initialGracePeriodMinutes);
+  const [shuffleQuestions, setShuffleQuestions] = useState(
+    initialShuffleQuestions
+  );
+  const [shuffleAnswers, setShuffleAnswers] = useState(initialShuffleAnswers);
+  // The version of the quiz the edits are based on, see PUT /api/quizzes/[id]
+  const [version, setVersion] = useState(initialVersion);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set when the API asks to confirm a change to a quiz that has submissions
+  const [editImpact, setEditImpact] = useState<{
+    action: "update" | "delete";
+    impact: QuizEditImpact;
+  } | null>(null);
 
   // Handler for question text
   const handleQuestionTextChange = (index: number, newText: string) => {
@@ -111,6 +155,11 @@ export default function EditQuizForm({
                 newType === "multiple-choice" || newType === "true-false"
                   ? q.answers
                   : [],
+              // Accepted answers are only used by short-answer questions
+              acceptedAnswers:
+                newType === "short-answer" ? q.acceptedAnswers : undefined,
+              typoTolerance:
+                newType === "short-answer" ? q.typoTolerance : undefined,
             }
           : q
       )
@@ -200,6 +249,21 @@ export default function EditQuizForm({
     ]);
   };
 
+  // Handler for adding a question from the question bank
+  const handleAddBankQuestion = (question: FrontendQuestion) => {
+    setQuestions((prev) => [
+      ...prev,
+      { ...question, _id: `new_q_${Date.now()}` },
+    ]);
+  };
+
+  // Handler for turning a referenced bank question into an editable copy
+  const handleUnlinkFromBank = (questionIndex: number) => {
+    setQuestions((prev) =>
+      prev.map((q, i) => (i === questionIndex ? { ...q, bankLink: "copy" } : q))
+    );
+  };
+
   // Handler for removing a question
   const handleRemoveQuestion = (questionIndex: number) => {
     setQuestions((prev) => prev.filter((_, i) => i !== questionIndex));
@@ -232,25 +296,30 @@ export default function EditQuizForm({
     );
   };
 
-  /**
-   * Handles form submission by sending a PUT request to the server
-   * with the updated quiz data. If the request is successful, it
-   * displays a success toast message. If the request fails, it
-   * displays an error toast message and sets the error state.
-   * @param {React.FormEvent} e The form event
-   */
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
-    setError(null);
+  // Handler for accepted answers (short-answer)
+  const handleChangeAcceptedAnswers = (
+    questionIndex: number,
+    acceptedAnswers: string[]
+  ) => {
+    setQuestions((prev) =>
+      prev.map((q, i) => (i === questionIndex ? { ...q, acceptedAnswers } : q))
+    );
+  };
 
-    if (studyYear === undefined) {
-      setError("Study year is required.");
-      setLoading(false);
-      toast.error("Study year is required.");
-      return;
-    }
+  // Handler for typo tolerance (short-answer)
+  const handleChangeTypoTolerance = (
+    questionIndex: number,
+    typoTolerance: number | undefined
+  ) => {
+    setQuestions((prev) =>
+      prev.map((q, i) => (i === questionIndex ? { ...q, typoTolerance } : q))
+    );
+  };
 
+  /**
+   * Returns the quiz data of the form as the request body of the quizzes API.
+   */
+  const buildPayload = () => {
     // Prepare questions for submission, ensuring _id is handled correctly
     const questionsToSubmit = questions.map((q) => {
       const { _id, ...questionData } = q; // Separate client-side _id
@@ -267,24 +336,71 @@ export default function EditQuizForm({
       };
     });
 
+    return {
+      title,
+      description,
+      studyYear,
+      questions: questionsToSubmit,
+      scheduledAt: scheduledAt?.toISOString() || null,
+      opensAt: opensAt?.toISOString() || null,
+      closesAt: closesAt?.toISOString() || null,
+      gracePeriodMinutes: gracePeriodMinutes ?? null,
+      shuffleQuestions,
+      shuffleAnswers,
+    };
+  };
+
+  /**
+   * Sends a PUT request to the server with the updated quiz data. If the quiz
+   * has submissions and the update changes their results, the server responds
+   * with a 409 status and the impact is shown in a dialog, where the teacher can
+   * confirm the update. If someone else saved the quiz in the meantime, the
+   * server responds with a 409 status and the current version, and the teacher
+   * has to reload the quiz. If the request is successful, it displays a success
+   * toast message. If the request fails, it displays an error toast message
+   * and sets the error state.
+   * @param {boolean} confirm Whether the teacher confirmed a change to the results
+   */
+  const updateQuiz = async (confirm: boolean) => {
+    setLoading(true);
+    setError(null);
+
+    if (studyYear === undefined) {
+      setError("Study year is required.");
+      setLoading(false);
+      toast.error("Study year is required.");
+      return;
+    }
+
     try {
-      const payload = {
-        title,
-        description,
-        studyYear,
-        questions: questionsToSubmit,
-        scheduledAt: scheduledAt?.toISOString() || null,
-      };
-      const response = await fetch(`/api/quizzes/${id}`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
+      const response = await fetch(
+        `/api/quizzes/${id}${confirm ? "?confirm=true" : ""}`,
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...buildPayload(), version }),
+        }
+      );
 
+      const data = await response.json();
+      if (response.status === 409 && data.details?.currentVersion) {
+        throw new Error(data.error);
+      }
+      if (response.status === 409) {
+        setEditImpact({ action: "update", impact: data.details });
+        return;
+      }
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to update quiz");
+        throw new Error(data.error || "Failed to update quiz");
       }
+      setVersion(data.version);
+      // Continue editing with the IDs the server assigned to new questions
+      setQuestions(
+        data.questions.map((q: FrontendQuestion) => ({
+          ...q,
+          answers: q.answers || [],
+        }))
+      );
       toast.success("Quiz updated successfully!");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Error updating quiz");
@@ -295,19 +411,66 @@ export default function EditQuizForm({
   };
 
   /**
-   * Handles deleting a quiz by sending a DELETE request to the server
-   * with the quiz ID. If the request is successful, it displays a success
-   * toast message and navigates to the home page. If the request fails, it
-   * displays an error toast message and sets the error state.
+   * Handles form submission by updating the quiz.
+   * @param {React.FormEvent} e The form event
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await updateQuiz(false);
+  };
+
+  /**
+   * Saves the edited quiz as a new quiz instead of changing a quiz that
+   * students already took, and opens the new quiz.
    */
-  const handleDeleteQuiz = async () => {
+  const handleDuplicateAsNewQuiz = async () => {
+    setEditImpact(null);
     setLoading(true);
     try {
-      const response = await fetch(`/api/quizzes/${id}`, {
-        method: "DELETE",
+      const payload = buildPayload();
+      const response = await fetch("/api/quizzes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...payload, title: `${payload.title} (copy)` }),
       });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create quiz");
+      }
+      toast.success("Changes saved as a new quiz.");
+      router.push(`/edit/${data._id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Error creating quiz");
+      toast.error(err instanceof Error ? err.message : "Error creating quiz");
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Handles deleting a quiz by sending a DELETE request to the server
+   * with the quiz ID, which moves the quiz to the trash. If the quiz has
+   * submissions, the server responds with a 409 status and the teacher has to
+   * confirm the deletion again. If the
+   * request is successful, it displays a success toast message and navigates
+   * to the home page. If the request fails, it displays an error toast message
+   * and sets the error state.
+   * @param {boolean} confirm Whether the teacher confirmed deleting a quiz with submissions
+   */
+  const handleDeleteQuiz = async (confirm: boolean) => {
+    setLoading(true);
+    try {
+      const response = await fetch(
+        `/api/quizzes/${id}${confirm ? "?confirm=true" : ""}`,
+        { method: "DELETE" }
+      );
+      if (response.status === 409) {
+        const data = await response.json();
+        setEditImpact({ action: "delete", impact: data.details });
+        setLoading(false);
+        return;
+      }
       if (!response.ok) throw new Error("Failed to delete quiz");
-      toast.success("Quiz deleted successfully");
+      toast.success("Quiz moved to the trash");
       router.push("/");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Error deleting quiz");
@@ -369,6 +532,22 @@ export default function EditQuizForm({
         <DateTimePicker24h date={scheduledAt} setDate={setScheduledAt} />
       </div>
 
+      <AvailabilityWindowFields
+        opensAt={opensAt}
+        closesAt={closesAt}
+        gracePeriodMinutes={gracePeriodMinutes}
+        onChangeOpensAt={setOpensAt}
+        onChangeClosesAt={setClosesAt}
+        onChangeGracePeriodMinutes={setGracePeriodMinutes}
+      />
+
+      <ShuffleSettingsFields
+        shuffleQuestions={shuffleQuestions}
+        shuffleAnswers={shuffleAnswers}
+        onChangeShuffleQuestions={setShuffleQuestions}
+        onChangeShuffleAnswers={setShuffleAnswers}
+      />
+
       <div className="space-y-4">
         <h3 className="text-xl font-semibold">Questions</h3>
         {questions.map((question, index) => (
@@ -385,11 +564,20 @@ export default function EditQuizForm({
             onRemoveQuestion={handleRemoveQuestion}
             onChangeTargetType={handleChangeTargetType}
             onChangeTargetId={handleChangeTargetId}
+            onChangeAcceptedAnswers={handleChangeAcceptedAnswers}
+            onChangeTypoTolerance={handleChangeTypoTolerance}
+            onUnlinkFromBank={handleUnlinkFromBank}
           />
         ))}
-        <Button type="button" onClick={handleAddQuestion} variant="outline">
-          Add Question
-        </Button>
+        <div className="flex gap-3">
+          <Button type="button" onClick={handleAddQuestion} variant="outline">
+            Add Question
+          </Button>
+          <QuestionBankDialog
+            onAddQuestion={handleAddBankQuestion}
+            studyYear={studyYear}
+          />
+        </div>
       </div>
 
       <div className="flex justify-end space-x-3 pt-4">
@@ -401,17 +589,17 @@ export default function EditQuizForm({
           </AlertDialogTrigger>
           <AlertDialogContent>
             <AlertDialogHeader>
-              <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+              <AlertDialogTitle>Delete this quiz?</AlertDialogTitle>
               <AlertDialogDescription>
-                This action cannot be undone. This will permanently delete this
-                quiz and all of its submission data.
+                The quiz is moved to the trash, where it can be restored or
+                deleted permanently. Students can no longer take it.
               </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
               <AlertDialogCancel>Cancel</AlertDialogCancel>
               <AlertDialogAction
                 className="bg-destructive text-white hover:bg-destructive/90"
-                onClick={handleDeleteQuiz}
+                onClick={() => handleDeleteQuiz(false)}
               >
                 Continue
               </AlertDialogAction>
@@ -424,6 +612,21 @@ export default function EditQuizForm({
         </Button>
       </div>
       {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+
+      <QuizEditImpactDialog
+        impact={editImpact?.impact ?? null}
+        action={editImpact?.action ?? "update"}
+        onCancel={() => setEditImpact(null)}
+        onConfirm={() => {
+          const action = editImpact?.action;
+          setEditImpact(null);
+          if (action === "delete") handleDeleteQuiz(true);
+          else updateQuiz(true);
+        }}
+        onDuplicate={
+          editImpact?.action === "update" ? handleDuplicateAsNewQuiz : undefined
+        }
+      />
     </form>
   );
 }
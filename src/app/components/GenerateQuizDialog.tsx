@@ -0,0 +1,272 @@
+"use client";
+
+import { JSX, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { OrganGroupCombobox } from "./OrganGroupCombobox";
+import type { OrganGroupMin } from "../lib/types";
+import type { QuizDraft } from "../lib/quizGenerator";
+
+interface GenerateQuizDialogProps {
+  onUseDraft: (draft: QuizDraft) => void;
+  studyYear?: number;
+}
+
+/**
+ * A two-step wizard to generate a randomized quiz draft. The teacher selects
+ * organ groups, a study year and the number of questions, previews the drawn
+ * questions (and can draw again), and then uses the draft in the quiz form,
+ * where it can be edited before it is saved.
+ *
+ * The component accepts the following props:
+ *
+ * - `onUseDraft`: Called with the generated draft when the teacher uses it.
+ * - `studyYear`: The study year of the quiz, used as the initial study year.
+ */
+export function GenerateQuizDialog({
+  onUseDraft,
+  studyYear,
+}: GenerateQuizDialogProps): JSX.Element {
+  const [open, setOpen] = useState(false);
+  const [organGroups, setOrganGroups] = useState<OrganGroupMin[]>([]);
+  const [organGroupIds, setOrganGroupIds] = useState<string[]>([]);
+  const [draftStudyYear, setDraftStudyYear] = useState(
+    studyYear !== undefined ? String(studyYear) : ""
+  );
+  const [questionCount, setQuestionCount] = useState(10);
+  const [bankQuestionCount, setBankQuestionCount] = useState(0);
+  const [draft, setDraft] = useState<QuizDraft | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    fetch("/api/organ-groups")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setOrganGroups)
+      .catch((error) => console.error(error));
+  }, [open]);
+
+  const groupName = (groupId: string) =>
+    organGroups.find((group) => group._id === groupId)?.groupName ?? groupId;
+
+  /**
+   * Requests a new draft from the server with the current settings and shows
+   * the preview step.
+   */
+  const handleGenerate = async () => {
+    if (organGroupIds.length === 0 || !draftStudyYear) {
+      toast.error("Please select at least one organ group and a study year.");
+      return;
+    }
+    setLoading(true);
+    try {
+      const response = await fetch("/api/quizzes/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          organGroupIds,
+          studyYear: parseInt(draftStudyYear, 10),
+          questionCount,
+          bankQuestionCount,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to generate quiz.");
+      }
+      if (data.questions.length < questionCount + bankQuestionCount) {
+        toast.warning(
+          `Only ${data.questions.length} matching questions were found.`
+        );
+      }
+      setDraft(data);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUseDraft = () => {
+    if (!draft) return;
+    onUseDraft(draft);
+    setOpen(false);
+    setDraft(null);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) setDraft(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" className="w-full">
+          Generate Quiz
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {draft ? "Preview Generated Quiz" : "Generate Quiz"}
+          </DialogTitle>
+          <DialogDescription>
+            {draft
+              ? "Using the draft replaces the title, study year and questions of the quiz. You can edit it before creating the quiz."
+              : 'Draws random "Select the ..." questions from the meshes of the selected organ groups, and optionally questions from the question bank.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <ScrollArea className="h-96 pr-3">
+            <p className="font-semibold mb-2">{draft.title}</p>
+            <ol className="list-decimal pl-5 space-y-1 text-sm">
+              {draft.questions.map((question, qIndex) => (
+                <li key={qIndex}>
+                  {question.questionText}
+                  {question.bankQuestion_id && (
+                    <span className="text-gray-500"> (question bank)</span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </ScrollArea>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label className="mb-2">Organ Groups</Label>
+              <OrganGroupCombobox
+                selectedGroupId={undefined}
+                onSelectGroup={(groupId) =>
+                  groupId &&
+                  !organGroupIds.includes(groupId) &&
+                  setOrganGroupIds([...organGroupIds, groupId])
+                }
+              />
+              <div className="flex flex-wrap gap-2 mt-2">
+                {organGroupIds.map((groupId) => (
+                  <Button
+                    key={groupId}
+                    type="button"
+                    variant="secondary"
+                    size="sm"
+                    onClick={() =>
+                      setOrganGroupIds(
+                        organGroupIds.filter((id) => id !== groupId)
+                      )
+                    }
+                  >
+                    {groupName(groupId)} ×
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="generate-studyYear" className="mb-2">
+                  Study Year
+                </Label>
+                <Select
+                  value={draftStudyYear}
+                  onValueChange={setDraftStudyYear}
+                >
+                  <SelectTrigger id="generate-studyYear">
+                    <SelectValue placeholder="Select study year" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">Year 1</SelectItem>
+                    <SelectItem value="2">Year 2</SelectItem>
+                    <SelectItem value="3">Year 3</SelectItem>
+                    <SelectItem value="4">Year 4</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="generate-questionCount" className="mb-2">
+                  Select Organ Questions
+                </Label>
+                <Input
+                  id="generate-questionCount"
+                  type="number"
+                  min={0}
+                  max={50}
+                  value={questionCount}
+                  onChange={(e) =>
+                    setQuestionCount(parseInt(e.target.value, 10) || 0)
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="generate-bankQuestionCount" className="mb-2">
+                  Question Bank Questions
+                </Label>
+                <Input
+                  id="generate-bankQuestionCount"
+                  type="number"
+                  min={0}
+                  max={50}
+                  value={bankQuestionCount}
+                  onChange={(e) =>
+                    setBankQuestionCount(parseInt(e.target.value, 10) || 0)
+                  }
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {draft ? (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDraft(null)}
+              >
+                Back
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleGenerate}
+                disabled={loading}
+              >
+                {loading ? "Generating..." : "Draw Again"}
+              </Button>
+              <Button type="button" onClick={handleUseDraft}>
+                Use Draft
+              </Button>
+            </>
+          ) : (
+            <Button type="button" onClick={handleGenerate} disabled={loading}>
+              {loading ? "Generating..." : "Generate"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
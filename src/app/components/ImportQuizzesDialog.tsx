@@ -0,0 +1,262 @@
+"use client";
+
+import { JSX, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { QuizImportReport, PortableTarget } from "../lib/quizTransfer";
+import type { QtiSkippedItem } from "../lib/qti";
+
+// The JSON export document, or the zip file of a QTI package
+type ImportFile =
+  | { kind: "json"; document: unknown }
+  | { kind: "qti"; archive: ArrayBuffer };
+
+type ImportReport = QuizImportReport & { skippedItems?: QtiSkippedItem[] };
+
+const targetName = (target: PortableTarget) =>
+  target.type === "mesh"
+    ? `mesh "${target.meshName}"`
+    : `organ group "${target.groupName}"`;
+
+/**
+ * A dialog to import quizzes from an export file of another database, or from
+ * a QTI 2.1 package of an LMS. The selected file is checked first: the dialog
+ * lists the quizzes that can be imported, the quizzes and QTI items that are
+ * skipped and the select-organ targets that do not exist in this database. The
+ * teacher then imports the valid quizzes.
+ */
+export function ImportQuizzesDialog(): JSX.Element {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [importFile, setImportFile] = useState<ImportFile | null>(null);
+  const [studyYear, setStudyYear] = useState("1");
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  /**
+   * Sends the export document or QTI package to the import endpoint.
+   * @param {ImportFile} file The selected file
+   * @param {boolean} dryRun Whether to only check the quizzes
+   * @returns {Promise<ImportReport>} The import report
+   */
+  const postImport = async (
+    file: ImportFile,
+    dryRun: boolean
+  ): Promise<ImportReport> => {
+    const params = new URLSearchParams();
+    if (dryRun) params.set("dryRun", "true");
+    if (file.kind === "qti") params.set("studyYear", studyYear);
+    const response = await fetch(`/api/quizzes/import?${params}`, {
+      method: "POST",
+      headers: {
+        "Content-Type":
+          file.kind === "qti" ? "application/zip" : "application/json",
+      },
+      body: file.kind === "qti" ? file.archive : JSON.stringify(file.document),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to import quizzes");
+    }
+    return data;
+  };
+
+  /**
+   * Reads the selected export file and checks it with a dry run.
+   * @param {React.ChangeEvent<HTMLInputElement>} e The change event of the file input
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setReport(null);
+    setImportFile(null);
+    if (!file) return;
+    setLoading(true);
+    try {
+      const selected: ImportFile = file.name.toLowerCase().endsWith(".zip")
+        ? { kind: "qti", archive: await file.arrayBuffer() }
+        : { kind: "json", document: JSON.parse(await file.text()) };
+      setReport(await postImport(selected, true));
+      setImportFile(selected);
+    } catch (error) {
+      toast.error(
+        error instanceof SyntaxError
+          ? "The file is not a valid JSON file."
+          : error instanceof Error
+          ? error.message
+          : "An unknown error occurred."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!importFile) return;
+    setLoading(true);
+    try {
+      const result = await postImport(importFile, false);
+      toast.success(`Imported ${result.imported.length} quizzes`);
+      if (result.skipped.length > 0) {
+        toast.warning(`${result.skipped.length} quizzes were skipped`);
+      }
+      setOpen(false);
+      setReport(null);
+      setImportFile(null);
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (!isOpen) {
+          setReport(null);
+          setImportFile(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline">
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Quizzes</DialogTitle>
+          <DialogDescription>
+            Select a file exported from another Quiz Manager (.json) or a QTI
+            2.1 package (.zip). Select-organ targets are matched by mesh and
+            organ group name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".json,application/json,.zip,application/zip"
+          onChange={handleFileChange}
+          disabled={loading}
+        />
+
+        {importFile?.kind === "qti" && (
+          <div className="space-y-2">
+            <Label>Study year of the imported quizzes</Label>
+            <Select value={studyYear} onValueChange={setStudyYear}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Select a study year" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Year 1</SelectItem>
+                <SelectItem value="2">Year 2</SelectItem>
+                <SelectItem value="3">Year 3</SelectItem>
+                <SelectItem value="4">Year 4</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {report && (
+          <ScrollArea className="max-h-96 pr-3">
+            <div className="space-y-4 text-sm">
+              {report.imported.length > 0 && (
+                <div>
+                  <p className="font-semibold text-green-600">
+                    Quizzes to import
+                  </p>
+                  <ul className="list-disc pl-5">
+                    {report.imported.map((quiz, index) => (
+                      <li key={index}>
+                        {quiz.title} ({quiz.questionCount} questions)
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {report.skipped.length > 0 && (
+                <div>
+                  <p className="font-semibold text-red-600">
+                    Quizzes that are skipped
+                  </p>
+                  <ul className="list-disc pl-5">
+                    {report.skipped.map((quiz, index) => (
+                      <li key={index}>
+                        {quiz.title}: {quiz.errors.join("; ")}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {report.skippedItems && report.skippedItems.length > 0 && (
+                <div>
+                  <p className="font-semibold">Questions that are left out</p>
+                  <ul className="list-disc pl-5">
+                    {report.skippedItems.map((item, index) => (
+                      <li key={index}>
+                        {item.quizTitle}, item {item.item}: {item.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {report.unresolvedReferences.length > 0 && (
+                <div>
+                  <p className="font-semibold">
+                    Targets that do not exist in this database
+                  </p>
+                  <ul className="list-disc pl-5">
+                    {report.unresolvedReferences.map((reference, index) => (
+                      <li key={index}>
+                        {reference.quizTitle}, question{" "}
+                        {reference.questionIndex + 1}:{" "}
+                        {targetName(reference.target)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={loading || !report || report.imported.length === 0}
+          >
+            {loading
+              ? "Importing..."
+              : `Import ${report?.imported.length ?? 0} Quizzes`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
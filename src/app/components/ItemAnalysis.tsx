@@ -0,0 +1,350 @@
+"use client";
+
+import { Fragment, JSX, useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+type ItemFlag =
+  | "not-graded"
+  | "very-difficult"
+  | "very-easy"
+  | "low-discrimination"
+  | "negative-discrimination"
+  | "distractor-attracts-upper-group"
+  | "non-functioning-distractors";
+
+// Matches the response of GET /api/quizzes/[id]/results/item-analysis
+interface OptionStatistics {
+  answerId: string;
+  answerText: string;
+  isCorrect: boolean;
+  count: number;
+  proportion: number;
+  upperProportion: number | null;
+  lowerProportion: number | null;
+  discrimination: number | null;
+}
+
+interface ItemStatistics {
+  questionId: string;
+  questionText: string;
+  questionType: string;
+  submissionCount: number;
+  answeredCount: number;
+  difficulty: number | null;
+  pointBiserial: number | null;
+  discriminationIndex: number | null;
+  upperDifficulty: number | null;
+  lowerDifficulty: number | null;
+  options?: OptionStatistics[];
+  flags: ItemFlag[];
+}
+
+interface ItemAnalysisResponse {
+  submissionCount: number;
+  upperLowerGroupSize: number;
+  reliability: {
+    method: string;
+    coefficient: number | null;
+    itemCount: number;
+    submissionCount: number;
+  };
+  items: ItemStatistics[];
+}
+
+const FLAG_LABELS: Record<ItemFlag, { label: string; description: string }> = {
+  "not-graded": {
+    label: "Not graded",
+    description: "Some responses are not graded yet, so it is not analyzed.",
+  },
+  "very-difficult": {
+    label: "Very difficult",
+    description: "Fewer than 20% of the students answered correctly.",
+  },
+  "very-easy": {
+    label: "Very easy",
+    description: "More than 90% of the students answered correctly.",
+  },
+  "low-discrimination": {
+    label: "Low discrimination",
+    description:
+      "The point-biserial is below 0.2, the question hardly tells strong and weak students apart.",
+  },
+  "negative-discrimination": {
+    label: "Negative discrimination",
+    description:
+      "Weak students do better than strong students, check the answer key.",
+  },
+  "distractor-attracts-upper-group": {
+    label: "Distractor attracts strong students",
+    description:
+      "A wrong option is chosen more often by the upper than by the lower group.",
+  },
+  "non-functioning-distractors": {
+    label: "Non-functioning distractors",
+    description: "A wrong option is chosen by fewer than 5% of the students.",
+  },
+};
+
+// Flags that only describe the question and do not call for a review
+const INFORMATIONAL_FLAGS: ItemFlag[] = ["not-graded"];
+
+const LOW_RELIABILITY = 0.7;
+
+const formatStatistic = (value: number | null): string =>
+  value === null ? "–" : value.toFixed(2);
+
+const formatProportion = (value: number | null): string =>
+  value === null ? "–" : `${Math.round(value * 100)}%`;
+
+interface ItemAnalysisProps {
+  quizId: string;
+  filterQuery?: string; // Query string of the results filters, see ResultsFilters
+}
+
+/**
+ * The item analysis of a quiz: the difficulty and discrimination of every
+ * question, the distractor analysis of MCQ/TF options and the reliability of
+ * the quiz, with flags for questions that should be reviewed.
+ *
+ * @param {ItemAnalysisProps} props - The ID of the quiz and the results filters to apply.
+ * @returns {JSX.Element} The item analysis.
+ */
+export function ItemAnalysis({
+  quizId,
+  filterQuery,
+}: ItemAnalysisProps): JSX.Element {
+  const [analysis, setAnalysis] = useState<ItemAnalysisResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedQuestionId, setExpandedQuestionId] = useState<string | null>(
+    null
+  );
+
+  useEffect(() => {
+    const fetchAnalysis = async () => {
+      try {
+        const response = await fetch(
+          `/api/quizzes/${quizId}/results/item-analysis${
+            filterQuery ? `?${filterQuery}` : ""
+          }`
+        );
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(
+            errorData.error ||
+              `Failed to fetch item analysis: ${response.statusText}`
+          );
+        }
+        setAnalysis(await response.json());
+        setError(null);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "An unknown error occurred"
+        );
+      }
+    };
+    fetchAnalysis();
+  }, [quizId, filterQuery]);
+
+  if (error) {
+    return <p className="text-center text-red-500">Error: {error}</p>;
+  }
+  if (!analysis) {
+    return <p className="text-center">Loading item analysis...</p>;
+  }
+
+  const { reliability } = analysis;
+  const reviewCount = analysis.items.filter((item) =>
+    item.flags.some((flag) => !INFORMATIONAL_FLAGS.includes(flag))
+  ).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Reliability</CardTitle>
+          <CardDescription>
+            {reliability.method} over {reliability.itemCount} questions and{" "}
+            {reliability.submissionCount} submissions that had all of them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <p
+            className={`text-3xl font-bold ${
+              reliability.coefficient !== null &&
+              reliability.coefficient < LOW_RELIABILITY
+                ? "text-red-600"
+                : ""
+            }`}
+          >
+            {formatStatistic(reliability.coefficient)}
+          </p>
+          {reliability.coefficient === null ? (
+            <p className="text-gray-500">
+              Not enough graded questions or submissions to calculate the
+              reliability.
+            </p>
+          ) : (
+            reliability.coefficient < LOW_RELIABILITY && (
+              <p className="text-red-600">
+                Below {LOW_RELIABILITY}: the total scores are not consistent
+                enough to rank students reliably.
+              </p>
+            )
+          )}
+          <p className="text-gray-500">
+            Based on {analysis.submissionCount} submissions. The upper and lower
+            group are the {analysis.upperLowerGroupSize} best and worst scoring
+            submissions (27%). Item statistics are unstable with few
+            submissions.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Questions</CardTitle>
+          <CardDescription>
+            {reviewCount === 0
+              ? "No questions are flagged for review."
+              : `${reviewCount} question${
+                  reviewCount === 1 ? " is" : "s are"
+                } flagged for review.`}{" "}
+            Difficulty is the share of correct answers, discrimination compares
+            the score on the question with the score on the other questions
+            (point-biserial) and between the upper and lower group (index).
+            Select an MCQ or true/false question to see its options.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left border-b">
+                <th className="py-2 pr-2">#</th>
+                <th className="py-2 pr-2">Question</th>
+                <th className="py-2 pr-2 text-right">Submissions</th>
+                <th className="py-2 pr-2 text-right">Difficulty</th>
+                <th className="py-2 pr-2 text-right">Point-biserial</th>
+                <th className="py-2 pr-2 text-right">Index</th>
+                <th className="py-2">Flags</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.items.map((item, index) => {
+                const isExpanded = expandedQuestionId === item.questionId;
+                return (
+                  <Fragment key={item.questionId}>
+                    <tr
+                      className={`border-b align-top ${
+                        item.options ? "cursor-pointer hover:bg-gray-50" : ""
+                      }`}
+                      onClick={() =>
+                        item.options &&
+                        setExpandedQuestionId(
+                          isExpanded ? null : item.questionId
+                        )
+                      }
+                    >
+                      <td className="py-2 pr-2">{index + 1}</td>
+                      <td className="py-2 pr-2">
+                        <span className="block">{item.questionText}</span>
+                        <span className="block text-xs text-gray-500">
+                          {item.questionType}
+                        </span>
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        {item.submissionCount}
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        {formatStatistic(item.difficulty)}
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        {formatStatistic(item.pointBiserial)}
+                      </td>
+                      <td className="py-2 pr-2 text-right">
+                        {formatStatistic(item.discriminationIndex)}
+                      </td>
+                      <td className="py-2">
+                        <div className="flex flex-wrap gap-1">
+                          {item.flags.map((flag) => (
+                            <span
+                              key={flag}
+                              title={FLAG_LABELS[flag].description}
+                              className={`rounded-full px-2 py-0.5 text-xs ${
+                                INFORMATIONAL_FLAGS.includes(flag)
+                                  ? "bg-gray-100 text-gray-700"
+                                  : "bg-amber-100 text-amber-800"
+                              }`}
+                            >
+                              {FLAG_LABELS[flag].label}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                    {isExpanded && item.options && (
+                      <tr className="border-b bg-gray-50">
+                        <td />
+                        <td colSpan={6} className="py-2 pr-2">
+                          <table className="w-full text-xs">
+                            <thead>
+                              <tr className="text-left">
+                                <th className="py-1 pr-2">Option</th>
+                                <th className="py-1 pr-2 text-right">Chosen</th>
+                                <th className="py-1 pr-2 text-right">
+                                  Upper group
+                                </th>
+                                <th className="py-1 pr-2 text-right">
+                                  Lower group
+                                </th>
+                                <th className="py-1 text-right">
+                                  Discrimination
+                                </th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {item.options.map((option) => (
+                                <tr key={option.answerId}>
+                                  <td className="py-1 pr-2">
+                                    {option.answerText}
+                                    {option.isCorrect && (
+                                      <span className="ml-1 text-green-700">
+                                        (correct)
+                                      </span>
+                                    )}
+                                  </td>
+                                  <td className="py-1 pr-2 text-right">
+                                    {option.count} (
+                                    {formatProportion(option.proportion)})
+                                  </td>
+                                  <td className="py-1 pr-2 text-right">
+                                    {formatProportion(option.upperProportion)}
+                                  </td>
+                                  <td className="py-1 pr-2 text-right">
+                                    {formatProportion(option.lowerProportion)}
+                                  </td>
+                                  <td className="py-1 text-right">
+                                    {formatStatistic(option.discrimination)}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+import { JSX } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import type { FrontendQuestion } from "../lib/types";
+
+interface LinkedBankQuestionProps {
+  question: Pick<
+    FrontendQuestion,
+    | "questionText"
+    | "type"
+    | "answers"
+    | "targetType"
+    | "acceptedAnswers"
+    | "bankQuestion_id"
+  >;
+  onUnlink: () => void;
+}
+
+const QUESTION_TYPE_LABELS: Record<string, string> = {
+  "multiple-choice": "Multiple Choice",
+  "true-false": "True/False",
+  "select-organ": "Select Organ",
+  "short-answer": "Short Answer",
+};
+
+/**
+ * Read-only view of a question that references the question bank. The content
+ * is managed on `/questions` and copied into the quiz when it is saved, so it
+ * cannot be edited here. Unlinking turns the question into an editable copy.
+ *
+ * The component accepts the following props:
+ *
+ * - `question`: The question as it is currently stored in the quiz form.
+ * - `onUnlink`: Called when the teacher wants to edit the question as a copy.
+ */
+export function LinkedBankQuestion({
+  question,
+  onUnlink,
+}: LinkedBankQuestionProps): JSX.Element {
+  return (
+    <div className="space-y-3 p-3 border rounded-md bg-slate-50">
+      <div className="flex justify-between items-center gap-2">
+        <p className="text-sm text-gray-500">
+          Linked to the{" "}
+          <Link
+            href={`/questions?edit=${question.bankQuestion_id}`}
+            className="underline"
+          >
+            question bank
+          </Link>
+          . Changes to the bank question are applied to this quiz.
+        </p>
+        <Button type="button" variant="outline" size="sm" onClick={onUnlink}>
+          Unlink and Edit
+        </Button>
+      </div>
+      <p className="font-bold">{question.questionText}</p>
+      <p className="text-sm text-gray-500">
+        {QUESTION_TYPE_LABELS[question.type] ?? question.type}
+        {question.type === "select-organ" &&
+          ` (${
+            question.targetType === "group" ? "Organ Group" : "Specific Mesh"
+          })`}
+      </p>
+      {question.answers.length > 0 && (
+        <ul className="text-sm list-disc pl-5">
+          {question.answers.map((answer, answerIndex) => (
+            <li
+              key={answer._id || answerIndex}
+              className={answer.isCorrect ? "font-semibold text-green-700" : ""}
+            >
+              {answer.text}
+            </li>
+          ))}
+        </ul>
+      )}
+      {question.type === "short-answer" && (
+        <p className="text-sm">
+          Accepted answers:{" "}
+          {(question.acceptedAnswers ?? []).join(", ") || "None"}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,72 @@
 "use client";
 
 import Link from "next/link";
-import { JSX } from "react";
-import { usePathname } from "next/navigation";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { JSX, useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+interface CurrentUser {
+  _id: string;
+  name: string;
+  email: string;
+  role: "teacher" | "admin";
+}
+
+/**
+ * Returns the initials of a name, e.g. "Jane van Dijk" -> "JD".
+ * @param {string} name The full name
+ * @returns {string} At most two uppercase initials
+ */
+const getInitials = (name: string): string => {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "?";
+  const first = parts[0][0];
+  const last = parts.length > 1 ? parts[parts.length - 1][0] : "";
+  return (first + last).toUpperCase();
+};
 
 /**
  * Navbar component that displays the site's navigation menu.
  * It includes links to different pages and highlights the active link.
- * It also displays a user avatar with an image and a fallback.
+ * It also displays the avatar of the logged in user with a menu to log out.
  *
  * @returns {JSX.Element} The navbar component.
  */
 
 const Navbar = (): JSX.Element => {
   const pathname = usePathname();
+  const router = useRouter();
+  const [user, setUser] = useState<CurrentUser | null>(null);
+
+  // Refetch the current user on navigation so the navbar updates after logging in or out
+  useEffect(() => {
+    const fetchCurrentUser = async () => {
+      try {
+        const response = await fetch("/api/auth/me");
+        setUser(response.ok ? await response.json() : null);
+      } catch (error) {
+        console.error("Failed to fetch current user:", error);
+        setUser(null);
+      }
+    };
+    fetchCurrentUser();
+  }, [pathname]);
+
+  /**
+   * Logs the current user out and redirects to the login page.
+   */
+  const handleLogout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    setUser(null);
+    router.push("/login");
+    router.refresh();
+  };
 
   /**
    * isActive determines whether a given path is the current path and
@@ -38,27 +90,89 @@ const Navbar = (): JSX.Element => {
           <span className="ml-3 text-xl">Quiz Manager</span>
         </Link>
         <nav className="md:mr-auto md:ml-4 md:py-1 md:pl-4 md:border-l md:border-gray-400 flex flex-wrap items-center text-base justify-center">
-          <Link href="/create" className={isActive("/create")}>
-            Create
-          </Link>
-          <Link href="/planned" className={isActive("/planned")}>
-            Planned
-          </Link>
-          <Link href="/results" className={isActive("/results")}>
-            Results
-          </Link>
+          {user && (
+            <>
+              <Link href="/create" className={isActive("/create")}>
+                Create
+              </Link>
+              <Link href="/planned" className={isActive("/planned")}>
+                Planned
+              </Link>
+              <Link href="/results" className={isActive("/results")}>
+                Results
+              </Link>
+              <Link href="/questions" className={isActive("/questions")}>
+                Question Bank
+              </Link>
+              <Link href="/students" className={isActive("/students")}>
+                Students
+              </Link>
+              <Link href="/trash" className={isActive("/trash")}>
+                Trash
+              </Link>
+              {user.role === "admin" && (
+                <>
+                  <Link
+                    href="/admin/users"
+                    className={isActive("/admin/users")}
+                  >
+                    Users
+                  </Link>
+                  <Link
+                    href="/admin/api-keys"
+                    className={isActive("/admin/api-keys")}
+                  >
+                    API Keys
+                  </Link>
+                </>
+              )}
+            </>
+          )}
         </nav>
 
-        <div className="mr-4">
-          <p className="text-sm text-gray-400 border rounded-md px-2 py-1">
-            Press <kbd className="font-sans font-semibold">Ctrl</kbd>{" "}
-            <kbd className="font-sans font-semibold">K</kbd> to search
-          </p>
-        </div>
+        {user ? (
+          <>
+            <div className="mr-4">
+              <p className="text-sm text-gray-400 border rounded-md px-2 py-1">
+                Press <kbd className="font-sans font-semibold">Ctrl</kbd>{" "}
+                <kbd className="font-sans font-semibold">K</kbd> to search
+              </p>
+            </div>
 
-        <Avatar>
-          <AvatarFallback>HZ</AvatarFallback>
-        </Avatar>
+            <Popover>
+              <PopoverTrigger asChild>
+                <button type="button" aria-label="Account menu">
+                  <Avatar>
+                    <AvatarFallback>{getInitials(user.name)}</AvatarFallback>
+                  </Avatar>
+                </button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-56 space-y-3">
+                <div>
+                  <p className="font-semibold text-gray-900">{user.name}</p>
+                  <p className="text-sm text-gray-500">{user.email}</p>
+                  <p className="text-xs text-gray-400 capitalize">
+                    {user.role}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={handleLogout}
+                >
+                  Log Out
+                </Button>
+              </PopoverContent>
+            </Popover>
+          </>
+        ) : (
+          pathname !== "/login" && (
+            <Link href="/login" className={isActive("/login")}>
+              Log In
+            </Link>
+          )
+        )}
       </div>
     </header>
   );
@@ -0,0 +1,221 @@
+"use client";
+
+import { JSX, useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { OrganGroupCombobox } from "./OrganGroupCombobox";
+import type { BankQuestionClient, FrontendQuestion } from "../lib/types";
+
+type BankLink = "reference" | "copy";
+
+interface QuestionBankDialogProps {
+  onAddQuestion: (question: FrontendQuestion) => void;
+  studyYear?: number;
+}
+
+/**
+ * Converts a bank question into a question for the quiz form. A reference keeps
+ * the answer IDs of the bank question, a copy gets new answers.
+ *
+ * @param {BankQuestionClient} bankQuestion - The question from the bank.
+ * @param {BankLink} bankLink - Whether to add the question by reference or as a copy.
+ * @returns {FrontendQuestion} The question for the quiz form, without an `_id`.
+ */
+export function toQuizQuestion(
+  bankQuestion: BankQuestionClient,
+  bankLink: BankLink
+): FrontendQuestion {
+  return {
+    questionText: bankQuestion.questionText,
+    type: bankQuestion.type,
+    answers: (bankQuestion.answers ?? []).map((answer) =>
+      bankLink === "reference"
+        ? { _id: answer._id, text: answer.text, isCorrect: answer.isCorrect }
+        : { text: answer.text, isCorrect: answer.isCorrect }
+    ),
+    targetType: bankQuestion.targetType,
+    target_id: bankQuestion.target_id,
+    acceptedAnswers: bankQuestion.acceptedAnswers,
+    typoTolerance: bankQuestion.typoTolerance,
+    bankQuestion_id: bankQuestion._id,
+    bankLink,
+  };
+}
+
+/**
+ * A dialog to search the question bank and add questions to a quiz, either by
+ * reference (kept in sync with the bank) or as an independent copy.
+ *
+ * The component accepts the following props:
+ *
+ * - `onAddQuestion`: Called with the question to add to the quiz form.
+ * - `studyYear`: The study year of the quiz, used as the initial filter.
+ */
+export function QuestionBankDialog({
+  onAddQuestion,
+  studyYear,
+}: QuestionBankDialogProps): JSX.Element {
+  const [open, setOpen] = useState(false);
+  const [questions, setQuestions] = useState<BankQuestionClient[]>([]);
+  const [search, setSearch] = useState("");
+  const [type, setType] = useState("all");
+  const [difficulty, setDifficulty] = useState("all");
+  const [filterStudyYear, setFilterStudyYear] = useState(
+    studyYear !== undefined ? String(studyYear) : "all"
+  );
+  const [organGroupId, setOrganGroupId] = useState<string | undefined>();
+
+  const fetchQuestions = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (search) params.set("search", search);
+      if (type !== "all") params.set("type", type);
+      if (difficulty !== "all") params.set("difficulty", difficulty);
+      if (filterStudyYear !== "all") params.set("studyYear", filterStudyYear);
+      if (organGroupId) params.set("organGroupId", organGroupId);
+      const response = await fetch(`/api/questions?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch bank questions");
+      setQuestions(await response.json());
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to fetch bank questions");
+    }
+  }, [search, type, difficulty, filterStudyYear, organGroupId]);
+
+  useEffect(() => {
+    if (open) fetchQuestions();
+  }, [open, fetchQuestions]);
+
+  const handleAdd = (bankQuestion: BankQuestionClient, bankLink: BankLink) => {
+    onAddQuestion(toQuizQuestion(bankQuestion, bankLink));
+    toast.success(
+      bankLink === "reference"
+        ? "Question linked from the bank"
+        : "Question copied from the bank"
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline">
+          Add from Question Bank
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Question Bank</DialogTitle>
+          <DialogDescription>
+            A reference stays in sync with the bank question, a copy can be
+            edited in this quiz only.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search question text"
+          />
+          <OrganGroupCombobox
+            selectedGroupId={organGroupId}
+            onSelectGroup={setOrganGroupId}
+          />
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger>
+              <SelectValue placeholder="Type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              <SelectItem value="multiple-choice">Multiple Choice</SelectItem>
+              <SelectItem value="true-false">True/False</SelectItem>
+              <SelectItem value="select-organ">Select Organ</SelectItem>
+              <SelectItem value="short-answer">Short Answer</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-3">
+            <Select value={filterStudyYear} onValueChange={setFilterStudyYear}>
+              <SelectTrigger>
+                <SelectValue placeholder="Study year" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All years</SelectItem>
+                <SelectItem value="1">Year 1</SelectItem>
+                <SelectItem value="2">Year 2</SelectItem>
+                <SelectItem value="3">Year 3</SelectItem>
+                <SelectItem value="4">Year 4</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={difficulty} onValueChange={setDifficulty}>
+              <SelectTrigger>
+                <SelectValue placeholder="Difficulty" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any difficulty</SelectItem>
+                <SelectItem value="easy">Easy</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="hard">Hard</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <ScrollArea className="h-96 pr-3">
+          {questions.length === 0 ? (
+            <p className="text-sm text-gray-500">No bank questions found.</p>
+          ) : (
+            <ul className="space-y-2">
+              {questions.map((question) => (
+                <li
+                  key={question._id}
+                  className="border rounded-md p-3 flex justify-between items-center gap-3"
+                >
+                  <div>
+                    <p className="font-medium">{question.questionText}</p>
+                    <p className="text-xs text-gray-500 capitalize">
+                      {question.type.replace("-", " ")}
+                      {question.studyYear && ` · Year ${question.studyYear}`}
+                      {question.difficulty && ` · ${question.difficulty}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => handleAdd(question, "reference")}
+                    >
+                      Add Reference
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleAdd(question, "copy")}
+                    >
+                      Add Copy
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { JSX } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { AffectedQuestion, QuizEditImpact } from "../lib/quizEditImpact";
+
+interface QuizEditImpactDialogProps {
+  impact: QuizEditImpact | null;
+  action: "update" | "delete";
+  onConfirm: () => void;
+  onCancel: () => void;
+  onDuplicate?: () => void;
+}
+
+const answerCountText = (question: AffectedQuestion) =>
+  `${question.answerCount} ${
+    question.answerCount === 1 ? "answer" : "answers"
+  }`;
+
+/**
+ * A dialog that warns a teacher before a quiz that students already took is
+ * changed destructively or deleted. It explains which results change: removed
+ * questions are no longer shown on the results page, and the results of
+ * questions with a changed answer key combine answers to the old and the new
+ * question. Submissions keep the grade of the version they answered.
+ *
+ * The component accepts the following props:
+ *
+ * - `impact`: The impact returned by the API with the 409 status, the dialog is
+ *   open while it is set.
+ * - `action`: Whether the quiz is updated or deleted.
+ * - `onConfirm`: Called when the teacher confirms the change.
+ * - `onCancel`: Called when the dialog is closed without a change.
+ * - `onDuplicate`: Called when the teacher saves the changes as a new quiz
+ *   instead, the option is hidden if not given.
+ */
+export function QuizEditImpactDialog({
+  impact,
+  action,
+  onConfirm,
+  onCancel,
+  onDuplicate,
+}: QuizEditImpactDialogProps): JSX.Element {
+  return (
+    <AlertDialog
+      open={impact !== null}
+      onOpenChange={(open) => !open && onCancel()}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>
+            {impact?.submissionCount}{" "}
+            {impact?.submissionCount === 1 ? "student has" : "students have"}{" "}
+            already taken this quiz
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {action === "delete"
+              ? "Moving the quiz to the trash removes its results from the results page until it is restored."
+              : "Their grades do not change, they were graded against the version of the quiz they answered. The results page shows the current questions, so these results change:"}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {action === "update" && impact && (
+          <div className="space-y-3 text-sm max-h-64 overflow-y-auto">
+            {impact.removedQuestions.length > 0 && (
+              <div>
+                <p className="font-semibold">
+                  Removed questions, their results are no longer shown
+                </p>
+                <ul className="list-disc pl-5">
+                  {impact.removedQuestions.map((question) => (
+                    <li key={question.questionId}>
+                      {question.questionText} ({answerCountText(question)})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {impact.changedQuestions.length > 0 && (
+              <div>
+                <p className="font-semibold">
+                  Changed questions, their results combine answers to the old
+                  and new question
+                </p>
+                <ul className="list-disc pl-5">
+                  {impact.changedQuestions.map((question) => (
+                    <li key={question.questionId}>
+                      {question.questionText} ({answerCountText(question)},
+                      changed: {question.changedFields?.join(", ")})
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          {onDuplicate && (
+            <Button type="button" variant="outline" onClick={onDuplicate}>
+              Duplicate as New Quiz
+            </Button>
+          )}
+          <AlertDialogAction
+            className="bg-destructive text-white hover:bg-destructive/90"
+            onClick={onConfirm}
+          >
+            {action === "delete" ? "Delete Anyway" : "Save Anyway"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
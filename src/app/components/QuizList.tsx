@@ -6,15 +6,18 @@ import {
   Card,
   CardContent,
   CardDescription,
+  CardFooter,
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { DuplicateQuizDialog } from "./DuplicateQuizDialog";
 
 type Quiz = {
   _id: string;
   title: string;
   description: string;
+  studyYear?: number;
   questions: { question: string; type: string }[];
   scheduledAt: Date | string | null;
 };
@@ -24,7 +27,8 @@ type Quiz = {
  * bar and a grid of cards, each representing a quiz. The component filters the
  * list of quizzes based on the search term, and renders the following information
  * for each quiz: title, description, number of questions, and scheduled
- * date.
+ * date. Each card links to the quiz editor and has an action to duplicate the
+ * quiz.
  *
  * @param {{ quizzes: Quiz[] }} props - The props object containing the list of
  * quizzes.
@@ -56,8 +60,11 @@ export default function QuizList({
       ) : (
         <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
           {filteredQuizzes.map((quiz) => (
-            <Link key={quiz._id} href={`/edit/${quiz._id}`}>
-              <Card className="h-full hover:shadow-lg hover:bg-gray-100 cursor-pointer">
+            <Card
+              key={quiz._id}
+              className="h-full hover:shadow-lg hover:bg-gray-100"
+            >
+              <Link href={`/edit/${quiz._id}`} className="flex-1">
                 <CardHeader>
                   <CardTitle>{quiz.title}</CardTitle>
                 </CardHeader>
@@ -80,8 +87,15 @@ export default function QuizList({
                         })}
                   </CardDescription>
                 </CardContent>
-              </Card>
-            </Link>
+              </Link>
+              <CardFooter className="justify-end">
+                <DuplicateQuizDialog
+                  quizId={quiz._id}
+                  quizTitle={quiz.title}
+                  studyYear={quiz.studyYear}
+                />
+              </CardFooter>
+            </Card>
           ))}
         </div>
       )}
@@ -0,0 +1,271 @@
+"use client";
+
+import { JSX, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  diffQuizVersions,
+  type DiffableQuiz,
+  type QuizVersionDiff,
+} from "../lib/quizDiff";
+
+interface QuizVersionSummary {
+  version: number;
+  title: string;
+  questionCount: number;
+  submissionCount: number;
+  editedByName?: string;
+  createdAt?: string;
+  isCurrent: boolean;
+}
+
+interface QuizVersionHistoryProps {
+  quizId: string;
+}
+
+const formatValue = (value: unknown): string =>
+  value === undefined || value === null || value === ""
+    ? "(none)"
+    : String(value);
+
+/**
+ * A dialog that lists the versions of a quiz and compares two of them.
+ *
+ * Every save of a quiz creates a new version. The list shows who saved each
+ * version and how many submissions answered it. Selecting two versions shows the
+ * changed quiz fields and the added, removed, changed and moved questions.
+ *
+ * The component accepts the following props:
+ *
+ * - `quizId`: The ID of the quiz.
+ */
+export function QuizVersionHistory({
+  quizId,
+}: QuizVersionHistoryProps): JSX.Element {
+  const [open, setOpen] = useState(false);
+  const [versions, setVersions] = useState<QuizVersionSummary[]>([]);
+  const [fromVersion, setFromVersion] = useState("");
+  const [toVersion, setToVersion] = useState("");
+  const [diff, setDiff] = useState<QuizVersionDiff | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    fetch(`/api/quizzes/${quizId}/versions`)
+      .then((response) => (response.ok ? response.json() : []))
+      .then((data: QuizVersionSummary[]) => {
+        setVersions(data);
+        // Compare the current version with the one before it by default
+        setToVersion(data[0] ? String(data[0].version) : "");
+        setFromVersion(data[1] ? String(data[1].version) : "");
+      })
+      .catch((error) => console.error(error));
+  }, [open, quizId]);
+
+  useEffect(() => {
+    setDiff(null);
+    if (!fromVersion || !toVersion || fromVersion === toVersion) return;
+
+    const fetchVersion = async (version: string): Promise<DiffableQuiz> => {
+      const response = await fetch(
+        `/api/quizzes/${quizId}/versions/${version}`
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch quiz version.");
+      }
+      return data;
+    };
+    let cancelled = false;
+    Promise.all([fetchVersion(fromVersion), fetchVersion(toVersion)])
+      .then(([from, to]) => !cancelled && setDiff(diffQuizVersions(from, to)))
+      .catch((error) =>
+        toast.error(
+          error instanceof Error ? error.message : "An unknown error occurred."
+        )
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [quizId, fromVersion, toVersion]);
+
+  const renderVersionSelect = (
+    id: string,
+    value: string,
+    onValueChange: (value: string) => void
+  ) => (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.version} value={String(version.version)}>
+            Version {version.version}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const hasChanges =
+    diff &&
+    (diff.fieldChanges.length > 0 ||
+      diff.addedQuestions.length > 0 ||
+      diff.removedQuestions.length > 0 ||
+      diff.changedQuestions.length > 0 ||
+      diff.movedQuestions.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline">
+          Version History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Every save creates a new version. Submissions are graded against the
+            version the student answered.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[32rem] pr-3">
+          <ul className="space-y-1 text-sm mb-4">
+            {versions.map((version) => (
+              <li key={version.version} className="flex justify-between gap-4">
+                <span>
+                  <span className="font-semibold">
+                    Version {version.version}
+                  </span>
+                  {version.isCurrent && " (current)"} · {version.title} ·{" "}
+                  {version.questionCount} questions
+                </span>
+                <span className="text-gray-500 text-right">
+                  {version.createdAt &&
+                    new Date(version.createdAt).toLocaleString("nl-NL")}
+                  {version.editedByName && ` by ${version.editedByName}`} ·{" "}
+                  {version.submissionCount} submissions
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {versions.length > 1 && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="version-from" className="mb-2">
+                    Compare
+                  </Label>
+                  {renderVersionSelect(
+                    "version-from",
+                    fromVersion,
+                    setFromVersion
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="version-to" className="mb-2">
+                    With
+                  </Label>
+                  {renderVersionSelect("version-to", toVersion, setToVersion)}
+                </div>
+              </div>
+
+              {diff && !hasChanges && (
+                <p className="text-sm text-gray-500">
+                  The versions have the same content.
+                </p>
+              )}
+              {diff && diff.fieldChanges.length > 0 && (
+                <div>
+                  <p className="font-semibold">Quiz</p>
+                  <ul className="list-disc pl-5 text-sm">
+                    {diff.fieldChanges.map((change) => (
+                      <li key={change.field}>
+                        {change.field}: {formatValue(change.from)} →{" "}
+                        {formatValue(change.to)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {diff && diff.addedQuestions.length > 0 && (
+                <div>
+                  <p className="font-semibold text-green-600">
+                    Added questions
+                  </p>
+                  <ul className="list-disc pl-5 text-sm">
+                    {diff.addedQuestions.map((question) => (
+                      <li key={question.questionId}>{question.questionText}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {diff && diff.removedQuestions.length > 0 && (
+                <div>
+                  <p className="font-semibold text-red-600">
+                    Removed questions
+                  </p>
+                  <ul className="list-disc pl-5 text-sm">
+                    {diff.removedQuestions.map((question) => (
+                      <li key={question.questionId}>{question.questionText}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {diff && diff.changedQuestions.length > 0 && (
+                <div>
+                  <p className="font-semibold text-yellow-600">
+                    Changed questions
+                  </p>
+                  <ul className="list-disc pl-5 text-sm">
+                    {diff.changedQuestions.map((question) => (
+                      <li key={question.questionId}>
+                        {question.questionText}{" "}
+                        <span className="text-gray-500">
+                          ({question.changedFields.join(", ")})
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {diff && diff.movedQuestions.length > 0 && (
+                <div>
+                  <p className="font-semibold">Moved questions</p>
+                  <ul className="list-disc pl-5 text-sm">
+                    {diff.movedQuestions.map((question) => (
+                      <li key={question.questionId}>
+                        {question.questionText}: position {question.from + 1} →{" "}
+                        {question.to + 1}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { JSX } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export interface ResultsFilterValues {
+  studyYear: string; // "all" or the study year at submission
+  from: string; // YYYY-MM-DD or empty
+  to: string; // YYYY-MM-DD or empty, includes the whole day
+  cohort: string;
+  attempt: "all" | "first" | "latest";
+}
+
+export const EMPTY_RESULTS_FILTERS: ResultsFilterValues = {
+  studyYear: "all",
+  from: "",
+  to: "",
+  cohort: "",
+  attempt: "all",
+};
+
+/**
+ * Converts the filters to the query string of the results endpoints, see
+ * GET /api/quizzes/[id]/results.
+ *
+ * @param {ResultsFilterValues} filters - The filters.
+ * @returns {string} The query string without `?`, empty without filters.
+ */
+export const toResultsFilterQuery = (filters: ResultsFilterValues): string => {
+  const params = new URLSearchParams();
+  if (filters.studyYear !== "all")
+    params.set("studyYearAtSubmission", filters.studyYear);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.cohort.trim()) params.set("cohort", filters.cohort.trim());
+  if (filters.attempt !== "all") params.set("attempt", filters.attempt);
+  return params.toString();
+};
+
+interface ResultsFiltersProps {
+  filters: ResultsFilterValues;
+  onChange: (filters: ResultsFilterValues) => void;
+}
+
+/**
+ * Filter controls for the results of a quiz, e.g. to compare year 1 and year 4
+ * students on the same quiz.
+ *
+ * @param {ResultsFiltersProps} props - The current filters and the callback to change them.
+ * @returns {JSX.Element} The filter controls.
+ */
+export function ResultsFilters({
+  filters,
+  onChange,
+}: ResultsFiltersProps): JSX.Element {
+  const update = (changes: Partial<ResultsFilterValues>) =>
+    onChange({ ...filters, ...changes });
+  const isFiltered = toResultsFilterQuery(filters) !== "";
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div className="space-y-1">
+        <Label>Study year</Label>
+        <Select
+          value={filters.studyYear}
+          onValueChange={(studyYear) => update({ studyYear })}
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue placeholder="Study year" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All years</SelectItem>
+            <SelectItem value="1">Year 1</SelectItem>
+            <SelectItem value="2">Year 2</SelectItem>
+            <SelectItem value="3">Year 3</SelectItem>
+            <SelectItem value="4">Year 4</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="results-from">Submitted from</Label>
+        <Input
+          id="results-from"
+          type="date"
+          className="w-40"
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={(e) => update({ from: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="results-to">Submitted until</Label>
+        <Input
+          id="results-to"
+          type="date"
+          className="w-40"
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={(e) => update({ to: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="results-cohort">Cohort</Label>
+        <Input
+          id="results-cohort"
+          className="w-36"
+          value={filters.cohort}
+          onChange={(e) => update({ cohort: e.target.value })}
+          placeholder="All cohorts"
+        />
+      </div>
+      <div className="space-y-1">
+        <Label>Attempts</Label>
+        <Select
+          value={filters.attempt}
+          onValueChange={(attempt) =>
+            update({ attempt: attempt as ResultsFilterValues["attempt"] })
+          }
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="Attempts" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All attempts</SelectItem>
+            <SelectItem value="first">First attempt only</SelectItem>
+            <SelectItem value="latest">Latest attempt only</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {isFiltered && (
+        <Button variant="ghost" onClick={() => onChange(EMPTY_RESULTS_FILTERS)}>
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import { JSX, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+export type ShortAnswerVerdict = "correct" | "incorrect" | "partial";
+
+// Matches the grouped short answer responses of GET /api/quizzes/[id]/results
+export interface ShortAnswerResponse {
+  responseText: string; // Empty if the question was not answered
+  studentCount: number;
+  isCorrect?: boolean;
+  credit?: number;
+  matchType?: "exact" | "normalized" | "fuzzy" | "none";
+  matchedAnswer?: string;
+  distance?: number;
+  manualGrade?: {
+    verdict: ShortAnswerVerdict;
+    comment?: string;
+    gradedByName?: string;
+    updatedAt?: string;
+  };
+}
+
+interface ShortAnswerGradingProps {
+  quizId: string;
+  questionId: string;
+  responses: ShortAnswerResponse[];
+  onGraded: () => void;
+}
+
+const VERDICT_LABELS: Record<ShortAnswerVerdict, string> = {
+  correct: "Correct",
+  partial: "Partially correct",
+  incorrect: "Incorrect",
+};
+
+/**
+ * Describes how a short answer was graded.
+ *
+ * @param {ShortAnswerResponse} response - The grouped response with its grading details.
+ * @returns {string} A short, human readable description of the grade.
+ */
+const describeGrade = (response: ShortAnswerResponse): string => {
+  if (response.manualGrade) {
+    return `${VERDICT_LABELS[response.manualGrade.verdict]} (graded by ${
+      response.manualGrade.gradedByName || "a teacher"
+    })`;
+  }
+  switch (response.matchType) {
+    case "exact":
+      return "Exact match";
+    case "normalized":
+      return `Matches "${response.matchedAnswer}" (ignoring case/accents)`;
+    case "fuzzy":
+      return `Matches "${response.matchedAnswer}" with ${
+        response.distance
+      } typo${response.distance === 1 ? "" : "s"}`;
+    case "none":
+      return "No match";
+    default:
+      return "Not graded";
+  }
+};
+
+/**
+ * A single group of identical responses with controls to grade it.
+ */
+function ShortAnswerGradingRow({
+  quizId,
+  questionId,
+  response,
+  onGraded,
+}: {
+  quizId: string;
+  questionId: string;
+  response: ShortAnswerResponse;
+  onGraded: () => void;
+}): JSX.Element {
+  const [comment, setComment] = useState(response.manualGrade?.comment || "");
+  const [saving, setSaving] = useState(false);
+
+  /**
+   * Saves the verdict for this response by sending a PUT request to the
+   * short-answer grades endpoint, then reloads the results.
+   *
+   * @param {ShortAnswerVerdict} verdict - The verdict chosen by the teacher.
+   */
+  const handleGrade = async (verdict: ShortAnswerVerdict) => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/quizzes/${quizId}/short-answer-grades`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          question_id: questionId,
+          responseText: response.responseText,
+          verdict,
+          comment,
+        }),
+      });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || "Failed to save grade");
+      }
+      toast.success(`Marked "${response.responseText}" as ${verdict}`);
+      onGraded();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save grade");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Removes the manual grade so the response is graded automatically again.
+   */
+  const handleReset = async () => {
+    setSaving(true);
+    try {
+      const params = new URLSearchParams({
+        question_id: questionId,
+        responseText: response.responseText,
+      });
+      const res = await fetch(
+        `/api/quizzes/${quizId}/short-answer-grades?${params.toString()}`,
+        { method: "DELETE" }
+      );
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || "Failed to remove grade");
+      }
+      setComment("");
+      toast.success("Manual grade removed");
+      onGraded();
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : "Failed to remove grade"
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const verdict = response.manualGrade?.verdict;
+
+  return (
+    <li
+      className={`text-sm p-2 rounded space-y-2 ${
+        response.isCorrect === true
+          ? "bg-green-50"
+          : verdict === "partial"
+          ? "bg-yellow-50"
+          : response.isCorrect === false
+          ? "bg-red-50"
+          : "bg-gray-50"
+      }`}
+    >
+      <div className="flex justify-between gap-4">
+        <span>
+          {response.responseText || (
+            <span className="italic text-gray-500">No Answer</span>
+          )}
+          {response.studentCount > 1 && (
+            <span className="text-gray-500"> ({response.studentCount}x)</span>
+          )}
+        </span>
+        <span className="text-xs text-gray-500 text-right">
+          {describeGrade(response)}
+        </span>
+      </div>
+      {response.responseText && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Comment (optional)"
+            className="h-8 flex-1 min-w-[160px] bg-white"
+            disabled={saving}
+          />
+          {(Object.keys(VERDICT_LABELS) as ShortAnswerVerdict[]).map((v) => (
+            <Button
+              key={v}
+              type="button"
+              size="sm"
+              variant={verdict === v ? "default" : "outline"}
+              disabled={saving}
+              onClick={() => handleGrade(v)}
+            >
+              {VERDICT_LABELS[v]}
+            </Button>
+          ))}
+          {verdict && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={saving}
+              onClick={handleReset}
+            >
+              Reset
+            </Button>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Lists the responses to a short-answer question, grouped by identical text, and
+ * lets the teacher grade each group as correct, incorrect or partially correct
+ * with a comment. Manual grades override the automatic grading and are applied to
+ * the scores of every submission with that response.
+ *
+ * The component accepts the following props:
+ *
+ * - `quizId`: The ID of the quiz.
+ * - `questionId`: The ID of the short-answer question.
+ * - `responses`: The grouped responses from the results endpoint.
+ * - `onGraded`: Called after a grade was saved or removed, to reload the results.
+ */
+export function ShortAnswerGrading({
+  quizId,
+  questionId,
+  responses,
+  onGraded,
+}: ShortAnswerGradingProps): JSX.Element {
+  return (
+    <ScrollArea className="h-[320px] w-full rounded-md border p-3">
+      <ul className="space-y-2">
+        {responses.map((response) => (
+          <ShortAnswerGradingRow
+            key={response.responseText}
+            quizId={quizId}
+            questionId={questionId}
+            response={response}
+            onGraded={onGraded}
+          />
+        ))}
+      </ul>
+    </ScrollArea>
+  );
+}
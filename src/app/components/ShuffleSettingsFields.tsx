@@ -0,0 +1,59 @@
+"use client";
+
+import { JSX } from "react";
+import { Label } from "@/components/ui/label";
+
+interface ShuffleSettingsFieldsProps {
+  shuffleQuestions: boolean;
+  shuffleAnswers: boolean;
+  onChangeShuffleQuestions: (shuffle: boolean) => void;
+  onChangeShuffleAnswers: (shuffle: boolean) => void;
+}
+
+/**
+ * Checkboxes for the shuffle settings of a quiz. When enabled, every student
+ * gets the questions and/or multiple-choice answers in their own order, which
+ * is the same every time the student opens the quiz.
+ *
+ * The component accepts the following props:
+ *
+ * - `shuffleQuestions`: Whether the question order is shuffled.
+ * - `shuffleAnswers`: Whether the multiple-choice answer order is shuffled.
+ * - `onChangeShuffleQuestions`: Called when the question setting changes.
+ * - `onChangeShuffleAnswers`: Called when the answer setting changes.
+ */
+export function ShuffleSettingsFields({
+  shuffleQuestions,
+  shuffleAnswers,
+  onChangeShuffleQuestions,
+  onChangeShuffleAnswers,
+}: ShuffleSettingsFieldsProps): JSX.Element {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id="shuffleQuestions"
+          checked={shuffleQuestions}
+          onChange={(e) => onChangeShuffleQuestions(e.target.checked)}
+          className="h-4 w-4"
+        />
+        <Label htmlFor="shuffleQuestions">
+          Shuffle question order per student
+        </Label>
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          id="shuffleAnswers"
+          checked={shuffleAnswers}
+          onChange={(e) => onChangeShuffleAnswers(e.target.checked)}
+          className="h-4 w-4"
+        />
+        <Label htmlFor="shuffleAnswers">
+          Shuffle multiple-choice answers per student
+        </Label>
+      </div>
+    </div>
+  );
+}
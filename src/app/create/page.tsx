@@ -18,8 +18,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 
 import { DateTimePicker24h } from "../components/DateTimePicker";
+import { AvailabilityWindowFields } from "../components/AvailabilityWindowFields";
+import { ShuffleSettingsFields } from "../components/ShuffleSettingsFields";
 import { MeshCatalogCombobox } from "../components/MeshCatalogCombobox";
 import { OrganGroupCombobox } from "../components/OrganGroupCombobox";
+import { AcceptedAnswersEditor } from "../components/AcceptedAnswersEditor";
+import { QuestionBankDialog } from "../components/QuestionBankDialog";
+import { LinkedBankQuestion } from "../components/LinkedBankQuestion";
+import { GenerateQuizDialog } from "../components/GenerateQuizDialog";
+import type { QuizDraft } from "@/app/lib/quizGenerator";
 import { useWarnIfUnsavedChanges } from "@/app/lib/warnIfUnsavedChanges";
 
 export interface FrontendAnswer {
@@ -34,6 +41,10 @@ export interface FrontendQuestion {
   answers: FrontendAnswer[];
   targetType?: "mesh" | "group";
   target_id?: string;
+  acceptedAnswers?: string[];
+  typoTolerance?: number;
+  bankQuestion_id?: string;
+  bankLink?: "reference" | "copy";
 }
 
 interface QuizCreateState {
@@ -42,6 +53,11 @@ interface QuizCreateState {
   studyYear?: number;
   questions: FrontendQuestion[];
   scheduledAt?: Date;
+  opensAt?: Date;
+  closesAt?: Date;
+  gracePeriodMinutes?: number;
+  shuffleQuestions: boolean;
+  shuffleAnswers: boolean;
 }
 
 /**
@@ -61,6 +77,11 @@ export default function CreateQuizPage(): JSX.Element {
     studyYear: undefined,
     questions: [],
     scheduledAt: undefined,
+    opensAt: undefined,
+    closesAt: undefined,
+    gracePeriodMinutes: undefined,
+    shuffleQuestions: false,
+    shuffleAnswers: false,
   });
   const [loading, setLoading] = useState(false);
 
@@ -103,7 +124,7 @@ export default function CreateQuizPage(): JSX.Element {
    */
   const handleQuizChange = (
     field: keyof QuizCreateState,
-    value: string | number | Date | undefined | FrontendQuestion[]
+    value: string | number | boolean | Date | undefined | FrontendQuestion[]
   ) => {
     setHasUnsavedChanges(true);
     setQuiz((prev) => ({ ...prev, [field]: value }));
@@ -154,6 +175,35 @@ export default function CreateQuizPage(): JSX.Element {
     }));
   };
 
+  /**
+   * Adds a question from the question bank to the quiz state, either as a
+   * reference or as a copy (see {@link QuestionBankDialog}).
+   *
+   * @param {FrontendQuestion} question - The question to add.
+   */
+  const handleAddBankQuestion = (question: FrontendQuestion) => {
+    setHasUnsavedChanges(true);
+    setQuiz((prev) => ({ ...prev, questions: [...prev.questions, question] }));
+  };
+
+  /**
+   * Replaces the title, description, study year and questions of the quiz
+   * state with a generated draft (see {@link GenerateQuizDialog}). The schedule
+   * and availability window are kept.
+   *
+   * @param {QuizDraft} draft - The generated quiz draft.
+   */
+  const handleUseGeneratedDraft = (draft: QuizDraft) => {
+    setHasUnsavedChanges(true);
+    setQuiz((prev) => ({
+      ...prev,
+      title: draft.title,
+      description: draft.description,
+      studyYear: draft.studyYear,
+      questions: draft.questions,
+    }));
+  };
+
   /**
    * Removes a question from the quiz state.
    *
@@ -204,6 +254,7 @@ export default function CreateQuizPage(): JSX.Element {
    * updating the question at the given index with the new type.
    * If the new type is "select-organ", the targetType and target_id fields are reset to undefined.
    * If the new type is not "multiple-choice" or "true-false", the answers field is reset to an empty array.
+   * If the new type is not "short-answer", the acceptedAnswers and typoTolerance fields are reset to undefined.
    *
    * @param {number} qIndex - The index of the question to update.
    * @param {string} newType - The new type of the question.
@@ -223,6 +274,10 @@ export default function CreateQuizPage(): JSX.Element {
                 newType === "multiple-choice" || newType === "true-false"
                   ? q.answers
                   : [],
+              acceptedAnswers:
+                newType === "short-answer" ? q.acceptedAnswers : undefined,
+              typoTolerance:
+                newType === "short-answer" ? q.typoTolerance : undefined,
             }
           : q
       ),
@@ -374,7 +429,20 @@ export default function CreateQuizPage(): JSX.Element {
 
     const payload = {
       ...quiz,
+      questions: quiz.questions.map((q) =>
+        q.type === "short-answer"
+          ? {
+              ...q,
+              acceptedAnswers: (q.acceptedAnswers || []).filter((ans) =>
+                ans.trim()
+              ),
+            }
+          : q
+      ),
       scheduledAt: quiz.scheduledAt?.toISOString() || null,
+      opensAt: quiz.opensAt?.toISOString() || null,
+      closesAt: quiz.closesAt?.toISOString() || null,
+      gracePeriodMinutes: quiz.gracePeriodMinutes ?? null,
     };
 
     try {
@@ -399,6 +467,11 @@ export default function CreateQuizPage(): JSX.Element {
         studyYear: undefined,
         questions: [],
         scheduledAt: undefined,
+        opensAt: undefined,
+        closesAt: undefined,
+        gracePeriodMinutes: undefined,
+        shuffleQuestions: false,
+        shuffleAnswers: false,
       });
       // Optional redirect to the homepage, uncomment if needed
       // router.push('/');
@@ -486,6 +559,33 @@ export default function CreateQuizPage(): JSX.Element {
                     setDate={(date) => handleQuizChange("scheduledAt", date)}
                   />
                 </div>
+                <AvailabilityWindowFields
+                  opensAt={quiz.opensAt}
+                  closesAt={quiz.closesAt}
+                  gracePeriodMinutes={quiz.gracePeriodMinutes}
+                  onChangeOpensAt={(date) => handleQuizChange("opensAt", date)}
+                  onChangeClosesAt={(date) =>
+                    handleQuizChange("closesAt", date)
+                  }
+                  onChangeGracePeriodMinutes={(minutes) =>
+                    handleQuizChange("gracePeriodMinutes", minutes)
+                  }
+                  stacked
+                />
+                <ShuffleSettingsFields
+                  shuffleQuestions={quiz.shuffleQuestions}
+                  shuffleAnswers={quiz.shuffleAnswers}
+                  onChangeShuffleQuestions={(shuffle) =>
+                    handleQuizChange("shuffleQuestions", shuffle)
+                  }
+                  onChangeShuffleAnswers={(shuffle) =>
+                    handleQuizChange("shuffleAnswers", shuffle)
+                  }
+                />
+                <GenerateQuizDialog
+                  onUseDraft={handleUseGeneratedDraft}
+                  studyYear={quiz.studyYear}
+                />
               </CardContent>
             </Card>
           </div>
@@ -504,7 +604,8 @@ export default function CreateQuizPage(): JSX.Element {
                 {/* */}
                 {quiz.questions.length === 0 && (
                   <p className="text-sm text-gray-500">
-                    No questions added yet. Click "Add Question" to start.
+                    No questions added yet. Click "Add Question" or "Generate
+                    Quiz" to start.
                   </p>
                 )}
                 {quiz.questions.map((question, qIndex) => (
@@ -524,200 +625,237 @@ export default function CreateQuizPage(): JSX.Element {
                         Remove
                       </Button>
                     </div>
-                    <div className="space-y-4">
-                      <div>
-                        <Label htmlFor={`q-text-${qIndex}`}>
-                          Question Text
-                        </Label>
-                        <Input
-                          id={`q-text-${qIndex}`}
-                          type="text"
-                          placeholder="Enter question text"
-                          value={question.questionText}
-                          onChange={(e) =>
-                            handleQuestionDetailChange(
-                              qIndex,
-                              "questionText",
-                              e.target.value
-                            )
-                          }
-                          className="mt-2"
-                          required
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor={`q-type-${qIndex}`} className="mb-2">
-                          Question Type
-                        </Label>
-                        <Select
-                          value={question.type}
-                          onValueChange={(value) =>
-                            handleQuestionTypeChange(qIndex, value)
-                          }
-                        >
-                          <SelectTrigger id={`q-type-${qIndex}`}>
-                            <SelectValue placeholder="Select type" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="multiple-choice">
-                              Multiple Choice
-                            </SelectItem>
-                            <SelectItem value="true-false">
-                              True/False
-                            </SelectItem>
-                            <SelectItem value="select-organ">
-                              Select Organ
-                            </SelectItem>
-                            <SelectItem value="short-answer">
-                              Short Answer
-                            </SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-
-                      {question.type === "select-organ" && (
-                        <div className="p-3 border rounded-md bg-slate-50 space-y-3">
-                          <Label className="font-medium">
-                            Target Configuration (Select Organ)
+                    {question.bankLink === "reference" ? (
+                      <LinkedBankQuestion
+                        question={question}
+                        onUnlink={() =>
+                          handleQuestionDetailChange(qIndex, "bankLink", "copy")
+                        }
+                      />
+                    ) : (
+                      <div className="space-y-4">
+                        <div>
+                          <Label htmlFor={`q-text-${qIndex}`}>
+                            Question Text
                           </Label>
-                          <div>
-                            <Label
-                              htmlFor={`q-targetType-${qIndex}`}
-                              className="mb-2"
-                            >
-                              Target Type
+                          <Input
+                            id={`q-text-${qIndex}`}
+                            type="text"
+                            placeholder="Enter question text"
+                            value={question.questionText}
+                            onChange={(e) =>
+                              handleQuestionDetailChange(
+                                qIndex,
+                                "questionText",
+                                e.target.value
+                              )
+                            }
+                            className="mt-2"
+                            required
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor={`q-type-${qIndex}`} className="mb-2">
+                            Question Type
+                          </Label>
+                          <Select
+                            value={question.type}
+                            onValueChange={(value) =>
+                              handleQuestionTypeChange(qIndex, value)
+                            }
+                          >
+                            <SelectTrigger id={`q-type-${qIndex}`}>
+                              <SelectValue placeholder="Select type" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="multiple-choice">
+                                Multiple Choice
+                              </SelectItem>
+                              <SelectItem value="true-false">
+                                True/False
+                              </SelectItem>
+                              <SelectItem value="select-organ">
+                                Select Organ
+                              </SelectItem>
+                              <SelectItem value="short-answer">
+                                Short Answer
+                              </SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        {question.type === "select-organ" && (
+                          <div className="p-3 border rounded-md bg-slate-50 space-y-3">
+                            <Label className="font-medium">
+                              Target Configuration (Select Organ)
                             </Label>
-                            <Select
-                              value={question.targetType || ""}
-                              onValueChange={(value: "mesh" | "group") => {
-                                handleQuestionDetailChange(
-                                  qIndex,
-                                  "targetType",
-                                  value
-                                );
-                                handleQuestionDetailChange(
-                                  qIndex,
-                                  "target_id",
-                                  undefined
-                                );
-                              }}
-                            >
-                              <SelectTrigger id={`q-targetType-${qIndex}`}>
-                                <SelectValue placeholder="Select target type" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="mesh">
-                                  Specific Mesh
-                                </SelectItem>
-                                <SelectItem value="group">
-                                  Organ Group
-                                </SelectItem>
-                              </SelectContent>
-                            </Select>
-                          </div>
-                          {question.targetType === "mesh" && (
                             <div>
-                              <Label>Target Mesh</Label>
-                              <MeshCatalogCombobox
-                                selectedMeshId={question.target_id}
-                                onSelectMesh={(meshId) =>
+                              <Label
+                                htmlFor={`q-targetType-${qIndex}`}
+                                className="mb-2"
+                              >
+                                Target Type
+                              </Label>
+                              <Select
+                                value={question.targetType || ""}
+                                onValueChange={(value: "mesh" | "group") => {
                                   handleQuestionDetailChange(
                                     qIndex,
-                                    "target_id",
-                                    meshId
-                                  )
-                                }
-                              />
-                            </div>
-                          )}
-                          {question.targetType === "group" && (
-                            <div>
-                              <Label>Target Group</Label>
-                              <OrganGroupCombobox
-                                selectedGroupId={question.target_id}
-                                onSelectGroup={(groupId) =>
+                                    "targetType",
+                                    value
+                                  );
                                   handleQuestionDetailChange(
                                     qIndex,
                                     "target_id",
-                                    groupId
-                                  )
-                                }
-                              />
+                                    undefined
+                                  );
+                                }}
+                              >
+                                <SelectTrigger id={`q-targetType-${qIndex}`}>
+                                  <SelectValue placeholder="Select target type" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="mesh">
+                                    Specific Mesh
+                                  </SelectItem>
+                                  <SelectItem value="group">
+                                    Organ Group
+                                  </SelectItem>
+                                </SelectContent>
+                              </Select>
                             </div>
-                          )}
-                        </div>
-                      )}
+                            {question.targetType === "mesh" && (
+                              <div>
+                                <Label>Target Mesh</Label>
+                                <MeshCatalogCombobox
+                                  selectedMeshId={question.target_id}
+                                  onSelectMesh={(meshId) =>
+                                    handleQuestionDetailChange(
+                                      qIndex,
+                                      "target_id",
+                                      meshId
+                                    )
+                                  }
+                                />
+                              </div>
+                            )}
+                            {question.targetType === "group" && (
+                              <div>
+                                <Label>Target Group</Label>
+                                <OrganGroupCombobox
+                                  selectedGroupId={question.target_id}
+                                  onSelectGroup={(groupId) =>
+                                    handleQuestionDetailChange(
+                                      qIndex,
+                                      "target_id",
+                                      groupId
+                                    )
+                                  }
+                                />
+                              </div>
+                            )}
+                          </div>
+                        )}
 
-                      {(question.type === "multiple-choice" ||
-                        question.type === "true-false") && (
-                        <div className="space-y-2 pt-2">
-                          <Label className="font-medium">
-                            Answers ({question.answers.length})
-                          </Label>
-                          {question.answers.map((answer, ansIndex) => (
-                            <div
-                              key={ansIndex}
-                              className="flex items-center gap-2 p-2 border rounded-md bg-white"
-                            >
-                              <Input
-                                type="radio"
-                                name={`correct-answer-${qIndex}`}
-                                checked={answer.isCorrect}
-                                onChange={() =>
-                                  handleSetCorrectAnswer(qIndex, ansIndex)
-                                }
-                                className="form-radio h-5 w-5 text-blue-600 cursor-pointer"
-                              />
-                              <Input
-                                type="text"
-                                placeholder={`Answer ${ansIndex + 1}`}
-                                value={answer.text}
-                                onChange={(e) =>
-                                  handleAnswerTextChange(
-                                    qIndex,
-                                    ansIndex,
-                                    e.target.value
-                                  )
-                                }
-                                className="flex-1"
-                                required
-                              />
-                              <Button
-                                type="button"
-                                variant="ghost"
-                                size="sm"
-                                onClick={() =>
-                                  handleRemoveAnswer(qIndex, ansIndex)
-                                }
+                        {(question.type === "multiple-choice" ||
+                          question.type === "true-false") && (
+                          <div className="space-y-2 pt-2">
+                            <Label className="font-medium">
+                              Answers ({question.answers.length})
+                            </Label>
+                            {question.answers.map((answer, ansIndex) => (
+                              <div
+                                key={ansIndex}
+                                className="flex items-center gap-2 p-2 border rounded-md bg-white"
                               >
-                                Remove
-                              </Button>
-                            </div>
-                          ))}
-                          <Button
-                            type="button"
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleAddAnswer(qIndex)}
-                          >
-                            Add Answer
-                          </Button>
-                        </div>
-                      )}
-                    </div>
+                                <Input
+                                  type="radio"
+                                  name={`correct-answer-${qIndex}`}
+                                  checked={answer.isCorrect}
+                                  onChange={() =>
+                                    handleSetCorrectAnswer(qIndex, ansIndex)
+                                  }
+                                  className="form-radio h-5 w-5 text-blue-600 cursor-pointer"
+                                />
+                                <Input
+                                  type="text"
+                                  placeholder={`Answer ${ansIndex + 1}`}
+                                  value={answer.text}
+                                  onChange={(e) =>
+                                    handleAnswerTextChange(
+                                      qIndex,
+                                      ansIndex,
+                                      e.target.value
+                                    )
+                                  }
+                                  className="flex-1"
+                                  required
+                                />
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() =>
+                                    handleRemoveAnswer(qIndex, ansIndex)
+                                  }
+                                >
+                                  Remove
+                                </Button>
+                              </div>
+                            ))}
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleAddAnswer(qIndex)}
+                            >
+                              Add Answer
+                            </Button>
+                          </div>
+                        )}
+
+                        {question.type === "short-answer" && (
+                          <AcceptedAnswersEditor
+                            id={`q-${qIndex}`}
+                            acceptedAnswers={question.acceptedAnswers || []}
+                            typoTolerance={question.typoTolerance}
+                            onChangeAcceptedAnswers={(acceptedAnswers) =>
+                              handleQuestionDetailChange(
+                                qIndex,
+                                "acceptedAnswers",
+                                acceptedAnswers
+                              )
+                            }
+                            onChangeTypoTolerance={(typoTolerance) =>
+                              handleQuestionDetailChange(
+                                qIndex,
+                                "typoTolerance",
+                                typoTolerance
+                              )
+                            }
+                          />
+                        )}
+                      </div>
+                    )}
                     {qIndex < quiz.questions.length - 1 && (
                       <Separator className="my-6" />
                     )}{" "}
                     {/* */}
                   </Card>
                 ))}
-                <Button
-                  type="button"
-                  onClick={handleAddQuestion}
-                  className="w-full mt-4"
-                >
-                  Add Question
-                </Button>
+                <div className="flex gap-3 mt-4">
+                  <Button
+                    type="button"
+                    onClick={handleAddQuestion}
+                    className="flex-1"
+                  >
+                    Add Question
+                  </Button>
+                  <QuestionBankDialog
+                    onAddQuestion={handleAddBankQuestion}
+                    studyYear={quiz.studyYear}
+                  />
+                </div>
               </CardContent>
             </Card>
 
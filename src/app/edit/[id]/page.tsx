@@ -3,7 +3,11 @@ import EditQuizForm from "@/app/components/EditQuizForm";
 import dbConnect from "@/app/lib/dbConnect";
 import { Quiz } from "@/app/models/Quiz";
 import { JSX } from "react";
+import Link from "next/link";
 import { Separator } from "@/components/ui/separator";
+import { QuizVersionHistory } from "@/app/components/QuizVersionHistory";
+import { DuplicateQuizDialog } from "@/app/components/DuplicateQuizDialog";
+import { Button } from "@/components/ui/button";
 
 /**
  * Page component for editing a quiz
@@ -27,6 +31,7 @@ export default async function EditQuiz(props: {
       correctAnswer?: string;
     }>;
     scheduledAt?: Date;
+    deletedAt?: Date | null;
   }>();
 
   if (!quiz) {
@@ -37,7 +42,36 @@ export default async function EditQuiz(props: {
 
   return (
     <div className="container mx-auto p-4">
-      <h1 className="text-3xl font-bold mb-4">{plainQuiz.title}</h1>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h1 className="text-3xl font-bold">{plainQuiz.title}</h1>
+        <div className="flex gap-2">
+          <DuplicateQuizDialog
+            quizId={params.id}
+            quizTitle={plainQuiz.title}
+            studyYear={plainQuiz.studyYear}
+          />
+          <Button variant="outline" asChild>
+            <a href={`/api/quizzes/${params.id}/export`} download>
+              Export
+            </a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/quizzes/${params.id}/export?format=qti`} download>
+              Export QTI
+            </a>
+          </Button>
+          <QuizVersionHistory quizId={params.id} />
+        </div>
+      </div>
+      {quiz.deletedAt && (
+        <p className="mb-4 rounded-md border border-red-300 bg-red-50 p-3 text-red-700">
+          This quiz is in the{" "}
+          <Link href="/trash" className="underline">
+            trash
+          </Link>{" "}
+          and cannot be taken by students until it is restored.
+        </p>
+      )}
       <h2 className="text-xl font-semibold mb-2">
         Scheduled At:{" "}
         {quiz.scheduledAt === null
@@ -59,6 +93,12 @@ export default async function EditQuiz(props: {
         initialDescription={plainQuiz.description}
         initialQuestions={plainQuiz.questions}
         initialScheduledAt={plainQuiz.scheduledAt}
+        initialOpensAt={plainQuiz.opensAt}
+        initialClosesAt={plainQuiz.closesAt}
+        initialGracePeriodMinutes={plainQuiz.gracePeriodMinutes}
+        initialShuffleQuestions={plainQuiz.shuffleQuestions}
+        initialShuffleAnswers={plainQuiz.shuffleAnswers}
+        initialVersion={plainQuiz.version ?? 1}
       />
     </div>
   );
@@ -0,0 +1,117 @@
+import { NextResponse } from "next/server";
+import { createHash, randomBytes } from "crypto";
+import {
+  API_CLIENT_SCOPES,
+  ApiClient,
+  type ApiClientScope,
+} from "@/app/models/ApiClient";
+import { getSessionFromRequest } from "./session";
+
+const API_KEY_PREFIX = "vaq_";
+
+export interface ApiClientAccess {
+  scopes: ApiClientScope[]; // Teachers have every scope
+}
+
+/**
+ * Generates a new random API key for the Unreal Engine client,
+ * e.g. "vaq_3q2+7w...". The key is only shown once when it is issued.
+ *
+ * @returns {string} The generated API key.
+ */
+export function generateApiKey(): string {
+  return API_KEY_PREFIX + randomBytes(32).toString("base64url");
+}
+
+/**
+ * Hashes an API key with SHA-256. API keys are long and random, so a fast
+ * unsalted hash is enough and allows looking the key up by its hash.
+ *
+ * @param {string} apiKey - The plain API key.
+ * @returns {string} The hex encoded hash.
+ */
+export function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+/**
+ * Extracts the API key from an `Authorization: Bearer <key>` header.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {string | null} The API key, or null if the header is missing or malformed.
+ */
+function getApiKeyFromRequest(req: Request): string | null {
+  const authorization = req.headers.get("authorization");
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Authenticates a request to an endpoint used by the Unreal Engine client and
+ * returns the scopes of the client.
+ *
+ * Requests are allowed if they carry a valid, non-revoked API key in the
+ * `Authorization` header, or if they come from a logged in teacher (the web UI
+ * uses some of the same endpoints). For API keys, the usage counters of the key
+ * are updated.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {string} endpoint - Name of the endpoint used for the usage counters, e.g. "submissions".
+ * @returns {Promise<ApiClientAccess | NextResponse>} The access of the client, or a 401 response if the request is not authenticated.
+ */
+export async function authorizeApiClient(
+  req: Request,
+  endpoint: string
+): Promise<ApiClientAccess | NextResponse> {
+  const apiKey = getApiKeyFromRequest(req);
+
+  if (!apiKey) {
+    if (await getSessionFromRequest(req)) {
+      return { scopes: [...API_CLIENT_SCOPES] };
+    }
+    return NextResponse.json(
+      {
+        error: "Missing API key. Use the 'Authorization: Bearer <key>' header.",
+      },
+      { status: 401 }
+    );
+  }
+
+  const client = await ApiClient.findOne({
+    keyHash: hashApiKey(apiKey),
+    revokedAt: null,
+  }).lean<{ _id: unknown; scopes?: ApiClientScope[] }>();
+
+  if (!client) {
+    return NextResponse.json(
+      { error: "Invalid or revoked API key" },
+      { status: 401 }
+    );
+  }
+
+  await ApiClient.updateOne(
+    { _id: client._id },
+    {
+      $inc: { usageCount: 1, [`usageByEndpoint.${endpoint}`]: 1 },
+      $set: { lastUsedAt: new Date() },
+    }
+  );
+
+  return { scopes: client.scopes ?? [] };
+}
+
+/**
+ * Authenticates a request to an endpoint used by the Unreal Engine client, see
+ * {@link authorizeApiClient}.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @param {string} endpoint - Name of the endpoint used for the usage counters, e.g. "submissions".
+ * @returns {Promise<NextResponse | null>} A 401 response if the request is not authenticated, otherwise null.
+ */
+export async function authenticateApiClient(
+  req: Request,
+  endpoint: string
+): Promise<NextResponse | null> {
+  const access = await authorizeApiClient(req, endpoint);
+  return access instanceof NextResponse ? access : null;
+}
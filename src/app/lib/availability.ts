@@ -0,0 +1,126 @@
+import type { IQuiz } from "@/app/models/Quiz";
+
+// Availability windows of quizzes. A quiz accepts submissions between `opensAt`
+// and `closesAt`; a missing bound means the window is open on that side. Late
+// submissions are accepted during a grace period, because the UE client submits
+// when the student finishes, which can be shortly after the quiz closed.
+
+export type QuizAvailability = "upcoming" | "open" | "closed";
+
+type AvailabilityWindow = Pick<
+  IQuiz,
+  "opensAt" | "closesAt" | "gracePeriodMinutes"
+>;
+
+const FALLBACK_GRACE_PERIOD_MINUTES = 5;
+
+/**
+ * Returns the grace period in minutes for late submissions to a quiz. The quiz
+ * setting wins, otherwise `SUBMISSION_GRACE_PERIOD_MINUTES` or 5 minutes.
+ *
+ * @param {AvailabilityWindow} quiz - The quiz, only the window fields are used.
+ * @returns {number} The grace period in minutes.
+ */
+export function getGracePeriodMinutes(quiz: AvailabilityWindow): number {
+  if (typeof quiz.gracePeriodMinutes === "number") {
+    return quiz.gracePeriodMinutes;
+  }
+  const configured = parseInt(
+    process.env.SUBMISSION_GRACE_PERIOD_MINUTES ?? "",
+    10
+  );
+  return Number.isNaN(configured) || configured < 0
+    ? FALLBACK_GRACE_PERIOD_MINUTES
+    : configured;
+}
+
+/**
+ * Determines whether a quiz is open at the given moment, ignoring the grace period.
+ *
+ * @param {AvailabilityWindow} quiz - The quiz, only the window fields are used.
+ * @param {Date} now - The moment to check, defaults to the current time.
+ * @returns {QuizAvailability} "upcoming", "open" or "closed".
+ */
+export function getQuizAvailability(
+  quiz: AvailabilityWindow,
+  now: Date = new Date()
+): QuizAvailability {
+  if (quiz.opensAt && now < new Date(quiz.opensAt)) return "upcoming";
+  if (quiz.closesAt && now >= new Date(quiz.closesAt)) return "closed";
+  return "open";
+}
+
+/**
+ * Checks whether a submission to a quiz is accepted at the given moment, taking
+ * the grace period after closing into account.
+ *
+ * @param {AvailabilityWindow} quiz - The quiz, only the window fields are used.
+ * @param {Date} now - The moment the submission was received.
+ * @returns {string | null} The reason the submission is rejected, or null if it is accepted.
+ */
+export function getSubmissionWindowError(
+  quiz: AvailabilityWindow,
+  now: Date = new Date()
+): string | null {
+  if (quiz.opensAt && now < new Date(quiz.opensAt)) {
+    return "This quiz is not open for submissions yet.";
+  }
+  if (quiz.closesAt) {
+    const deadline =
+      new Date(quiz.closesAt).getTime() +
+      getGracePeriodMinutes(quiz) * 60 * 1000;
+    if (now.getTime() > deadline) {
+      return "This quiz is closed for submissions.";
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds a MongoDB filter for quizzes that are open at the given moment.
+ *
+ * @param {Date} now - The moment to check, defaults to the current time.
+ * @returns {Record<string, unknown>} The filter, to combine with other conditions.
+ */
+export function buildOpenQuizFilter(
+  now: Date = new Date()
+): Record<string, unknown> {
+  return {
+    $and: [
+      { $or: [{ opensAt: null }, { opensAt: { $lte: now } }] },
+      { $or: [{ closesAt: null }, { closesAt: { $gt: now } }] },
+    ],
+  };
+}
+
+/**
+ * Validates that a quiz closes after it opens.
+ *
+ * @param {Date | string | null} opensAt - The opening moment, if any.
+ * @param {Date | string | null} closesAt - The closing moment, if any.
+ * @returns {boolean} Whether the window is valid.
+ */
+export function isValidAvailabilityWindow(
+  opensAt?: Date | string | null,
+  closesAt?: Date | string | null
+): boolean {
+  if (!opensAt || !closesAt) return true;
+  return new Date(closesAt).getTime() > new Date(opensAt).getTime();
+}
+
+/**
+ * Sorts quizzes so the quiz that closes first comes first. Quizzes without a
+ * closing time come last, the order between them is kept.
+ *
+ * @param {T[]} quizzes - The quizzes to sort, sorted in place.
+ * @returns {T[]} The sorted quizzes.
+ */
+export function sortByClosingTime<T extends Pick<IQuiz, "closesAt">>(
+  quizzes: T[]
+): T[] {
+  const closingTime = (quiz: T) =>
+    quiz.closesAt ? new Date(quiz.closesAt).getTime() : Infinity;
+  return quizzes.sort((a, b) =>
+    closingTime(a) === closingTime(b) ? 0 : closingTime(a) - closingTime(b)
+  );
+}
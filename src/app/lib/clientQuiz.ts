@@ -0,0 +1,177 @@
+import { MeshCatalogItem, OrganGroup } from "@/app/models/Quiz";
+import type { IQuestion, IQuiz } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { toStudentQuestion, type StudentQuestion } from "./studentQuiz";
+import { getQuizVersion } from "./quizVersions";
+
+// Contract of the quiz payloads for the Unreal Engine client (`/api/client/*`).
+// Bump CLIENT_API_VERSION and keep the old projection available when making a
+// breaking change, the UE builds in the labs are not updated at the same time.
+
+export const CLIENT_API_VERSION = 1;
+export const SUPPORTED_CLIENT_API_VERSIONS = [1];
+export const CLIENT_API_VERSION_HEADER = "X-Client-Api-Version";
+
+export type ClientTarget =
+  | { type: "mesh"; meshName: string; displayName: string }
+  | { type: "group"; groupName: string; meshNames: string[] };
+
+export interface ClientQuestion extends StudentQuestion {
+  // For select-organ, resolved to the mesh names used in UE. This is the answer
+  // to the question, so it is only sent to clients with the
+  // "select-organ-targets" scope (see models/ApiClient.ts).
+  target?: ClientTarget;
+}
+
+export interface ClientQuiz {
+  _id: string;
+  version: number; // Send back as `quizVersion` with the submission
+  title: string;
+  description?: string;
+  studyYear: number;
+  opensAt?: Date;
+  closesAt?: Date;
+  questions: ClientQuestion[];
+}
+
+type LeanQuiz = Pick<
+  IQuiz,
+  | "title"
+  | "description"
+  | "studyYear"
+  | "opensAt"
+  | "closesAt"
+  | "questions"
+  | "version"
+> & { _id: Types.ObjectId };
+
+export interface ClientTargetMaps {
+  meshes: Map<string, { meshName: string; displayName: string }>;
+  groups: Map<string, { groupName: string; meshNames: string[] }>;
+}
+
+/**
+ * Fetches the meshes and organ groups targeted by the select-organ questions of
+ * the given quizzes, including the mesh names of every targeted group.
+ *
+ * @param {LeanQuiz[]} quizzes - The quizzes to resolve the targets for.
+ * @returns {Promise<ClientTargetMaps>} The targeted meshes and groups by their `_id` string.
+ */
+export async function loadClientTargets(
+  quizzes: Pick<LeanQuiz, "questions">[]
+): Promise<ClientTargetMaps> {
+  const meshIds = new Set<string>();
+  const groupIds = new Set<string>();
+  quizzes.forEach((quiz) =>
+    quiz.questions.forEach((question) => {
+      if (question.type !== "select-organ" || !question.target_id) return;
+      (question.targetType === "group" ? groupIds : meshIds).add(
+        question.target_id.toString()
+      );
+    })
+  );
+
+  const toObjectIds = (ids: Set<string>) =>
+    Array.from(ids).map((id) => new Types.ObjectId(id));
+
+  const [meshes, groups, groupMeshes] = await Promise.all([
+    meshIds.size
+      ? MeshCatalogItem.find({ _id: { $in: toObjectIds(meshIds) } })
+          .select("meshName displayName")
+          .lean<
+            { _id: Types.ObjectId; meshName: string; displayName: string }[]
+          >()
+      : [],
+    groupIds.size
+      ? OrganGroup.find({ _id: { $in: toObjectIds(groupIds) } })
+          .select("groupName")
+          .lean<{ _id: Types.ObjectId; groupName: string }[]>()
+      : [],
+    groupIds.size
+      ? MeshCatalogItem.find({ organGroupIds: { $in: toObjectIds(groupIds) } })
+          .select("meshName organGroupIds")
+          .lean<
+            {
+              _id: Types.ObjectId;
+              meshName: string;
+              organGroupIds?: Types.ObjectId[];
+            }[]
+          >()
+      : [],
+  ]);
+
+  const groupMap = new Map(
+    groups.map((group) => [
+      group._id.toString(),
+      { groupName: group.groupName, meshNames: [] as string[] },
+    ])
+  );
+  groupMeshes.forEach((mesh) =>
+    (mesh.organGroupIds ?? []).forEach((groupId) =>
+      groupMap.get(groupId.toString())?.meshNames.push(mesh.meshName)
+    )
+  );
+
+  return {
+    meshes: new Map(
+      meshes.map((mesh) => [
+        mesh._id.toString(),
+        { meshName: mesh.meshName, displayName: mesh.displayName },
+      ])
+    ),
+    groups: groupMap,
+  };
+}
+
+/**
+ * Projects a question onto the client contract: the student view of the question
+ * (see {@link toStudentQuestion}) with the select-organ target as mesh names.
+ *
+ * @param {IQuestion} question - The stored question.
+ * @param {ClientTargetMaps | null} targets - The resolved select-organ targets, null to leave them out.
+ * @returns {ClientQuestion} The question for the UE client.
+ */
+export function toClientQuestion(
+  question: IQuestion,
+  targets: ClientTargetMaps | null
+): ClientQuestion {
+  const clientQuestion: ClientQuestion = toStudentQuestion(question);
+
+  if (targets && question.type === "select-organ" && question.target_id) {
+    const targetId = question.target_id.toString();
+    if (question.targetType === "group") {
+      const group = targets.groups.get(targetId);
+      if (group) clientQuestion.target = { type: "group", ...group };
+    } else {
+      const mesh = targets.meshes.get(targetId);
+      if (mesh) clientQuestion.target = { type: "mesh", ...mesh };
+    }
+  }
+
+  return clientQuestion;
+}
+
+/**
+ * Projects a quiz onto the client contract, see {@link toClientQuestion}.
+ *
+ * @param {LeanQuiz} quiz - The stored quiz.
+ * @param {ClientTargetMaps | null} targets - The resolved select-organ targets, null to leave them out.
+ * @returns {ClientQuiz} The quiz for the UE client.
+ */
+export function toClientQuiz(
+  quiz: LeanQuiz,
+  targets: ClientTargetMaps | null
+): ClientQuiz {
+  return {
+    _id: quiz._id.toString(),
+    version: getQuizVersion(quiz),
+    title: quiz.title,
+    description: quiz.description,
+    studyYear: quiz.studyYear,
+    opensAt: quiz.opensAt,
+    closesAt: quiz.closesAt,
+    questions: quiz.questions.map((question) =>
+      toClientQuestion(question, targets)
+    ),
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Parses CSV text into rows of fields (RFC 4180). Supports quoted fields with
+ * escaped quotes (`""`), commas and newlines. Both `,` and `;` are accepted as
+ * separator, the one used in the first line wins (Excel uses `;` for Dutch locales).
+ *
+ * @param {string} text - The CSV text.
+ * @returns {string[][]} The rows, without empty lines.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, ""); // Strip the BOM added by Excel
+  const firstLine = input.split(/\r?\n/, 1)[0] ?? "";
+  const separator =
+    (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0)
+      ? ";"
+      : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Formats rows of fields as CSV text (RFC 4180) that Excel opens as UTF-8.
+ * Fields with a separator, quote or newline are quoted. Text that starts like a
+ * formula (`=`, `+`, `-`, `@`) is prefixed with `'`, so answers typed by
+ * students are never evaluated by a spreadsheet.
+ *
+ * @param {(string | number | null | undefined)[][]} rows - The rows, empty cells as null or undefined.
+ * @returns {string} The CSV text, with a BOM and CRLF line endings.
+ */
+export function formatCsv(
+  rows: (string | number | null | undefined)[][]
+): string {
+  const formatField = (value: string | number | null | undefined): string => {
+    if (value === null || value === undefined) return "";
+    if (typeof value === "number") return String(value);
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return (
+    "\uFEFF" + rows.map((row) => row.map(formatField).join(",")).join("\r\n")
+  );
+}
@@ -1,8 +1,9 @@
 import dbConnect from "./dbConnect";
 import { Quiz } from "@/app/models/Quiz";
+import { NOT_IN_TRASH } from "./quizTrash";
 
 /**
- * Retrieves all quizzes from the database.
+ * Retrieves all quizzes from the database, except the quizzes in the trash.
  *
  * The function first connects to the database using the {@link dbConnect} function.
  * Then, it performs a `find` query on the `Quiz` model to retrieve all quizzes, sorted
@@ -17,7 +18,9 @@ import { Quiz } from "@/app/models/Quiz";
 export async function getQuizzes() {
   try {
     await dbConnect();
-    const quizzes = await Quiz.find().sort({ createdAt: -1 }).lean();
+    const quizzes = await Quiz.find(NOT_IN_TRASH)
+      .sort({ createdAt: -1 })
+      .lean();
     return quizzes;
   } catch (error) {
     console.error("Failed to get quizzes", error);
@@ -0,0 +1,440 @@
+import { Types } from "mongoose";
+import {
+  MeshCatalogItem,
+  ShortAnswerGrade,
+  Submission,
+} from "@/app/models/Quiz";
+import type {
+  IQuestion,
+  IQuiz,
+  ISubmissionAnswer,
+  ShortAnswerVerdict,
+} from "@/app/models/Quiz";
+import { loadVersionQuestions } from "./quizVersions";
+
+// Minimal mesh data needed to grade "select-organ" questions that target a group
+export type GradingMesh = {
+  _id: Types.ObjectId;
+  organGroupIds?: Types.ObjectId[];
+};
+
+export type GradingMeshMap = Map<string, GradingMesh>;
+
+export type ShortAnswerMatchType = "exact" | "normalized" | "fuzzy" | "none";
+
+export interface ShortAnswerMatch {
+  matchType: ShortAnswerMatchType;
+  matchedAnswer?: string; // The accepted answer that matched
+  distance?: number; // Edit distance to the matched answer, only for "fuzzy"
+}
+
+// Manual short-answer grades by their key, see getShortAnswerGradeKey
+export type ShortAnswerGradeMap = Map<string, { verdict: ShortAnswerVerdict }>;
+
+export interface GradedSubmission {
+  answers: ISubmissionAnswer[]; // With `isCorrect` and `credit` set, undefined if not gradable
+  score: number; // Sum of the answer credits
+  maxScore: number; // Number of questions in the quiz
+}
+
+// Credit awarded for each manual verdict
+export const VERDICT_CREDIT: Record<ShortAnswerVerdict, number> = {
+  correct: 1,
+  partial: 0.5,
+  incorrect: 0,
+};
+
+/**
+ * Grades a single submitted answer against its question.
+ *
+ * - multiple-choice / true-false: the selected answer `_id` must be an answer with `isCorrect`.
+ * - select-organ (mesh): the clicked mesh must be the target mesh.
+ * - select-organ (group): the clicked mesh must belong to the target organ group.
+ * - short-answer: the response must match one of the accepted answers, see {@link matchShortAnswer}.
+ *   Returns undefined if the question has no accepted answers.
+ *
+ * @param {IQuestion} question - The question the answer belongs to.
+ * @param {ISubmissionAnswer} answer - The submitted answer.
+ * @param {GradingMeshMap} meshMap - Clicked meshes by their `_id` string, used for group targets.
+ * @returns {boolean | undefined} Whether the answer is correct, or undefined if it cannot be graded.
+ */
+export function gradeAnswer(
+  question: IQuestion,
+  answer: ISubmissionAnswer,
+  meshMap: GradingMeshMap
+): boolean | undefined {
+  switch (question.type) {
+    case "multiple-choice":
+    case "true-false": {
+      const answerId = answer.selectedAnswer_id?.toString();
+      if (!answerId || !question.answers) return false;
+      return Boolean(
+        question.answers.find((option) => option._id?.toString() === answerId)
+          ?.isCorrect
+      );
+    }
+    case "select-organ": {
+      const clickedMeshId = answer.responseText_ClickedMesh_id?.toString();
+      const targetId = question.target_id?.toString();
+      if (!clickedMeshId || !targetId) return false;
+
+      if (question.targetType === "mesh") return clickedMeshId === targetId;
+      if (question.targetType === "group") {
+        return (
+          meshMap
+            .get(clickedMeshId)
+            ?.organGroupIds?.some(
+              (groupId) => groupId.toString() === targetId
+            ) ?? false
+        );
+      }
+      return false;
+    }
+    case "short-answer": {
+      if (!question.acceptedAnswers?.length) return undefined;
+      return (
+        matchShortAnswer(
+          answer.responseText_ShortAnswer,
+          question.acceptedAnswers,
+          question.typoTolerance
+        ).matchType !== "none"
+      );
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Returns the key identifying a group of identical short answer responses to a question.
+ *
+ * @param {Types.ObjectId | string} questionId - The question the responses belong to.
+ * @param {string | undefined} responseText - The response text, trimmed before use.
+ * @returns {string} The key used in a {@link ShortAnswerGradeMap}.
+ */
+export function getShortAnswerGradeKey(
+  questionId: Types.ObjectId | string,
+  responseText: string | undefined
+): string {
+  return `${questionId.toString()}:${responseText?.trim() ?? ""}`;
+}
+
+/**
+ * Grades a single answer, applying a teacher's manual grade for short answers if there is one.
+ *
+ * @param {IQuestion} question - The question the answer belongs to.
+ * @param {ISubmissionAnswer} answer - The submitted answer.
+ * @param {GradingMeshMap} meshMap - Clicked meshes by their `_id` string.
+ * @param {ShortAnswerGradeMap} [shortAnswerGrades] - Manual grades, see {@link loadShortAnswerGrades}.
+ * @returns {Pick<ISubmissionAnswer, "isCorrect" | "credit" | "manualVerdict">} The correctness and credit of the answer.
+ */
+export function resolveAnswerGrade(
+  question: IQuestion,
+  answer: ISubmissionAnswer,
+  meshMap: GradingMeshMap,
+  shortAnswerGrades?: ShortAnswerGradeMap
+): Pick<ISubmissionAnswer, "isCorrect" | "credit" | "manualVerdict"> {
+  if (question.type === "short-answer" && question._id) {
+    const manualGrade = shortAnswerGrades?.get(
+      getShortAnswerGradeKey(question._id, answer.responseText_ShortAnswer)
+    );
+    if (manualGrade) {
+      return {
+        isCorrect: manualGrade.verdict === "correct",
+        credit: VERDICT_CREDIT[manualGrade.verdict],
+        manualVerdict: manualGrade.verdict,
+      };
+    }
+  }
+
+  const isCorrect = gradeAnswer(question, answer, meshMap);
+  return {
+    isCorrect,
+    credit: isCorrect === undefined ? undefined : isCorrect ? 1 : 0,
+    manualVerdict: undefined,
+  };
+}
+
+/**
+ * Grades all answers of a submission and calculates the total score.
+ * Questions without an answer count towards the maximum score but not the score.
+ *
+ * @param {IQuestion[]} questions - The questions of the quiz.
+ * @param {ISubmissionAnswer[]} answers - The submitted answers.
+ * @param {GradingMeshMap} meshMap - Clicked meshes by their `_id` string, see {@link loadGradingMeshes}.
+ * @param {ShortAnswerGradeMap} [shortAnswerGrades] - Manual grades, see {@link loadShortAnswerGrades}.
+ * @returns {GradedSubmission} The answers with `isCorrect` and `credit` set, plus the score and maximum score.
+ */
+export function gradeSubmission(
+  questions: IQuestion[],
+  answers: ISubmissionAnswer[],
+  meshMap: GradingMeshMap,
+  shortAnswerGrades?: ShortAnswerGradeMap
+): GradedSubmission {
+  const questionMap = new Map(questions.map((q) => [q._id?.toString(), q]));
+
+  const gradedAnswers = answers.map((answer): ISubmissionAnswer => {
+    const question = questionMap.get(answer.question_id.toString());
+    return {
+      ...answer,
+      ...(question
+        ? resolveAnswerGrade(question, answer, meshMap, shortAnswerGrades)
+        : { isCorrect: false, credit: 0 }),
+    };
+  });
+
+  return {
+    answers: gradedAnswers,
+    score: gradedAnswers.reduce((sum, answer) => sum + (answer.credit ?? 0), 0),
+    maxScore: questions.length,
+  };
+}
+
+/**
+ * Fetches the meshes that were clicked in the given answers, which are needed to
+ * grade "select-organ" questions that target an organ group.
+ *
+ * @param {ISubmissionAnswer[]} answers - The submitted answers.
+ * @returns {Promise<GradingMeshMap>} The clicked meshes by their `_id` string.
+ */
+export async function loadGradingMeshes(
+  answers: ISubmissionAnswer[]
+): Promise<GradingMeshMap> {
+  const meshIds = new Set<string>();
+  answers.forEach((answer) => {
+    const meshId = answer.responseText_ClickedMesh_id?.toString();
+    if (meshId && Types.ObjectId.isValid(meshId)) meshIds.add(meshId);
+  });
+  if (meshIds.size === 0) return new Map();
+
+  const meshes = await MeshCatalogItem.find({
+    _id: { $in: Array.from(meshIds).map((id) => new Types.ObjectId(id)) },
+  })
+    .select("organGroupIds")
+    .lean<GradingMesh[]>();
+
+  return new Map(meshes.map((mesh) => [mesh._id.toString(), mesh]));
+}
+
+/**
+ * Fetches the manual short-answer grades of a quiz.
+ *
+ * @param {Types.ObjectId | string} quizId - The quiz to fetch the grades for.
+ * @returns {Promise<ShortAnswerGradeMap>} The grades by {@link getShortAnswerGradeKey}.
+ */
+export async function loadShortAnswerGrades(
+  quizId: Types.ObjectId | string
+): Promise<ShortAnswerGradeMap> {
+  const grades = await ShortAnswerGrade.find({
+    quiz_id: new Types.ObjectId(quizId.toString()),
+  }).lean<
+    {
+      question_id: Types.ObjectId;
+      responseText: string;
+      verdict: ShortAnswerVerdict;
+    }[]
+  >();
+
+  return new Map(
+    grades.map((grade) => [
+      getShortAnswerGradeKey(grade.question_id, grade.responseText),
+      { verdict: grade.verdict },
+    ])
+  );
+}
+
+/**
+ * Returns whether a submission still stores a selected answer as its position
+ * (`selectedAnswerId_Index`) instead of its `_id`, because it was not converted
+ * by `npm run migrate:answer-ids` yet. The field is no longer in the schema.
+ *
+ * @param {{ answers: { selectedAnswer_id?: Types.ObjectId; selectedAnswerId_Index?: number }[] }} submission - The stored submission.
+ * @returns {boolean} True if an answer only has its position.
+ */
+const hasLegacyAnswerIndex = (submission: {
+  answers: {
+    selectedAnswer_id?: Types.ObjectId;
+    selectedAnswerId_Index?: number;
+  }[];
+}): boolean =>
+  submission.answers.some(
+    (answer) =>
+      answer.selectedAnswerId_Index !== undefined && !answer.selectedAnswer_id
+  );
+
+/**
+ * Regrades all submissions of a quiz and stores the new answer grades and scores.
+ * Used after a teacher changes a manual short-answer grade, so per-student scores
+ * reflect the override. Every submission is graded against the version of the
+ * quiz it answered, see {@link loadVersionQuestions}. Submissions with answers
+ * that were not migrated to `selectedAnswer_id` are left unchanged: they would be
+ * graded as incorrect, and storing their answers would drop the position.
+ *
+ * @param {Pick<IQuiz, "_id" | "version" | "questions">} quiz - The quiz whose submissions should be regraded.
+ * @returns {Promise<number>} The number of submissions whose grades changed.
+ */
+export async function regradeQuizSubmissions(
+  quiz: Pick<IQuiz, "_id" | "version" | "questions">
+): Promise<number> {
+  const quizId = String(quiz._id);
+  const storedSubmissions = await Submission.find({
+    quiz_id: new Types.ObjectId(quizId),
+  }).lean<
+    {
+      _id: Types.ObjectId;
+      answers: (ISubmissionAnswer & { selectedAnswerId_Index?: number })[];
+      score?: number;
+      quizVersion?: number;
+    }[]
+  >();
+  const submissions = storedSubmissions.filter(
+    (submission) => !hasLegacyAnswerIndex(submission)
+  );
+  if (submissions.length === 0) return 0;
+
+  const meshMap = await loadGradingMeshes(
+    submissions.flatMap((submission) => submission.answers)
+  );
+  const shortAnswerGrades = await loadShortAnswerGrades(quizId);
+  const versionQuestions = await loadVersionQuestions(
+    quiz,
+    submissions.map((submission) => submission.quizVersion)
+  );
+
+  const updates = submissions.flatMap((submission) => {
+    const graded = gradeSubmission(
+      versionQuestions.get(submission.quizVersion ?? 1)!,
+      submission.answers,
+      meshMap,
+      shortAnswerGrades
+    );
+    const changed =
+      graded.score !== submission.score ||
+      graded.answers.some(
+        (answer, index) =>
+          answer.credit !== submission.answers[index].credit ||
+          answer.manualVerdict !== submission.answers[index].manualVerdict
+      );
+    if (!changed) return [];
+    return [
+      {
+        updateOne: {
+          filter: { _id: submission._id },
+          update: {
+            $set: {
+              answers: graded.answers,
+              score: graded.score,
+              maxScore: graded.maxScore,
+            },
+          },
+        },
+      },
+    ];
+  });
+
+  if (updates.length > 0) await Submission.bulkWrite(updates);
+  return updates.length;
+}
+
+/**
+ * Normalizes a short answer for comparison: removes diacritics, lowercases the text,
+ * replaces punctuation with spaces and collapses whitespace.
+ *
+ * @param {string} text - The text to normalize.
+ * @returns {string} The normalized text, e.g. "Musculus  Biceps-brachii" -> "musculus biceps brachii".
+ */
+export function normalizeShortAnswer(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Calculates the Levenshtein edit distance between two strings.
+ *
+ * @param {string} a - The first string.
+ * @param {string} b - The second string.
+ * @returns {number} The minimum number of insertions, deletions and substitutions to turn `a` into `b`.
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previousRow = currentRow;
+  }
+  return previousRow[b.length];
+}
+
+/**
+ * Returns the number of typos allowed for an accepted answer if the question does not
+ * define a `typoTolerance`. Accepted answers of up to 4 characters must match exactly,
+ * so "ulna" does not match "una".
+ *
+ * @param {string} normalizedAnswer - The normalized accepted answer.
+ * @returns {number} The maximum edit distance.
+ */
+export function getDefaultTypoTolerance(normalizedAnswer: string): number {
+  if (normalizedAnswer.length <= 4) return 0;
+  if (normalizedAnswer.length <= 8) return 1;
+  return 2;
+}
+
+/**
+ * Matches a short answer response against the accepted answers of a question.
+ * Tries an exact match first, then a case/diacritic/punctuation-insensitive match,
+ * and finally a typo-tolerant match using the edit distance between the normalized texts.
+ *
+ * @param {string | undefined} response - The submitted response.
+ * @param {string[]} acceptedAnswers - The accepted answers of the question.
+ * @param {number} [typoTolerance] - The maximum edit distance, see {@link getDefaultTypoTolerance} if not set.
+ * @returns {ShortAnswerMatch} How the response matched, and the accepted answer it matched.
+ */
+export function matchShortAnswer(
+  response: string | undefined,
+  acceptedAnswers: string[],
+  typoTolerance?: number
+): ShortAnswerMatch {
+  const trimmedResponse = response?.trim();
+  if (!trimmedResponse) return { matchType: "none" };
+
+  const exactMatch = acceptedAnswers.find(
+    (accepted) => accepted.trim() === trimmedResponse
+  );
+  if (exactMatch) return { matchType: "exact", matchedAnswer: exactMatch };
+
+  const normalizedResponse = normalizeShortAnswer(trimmedResponse);
+  if (!normalizedResponse) return { matchType: "none" };
+
+  let bestMatch: ShortAnswerMatch = { matchType: "none" };
+  for (const accepted of acceptedAnswers) {
+    const normalizedAccepted = normalizeShortAnswer(accepted);
+    if (!normalizedAccepted) continue;
+    if (normalizedAccepted === normalizedResponse) {
+      return { matchType: "normalized", matchedAnswer: accepted };
+    }
+
+    const distance = levenshteinDistance(
+      normalizedResponse,
+      normalizedAccepted
+    );
+    const allowedDistance =
+      typoTolerance ?? getDefaultTypoTolerance(normalizedAccepted);
+    if (
+      distance <= allowedDistance &&
+      (bestMatch.distance === undefined || distance < bestMatch.distance)
+    ) {
+      bestMatch = { matchType: "fuzzy", matchedAnswer: accepted, distance };
+    }
+  }
+  return bestMatch;
+}
@@ -0,0 +1,339 @@
+import type { IQuestion } from "@/app/models/Quiz";
+import type { GradedQuizSubmission, ResultsQuiz } from "./quizResults";
+
+// Psychometric item analysis of a quiz, based on the graded submissions (see
+// loadGradedSubmissions). The item score of a submission is the credit of its
+// answer, 0 if the question was not answered. Submissions only count for the
+// questions that were in the version of the quiz they answered, and questions
+// with responses that are not graded yet are left out of the statistics.
+//
+// - Difficulty (p-value): the mean item score, the share of students that
+//   answered correctly.
+// - Point-biserial: the correlation between the item score and the score on
+//   the other analyzed questions (corrected item-total correlation), so the
+//   item does not correlate with itself.
+// - Discrimination index: the difficulty in the upper 27% of the submissions
+//   by score minus the difficulty in the lower 27%.
+// - Distractor analysis: for every MCQ/TF option, how often it was chosen
+//   overall and in the upper and lower group.
+// - Reliability: KR-20 if every item score is 0 or 1, otherwise Cronbach's
+//   alpha, over the submissions that had all analyzed questions.
+
+/**
+ * Rules of thumb for flagging questions for review.
+ */
+export const ITEM_ANALYSIS_THRESHOLDS = {
+  veryDifficult: 0.2, // Difficulty below this, few students answer correctly
+  veryEasy: 0.9, // Difficulty above this, the question hardly tells students apart
+  lowDiscrimination: 0.2, // Point-biserial below this
+  nonFunctioningDistractor: 0.05, // Distractors chosen by fewer students do not distract
+  lowReliability: 0.7, // Reliability coefficient below this
+};
+
+const GROUP_SHARE = 0.27; // Share of the submissions in the upper and lower group
+
+export type ItemFlag =
+  | "not-graded" // Some responses are not graded yet, the question is not analyzed
+  | "very-difficult"
+  | "very-easy"
+  | "low-discrimination"
+  | "negative-discrimination" // Strong students do worse than weak students, check the answer key
+  | "distractor-attracts-upper-group" // A wrong option is chosen more by strong than by weak students
+  | "non-functioning-distractors"; // Wrong options that hardly anyone chooses
+
+export interface OptionStatistics {
+  answerId: string;
+  answerText: string;
+  isCorrect: boolean;
+  count: number;
+  proportion: number; // Share of the submissions for the question that chose this option
+  upperProportion: number | null;
+  lowerProportion: number | null;
+  discrimination: number | null; // Upper minus lower proportion, negative for a good distractor
+}
+
+export interface ItemStatistics {
+  questionId: string;
+  questionText: string;
+  questionType: IQuestion["type"];
+  submissionCount: number; // Submissions whose version of the quiz had the question
+  answeredCount: number;
+  difficulty: number | null;
+  pointBiserial: number | null;
+  discriminationIndex: number | null;
+  upperDifficulty: number | null;
+  lowerDifficulty: number | null;
+  options?: OptionStatistics[]; // For MCQ/TF
+  flags: ItemFlag[];
+}
+
+export interface ReliabilityStatistics {
+  method: "KR-20" | "Cronbach's alpha";
+  coefficient: number | null; // Null with fewer than two items or two submissions, or without score variance
+  itemCount: number;
+  submissionCount: number;
+}
+
+export interface ItemAnalysis {
+  submissionCount: number;
+  upperLowerGroupSize: number;
+  reliability: ReliabilityStatistics;
+  items: ItemStatistics[];
+}
+
+const round = (value: number | null): number | null =>
+  value === null || !Number.isFinite(value)
+    ? null
+    : Math.round(value * 1000) / 1000;
+
+const mean = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Population variance, as in the KR-20 formula
+const variance = (values: number[]): number => {
+  const average = mean(values);
+  return mean(values.map((value) => (value - average) ** 2));
+};
+
+/**
+ * Returns the Pearson correlation of two series of the same length.
+ *
+ * @param {number[]} x - The first series.
+ * @param {number[]} y - The second series.
+ * @returns {number | null} The correlation, null if a series has no variance.
+ */
+const correlation = (x: number[], y: number[]): number | null => {
+  if (x.length < 2) return null;
+  const meanX = mean(x);
+  const meanY = mean(y);
+  let covariance = 0;
+  let sumSquaresX = 0;
+  let sumSquaresY = 0;
+  x.forEach((value, index) => {
+    covariance += (value - meanX) * (y[index] - meanY);
+    sumSquaresX += (value - meanX) ** 2;
+    sumSquaresY += (y[index] - meanY) ** 2;
+  });
+  if (sumSquaresX === 0 || sumSquaresY === 0) return null;
+  return covariance / Math.sqrt(sumSquaresX * sumSquaresY);
+};
+
+/**
+ * Computes the item analysis of a quiz. The items are the current questions of
+ * the quiz, in order.
+ *
+ * @param {ResultsQuiz} quiz - The quiz.
+ * @param {GradedQuizSubmission[]} submissions - The graded submissions, see {@link loadGradedSubmissions}.
+ * @returns {ItemAnalysis} The statistics per question and the reliability of the quiz.
+ */
+export function analyzeItems(
+  quiz: ResultsQuiz,
+  submissions: GradedQuizSubmission[]
+): ItemAnalysis {
+  const questionIds = quiz.questions.map(
+    (question) => question._id?.toString() ?? ""
+  );
+
+  // A question is analyzed once all its responses are graded
+  const ungradedQuestionIds = new Set(
+    questionIds.filter((questionId) =>
+      submissions.some((submission) => {
+        const answer = submission.answers.get(questionId);
+        return answer !== undefined && answer.credit === undefined;
+      })
+    )
+  );
+  const analyzedQuestionIds = questionIds.filter(
+    (questionId) => questionId && !ungradedQuestionIds.has(questionId)
+  );
+
+  // Item scores per submission, for the analyzed questions of its version
+  const itemScores = submissions.map((submission) => {
+    const scores = new Map<string, number>();
+    analyzedQuestionIds.forEach((questionId) => {
+      if (!submission.answeredQuestions.has(questionId)) return;
+      scores.set(questionId, submission.answers.get(questionId)?.credit ?? 0);
+    });
+    return scores;
+  });
+  const totals = itemScores.map((scores) =>
+    Array.from(scores.values()).reduce((sum, score) => sum + score, 0)
+  );
+  // Submissions are ranked by their share of the maximum, since versions of
+  // the quiz can have a different number of questions
+  const shares = itemScores.map((scores, index) =>
+    scores.size > 0 ? totals[index] / scores.size : 0
+  );
+
+  const groupSize =
+    submissions.length >= 2
+      ? Math.max(1, Math.round(submissions.length * GROUP_SHARE))
+      : 0;
+  const ranking = submissions
+    .map((_, index) => index)
+    .sort((a, b) => shares[b] - shares[a]);
+  const upperGroup = new Set(ranking.slice(0, groupSize));
+  const lowerGroup = new Set(ranking.slice(ranking.length - groupSize));
+
+  const items = quiz.questions.map(
+    (question, questionIndex): ItemStatistics => {
+      const questionId = questionIds[questionIndex];
+      const included = submissions.flatMap((submission, index) =>
+        submission.answeredQuestions.has(questionId) ? [index] : []
+      );
+      const answeredCount = included.filter((index) =>
+        submissions[index].answers.has(questionId)
+      ).length;
+      const statistics: ItemStatistics = {
+        questionId,
+        questionText: question.questionText,
+        questionType: question.type,
+        submissionCount: included.length,
+        answeredCount,
+        difficulty: null,
+        pointBiserial: null,
+        discriminationIndex: null,
+        upperDifficulty: null,
+        lowerDifficulty: null,
+        flags: [],
+      };
+      if (ungradedQuestionIds.has(questionId)) {
+        statistics.flags.push("not-graded");
+        return statistics;
+      }
+      if (included.length === 0) return statistics;
+
+      const scoreOf = (index: number) => itemScores[index].get(questionId) ?? 0;
+      const groupMean = (
+        group: Set<number>,
+        value: (index: number) => number
+      ) => {
+        const members = included.filter((index) => group.has(index));
+        return members.length > 0 ? mean(members.map(value)) : null;
+      };
+
+      statistics.difficulty = round(mean(included.map(scoreOf)));
+      // The rest score is the share of the maximum on the other questions
+      const withRest = included.filter((index) => itemScores[index].size > 1);
+      statistics.pointBiserial = round(
+        correlation(
+          withRest.map(scoreOf),
+          withRest.map(
+            (index) =>
+              (totals[index] - scoreOf(index)) / (itemScores[index].size - 1)
+          )
+        )
+      );
+      const upperDifficulty = groupMean(upperGroup, scoreOf);
+      const lowerDifficulty = groupMean(lowerGroup, scoreOf);
+      statistics.upperDifficulty = round(upperDifficulty);
+      statistics.lowerDifficulty = round(lowerDifficulty);
+      statistics.discriminationIndex =
+        upperDifficulty !== null && lowerDifficulty !== null
+          ? round(upperDifficulty - lowerDifficulty)
+          : null;
+
+      if (
+        question.type === "multiple-choice" ||
+        question.type === "true-false"
+      ) {
+        statistics.options = (question.answers ?? []).map((option) => {
+          const answerId = option._id?.toString() ?? "";
+          const chose = (index: number) =>
+            submissions[index].answers
+              .get(questionId)
+              ?.selectedAnswer_id?.toString() === answerId
+              ? 1
+              : 0;
+          const count = included.filter(chose).length;
+          const upperProportion = groupMean(upperGroup, chose);
+          const lowerProportion = groupMean(lowerGroup, chose);
+          return {
+            answerId,
+            answerText: option.text,
+            isCorrect: Boolean(option.isCorrect),
+            count,
+            proportion: round(count / included.length)!,
+            upperProportion: round(upperProportion),
+            lowerProportion: round(lowerProportion),
+            discrimination:
+              upperProportion !== null && lowerProportion !== null
+                ? round(upperProportion - lowerProportion)
+                : null,
+          };
+        });
+      }
+
+      const { difficulty, pointBiserial, discriminationIndex, options } =
+        statistics;
+      if (difficulty! < ITEM_ANALYSIS_THRESHOLDS.veryDifficult) {
+        statistics.flags.push("very-difficult");
+      } else if (difficulty! > ITEM_ANALYSIS_THRESHOLDS.veryEasy) {
+        statistics.flags.push("very-easy");
+      }
+      const discrimination = pointBiserial ?? discriminationIndex;
+      if (discrimination !== null && discrimination < 0) {
+        statistics.flags.push("negative-discrimination");
+      } else if (
+        discrimination !== null &&
+        discrimination < ITEM_ANALYSIS_THRESHOLDS.lowDiscrimination
+      ) {
+        statistics.flags.push("low-discrimination");
+      }
+      const distractors = options?.filter((option) => !option.isCorrect) ?? [];
+      if (distractors.some((option) => (option.discrimination ?? 0) > 0)) {
+        statistics.flags.push("distractor-attracts-upper-group");
+      }
+      if (
+        distractors.some(
+          (option) =>
+            option.proportion <
+            ITEM_ANALYSIS_THRESHOLDS.nonFunctioningDistractor
+        )
+      ) {
+        statistics.flags.push("non-functioning-distractors");
+      }
+      return statistics;
+    }
+  );
+
+  // Reliability over the submissions that had every analyzed question
+  const completeScores = itemScores.filter(
+    (scores) => scores.size === analyzedQuestionIds.length
+  );
+  const isDichotomous = completeScores.every((scores) =>
+    Array.from(scores.values()).every((score) => score === 0 || score === 1)
+  );
+  let coefficient: number | null = null;
+  const itemCount = analyzedQuestionIds.length;
+  if (itemCount >= 2 && completeScores.length >= 2) {
+    const itemVariances = analyzedQuestionIds.map((questionId) =>
+      variance(completeScores.map((scores) => scores.get(questionId)!))
+    );
+    const totalVariance = variance(
+      completeScores.map((scores) =>
+        Array.from(scores.values()).reduce((sum, score) => sum + score, 0)
+      )
+    );
+    if (totalVariance > 0) {
+      coefficient = round(
+        (itemCount / (itemCount - 1)) *
+          (1 -
+            itemVariances.reduce((sum, value) => sum + value, 0) /
+              totalVariance)
+      );
+    }
+  }
+
+  return {
+    submissionCount: submissions.length,
+    upperLowerGroupSize: groupSize,
+    reliability: {
+      method: isDichotomous ? "KR-20" : "Cronbach's alpha",
+      coefficient,
+      itemCount,
+      submissionCount: completeScores.length,
+    },
+    items,
+  };
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { Quiz } from "@/app/models/Quiz";
+import type { IQuiz } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { buildOpenQuizFilter, sortByClosingTime } from "./availability";
+import { NOT_IN_TRASH } from "./quizTrash";
+import { resolveStudent } from "./students";
+import { presentQuizToStudent } from "./shuffle";
+
+// The quizzes a student can take right now, for the endpoints of the Unreal
+// Engine client: `/api/quizzes/active` (student view) and `/api/client/quizzes`
+// (versioned client contract). Both return the same quizzes, only their
+// projection differs.
+
+export type OpenQuiz = IQuiz & { _id: Types.ObjectId };
+
+export interface OpenQuizzes {
+  studyYear: number;
+  now: Date; // The moment the availability was determined at
+  quizzes: OpenQuiz[]; // In the order of the student, the quiz that closes first comes first
+}
+
+/**
+ * Finds the quizzes of a study year that are open for submissions right now
+ * (see lib/availability.ts) and not in the trash, sorted by closing time so the
+ * quiz that closes first comes first. Quizzes without `opensAt`/`closesAt` are
+ * always available and come last.
+ *
+ * Query Parameters:
+ * - studyYear: (required) The study year of the student.
+ * - student_id / studentEmail: (optional) The student taking the quizzes, shuffled
+ *   quizzes are returned in the order of this student (see {@link presentQuizToStudent}).
+ *
+ * @param {URLSearchParams} searchParams - The query parameters of the request.
+ * @returns {Promise<OpenQuizzes | NextResponse>} The open quizzes, or a 400 response for
+ * a missing or invalid study year or student and a 404 response for an unknown student.
+ */
+export async function findOpenQuizzes(
+  searchParams: URLSearchParams
+): Promise<OpenQuizzes | NextResponse> {
+  const studyYear = parseInt(searchParams.get("studyYear") ?? "", 10);
+  if (isNaN(studyYear)) {
+    return NextResponse.json(
+      { error: "Missing or invalid studyYear parameter. Must be a number." },
+      { status: 400 }
+    );
+  }
+
+  const studentId = await resolveStudent(
+    searchParams.get("student_id") ?? undefined,
+    searchParams.get("studentEmail") ?? undefined
+  );
+  if (studentId instanceof NextResponse) return studentId;
+
+  const now = new Date();
+  const quizzes = await Quiz.find({
+    studyYear,
+    ...NOT_IN_TRASH,
+    ...buildOpenQuizFilter(now),
+  })
+    .sort({ createdAt: -1 })
+    .lean<OpenQuiz[]>();
+
+  return {
+    studyYear,
+    now,
+    quizzes: sortByClosingTime(quizzes).map((quiz) =>
+      presentQuizToStudent(quiz, studentId)
+    ),
+  };
+}
@@ -0,0 +1,315 @@
+import { Types } from "mongoose";
+import {
+  MeshCatalogItem,
+  OrganGroup,
+  Quiz,
+  QuizVersion,
+  Submission,
+} from "@/app/models/Quiz";
+import type { IQuestion, IQuiz, ISubmissionAnswer } from "@/app/models/Quiz";
+import { gradeAnswer } from "./grading";
+import { getQuizVersion } from "./quizVersions";
+import { NOT_IN_TRASH } from "./quizTrash";
+
+// Confusion analysis of select-organ questions across all quizzes: for every
+// target mesh or organ group, which meshes students clicked instead. Answers
+// are graded against the version of the quiz they answered, so a target that
+// was changed since still counts for the target the student was asked for.
+// Targets and meshes are sorted by their first organ group and then by name,
+// so confusions between neighbouring structures (e.g. left and right ribs)
+// end up next to each other in a matrix.
+// Quizzes are selected by the select-organ questions of any of their versions,
+// so a quiz still counts after its select-organ questions were removed. The
+// answers are counted per question, version and clicked mesh in the database.
+
+export interface OrganConfusionCount {
+  meshId: string;
+  count: number;
+}
+
+export interface OrganConfusionTarget {
+  targetType: "mesh" | "group";
+  targetId: string;
+  displayName: string;
+  organGroupIds: string[]; // For group targets, the group itself
+  answerCount: number; // Answers to questions with this target, including unanswered ones
+  correctCount: number;
+  noAnswerCount: number;
+  confusions: OrganConfusionCount[]; // Wrongly clicked meshes, most frequent first
+}
+
+export interface OrganConfusionMesh {
+  meshId: string;
+  displayName: string;
+  organGroupIds: string[];
+}
+
+export interface OrganConfusion {
+  targets: OrganConfusionTarget[];
+  meshes: OrganConfusionMesh[]; // The meshes that were clicked instead of a target
+  organGroups: { groupId: string; groupName: string }[];
+}
+
+type LeanSelectOrganQuiz = Pick<IQuiz, "_id" | "version" | "questions">;
+type LeanSelectOrganVersion = {
+  quiz_id: Types.ObjectId;
+  version: number;
+  questions: IQuestion[];
+};
+// The number of answers to a question of a version that clicked the same mesh
+type AnswerGroup = {
+  _id: {
+    quiz_id: Types.ObjectId;
+    quizVersion: number;
+    question_id: Types.ObjectId;
+    clickedMeshId?: Types.ObjectId | string | null;
+  };
+  count: number;
+};
+type LeanMesh = {
+  _id: Types.ObjectId;
+  displayName: string;
+  organGroupIds?: Types.ObjectId[];
+};
+
+/**
+ * Computes the confusion analysis of the select-organ questions of all quizzes
+ * that are not in the trash.
+ *
+ * @param {{ studyYear?: number }} [filter] - Only include the quizzes of this study year.
+ * @returns {Promise<OrganConfusion>} The confusions per target with the meshes and organ groups involved.
+ */
+export async function loadOrganConfusion(
+  filter: { studyYear?: number } = {}
+): Promise<OrganConfusion> {
+  const quizIds = await Quiz.distinct("_id", {
+    ...NOT_IN_TRASH,
+    ...(filter.studyYear !== undefined ? { studyYear: filter.studyYear } : {}),
+  });
+  const [quizzes, snapshots] = quizIds.length
+    ? await Promise.all([
+        Quiz.find({ _id: { $in: quizIds }, "questions.type": "select-organ" })
+          .select("version questions")
+          .lean<LeanSelectOrganQuiz[]>(),
+        QuizVersion.find({
+          quiz_id: { $in: quizIds },
+          "questions.type": "select-organ",
+        })
+          .select("quiz_id version questions")
+          .lean<LeanSelectOrganVersion[]>(),
+      ])
+    : [[], []];
+
+  // Select-organ questions by quiz and version, and by question ID. Versions
+  // without a snapshot get the current questions, as in loadVersionQuestions.
+  const questionsByVersion = new Map<string, Map<string, IQuestion>>();
+  const currentQuestions = new Map<string, Map<string, IQuestion>>();
+  const toQuestionMap = (questions: IQuestion[]) =>
+    new Map(
+      questions
+        .filter(
+          (question) => question.type === "select-organ" && question.target_id
+        )
+        .map((question) => [question._id?.toString() ?? "", question])
+    );
+  quizzes.forEach((quiz) => {
+    const questions = toQuestionMap(quiz.questions);
+    currentQuestions.set(String(quiz._id), questions);
+    questionsByVersion.set(`${quiz._id}:${getQuizVersion(quiz)}`, questions);
+  });
+  snapshots.forEach((snapshot) =>
+    questionsByVersion.set(
+      `${snapshot.quiz_id}:${snapshot.version}`,
+      toQuestionMap(snapshot.questions)
+    )
+  );
+  const questionIds = new Set(
+    Array.from(questionsByVersion.values()).flatMap((questions) =>
+      Array.from(questions.keys())
+    )
+  );
+  if (questionIds.size === 0) {
+    return { targets: [], meshes: [], organGroups: [] };
+  }
+
+  const answerGroups = await Submission.aggregate<AnswerGroup>([
+    {
+      $match: {
+        quiz_id: {
+          $in: [
+            ...quizzes.map((quiz) => quiz._id),
+            ...snapshots.map((snapshot) => snapshot.quiz_id),
+          ],
+        },
+      },
+    },
+    { $unwind: "$answers" },
+    {
+      $match: {
+        "answers.question_id": {
+          $in: Array.from(questionIds).map((id) => new Types.ObjectId(id)),
+        },
+      },
+    },
+    {
+      $group: {
+        _id: {
+          quiz_id: "$quiz_id",
+          quizVersion: { $ifNull: ["$quizVersion", 1] },
+          question_id: "$answers.question_id",
+          clickedMeshId: "$answers.responseText_ClickedMesh_id",
+        },
+        count: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const answered = answerGroups.flatMap(({ _id: group, count }) => {
+    const quizId = group.quiz_id.toString();
+    const question = (
+      questionsByVersion.get(`${quizId}:${group.quizVersion}`) ??
+      currentQuestions.get(quizId)
+    )?.get(group.question_id.toString());
+    if (!question) return [];
+    const answer = {
+      question_id: group.question_id,
+      responseText_ClickedMesh_id: group.clickedMeshId ?? undefined,
+    } as ISubmissionAnswer;
+    return [{ question, answer, count }];
+  });
+
+  const meshIds = new Set<string>();
+  const groupIds = new Set<string>();
+  answered.forEach(({ question, answer }) => {
+    const targetId = question.target_id!.toString();
+    if (question.targetType === "group") groupIds.add(targetId);
+    else meshIds.add(targetId);
+    const clickedMeshId = answer.responseText_ClickedMesh_id?.toString();
+    if (clickedMeshId && Types.ObjectId.isValid(clickedMeshId)) {
+      meshIds.add(clickedMeshId);
+    }
+  });
+  const meshes = meshIds.size
+    ? await MeshCatalogItem.find({
+        _id: { $in: Array.from(meshIds).map((id) => new Types.ObjectId(id)) },
+      })
+        .select("displayName organGroupIds")
+        .lean<LeanMesh[]>()
+    : [];
+  const meshMap = new Map(meshes.map((mesh) => [mesh._id.toString(), mesh]));
+  meshes.forEach((mesh) =>
+    mesh.organGroupIds?.forEach((groupId) => groupIds.add(groupId.toString()))
+  );
+  const groups = groupIds.size
+    ? await OrganGroup.find({
+        _id: { $in: Array.from(groupIds).map((id) => new Types.ObjectId(id)) },
+      })
+        .select("groupName")
+        .lean<{ _id: Types.ObjectId; groupName: string }[]>()
+    : [];
+  const groupNames = new Map(
+    groups.map((group) => [group._id.toString(), group.groupName])
+  );
+
+  const targets = new Map<
+    string,
+    OrganConfusionTarget & { confusionCounts: Map<string, number> }
+  >();
+  answered.forEach(({ question, answer, count }) => {
+    const targetType = question.targetType === "group" ? "group" : "mesh";
+    const targetId = question.target_id!.toString();
+    const key = `${targetType}:${targetId}`;
+    let target = targets.get(key);
+    if (!target) {
+      target = {
+        targetType,
+        targetId,
+        displayName:
+          targetType === "group"
+            ? groupNames.get(targetId) ?? "Unknown Target Group"
+            : meshMap.get(targetId)?.displayName ?? "Unknown Target Mesh",
+        organGroupIds:
+          targetType === "group"
+            ? [targetId]
+            : meshMap
+                .get(targetId)
+                ?.organGroupIds?.map((groupId) => groupId.toString()) ?? [],
+        answerCount: 0,
+        correctCount: 0,
+        noAnswerCount: 0,
+        confusions: [],
+        confusionCounts: new Map(),
+      };
+      targets.set(key, target);
+    }
+
+    target.answerCount += count;
+    const clickedMeshId = answer.responseText_ClickedMesh_id?.toString();
+    if (!clickedMeshId) {
+      target.noAnswerCount += count;
+    } else if (gradeAnswer(question, answer, meshMap)) {
+      target.correctCount += count;
+    } else {
+      target.confusionCounts.set(
+        clickedMeshId,
+        (target.confusionCounts.get(clickedMeshId) ?? 0) + count
+      );
+    }
+  });
+
+  // Sorted by the name of the first organ group, then by display name.
+  // Meshes without organ group come last.
+  const firstGroupName = (organGroupIds: string[]) =>
+    organGroupIds
+      .flatMap((groupId) => groupNames.get(groupId) ?? [])
+      .sort()[0] as string | undefined;
+  const byGroupAndName = (
+    a: { organGroupIds: string[]; displayName: string },
+    b: { organGroupIds: string[]; displayName: string }
+  ) => {
+    const groupA = firstGroupName(a.organGroupIds);
+    const groupB = firstGroupName(b.organGroupIds);
+    if (groupA !== groupB) {
+      if (groupA === undefined) return 1;
+      if (groupB === undefined) return -1;
+      return groupA.localeCompare(groupB);
+    }
+    return a.displayName.localeCompare(b.displayName);
+  };
+
+  const confusedMeshIds = new Set<string>();
+  const targetList = Array.from(targets.values())
+    .map(({ confusionCounts, ...target }) => {
+      confusionCounts.forEach((_, meshId) => confusedMeshIds.add(meshId));
+      return {
+        ...target,
+        confusions: Array.from(confusionCounts, ([meshId, count]) => ({
+          meshId,
+          count,
+        })).sort((a, b) => b.count - a.count),
+      };
+    })
+    .sort(byGroupAndName);
+
+  const meshList = Array.from(confusedMeshIds)
+    .map((meshId) => {
+      const mesh = meshMap.get(meshId);
+      return {
+        meshId,
+        displayName:
+          mesh?.displayName ?? `Unknown Mesh (${meshId.substring(0, 6)}...)`,
+        organGroupIds:
+          mesh?.organGroupIds?.map((groupId) => groupId.toString()) ?? [],
+      };
+    })
+    .sort(byGroupAndName);
+
+  return {
+    targets: targetList,
+    meshes: meshList,
+    organGroups: Array.from(groupNames, ([groupId, groupName]) => ({
+      groupId,
+      groupName,
+    })).sort((a, b) => a.groupName.localeCompare(b.groupName)),
+  };
+}
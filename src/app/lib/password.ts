@@ -0,0 +1,54 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+
+/**
+ * Promisified wrapper around Node's `scrypt`.
+ *
+ * @param {string} password - The plain text password.
+ * @param {Buffer} salt - The salt to derive the key with.
+ * @returns {Promise<Buffer>} The derived key.
+ */
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+/**
+ * Hashes a password with a random salt using scrypt.
+ *
+ * @param {string} password - The plain text password.
+ * @returns {Promise<string>} The hash in the format `scrypt$<salt>$<hash>` (hex encoded).
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const derivedKey = await deriveKey(password, salt);
+  return `scrypt$${salt.toString("hex")}$${derivedKey.toString("hex")}`;
+}
+
+/**
+ * Verifies a password against a hash created by {@link hashPassword}.
+ * Uses a constant-time comparison to avoid timing attacks.
+ *
+ * @param {string} password - The plain text password to check.
+ * @param {string} storedHash - The stored `scrypt$<salt>$<hash>` string.
+ * @returns {Promise<boolean>} True if the password matches the hash.
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [algorithm, saltHex, hashHex] = storedHash.split("$");
+  if (algorithm !== "scrypt" || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  const derivedKey = await deriveKey(password, Buffer.from(saltHex, "hex"));
+  return (
+    expected.length === derivedKey.length &&
+    timingSafeEqual(expected, derivedKey)
+  );
+}
@@ -0,0 +1,264 @@
+import PDFDocument from "pdfkit";
+
+// PDF writer for server-side reports, backed by PDFKit. Content flows down A4
+// pages and a new page starts when a page is full; every page gets a footer
+// with the document title and the page number. Text uses the standard
+// Helvetica fonts, so characters outside their WinAnsi encoding are not shown.
+
+export interface PdfTextOptions {
+  size?: number; // Font size in points, defaults to 10
+  bold?: boolean;
+  color?: string; // Hex color, e.g. "#4b5563"
+  indent?: number; // Left indent in points
+}
+
+export interface PdfBar {
+  label: string;
+  value: number;
+  color: string; // Hex color
+}
+
+export interface PdfTableColumn {
+  header: string;
+  width: number; // Share of the content width, the shares of all columns add up to 1
+  align?: "left" | "right";
+}
+
+export interface PdfWriter {
+  text(text: string, options?: PdfTextOptions): void;
+  space(height: number): void;
+  rule(): void;
+  barChart(bars: PdfBar[]): void;
+  table(columns: PdfTableColumn[], rows: string[][]): void;
+  newPage(): void;
+  toBuffer(): Promise<Buffer>;
+}
+
+const MARGIN = 50;
+const FOOTER_HEIGHT = 20;
+const DEFAULT_SIZE = 10;
+const TEXT_COLOR = "#111827";
+const MUTED_COLOR = "#6b7280";
+const LINE_COLOR = "#d1d5db";
+const HEADER_FILL = "#f3f4f6";
+const REGULAR_FONT = "Helvetica";
+const BOLD_FONT = "Helvetica-Bold";
+
+/**
+ * Creates a PDF writer. Content is added from the top of the first page
+ * downwards, and {@link PdfWriter.toBuffer} returns the finished document.
+ *
+ * @param {string} title - The document title, shown in the footer of every page.
+ * @returns {PdfWriter} The writer.
+ */
+export function createPdfWriter(title: string): PdfWriter {
+  // Pages are buffered, so the footers can show the total number of pages
+  const doc = new PDFDocument({
+    size: "A4",
+    margins: {
+      top: MARGIN,
+      right: MARGIN,
+      bottom: MARGIN + FOOTER_HEIGHT,
+      left: MARGIN,
+    },
+    bufferPages: true,
+    info: { Title: title },
+  });
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const pageWidth = doc.page.width;
+  const contentWidth = pageWidth - 2 * MARGIN;
+  const contentBottom = doc.page.height - MARGIN - FOOTER_HEIGHT;
+
+  // Starts a new page unless the current page has the given height left
+  const ensureSpace = (height: number) => {
+    if (doc.y + height > contentBottom && doc.y > MARGIN) doc.addPage();
+  };
+
+  // Draws a single line of text, shortened with an ellipsis if it does not
+  // fit the width. The position of the content flow is left unchanged.
+  const drawText = (
+    text: string,
+    x: number,
+    top: number,
+    width: number,
+    size: number,
+    bold: boolean,
+    color: string,
+    align: "left" | "right" = "left"
+  ) => {
+    const { y } = doc;
+    doc
+      .font(bold ? BOLD_FONT : REGULAR_FONT)
+      .fontSize(size)
+      .fillColor(color)
+      .text(text.replace(/\s+/g, " ").trim(), x, top, {
+        width,
+        height: size,
+        align,
+        lineBreak: false,
+        ellipsis: true,
+      });
+    doc.x = MARGIN;
+    doc.y = y;
+  };
+
+  const drawLine = (x1: number, y1: number, x2: number, y2: number) => {
+    doc
+      .moveTo(x1, y1)
+      .lineTo(x2, y2)
+      .lineWidth(0.5)
+      .strokeColor(LINE_COLOR)
+      .stroke();
+  };
+
+  const text = (value: string, options: PdfTextOptions = {}) => {
+    const size = options.size ?? DEFAULT_SIZE;
+    const indent = options.indent ?? 0;
+    doc
+      .font(options.bold ? BOLD_FONT : REGULAR_FONT)
+      .fontSize(size)
+      .fillColor(options.color ?? TEXT_COLOR);
+    ensureSpace(doc.currentLineHeight(true));
+    doc.text(value, MARGIN + indent, doc.y, {
+      width: contentWidth - indent,
+      lineGap: size * 0.15,
+    });
+    doc.x = MARGIN;
+  };
+
+  const space = (height: number) => {
+    doc.y = Math.min(doc.y + height, contentBottom);
+  };
+
+  const rule = () => {
+    ensureSpace(8);
+    drawLine(MARGIN, doc.y + 4, pageWidth - MARGIN, doc.y + 4);
+    doc.y += 8;
+  };
+
+  // Horizontal bars with the label on the left and the value after the bar
+  const barChart = (bars: PdfBar[]) => {
+    const size = 9;
+    const rowHeight = 16;
+    const barHeight = 10;
+    const labelWidth = contentWidth * 0.35;
+    const valueWidth = 30;
+    const barLeft = MARGIN + labelWidth + 8;
+    const maxBarWidth = contentWidth - labelWidth - 8 - valueWidth;
+    const maxValue = Math.max(1, ...bars.map((bar) => bar.value));
+
+    for (const bar of bars) {
+      ensureSpace(rowHeight);
+      const top = doc.y;
+      const textTop = top + (rowHeight - size) / 2;
+      drawText(bar.label, MARGIN, textTop, labelWidth, size, false, TEXT_COLOR);
+      const width = (bar.value / maxValue) * maxBarWidth;
+      if (width > 0) {
+        doc
+          .rect(barLeft, top + (rowHeight - barHeight) / 2, width, barHeight)
+          .fill(bar.color);
+      }
+      drawText(
+        String(bar.value),
+        barLeft + width + 4,
+        textTop,
+        valueWidth,
+        size,
+        false,
+        MUTED_COLOR
+      );
+      drawLine(barLeft, top, barLeft, top + rowHeight);
+      doc.y = top + rowHeight;
+    }
+  };
+
+  // Rows are a single line, longer cells are shortened. The header row is
+  // repeated on every page the table continues on.
+  const table = (columns: PdfTableColumn[], rows: string[][]) => {
+    const size = 9;
+    const rowHeight = 16;
+    const padding = 4;
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      const top = doc.y;
+      let x = MARGIN;
+      columns.forEach((column, index) => {
+        const width = column.width * contentWidth;
+        drawText(
+          cells[index] ?? "",
+          x + padding,
+          top + (rowHeight - size) / 2,
+          width - 2 * padding,
+          size,
+          bold,
+          TEXT_COLOR,
+          column.align
+        );
+        x += width;
+      });
+      drawLine(MARGIN, top + rowHeight, pageWidth - MARGIN, top + rowHeight);
+      doc.y = top + rowHeight;
+    };
+
+    const drawHeader = () => {
+      doc.rect(MARGIN, doc.y, contentWidth, rowHeight).fill(HEADER_FILL);
+      drawRow(
+        columns.map((column) => column.header),
+        true
+      );
+    };
+
+    ensureSpace(2 * rowHeight);
+    drawHeader();
+    for (const row of rows) {
+      if (doc.y + rowHeight > contentBottom) {
+        doc.addPage();
+        drawHeader();
+      }
+      drawRow(row, false);
+    }
+  };
+
+  const newPage = () => {
+    doc.addPage();
+  };
+
+  const toBuffer = (): Promise<Buffer> => {
+    const { start, count } = doc.bufferedPageRange();
+    for (let index = start; index < start + count; index++) {
+      doc.switchToPage(index);
+      // The footer is in the bottom margin, where text would start a new page
+      doc.page.margins.bottom = 0;
+      const footerTop = doc.page.height - MARGIN - 8;
+      drawText(
+        title,
+        MARGIN,
+        footerTop,
+        contentWidth - 80,
+        8,
+        false,
+        MUTED_COLOR
+      );
+      drawText(
+        `Page ${index + 1} of ${count}`,
+        MARGIN,
+        footerTop,
+        contentWidth,
+        8,
+        false,
+        MUTED_COLOR,
+        "right"
+      );
+    }
+    doc.end();
+    return finished;
+  };
+
+  return { text, space, rule, barChart, table, newPage, toBuffer };
+}
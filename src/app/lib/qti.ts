@@ -0,0 +1,497 @@
+import { createZip, readZip } from "./zip";
+import {
+  childElements,
+  escapeXml,
+  findElements,
+  localName,
+  parseXml,
+  textContent,
+  type XmlElement,
+} from "./xml";
+import {
+  toPortableQuizzes,
+  type ExportableQuiz,
+  type PortableQuestion,
+  type PortableQuiz,
+  type QuizImportReport,
+} from "./quizTransfer";
+
+// IMS QTI 2.1 content packages, for the exchange of quizzes with an LMS. Every
+// quiz is an assessmentTest with one assessmentItem per question, listed in the
+// imsmanifest.xml of the zip. Questions are converted through the portable
+// format of quizTransfer.ts:
+// - multiple-choice and true-false: a choiceInteraction with the correct choices
+//   as correctResponse. True/false is recognized by its two choices on import.
+// - short-answer: a textEntryInteraction with the accepted answers as mapping.
+// - select-organ: a customInteraction with a `selectOrgan` element in our own
+//   namespace with the mesh or group name. Other tools will show it as an
+//   unsupported interaction, but it survives a round trip.
+// QTI has no study year or schedule, so the study year is chosen on import.
+// Items with other interactions are skipped and reported.
+
+const QTI_NAMESPACE = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+const QTI_SCHEMA_LOCATION = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+const CP_NAMESPACE = "http://www.imsglobal.org/xsd/imscp_v1p1";
+const SELECT_ORGAN_NAMESPACE = "urn:virtual-anatomy-quiz:qti:select-organ";
+const MATCH_CORRECT =
+  "http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct";
+const MAP_RESPONSE =
+  "http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response";
+const MANIFEST_FILE = "imsmanifest.xml";
+
+export interface QtiSkippedItem {
+  quizTitle: string;
+  item: string; // The identifier or path of the item
+  reason: string;
+}
+
+export interface QtiPackageContent {
+  quizzes: PortableQuiz[];
+  skippedItems: QtiSkippedItem[];
+}
+
+export interface QtiImportReport extends QuizImportReport {
+  skippedItems: QtiSkippedItem[];
+}
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n';
+
+const qtiRootAttributes = `xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}"`;
+
+const SCORE_DECLARATION =
+  '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">\n' +
+  "    <defaultValue><value>0</value></defaultValue>\n" +
+  "  </outcomeDeclaration>\n";
+
+/**
+ * Builds the assessmentItem XML of a question.
+ *
+ * @param {string} identifier - The identifier of the item.
+ * @param {PortableQuestion} question - The question.
+ * @param {boolean} shuffleAnswers - Whether the choices are shuffled.
+ * @returns {string} The item XML.
+ */
+function buildItemXml(
+  identifier: string,
+  question: PortableQuestion,
+  shuffleAnswers: boolean
+): string {
+  const text = escapeXml(question.questionText);
+  let declaration: string;
+  let body: string;
+  let responseProcessing = `  <responseProcessing template="${MATCH_CORRECT}"/>\n`;
+
+  if (question.type === "short-answer") {
+    const accepted = question.acceptedAnswers ?? [];
+    declaration =
+      '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">\n' +
+      (accepted.length
+        ? `    <correctResponse><value>${escapeXml(
+            accepted[0]
+          )}</value></correctResponse>\n` +
+          '    <mapping defaultValue="0">\n' +
+          accepted
+            .map(
+              (answer) =>
+                `      <mapEntry mapKey="${escapeXml(
+                  answer
+                )}" mappedValue="1" caseSensitive="false"/>\n`
+            )
+            .join("") +
+          "    </mapping>\n"
+        : "") +
+      "  </responseDeclaration>\n";
+    body =
+      `    <p>${text}</p>\n` +
+      '    <p><textEntryInteraction responseIdentifier="RESPONSE"/></p>\n';
+    responseProcessing = `  <responseProcessing template="${MAP_RESPONSE}"/>\n`;
+  } else if (question.type === "select-organ") {
+    const target = question.target
+      ? question.target.type === "group"
+        ? ` targetType="group" targetName="${escapeXml(
+            question.target.groupName
+          )}"`
+        : ` targetType="mesh" targetName="${escapeXml(
+            question.target.meshName
+          )}"`
+      : "";
+    declaration =
+      '  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>\n';
+    body =
+      `    <p>${text}</p>\n` +
+      '    <customInteraction responseIdentifier="RESPONSE" class="select-organ">\n' +
+      `      <vaq:selectOrgan xmlns:vaq="${SELECT_ORGAN_NAMESPACE}"${target}/>\n` +
+      "    </customInteraction>\n";
+    responseProcessing = "";
+  } else {
+    const answers = question.answers ?? [];
+    const choiceId = (index: number) => `CHOICE_${index + 1}`;
+    const correct = answers
+      .map((answer, index) => (answer.isCorrect ? choiceId(index) : null))
+      .filter((id): id is string => id !== null);
+    declaration =
+      `  <responseDeclaration identifier="RESPONSE" cardinality="${
+        correct.length > 1 ? "multiple" : "single"
+      }" baseType="identifier">\n` +
+      (correct.length
+        ? `    <correctResponse>${correct
+            .map((id) => `<value>${id}</value>`)
+            .join("")}</correctResponse>\n`
+        : "") +
+      "  </responseDeclaration>\n";
+    body =
+      `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="${shuffleAnswers}" maxChoices="${
+        correct.length > 1 ? 0 : 1
+      }"${question.type === "true-false" ? ' class="true-false"' : ""}>\n` +
+      `      <prompt>${text}</prompt>\n` +
+      answers
+        .map(
+          (answer, index) =>
+            `      <simpleChoice identifier="${choiceId(index)}">${escapeXml(
+              answer.text
+            )}</simpleChoice>\n`
+        )
+        .join("") +
+      "    </choiceInteraction>\n";
+  }
+
+  return (
+    XML_DECLARATION +
+    `<assessmentItem ${qtiRootAttributes} identifier="${identifier}" title="${text}" adaptive="false" timeDependent="false">\n` +
+    declaration +
+    SCORE_DECLARATION +
+    `  <itemBody>\n${body}  </itemBody>\n` +
+    responseProcessing +
+    "</assessmentItem>\n"
+  );
+}
+
+/**
+ * Builds a QTI 2.1 content package with an assessmentTest per quiz.
+ *
+ * @param {ExportableQuiz[]} quizzes - The stored quizzes.
+ * @returns {Promise<Buffer>} The zip file of the package.
+ */
+export async function buildQtiPackage(
+  quizzes: ExportableQuiz[]
+): Promise<Buffer> {
+  const portableQuizzes = await toPortableQuizzes(quizzes);
+  const files: { name: string; data: string }[] = [];
+  const testResources: string[] = [];
+  const itemResources: string[] = [];
+
+  portableQuizzes.forEach((quiz, quizIndex) => {
+    const testId = `quiz-${quizIndex + 1}`;
+    const itemRefs: string[] = [];
+    const dependencies: string[] = [];
+
+    quiz.questions.forEach((question, questionIndex) => {
+      const itemId = `${testId}-item-${questionIndex + 1}`;
+      const fileName = `item-${questionIndex + 1}.xml`;
+      files.push({
+        name: `${testId}/${fileName}`,
+        data: buildItemXml(itemId, question, quiz.shuffleAnswers ?? false),
+      });
+      itemRefs.push(
+        `        <assessmentItemRef identifier="${itemId}" href="${fileName}"/>\n`
+      );
+      dependencies.push(`      <dependency identifierref="${itemId}"/>\n`);
+      itemResources.push(
+        `    <resource identifier="${itemId}" type="imsqti_item_xmlv2p1" href="${testId}/${fileName}">\n` +
+          `      <file href="${testId}/${fileName}"/>\n` +
+          "    </resource>\n"
+      );
+    });
+
+    const title = escapeXml(quiz.title);
+    files.push({
+      name: `${testId}/test.xml`,
+      data:
+        XML_DECLARATION +
+        `<assessmentTest ${qtiRootAttributes} identifier="${testId}" title="${title}">\n` +
+        '  <testPart identifier="part-1" navigationMode="nonlinear" submissionMode="simultaneous">\n' +
+        `    <assessmentSection identifier="section-1" title="${title}" visible="true">\n` +
+        `      <ordering shuffle="${quiz.shuffleQuestions ?? false}"/>\n` +
+        (quiz.description
+          ? `      <rubricBlock view="candidate"><p>${escapeXml(
+              quiz.description
+            )}</p></rubricBlock>\n`
+          : "") +
+        itemRefs.join("") +
+        "    </assessmentSection>\n" +
+        "  </testPart>\n" +
+        "</assessmentTest>\n",
+    });
+    testResources.push(
+      `    <resource identifier="${testId}" type="imsqti_test_xmlv2p1" href="${testId}/test.xml">\n` +
+        `      <file href="${testId}/test.xml"/>\n` +
+        dependencies.join("") +
+        "    </resource>\n"
+    );
+  });
+
+  const manifest =
+    XML_DECLARATION +
+    `<manifest xmlns="${CP_NAMESPACE}" identifier="quiz-manager-export">\n` +
+    "  <metadata>\n" +
+    "    <schema>QTIv2.1 Package</schema>\n" +
+    "    <schemaversion>1.0.0</schemaversion>\n" +
+    "  </metadata>\n" +
+    "  <organizations/>\n" +
+    "  <resources>\n" +
+    testResources.join("") +
+    itemResources.join("") +
+    "  </resources>\n" +
+    "</manifest>\n";
+
+  return createZip([{ name: MANIFEST_FILE, data: manifest }, ...files]);
+}
+
+/**
+ * Resolves a path relative to the folder of a file in the package.
+ *
+ * @param {string} from - The path of the file with the reference.
+ * @param {string} href - The relative path.
+ * @returns {string} The path in the package.
+ */
+const resolvePath = (from: string, href: string): string => {
+  const parts = from.split("/").slice(0, -1);
+  decodeURIComponent(href)
+    .split("/")
+    .forEach((part) => {
+      if (part === "..") parts.pop();
+      else if (part !== "." && part !== "") parts.push(part);
+    });
+  return parts.join("/");
+};
+
+/**
+ * Converts a QTI assessmentItem to a question.
+ *
+ * @param {XmlElement} item - The assessmentItem element.
+ * @returns {{ question: PortableQuestion; shuffle: boolean } | { reason: string }} The question, or why the item is not supported.
+ */
+function toPortableQuestion(
+  item: XmlElement
+): { question: PortableQuestion; shuffle: boolean } | { reason: string } {
+  const body = childElements(item, "itemBody")[0];
+  if (!body) return { reason: "The item has no itemBody" };
+
+  const interactions = collectInteractions(body);
+  if (interactions.length !== 1) {
+    return {
+      reason: interactions.length
+        ? "Items with more than one interaction are not supported"
+        : "The item has no interaction",
+    };
+  }
+
+  const interaction = interactions[0];
+  const interactionName = localName(interaction.name);
+  const declaration = childElements(item, "responseDeclaration").find(
+    (element) =>
+      element.attributes.identifier ===
+      interaction.attributes.responseIdentifier
+  );
+  const correctValues = declaration
+    ? findElements(declaration, "correctResponse").flatMap((response) =>
+        childElements(response, "value").map((value) => textContent(value))
+      )
+    : [];
+  const bodyText =
+    textContent(body, [interactionName]) || item.attributes.title || "";
+
+  if (interactionName === "choiceInteraction") {
+    const choices = childElements(interaction, "simpleChoice");
+    if (choices.length === 0) return { reason: "The item has no choices" };
+    const answers = choices.map((choice) => ({
+      text: textContent(choice, ["feedbackInline"]),
+      isCorrect: correctValues.includes(choice.attributes.identifier),
+    }));
+    const prompt = childElements(interaction, "prompt")[0];
+    const isTrueFalse =
+      (interaction.attributes.class ?? "")
+        .split(/\s+/)
+        .includes("true-false") ||
+      (answers.length === 2 &&
+        answers
+          .map((answer) => answer.text.toLowerCase())
+          .sort()
+          .join() === "false,true");
+    return {
+      question: {
+        questionText: (prompt && textContent(prompt)) || bodyText,
+        type: isTrueFalse ? "true-false" : "multiple-choice",
+        answers,
+      },
+      shuffle: interaction.attributes.shuffle === "true",
+    };
+  }
+
+  if (interactionName === "textEntryInteraction") {
+    const mappedAnswers = declaration
+      ? findElements(declaration, "mapEntry")
+          .filter((entry) => Number(entry.attributes.mappedValue) > 0)
+          .map((entry) => entry.attributes.mapKey)
+      : [];
+    const acceptedAnswers = Array.from(
+      new Set([...correctValues, ...mappedAnswers])
+    ).filter((answer) => answer && answer.trim());
+    if (acceptedAnswers.length === 0) {
+      return { reason: "The text entry has no correct answer" };
+    }
+    return {
+      question: {
+        questionText: bodyText,
+        type: "short-answer",
+        acceptedAnswers,
+      },
+      shuffle: false,
+    };
+  }
+
+  if (interactionName === "customInteraction") {
+    const selectOrgan = findElements(interaction, "selectOrgan")[0];
+    if (!selectOrgan) {
+      return {
+        reason:
+          "Custom interactions are only supported for select-organ questions",
+      };
+    }
+    const { targetType, targetName } = selectOrgan.attributes;
+    return {
+      question: {
+        questionText: bodyText,
+        type: "select-organ",
+        target: targetName
+          ? targetType === "group"
+            ? { type: "group", groupName: targetName }
+            : { type: "mesh", meshName: targetName }
+          : undefined,
+      },
+      shuffle: false,
+    };
+  }
+
+  return { reason: `${interactionName} is not supported` };
+}
+
+/**
+ * Finds the interactions in an item body. Interactions are not nested, except
+ * for inline interactions in a block, so the search stops at every match.
+ *
+ * @param {XmlElement} element - The element to search in.
+ * @returns {XmlElement[]} The interaction elements.
+ */
+function collectInteractions(element: XmlElement): XmlElement[] {
+  return childElements(element).flatMap((child) =>
+    localName(child.name).endsWith("Interaction")
+      ? [child]
+      : collectInteractions(child)
+  );
+}
+
+/**
+ * Reads the quizzes of a QTI 2.1 content package. Every assessmentTest becomes a
+ * quiz; a package with only items (e.g. an item bank) becomes a single quiz.
+ * Items that cannot be converted are left out and listed in `skippedItems`.
+ *
+ * @param {Buffer} archive - The zip file of the package.
+ * @param {number} studyYear - The study year of the quizzes.
+ * @returns {QtiPackageContent} The quizzes and the skipped items.
+ * @throws {Error} If the file is not a QTI package.
+ */
+export function readQtiPackage(
+  archive: Buffer,
+  studyYear: number
+): QtiPackageContent {
+  const files = readZip(archive);
+  const manifestPath = Array.from(files.keys()).find(
+    (name) => name.split("/").pop()?.toLowerCase() === MANIFEST_FILE
+  );
+  if (!manifestPath) {
+    throw new Error(`The package has no ${MANIFEST_FILE}`);
+  }
+
+  const readXml = (path: string): XmlElement | null => {
+    const file = files.get(path);
+    return file ? parseXml(file.toString("utf8")) : null;
+  };
+  const manifest = readXml(manifestPath) as XmlElement;
+  const resources = findElements(manifest, "resource");
+  const resourcePath = (resource: XmlElement) =>
+    resolvePath(manifestPath, resource.attributes.href ?? "");
+  const skippedItems: QtiSkippedItem[] = [];
+
+  const toQuiz = (
+    title: string,
+    itemPaths: string[],
+    fields: Partial<PortableQuiz> = {}
+  ): PortableQuiz => {
+    const questions: PortableQuestion[] = [];
+    let shuffleAnswers = false;
+    itemPaths.forEach((path) => {
+      const item = readXml(path);
+      const result = item
+        ? toPortableQuestion(item)
+        : { reason: "The item file is missing" };
+      if ("reason" in result) {
+        skippedItems.push({
+          quizTitle: title,
+          item: item?.attributes.identifier ?? path,
+          reason: result.reason,
+        });
+        return;
+      }
+      questions.push(result.question);
+      shuffleAnswers = shuffleAnswers || result.shuffle;
+    });
+    return { title, studyYear, questions, shuffleAnswers, ...fields };
+  };
+
+  const tests = resources.filter((resource) =>
+    (resource.attributes.type ?? "").startsWith("imsqti_test_xmlv2p1")
+  );
+  if (tests.length > 0) {
+    return {
+      quizzes: tests.map((resource) => {
+        const testPath = resourcePath(resource);
+        const test = readXml(testPath);
+        if (!test) throw new Error(`The test file ${testPath} is missing`);
+        const title = test.attributes.title || "Imported quiz";
+        const description = findElements(test, "rubricBlock")
+          .map((rubric) => textContent(rubric))
+          .join("\n");
+        return toQuiz(
+          title,
+          findElements(test, "assessmentItemRef").map((ref) =>
+            resolvePath(testPath, ref.attributes.href ?? "")
+          ),
+          {
+            description: description || undefined,
+            shuffleQuestions: findElements(test, "ordering").some(
+              (ordering) => ordering.attributes.shuffle === "true"
+            ),
+          }
+        );
+      }),
+      skippedItems,
+    };
+  }
+
+  const items = resources.filter((resource) =>
+    (resource.attributes.type ?? "").startsWith("imsqti_item_xmlv2p1")
+  );
+  if (items.length === 0) {
+    throw new Error("The package has no QTI 2.1 tests or items");
+  }
+  const organizationTitle = findElements(manifest, "organization")
+    .flatMap((organization) => childElements(organization, "title"))
+    .map((title) => textContent(title))[0];
+  return {
+    quizzes: [
+      toQuiz(organizationTitle || "Imported quiz", items.map(resourcePath)),
+    ],
+    skippedItems,
+  };
+}
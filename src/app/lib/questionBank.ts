@@ -0,0 +1,296 @@
+import { BankQuestion, Quiz } from "@/app/models/Quiz";
+import type { IQuestion } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import type { BankQuestionRequestBody } from "./questionSchemas";
+import { getQuizEditImpact, type QuizEditImpact } from "./quizEditImpact";
+import { NOT_IN_TRASH } from "./quizTrash";
+import {
+  ensureQuizVersioned,
+  saveQuizVersion,
+  type VersionedQuiz,
+} from "./quizVersions";
+import type { SessionPayload } from "./session";
+
+// Questions pulled from the question bank are embedded into the quiz like any
+// other question, so grading and results do not have to know about the bank.
+// A copy is independent of the bank question, a reference is overwritten with
+// the content of the bank question whenever the quiz or the bank question is
+// saved. Syncing a bank question creates a new version of the quizzes; like
+// an edit of the quiz itself, a sync that changes the answer key of quizzes
+// with submissions has to be confirmed. Quizzes in the trash are not synced.
+
+const QUESTION_CONTENT_FIELDS = [
+  "questionText",
+  "type",
+  "answers",
+  "targetType",
+  "target_id",
+  "acceptedAnswers",
+  "typoTolerance",
+] as const;
+
+export type QuestionContent = Pick<
+  IQuestion,
+  (typeof QUESTION_CONTENT_FIELDS)[number]
+>;
+
+interface BankLinkedQuestion {
+  bankQuestion_id?: string | Types.ObjectId;
+  bankLink?: "reference" | "copy";
+}
+
+/**
+ * Returns the content of a bank question as it is embedded into a quiz. Only
+ * the fields used by the question type are set. Answers keep the `_id` they
+ * have in the bank, and edits of the bank question keep the `_id`s of its
+ * answers (see {@link toBankQuestionData}), so submissions stay valid when a
+ * referenced question is synced.
+ *
+ * @param {QuestionContent} bankQuestion - The bank question.
+ * @returns {QuestionContent} The question content.
+ */
+export function getQuestionContent(
+  bankQuestion: QuestionContent
+): QuestionContent {
+  const isChoice =
+    bankQuestion.type === "multiple-choice" ||
+    bankQuestion.type === "true-false";
+  return {
+    questionText: bankQuestion.questionText,
+    type: bankQuestion.type,
+    answers: isChoice ? bankQuestion.answers ?? [] : [],
+    targetType:
+      bankQuestion.type === "select-organ"
+        ? bankQuestion.targetType
+        : undefined,
+    target_id:
+      bankQuestion.type === "select-organ" ? bankQuestion.target_id : undefined,
+    acceptedAnswers:
+      bankQuestion.type === "short-answer"
+        ? bankQuestion.acceptedAnswers ?? []
+        : undefined,
+    typoTolerance:
+      bankQuestion.type === "short-answer"
+        ? bankQuestion.typoTolerance
+        : undefined,
+  };
+}
+
+/**
+ * Converts a validated request body into the fields of a bank question. Fields
+ * that are not used by the question type or not set are undefined.
+ *
+ * Answers keep the `_id` they are sent with. An answer without an `_id` takes
+ * the `_id` of the current answer at the same position, unless another answer
+ * was sent with that `_id`, and new answers get a new `_id`.
+ *
+ * @param {BankQuestionRequestBody} data - The validated request body.
+ * @param {{ _id?: Types.ObjectId }[]} [currentAnswers] - The answers of the stored question, for an update.
+ * @returns {object} The question content and tags to store.
+ */
+export function toBankQuestionData(
+  data: BankQuestionRequestBody,
+  currentAnswers: { _id?: Types.ObjectId }[] = []
+) {
+  const sentIds = new Set(
+    data.answers.flatMap((answer) => (answer._id ? [answer._id] : []))
+  );
+  const answers = data.answers.map((answer, index) => {
+    const currentId = currentAnswers[index]?._id;
+    return {
+      ...answer,
+      _id: answer._id
+        ? new Types.ObjectId(answer._id)
+        : currentId && !sentIds.has(currentId.toString())
+        ? currentId
+        : new Types.ObjectId(),
+    };
+  });
+
+  return {
+    ...getQuestionContent({
+      ...data,
+      answers,
+      target_id:
+        data.type === "select-organ"
+          ? new Types.ObjectId(data.target_id)
+          : undefined,
+    }),
+    organGroupIds: (data.organGroupIds ?? []).map(
+      (id) => new Types.ObjectId(id)
+    ),
+    studyYear: data.studyYear ?? undefined,
+    difficulty: data.difficulty ?? undefined,
+  };
+}
+
+/**
+ * Replaces the content of the questions that reference a bank question with
+ * the current content of the bank question, so a quiz can never diverge from
+ * its referenced questions.
+ *
+ * @param {T[]} questions - The questions of a quiz that is about to be saved.
+ * @returns {Promise<{ questions: T[]; missingIds: string[] }>} The questions, and the IDs of referenced bank questions that do not exist.
+ */
+export async function applyBankReferences<T extends BankLinkedQuestion>(
+  questions: T[]
+): Promise<{ questions: T[]; missingIds: string[] }> {
+  const referencedIds = Array.from(
+    new Set(
+      questions
+        .filter((q) => q.bankLink === "reference" && q.bankQuestion_id)
+        .map((q) => q.bankQuestion_id!.toString())
+    )
+  );
+  if (referencedIds.length === 0) return { questions, missingIds: [] };
+
+  const bankQuestions = await BankQuestion.find({
+    _id: { $in: referencedIds.map((id) => new Types.ObjectId(id)) },
+  }).lean<(QuestionContent & { _id: Types.ObjectId })[]>();
+  const bankQuestionMap = new Map(
+    bankQuestions.map((bankQuestion) => [
+      bankQuestion._id.toString(),
+      bankQuestion,
+    ])
+  );
+
+  return {
+    questions: questions.map((q) => {
+      const bankQuestion =
+        q.bankLink === "reference" && q.bankQuestion_id
+          ? bankQuestionMap.get(q.bankQuestion_id.toString())
+          : undefined;
+      return bankQuestion ? { ...q, ...getQuestionContent(bankQuestion) } : q;
+    }),
+    missingIds: referencedIds.filter((id) => !bankQuestionMap.has(id)),
+  };
+}
+
+export interface BankQuestionSyncImpact extends QuizEditImpact {
+  quizId: string;
+  title: string;
+}
+
+/**
+ * Returns the filter for the quizzes that reference a bank question.
+ *
+ * @param {Types.ObjectId} bankQuestionId - The ID of the bank question.
+ * @returns {object} The filter for `Quiz.find` and `Quiz.updateMany`.
+ */
+const referencingQuizFilter = (bankQuestionId: Types.ObjectId) => ({
+  ...NOT_IN_TRASH,
+  questions: {
+    $elemMatch: { bankQuestion_id: bankQuestionId, bankLink: "reference" },
+  },
+});
+
+/**
+ * Determines how syncing a bank question affects the submissions of the
+ * quizzes that reference it, see {@link getQuizEditImpact}.
+ *
+ * @param {QuestionContent & { _id: Types.ObjectId }} bankQuestion - The bank question with its new content.
+ * @returns {Promise<BankQuestionSyncImpact[]>} The impact per quiz, only quizzes with submissions whose answer key changes.
+ */
+export async function getBankQuestionSyncImpact(
+  bankQuestion: QuestionContent & { _id: Types.ObjectId }
+): Promise<BankQuestionSyncImpact[]> {
+  const referencingQuizzes = await Quiz.find(
+    referencingQuizFilter(bankQuestion._id)
+  ).lean<(VersionedQuiz & { title: string })[]>();
+  const content = getQuestionContent(bankQuestion);
+
+  const impacts = await Promise.all(
+    referencingQuizzes.map(async (quiz) => {
+      const impact = await getQuizEditImpact(String(quiz._id), quiz, {
+        ...quiz,
+        questions: quiz.questions.map((question) =>
+          question.bankLink === "reference" &&
+          question.bankQuestion_id?.toString() === bankQuestion._id.toString()
+            ? { ...question, ...content }
+            : question
+        ),
+      });
+      return impact
+        ? [{ quizId: String(quiz._id), title: quiz.title, ...impact }]
+        : [];
+    })
+  );
+  return impacts.flat();
+}
+
+/**
+ * Copies the content of a bank question into every quiz question that
+ * references it. Every updated quiz gets a new version, see
+ * {@link saveQuizVersion}. Quizzes in the trash are left unchanged.
+ *
+ * @param {QuestionContent} bankQuestion - The updated bank question.
+ * @param {SessionPayload | null} [editor] - The teacher who updated the bank question.
+ * @returns {Promise<number>} The number of updated quizzes.
+ */
+export async function syncReferencingQuizzes(
+  bankQuestion: QuestionContent & { _id: Types.ObjectId },
+  editor?: SessionPayload | null
+): Promise<number> {
+  const filter = referencingQuizFilter(bankQuestion._id);
+  const referencingQuizzes = await Quiz.find(filter).lean<VersionedQuiz[]>();
+  if (referencingQuizzes.length === 0) return 0;
+  await Promise.all(referencingQuizzes.map(ensureQuizVersioned));
+
+  const content = getQuestionContent(bankQuestion);
+  const update: Record<string, Record<string, unknown>> = {
+    $set: {},
+    $inc: { version: 1 },
+  };
+  QUESTION_CONTENT_FIELDS.forEach((field) => {
+    const path = `questions.$[linked].${field}`;
+    if (content[field] !== undefined) {
+      update.$set[path] = content[field];
+    } else {
+      update.$unset = { ...update.$unset, [path]: 1 };
+    }
+  });
+
+  const { modifiedCount } = await Quiz.updateMany(filter, update, {
+    arrayFilters: [
+      {
+        "linked.bankQuestion_id": bankQuestion._id,
+        "linked.bankLink": "reference",
+      },
+    ],
+  });
+
+  const syncedQuizzes = await Quiz.find({
+    _id: { $in: referencingQuizzes.map((quiz) => quiz._id) },
+  }).lean<VersionedQuiz[]>();
+  await Promise.all(syncedQuizzes.map((quiz) => saveQuizVersion(quiz, editor)));
+  return modifiedCount;
+}
+
+/**
+ * Turns every reference to a bank question into a copy, used before the bank
+ * question is deleted. The quizzes keep the content of the question.
+ *
+ * @param {Types.ObjectId} bankQuestionId - The ID of the bank question.
+ * @returns {Promise<number>} The number of updated quizzes.
+ */
+export async function unlinkReferencingQuizzes(
+  bankQuestionId: Types.ObjectId
+): Promise<number> {
+  const { modifiedCount } = await Quiz.updateMany(
+    {
+      questions: {
+        $elemMatch: { bankQuestion_id: bankQuestionId, bankLink: "reference" },
+      },
+    },
+    { $set: { "questions.$[linked].bankLink": "copy" } },
+    {
+      arrayFilters: [
+        {
+          "linked.bankQuestion_id": bankQuestionId,
+          "linked.bankLink": "reference",
+        },
+      ],
+    }
+  );
+  return modifiedCount;
+}
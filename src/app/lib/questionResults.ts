@@ -0,0 +1,369 @@
+import { Types } from "mongoose";
+import {
+  Submission,
+  OrganGroup,
+  MeshCatalogItem,
+  ShortAnswerGrade,
+} from "@/app/models/Quiz";
+import type {
+  IQuiz,
+  IQuestion,
+  ISubmissionAnswer,
+  IMeshCatalogItem,
+  ShortAnswerVerdict,
+} from "@/app/models/Quiz";
+import {
+  gradeAnswer,
+  getShortAnswerGradeKey,
+  matchShortAnswer,
+  resolveAnswerGrade,
+} from "./grading";
+import type { ShortAnswerMatch } from "./grading";
+import { loadVersionQuestions } from "./quizVersions";
+import { buildSubmissionQuery, selectSubmissions } from "./resultsFilter";
+import type { ResultsFilter } from "./resultsFilter";
+
+// Aggregated results of a quiz per question, as shown on the results page and
+// in the results report. Each submission is graded against the version of the
+// quiz it answered, while the breakdown lists the current questions and answers.
+
+export interface AnswerBreakdown {
+  answerText: string; // For MCQ/TF: option text. For Select-Organ: mesh/group display name.
+  studentCount: number;
+  isCorrectOption?: boolean;
+}
+
+export interface ManualGrade {
+  verdict: ShortAnswerVerdict;
+  comment?: string;
+  gradedByName?: string;
+  updatedAt?: Date;
+}
+
+export interface ShortAnswerResponse extends Partial<ShortAnswerMatch> {
+  responseText: string; // Trimmed response, identical responses are grouped together. Empty if not answered.
+  studentCount: number;
+  isCorrect?: boolean; // Undefined if the question has no accepted answers and no manual grade
+  credit?: number; // 0-1, partial credit comes from a manual grade
+  manualGrade?: ManualGrade; // The teacher's grade, overrides the automatic grading
+}
+
+export interface QuestionResult {
+  questionId: string;
+  questionText: string;
+  questionType: IQuestion["type"];
+  totalSubmissionsForQuestion: number;
+  totalCorrect: number;
+  totalPartiallyCorrect?: number; // For short-answer: responses graded as partially correct
+  answersBreakdown: AnswerBreakdown[];
+  submittedTextAnswers?: string[]; // For short-answer responses
+  shortAnswerResponses?: ShortAnswerResponse[]; // For short-answer: grouped responses with match details
+  acceptedAnswers?: string[]; // For short-answer: the answers that are graded as correct
+  correctTargetDisplayName?: string; // For select-organ: display name of the correct mesh or group
+}
+
+type LeanMeshCatalogItem = Omit<IMeshCatalogItem, keyof Document> & {
+  _id: Types.ObjectId;
+};
+type LeanOrganGroup = { _id: Types.ObjectId; groupName: string };
+
+/**
+ * Computes the results of a quiz per question.
+ *
+ * For each question, it determines the breakdown of answers and correctness
+ * based on the submissions. For `select-organ` questions, it fetches the
+ * details of the clicked mesh and the target mesh/group. For `short-answer`
+ * questions, identical responses are grouped and manual grades by teachers
+ * override the automatic grading. Selected MCQ/TF answers are counted by their
+ * `_id`, so answers that were reordered after submitting keep their counts and
+ * answers that were removed are not counted.
+ *
+ * @param {IQuiz} quiz - The quiz.
+ * @param {ResultsFilter} [filter] - Only include the submissions that match this filter.
+ * @returns {Promise<QuestionResult[]>} The results of the current questions of the quiz, in order.
+ */
+export async function computeQuestionResults(
+  quiz: IQuiz,
+  filter: ResultsFilter = {}
+): Promise<QuestionResult[]> {
+  const quizId = String(quiz._id);
+
+  const matchingSubmissions = await Submission.find(
+    await buildSubmissionQuery(quizId, filter)
+  ).lean<
+    {
+      _id: Types.ObjectId;
+      quiz_id: Types.ObjectId;
+      student_id?: Types.ObjectId;
+      studyYearAtSubmission: number;
+      submittedAt: Date;
+      answers: ISubmissionAnswer[];
+      quizVersion?: number;
+    }[]
+  >();
+  const submissions = selectSubmissions(matchingSubmissions, filter);
+
+  // Submissions are graded against the version of the quiz they answered
+  const versionQuestions = await loadVersionQuestions(
+    quiz,
+    submissions.map((sub) => sub.quizVersion)
+  );
+  const versionQuestionMaps = new Map(
+    Array.from(versionQuestions, ([version, questions]) => [
+      version,
+      new Map(questions.map((q) => [q._id?.toString(), q])),
+    ])
+  );
+
+  // Manual grades for short-answer responses, these override the automatic grading
+  const manualGrades = await ShortAnswerGrade.find({
+    quiz_id: new Types.ObjectId(quizId),
+  }).lean<
+    ({
+      question_id: Types.ObjectId;
+      responseText: string;
+    } & ManualGrade)[]
+  >();
+  const manualGradeMap = new Map(
+    manualGrades.map((grade) => [
+      getShortAnswerGradeKey(grade.question_id, grade.responseText),
+      grade,
+    ])
+  );
+
+  const questionResults: QuestionResult[] = [];
+
+  // Pre-fetch mesh and group details for "select-organ" questions and answers
+  const itemIdsToFetch = new Set<string>(); // For MeshCatalogItem._id
+  const groupIdsToFetch = new Set<string>(); // For OrganGroup._id
+
+  quiz.questions.forEach((q: IQuestion) => {
+    if (q.type === "select-organ" && q.target_id) {
+      if (
+        q.targetType === "mesh" &&
+        Types.ObjectId.isValid(q.target_id.toString())
+      )
+        itemIdsToFetch.add(q.target_id.toString());
+      if (
+        q.targetType === "group" &&
+        Types.ObjectId.isValid(q.target_id.toString())
+      )
+        groupIdsToFetch.add(q.target_id.toString());
+    }
+  });
+  submissions.forEach((sub) => {
+    sub.answers.forEach((ans) => {
+      if (
+        ans.responseText_ClickedMesh_id &&
+        Types.ObjectId.isValid(ans.responseText_ClickedMesh_id.toString())
+      ) {
+        itemIdsToFetch.add(ans.responseText_ClickedMesh_id.toString());
+      }
+    });
+  });
+
+  const meshCatalogDetailsArray = await MeshCatalogItem.find({
+    _id: {
+      $in: Array.from(itemIdsToFetch).map((id) => new Types.ObjectId(id)),
+    },
+  }).lean<LeanMeshCatalogItem[]>();
+  const organGroupDetailsArray = await OrganGroup.find({
+    _id: {
+      $in: Array.from(groupIdsToFetch).map((id) => new Types.ObjectId(id)),
+    },
+  }).lean<LeanOrganGroup[]>();
+
+  const meshCatalogMap = new Map(
+    meshCatalogDetailsArray.map((item) => [item._id.toString(), item])
+  );
+  const organGroupMap = new Map(
+    organGroupDetailsArray.map((group) => [group._id.toString(), group])
+  );
+
+  for (const question of quiz.questions) {
+    const currentQuestionIdString = question._id?.toString();
+    if (!currentQuestionIdString) continue;
+
+    const questionSubmissions = submissions.flatMap((sub) => {
+      const submittedAnswer = sub.answers.find(
+        (ans) => ans.question_id.toString() === currentQuestionIdString
+      );
+      if (!submittedAnswer) return [];
+      // The question as it was in the version the student answered
+      const answeredQuestion =
+        versionQuestionMaps
+          .get(sub.quizVersion ?? 1)
+          ?.get(currentQuestionIdString) ?? question;
+      return [{ submittedAnswer, answeredQuestion }];
+    });
+
+    let totalCorrect = 0;
+    let totalPartiallyCorrect: number | undefined = undefined;
+    let currentAnswersBreakdown: AnswerBreakdown[] = [];
+    let currentSubmittedTextAnswers: string[] | undefined = undefined;
+    let currentShortAnswerResponses: ShortAnswerResponse[] | undefined =
+      undefined;
+    let currentCorrectTargetDisplayName: string | undefined = undefined;
+
+    // Determine correct target display name for select-organ questions
+    if (question.type === "select-organ" && question.target_id) {
+      if (question.targetType === "mesh") {
+        currentCorrectTargetDisplayName =
+          meshCatalogMap.get(question.target_id.toString())?.displayName ||
+          "Unknown Target Mesh";
+      } else if (question.targetType === "group") {
+        currentCorrectTargetDisplayName =
+          organGroupMap.get(question.target_id.toString())?.groupName ||
+          "Unknown Target Group";
+      }
+    }
+
+    if (question.type === "multiple-choice" || question.type === "true-false") {
+      const optionCounts = new Map<string, number>(
+        (question.answers ?? []).map((opt) => [opt._id?.toString() ?? "", 0])
+      );
+      questionSubmissions.forEach(({ submittedAnswer, answeredQuestion }) => {
+        const selectedAnswerId = submittedAnswer.selectedAnswer_id?.toString();
+        if (selectedAnswerId && optionCounts.has(selectedAnswerId)) {
+          optionCounts.set(
+            selectedAnswerId,
+            optionCounts.get(selectedAnswerId)! + 1
+          );
+        }
+        if (gradeAnswer(answeredQuestion, submittedAnswer, meshCatalogMap))
+          totalCorrect++;
+      });
+      question.answers?.forEach((opt) => {
+        currentAnswersBreakdown.push({
+          answerText: opt.text.toString(),
+          studentCount: optionCounts.get(opt._id?.toString() ?? "") ?? 0,
+          isCorrectOption: Boolean(opt.isCorrect),
+        });
+      });
+    } else if (question.type === "select-organ") {
+      const answerTargetCounts: Record<string, number> = {}; // Key: Clicked MeshCatalogItem ID
+
+      questionSubmissions.forEach(({ submittedAnswer, answeredQuestion }) => {
+        const clickedMeshId =
+          submittedAnswer.responseText_ClickedMesh_id?.toString();
+        if (clickedMeshId) {
+          answerTargetCounts[clickedMeshId] =
+            (answerTargetCounts[clickedMeshId] || 0) + 1;
+
+          if (gradeAnswer(answeredQuestion, submittedAnswer, meshCatalogMap))
+            totalCorrect++;
+        } else {
+          answerTargetCounts["No Answer"] =
+            (answerTargetCounts["No Answer"] || 0) + 1;
+        }
+      });
+
+      // Create breakdown based on what was clicked or the target
+      const allClickedOrTargetMeshIds = new Set<string>(
+        Object.keys(answerTargetCounts).filter((k) => k !== "No Answer")
+      );
+      if (question.targetType === "mesh" && question.target_id)
+        allClickedOrTargetMeshIds.add(question.target_id.toString());
+      // For group targets, the target_id is a group. Breakdown items will be clicked meshes.
+
+      allClickedOrTargetMeshIds.forEach((meshIdStr) => {
+        const meshDetail = meshCatalogMap.get(meshIdStr);
+        const isOptionCorrect = Boolean(
+          gradeAnswer(
+            question,
+            {
+              question_id: question._id!,
+              responseText_ClickedMesh_id: new Types.ObjectId(meshIdStr),
+            },
+            meshCatalogMap
+          )
+        );
+        currentAnswersBreakdown.push({
+          answerText:
+            meshDetail?.displayName ||
+            `Unknown Mesh (${meshIdStr.substring(0, 6)}...)`,
+          studentCount: answerTargetCounts[meshIdStr] || 0,
+          isCorrectOption: isOptionCorrect,
+        });
+      });
+      if (answerTargetCounts["No Answer"]) {
+        currentAnswersBreakdown.push({
+          answerText: "No Answer",
+          studentCount: answerTargetCounts["No Answer"],
+          isCorrectOption: false,
+        });
+      }
+    } else if (question.type === "short-answer") {
+      currentSubmittedTextAnswers = [];
+      totalPartiallyCorrect = 0;
+      const responseMap = new Map<string, ShortAnswerResponse>();
+      const canAutoGrade = Boolean(question.acceptedAnswers?.length);
+
+      questionSubmissions.forEach(({ submittedAnswer, answeredQuestion }) => {
+        const responseText =
+          submittedAnswer.responseText_ShortAnswer?.trim() || "";
+        currentSubmittedTextAnswers!.push(responseText || "No Answer");
+
+        const { isCorrect, credit, manualVerdict } = resolveAnswerGrade(
+          answeredQuestion,
+          submittedAnswer,
+          meshCatalogMap,
+          manualGradeMap
+        );
+        if (isCorrect) totalCorrect++;
+        if (manualVerdict === "partial") totalPartiallyCorrect!++;
+
+        const existingResponse = responseMap.get(responseText);
+        if (existingResponse) {
+          existingResponse.studentCount++;
+        } else {
+          const manualGrade = manualGradeMap.get(
+            getShortAnswerGradeKey(currentQuestionIdString, responseText)
+          );
+          responseMap.set(responseText, {
+            responseText,
+            studentCount: 1,
+            isCorrect,
+            credit,
+            ...(canAutoGrade
+              ? matchShortAnswer(
+                  submittedAnswer.responseText_ShortAnswer,
+                  question.acceptedAnswers!,
+                  question.typoTolerance
+                )
+              : {}),
+            manualGrade: manualGrade && {
+              verdict: manualGrade.verdict,
+              comment: manualGrade.comment,
+              gradedByName: manualGrade.gradedByName,
+              updatedAt: manualGrade.updatedAt,
+            },
+          });
+        }
+      });
+
+      currentShortAnswerResponses = Array.from(responseMap.values()).sort(
+        (a, b) => b.studentCount - a.studentCount
+      );
+    }
+
+    questionResults.push({
+      questionId: currentQuestionIdString,
+      questionText: question.questionText,
+      questionType: question.type,
+      totalSubmissionsForQuestion: questionSubmissions.length,
+      totalCorrect: totalCorrect,
+      totalPartiallyCorrect: totalPartiallyCorrect,
+      answersBreakdown: currentAnswersBreakdown,
+      submittedTextAnswers: currentSubmittedTextAnswers,
+      shortAnswerResponses: currentShortAnswerResponses,
+      acceptedAnswers:
+        question.type === "short-answer"
+          ? question.acceptedAnswers || []
+          : undefined,
+      correctTargetDisplayName: currentCorrectTargetDisplayName,
+    });
+  }
+
+  return questionResults;
+}
@@ -0,0 +1,138 @@
+import { z } from "zod";
+import { Types } from "mongoose";
+
+// Shared Zod schemas for questions, used by the quizzes and question bank routes.
+
+// The `_id` of an existing answer, kept when a question is updated
+const answerIdSchema = z
+  .string()
+  .refine((val) => Types.ObjectId.isValid(val), {
+    message: "Invalid answer _id format. Must be a valid ObjectId string.",
+  })
+  .optional();
+
+// Schema for an answer (within a Question for MCQ/TF)
+const answerSchema = z.object({
+  _id: answerIdSchema,
+  text: z
+    .string({ required_error: "Answer text is required" })
+    .trim()
+    .min(1, { message: "Answer text must be at least 1 character long" }),
+  isCorrect: z.boolean({ required_error: "isCorrect flag is required" }),
+});
+
+// Base Question Schema (common fields for request body from client)
+const baseRequestBodyQuestionSchema = z.object({
+  questionText: z
+    .string({ required_error: "Question text is required" })
+    .trim()
+    .min(1, { message: "Question text must be at least 1 character long" }),
+  // Set when the question was pulled from the question bank
+  bankQuestion_id: z
+    .string()
+    .refine((val) => Types.ObjectId.isValid(val), {
+      message:
+        "Invalid bankQuestion_id format. Must be a valid ObjectId string.",
+    })
+    .optional(),
+  bankLink: z
+    .enum(["reference", "copy"], {
+      message: "bankLink must be 'reference' or 'copy'",
+    })
+    .optional(),
+});
+
+// Specific Question Type Schemas for request body
+
+const multipleChoiceQuestionRequestBodySchema =
+  baseRequestBodyQuestionSchema.extend({
+    type: z.literal("multiple-choice"),
+    answers: z
+      .array(answerSchema)
+      .min(1, { message: "At least one answer is required" }),
+  });
+
+const trueFalseQuestionRequestBodySchema = baseRequestBodyQuestionSchema.extend(
+  {
+    type: z.literal("true-false"),
+    answers: z
+      .array(answerSchema)
+      .min(1, { message: "At least one answer is required" }),
+  }
+);
+
+const selectOrganQuestionRequestBodySchema =
+  baseRequestBodyQuestionSchema.extend({
+    type: z.literal("select-organ"),
+    targetType: z.enum(["mesh", "group"], {
+      required_error: "Target Type ('mesh' or 'group') is required",
+    }),
+    target_id: z
+      .string({
+        required_error: "target_id is required for select-organ questions.",
+      })
+      .refine((val) => Types.ObjectId.isValid(val), {
+        message: "Invalid target_id format. Must be a valid ObjectId string.",
+      }),
+    answers: z
+      .array(answerSchema)
+      .max(0, "Select organ questions should not have predefined answers."),
+  });
+
+const shortAnswerQuestionRequestBodySchema =
+  baseRequestBodyQuestionSchema.extend({
+    type: z.literal("short-answer"),
+    answers: z
+      .array(answerSchema)
+      .max(0, "Short answer questions should not have predefined answers."),
+    acceptedAnswers: z
+      .array(
+        z
+          .string()
+          .trim()
+          .min(1, { message: "Accepted answers cannot be empty" })
+      )
+      .optional(),
+    typoTolerance: z
+      .number()
+      .int({ message: "Typo tolerance must be an integer" })
+      .min(0, { message: "Typo tolerance cannot be negative" })
+      .max(5, { message: "Typo tolerance cannot be higher than 5" })
+      .optional(),
+  });
+
+export const requestQuestionSchema = z.discriminatedUnion("type", [
+  multipleChoiceQuestionRequestBodySchema,
+  trueFalseQuestionRequestBodySchema,
+  selectOrganQuestionRequestBodySchema,
+  shortAnswerQuestionRequestBodySchema,
+]);
+
+export const QUESTION_DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+// Tags of a question in the question bank
+const bankQuestionTagsSchema = z.object({
+  organGroupIds: z
+    .array(
+      z.string().refine((val) => Types.ObjectId.isValid(val), {
+        message: "Invalid organ group ID format.",
+      })
+    )
+    .optional(),
+  studyYear: z
+    .number({ invalid_type_error: "Study year must be a number" })
+    .int({ message: "Study year must be an integer" })
+    .min(1, { message: "Study year must be a positive number" })
+    .optional()
+    .nullable(),
+  difficulty: z.enum(QUESTION_DIFFICULTIES).optional().nullable(),
+});
+
+export const bankQuestionRequestBodySchema = z.intersection(
+  requestQuestionSchema,
+  bankQuestionTagsSchema
+);
+
+export type BankQuestionRequestBody = z.infer<
+  typeof bankQuestionRequestBodySchema
+>;
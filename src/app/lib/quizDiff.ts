@@ -0,0 +1,191 @@
+// Compares two versions of a quiz as returned by
+// `GET /api/quizzes/[id]/versions/[version]`. Questions are matched by their
+// `_id`, so a question that was edited is reported as changed instead of
+// removed and added. Values are compared by their JSON representation, which is
+// the form the versions are received in.
+
+export const DIFFED_QUIZ_FIELDS = [
+  "title",
+  "description",
+  "studyYear",
+  "scheduledAt",
+  "opensAt",
+  "closesAt",
+  "gracePeriodMinutes",
+  "shuffleQuestions",
+  "shuffleAnswers",
+] as const;
+
+export const DIFFED_QUESTION_FIELDS = [
+  "questionText",
+  "type",
+  "answers",
+  "targetType",
+  "target_id",
+  "acceptedAnswers",
+  "typoTolerance",
+  "bankLink",
+] as const;
+
+type DiffedQuizField = (typeof DIFFED_QUIZ_FIELDS)[number];
+export type DiffedQuestionField = (typeof DIFFED_QUESTION_FIELDS)[number];
+
+export type DiffableQuestion = Partial<Record<DiffedQuestionField, unknown>> & {
+  _id?: unknown;
+  questionText: string;
+};
+
+export type DiffableQuiz = Partial<Record<DiffedQuizField, unknown>> & {
+  questions: DiffableQuestion[];
+};
+
+export interface QuizFieldChange {
+  field: DiffedQuizField;
+  from: unknown;
+  to: unknown;
+}
+
+export interface QuestionDiff {
+  questionId: string;
+  questionText: string;
+}
+
+export interface ChangedQuestion extends QuestionDiff {
+  changedFields: DiffedQuestionField[];
+}
+
+export interface MovedQuestion extends QuestionDiff {
+  from: number; // Position in the old version, starting at 0
+  to: number; // Position in the new version, starting at 0
+}
+
+export interface QuizVersionDiff {
+  fieldChanges: QuizFieldChange[];
+  addedQuestions: QuestionDiff[];
+  removedQuestions: QuestionDiff[];
+  changedQuestions: ChangedQuestion[];
+  movedQuestions: MovedQuestion[];
+}
+
+/**
+ * Returns a comparable representation of a value. Missing values and empty
+ * arrays are equal to null, and answers are compared by their text and
+ * correctness only.
+ *
+ * @param {DiffedQuizField | DiffedQuestionField} field - The field of the value.
+ * @param {unknown} value - The value.
+ * @returns {string} The JSON representation of the value.
+ */
+function serialize(
+  field: DiffedQuizField | DiffedQuestionField,
+  value: unknown
+): string {
+  if (Array.isArray(value) && value.length === 0) return "null";
+  if (field === "answers" && Array.isArray(value)) {
+    return JSON.stringify(
+      value.map(({ text, isCorrect }) => ({ text, isCorrect: !!isCorrect }))
+    );
+  }
+  return JSON.stringify(value ?? null);
+}
+
+const toQuestionDiff = (question: DiffableQuestion): QuestionDiff => ({
+  questionId: String(question._id),
+  questionText: question.questionText,
+});
+
+/**
+ * Returns the positions of a longest increasing subsequence of numbers.
+ *
+ * @param {number[]} values - The numbers.
+ * @returns {Set<number>} The positions in `values` of the subsequence.
+ */
+function getLongestIncreasingRun(values: number[]): Set<number> {
+  const lengths = values.map(() => 1);
+  const previous = values.map(() => -1);
+  values.forEach((value, i) => {
+    for (let j = 0; j < i; j++) {
+      if (values[j] < value && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  });
+
+  const run = new Set<number>();
+  let index = lengths.indexOf(Math.max(0, ...lengths));
+  while (index !== -1) {
+    run.add(index);
+    index = previous[index];
+  }
+  return run;
+}
+
+/**
+ * Compares two versions of a quiz. Moved questions are the fewest questions
+ * that have to be moved to get from the old to the new order, so adding or
+ * removing a question does not report the following questions as moved.
+ *
+ * @param {DiffableQuiz} from - The older version.
+ * @param {DiffableQuiz} to - The newer version.
+ * @returns {QuizVersionDiff} The changes from the older to the newer version.
+ */
+export function diffQuizVersions(
+  from: DiffableQuiz,
+  to: DiffableQuiz
+): QuizVersionDiff {
+  const fieldChanges = DIFFED_QUIZ_FIELDS.filter(
+    (field) => serialize(field, from[field]) !== serialize(field, to[field])
+  ).map((field) => ({ field, from: from[field], to: to[field] }));
+
+  const fromQuestions = new Map(
+    from.questions.map((question) => [String(question._id), question])
+  );
+  const toQuestionIds = new Set(
+    to.questions.map((question) => String(question._id))
+  );
+
+  const addedQuestions = to.questions
+    .filter((question) => !fromQuestions.has(String(question._id)))
+    .map(toQuestionDiff);
+  const removedQuestions = from.questions
+    .filter((question) => !toQuestionIds.has(String(question._id)))
+    .map(toQuestionDiff);
+
+  const changedQuestions: ChangedQuestion[] = [];
+  to.questions.forEach((question) => {
+    const previous = fromQuestions.get(String(question._id));
+    if (!previous) return;
+    const changedFields = DIFFED_QUESTION_FIELDS.filter(
+      (field) =>
+        serialize(field, previous[field]) !== serialize(field, question[field])
+    );
+    if (changedFields.length > 0) {
+      changedQuestions.push({ ...toQuestionDiff(question), changedFields });
+    }
+  });
+
+  // Questions outside of the longest run that kept its relative order moved
+  const keptQuestions = to.questions.filter((question) =>
+    fromQuestions.has(String(question._id))
+  );
+  const previousIndexes = keptQuestions.map((question) =>
+    from.questions.indexOf(fromQuestions.get(String(question._id))!)
+  );
+  const unmoved = getLongestIncreasingRun(previousIndexes);
+  const movedQuestions: MovedQuestion[] = keptQuestions
+    .filter((_, index) => !unmoved.has(index))
+    .map((question) => ({
+      ...toQuestionDiff(question),
+      from: from.questions.indexOf(fromQuestions.get(String(question._id))!),
+      to: to.questions.indexOf(question),
+    }));
+
+  return {
+    fieldChanges,
+    addedQuestions,
+    removedQuestions,
+    changedQuestions,
+    movedQuestions,
+  };
+}
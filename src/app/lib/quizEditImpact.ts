@@ -0,0 +1,175 @@
+import { Submission } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import {
+  diffQuizVersions,
+  type DiffableQuestion,
+  type DiffableQuiz,
+  type DiffedQuestionField,
+} from "./quizDiff";
+
+// Destructive changes to quizzes that students already took. Submissions are
+// graded against the version they answered (see quizVersions.ts), but the
+// results page lists the current questions: the results of a removed question
+// are no longer shown, and the results of a question with a changed answer key
+// mix answers to the old and new question. `PUT` and `DELETE` on
+// `/api/quizzes/[id]` require a confirmation for such changes.
+
+export const CONFIRM_PARAM = "confirm";
+
+// Changing these fields changes what a correct answer to the question is
+export const DESTRUCTIVE_QUESTION_FIELDS: DiffedQuestionField[] = [
+  "type",
+  "answers",
+  "targetType",
+  "target_id",
+  "acceptedAnswers",
+  "typoTolerance",
+];
+
+export interface AffectedQuestion {
+  questionId: string;
+  questionText: string;
+  answerCount: number; // Number of submissions that answered the question
+  changedFields?: DiffedQuestionField[];
+}
+
+export interface QuizEditImpact {
+  submissionCount: number;
+  removedQuestions: AffectedQuestion[];
+  changedQuestions: AffectedQuestion[];
+}
+
+/**
+ * Returns whether a request confirmed a destructive change with `?confirm=true`.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {boolean} True if the change was confirmed.
+ */
+export function isConfirmed(req: Request): boolean {
+  return new URL(req.url).searchParams.get(CONFIRM_PARAM) === "true";
+}
+
+/**
+ * Returns the `_id`s of the answers of a question. Answers without an `_id`
+ * are left out.
+ *
+ * @param {DiffableQuestion} question - The question.
+ * @returns {string[]} The answer `_id`s.
+ */
+const getAnswerIds = (question: DiffableQuestion): string[] =>
+  Array.isArray(question.answers)
+    ? question.answers.flatMap((answer) =>
+        answer?._id ? [String(answer._id)] : []
+      )
+    : [];
+
+/**
+ * Returns the questions that an update removes or whose answer key it changes.
+ * Changes to the question text or the order of the questions are not
+ * destructive. Submissions refer to the selected answer by its `_id`, so an
+ * answer that gets a new `_id` changes the answer key even if its text and
+ * correctness stay the same.
+ *
+ * @param {DiffableQuiz} current - The stored quiz.
+ * @param {DiffableQuiz} updated - The quiz after the update.
+ * @returns {{ removedQuestions: Omit<AffectedQuestion, "answerCount">[]; changedQuestions: Omit<AffectedQuestion, "answerCount">[] }} The affected questions.
+ */
+export function getDestructiveChanges(
+  current: DiffableQuiz,
+  updated: DiffableQuiz
+): {
+  removedQuestions: Omit<AffectedQuestion, "answerCount">[];
+  changedQuestions: Omit<AffectedQuestion, "answerCount">[];
+} {
+  const diff = diffQuizVersions(current, updated);
+  const diffedFields = new Map(
+    diff.changedQuestions.map((question) => [
+      question.questionId,
+      question.changedFields,
+    ])
+  );
+  const currentQuestions = new Map(
+    current.questions.map((question) => [String(question._id), question])
+  );
+
+  return {
+    removedQuestions: diff.removedQuestions,
+    changedQuestions: updated.questions.flatMap((question) => {
+      const questionId = String(question._id);
+      const currentQuestion = currentQuestions.get(questionId);
+      if (!currentQuestion) return [];
+
+      const fields = diffedFields.get(questionId) ?? [];
+      const answerIds = new Set(getAnswerIds(question));
+      const answerIdsChanged = getAnswerIds(currentQuestion).some(
+        (answerId) => !answerIds.has(answerId)
+      );
+      const changedFields = DESTRUCTIVE_QUESTION_FIELDS.filter(
+        (field) =>
+          fields.includes(field) || (field === "answers" && answerIdsChanged)
+      );
+      return changedFields.length > 0
+        ? [{ questionId, questionText: question.questionText, changedFields }]
+        : [];
+    }),
+  };
+}
+
+/**
+ * Determines how an update or deletion affects the existing submissions of a
+ * quiz. Without an updated quiz the quiz is deleted, which removes the results
+ * of every question.
+ *
+ * @param {string} quizId - The ID of the quiz.
+ * @param {DiffableQuiz} current - The stored quiz.
+ * @param {DiffableQuiz} [updated] - The quiz after the update, omitted for a deletion.
+ * @returns {Promise<QuizEditImpact | null>} The impact, or null if the quiz has no submissions or the update is not destructive.
+ */
+export async function getQuizEditImpact(
+  quizId: string,
+  current: DiffableQuiz,
+  updated?: DiffableQuiz
+): Promise<QuizEditImpact | null> {
+  const changes = getDestructiveChanges(current, updated ?? { questions: [] });
+  if (
+    updated &&
+    changes.removedQuestions.length === 0 &&
+    changes.changedQuestions.length === 0
+  ) {
+    return null;
+  }
+
+  const [counts] = await Submission.aggregate<{
+    submissionCount: { count: number }[];
+    answerCounts: { _id: Types.ObjectId; count: number }[];
+  }>([
+    { $match: { quiz_id: new Types.ObjectId(quizId) } },
+    {
+      $facet: {
+        submissionCount: [{ $count: "count" }],
+        answerCounts: [
+          { $unwind: "$answers" },
+          { $group: { _id: "$answers.question_id", count: { $sum: 1 } } },
+        ],
+      },
+    },
+  ]);
+  const submissionCount = counts?.submissionCount[0]?.count ?? 0;
+  if (submissionCount === 0) return null;
+
+  const answerCounts = new Map(
+    (counts?.answerCounts ?? []).map(({ _id, count }) => [String(_id), count])
+  );
+  const withAnswerCount = (
+    question: Omit<AffectedQuestion, "answerCount">
+  ): AffectedQuestion => ({
+    ...question,
+    answerCount: answerCounts.get(question.questionId) ?? 0,
+  });
+
+  return {
+    submissionCount,
+    removedQuestions: changes.removedQuestions.map(withAnswerCount),
+    changedQuestions: changes.changedQuestions.map(withAnswerCount),
+  };
+}
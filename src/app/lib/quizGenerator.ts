@@ -0,0 +1,139 @@
+import { BankQuestion, MeshCatalogItem, OrganGroup } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { getQuestionContent, type QuestionContent } from "./questionBank";
+
+// Generates quiz drafts like "10 select-organ questions from the Bones group
+// for year 1". A draft is not stored: it has the shape of the request body of
+// `POST /api/quizzes`, so the teacher can edit it on /create before saving.
+
+export interface GenerateQuizOptions {
+  organGroupIds: string[];
+  studyYear: number;
+  questionCount: number; // Number of generated select-organ questions
+  bankQuestionCount?: number; // Number of questions drawn from the question bank
+}
+
+export interface QuizDraftQuestion {
+  questionText: string;
+  type: QuestionContent["type"];
+  answers: { text: string; isCorrect: boolean }[];
+  targetType?: "mesh" | "group";
+  target_id?: string;
+  acceptedAnswers?: string[];
+  typoTolerance?: number;
+  bankQuestion_id?: string;
+  bankLink?: "reference" | "copy";
+}
+
+export interface QuizDraft {
+  title: string;
+  description: string;
+  studyYear: number;
+  questions: QuizDraftQuestion[];
+}
+
+/**
+ * Returns the text of a generated select-organ question for a mesh.
+ *
+ * @param {string} displayName - The display name of the mesh, e.g. "Fourth Rib (L)".
+ * @returns {string} The question text.
+ */
+export const getSelectMeshQuestionText = (displayName: string): string =>
+  `Select the ${displayName}`;
+
+/**
+ * Converts a bank question into a question of a draft. The question is added as
+ * a copy, so the teacher can change it without affecting the bank.
+ *
+ * @param {QuestionContent & { _id: Types.ObjectId }} bankQuestion - The bank question.
+ * @returns {QuizDraftQuestion} The draft question.
+ */
+function toDraftQuestion(
+  bankQuestion: QuestionContent & { _id: Types.ObjectId }
+): QuizDraftQuestion {
+  const content = getQuestionContent(bankQuestion);
+  return {
+    ...content,
+    answers: (content.answers ?? []).map(({ text, isCorrect }) => ({
+      text,
+      isCorrect,
+    })),
+    target_id: content.target_id?.toString(),
+    bankQuestion_id: bankQuestion._id.toString(),
+    bankLink: "copy",
+  };
+}
+
+/**
+ * Generates a quiz draft with randomly drawn questions:
+ *
+ * - select-organ questions for meshes of the catalog that belong to one of the
+ *   organ groups and have the study year as their default study year.
+ * - questions from the question bank tagged with one of the organ groups, for
+ *   the study year or without a study year.
+ *
+ * Fewer questions are returned if not enough meshes or bank questions match.
+ *
+ * @param {GenerateQuizOptions} options - The organ groups, study year and number of questions.
+ * @returns {Promise<QuizDraft>} The quiz draft.
+ */
+export async function generateQuizDraft({
+  organGroupIds,
+  studyYear,
+  questionCount,
+  bankQuestionCount = 0,
+}: GenerateQuizOptions): Promise<QuizDraft> {
+  const groupObjectIds = organGroupIds.map((id) => new Types.ObjectId(id));
+
+  const [meshes, bankQuestions, groups] = await Promise.all([
+    questionCount > 0
+      ? MeshCatalogItem.aggregate<{
+          _id: Types.ObjectId;
+          displayName: string;
+        }>([
+          {
+            $match: {
+              organGroupIds: { $in: groupObjectIds },
+              defaultStudyYear: studyYear,
+            },
+          },
+          { $sample: { size: questionCount } },
+          { $project: { displayName: 1 } },
+        ])
+      : [],
+    bankQuestionCount > 0
+      ? BankQuestion.aggregate<QuestionContent & { _id: Types.ObjectId }>([
+          {
+            $match: {
+              organGroupIds: { $in: groupObjectIds },
+              studyYear: { $in: [studyYear, null] },
+            },
+          },
+          { $sample: { size: bankQuestionCount } },
+        ])
+      : [],
+    OrganGroup.find({ _id: { $in: groupObjectIds } })
+      .select("groupName")
+      .lean<{ _id: Types.ObjectId; groupName: string }[]>(),
+  ]);
+
+  const groupNames = groups.map((group) => group.groupName).join(", ");
+
+  return {
+    title: `${groupNames} - Year ${studyYear}`,
+    description: `Generated from the organ groups: ${groupNames}`,
+    studyYear,
+    questions: [
+      ...meshes.map(
+        (mesh): QuizDraftQuestion => ({
+          questionText: getSelectMeshQuestionText(mesh.displayName),
+          type: "select-organ",
+          targetType: "mesh",
+          target_id: mesh._id.toString(),
+          answers: [],
+        })
+      ),
+      ...bankQuestions.map(toDraftQuestion),
+    ],
+  };
+}
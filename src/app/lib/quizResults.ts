@@ -0,0 +1,286 @@
+import { Types } from "mongoose";
+import { MeshCatalogItem, Student, Submission } from "@/app/models/Quiz";
+import type { IQuestion, IQuiz, ISubmissionAnswer } from "@/app/models/Quiz";
+import {
+  gradeSubmission,
+  loadGradingMeshes,
+  loadShortAnswerGrades,
+} from "./grading";
+import { loadVersionQuestions } from "./quizVersions";
+import { buildSubmissionQuery, selectSubmissions } from "./resultsFilter";
+import type { ResultsFilter } from "./resultsFilter";
+import type { XlsxCell } from "./xlsx";
+
+// Per-submission results of a quiz, for exports and reports. Unlike the
+// aggregated results of GET /api/quizzes/[id]/results, every submission is
+// listed with its student and its graded answers. Submissions are graded
+// against the version of the quiz they answered, including the manual
+// short-answer grades, so the scores match the results page.
+
+export type ResultsQuiz = Pick<
+  IQuiz,
+  "_id" | "title" | "version" | "questions"
+>;
+
+export interface GradedQuizSubmission {
+  _id: Types.ObjectId;
+  student?: { name: string; email: string; cohort?: string };
+  studyYearAtSubmission: number;
+  submittedAt: Date;
+  quizVersion: number;
+  answers: Map<string, ISubmissionAnswer>; // Graded answers by question `_id` string
+  answeredQuestions: Map<string, IQuestion>; // The questions as they were in the answered version
+  score: number;
+  maxScore: number;
+}
+
+type LeanSubmission = {
+  _id: Types.ObjectId;
+  student_id?: Types.ObjectId;
+  studyYearAtSubmission: number;
+  submittedAt: Date;
+  answers: ISubmissionAnswer[];
+  quizVersion?: number;
+};
+
+/**
+ * Fetches and grades the submissions of a quiz, oldest first.
+ *
+ * @param {ResultsQuiz} quiz - The quiz.
+ * @param {ResultsFilter} [filter] - Only include the submissions that match this filter.
+ * @returns {Promise<GradedQuizSubmission[]>} The graded submissions with their students.
+ */
+export async function loadGradedSubmissions(
+  quiz: ResultsQuiz,
+  filter: ResultsFilter = {}
+): Promise<GradedQuizSubmission[]> {
+  const submissions = selectSubmissions(
+    await Submission.find(await buildSubmissionQuery(String(quiz._id), filter))
+      .sort({ submittedAt: 1 })
+      .lean<LeanSubmission[]>(),
+    filter
+  );
+  if (submissions.length === 0) return [];
+
+  const studentIds = Array.from(
+    new Set(
+      submissions.flatMap((submission) =>
+        submission.student_id ? [submission.student_id.toString()] : []
+      )
+    )
+  );
+  const [students, meshMap, shortAnswerGrades, versionQuestions] =
+    await Promise.all([
+      studentIds.length
+        ? Student.find({
+            _id: { $in: studentIds.map((id) => new Types.ObjectId(id)) },
+          })
+            .select("name email cohort")
+            .lean<
+              {
+                _id: Types.ObjectId;
+                name: string;
+                email: string;
+                cohort?: string;
+              }[]
+            >()
+        : [],
+      loadGradingMeshes(
+        submissions.flatMap((submission) => submission.answers)
+      ),
+      loadShortAnswerGrades(String(quiz._id)),
+      loadVersionQuestions(
+        quiz,
+        submissions.map((submission) => submission.quizVersion)
+      ),
+    ]);
+  const studentMap = new Map(
+    students.map((student) => [student._id.toString(), student])
+  );
+
+  return submissions.map((submission) => {
+    const quizVersion = submission.quizVersion ?? 1;
+    const questions = versionQuestions.get(quizVersion)!;
+    const graded = gradeSubmission(
+      questions,
+      submission.answers,
+      meshMap,
+      shortAnswerGrades
+    );
+    const student = submission.student_id
+      ? studentMap.get(submission.student_id.toString())
+      : undefined;
+    return {
+      _id: submission._id,
+      student: student && {
+        name: student.name,
+        email: student.email,
+        cohort: student.cohort,
+      },
+      studyYearAtSubmission: submission.studyYearAtSubmission,
+      submittedAt: submission.submittedAt,
+      quizVersion,
+      answers: new Map(
+        graded.answers.map((answer) => [answer.question_id.toString(), answer])
+      ),
+      answeredQuestions: new Map(
+        questions.map((question) => [question._id?.toString() ?? "", question])
+      ),
+      score: graded.score,
+      maxScore: graded.maxScore,
+    };
+  });
+}
+
+/**
+ * Returns the result of a graded answer for the exports.
+ *
+ * @param {ISubmissionAnswer | undefined} answer - The graded answer.
+ * @returns {string} Correct, Partial, Incorrect, Not graded or Not answered.
+ */
+export const getAnswerResultLabel = (
+  answer: ISubmissionAnswer | undefined
+): string => {
+  if (!answer) return "Not answered";
+  if (answer.credit === undefined) return "Not graded";
+  if (answer.credit >= 1) return "Correct";
+  return answer.credit > 0 ? "Partial" : "Incorrect";
+};
+
+const toPercentage = (value: number, total: number): number =>
+  total > 0 ? Math.round((value / total) * 1000) / 10 : 0;
+
+/**
+ * Builds the result tables of a quiz: one row per submission with the answer
+ * and result of every question, and one row per question with its totals.
+ * The columns are the current questions of the quiz; answers to questions that
+ * were removed since only count towards the score.
+ *
+ * @param {ResultsQuiz} quiz - The quiz.
+ * @param {GradedQuizSubmission[]} submissions - The graded submissions, see {@link loadGradedSubmissions}.
+ * @returns {Promise<{ submissions: XlsxCell[][]; summary: XlsxCell[][] }>} The tables, with a header row.
+ */
+export async function buildResultsTables(
+  quiz: ResultsQuiz,
+  submissions: GradedQuizSubmission[]
+): Promise<{ submissions: XlsxCell[][]; summary: XlsxCell[][] }> {
+  // Display names of the clicked meshes of select-organ answers
+  const meshIds = new Set<string>();
+  submissions.forEach((submission) =>
+    submission.answers.forEach((answer) => {
+      const meshId = answer.responseText_ClickedMesh_id?.toString();
+      if (meshId && Types.ObjectId.isValid(meshId)) meshIds.add(meshId);
+    })
+  );
+  const meshes = meshIds.size
+    ? await MeshCatalogItem.find({
+        _id: { $in: Array.from(meshIds).map((id) => new Types.ObjectId(id)) },
+      })
+        .select("displayName")
+        .lean<{ _id: Types.ObjectId; displayName: string }[]>()
+    : [];
+  const meshNames = new Map(
+    meshes.map((mesh) => [mesh._id.toString(), mesh.displayName])
+  );
+
+  const getAnswerText = (
+    answer: ISubmissionAnswer | undefined,
+    question: IQuestion | undefined
+  ): string => {
+    if (!answer) return "";
+    if (answer.selectedAnswer_id) {
+      const selectedId = answer.selectedAnswer_id.toString();
+      return (
+        question?.answers?.find(
+          (option) => option._id?.toString() === selectedId
+        )?.text ?? ""
+      );
+    }
+    if (answer.responseText_ClickedMesh_id) {
+      const meshId = answer.responseText_ClickedMesh_id.toString();
+      return meshNames.get(meshId) ?? meshId;
+    }
+    return answer.responseText_ShortAnswer?.trim() ?? "";
+  };
+
+  const questionIds = quiz.questions.map(
+    (question) => question._id?.toString() ?? ""
+  );
+
+  const submissionRows: XlsxCell[][] = [
+    [
+      "Student",
+      "Email",
+      "Cohort",
+      "Study Year",
+      "Submitted At",
+      "Quiz Version",
+      ...questionIds.flatMap((_, index) => [
+        `Q${index + 1} Answer`,
+        `Q${index + 1} Result`,
+      ]),
+      "Score",
+      "Max Score",
+      "Percentage",
+    ],
+    ...submissions.map((submission) => [
+      submission.student?.name ?? "",
+      submission.student?.email ?? "",
+      submission.student?.cohort ?? "",
+      submission.studyYearAtSubmission,
+      submission.submittedAt.toISOString(),
+      submission.quizVersion,
+      ...questionIds.flatMap((questionId) => {
+        const answer = submission.answers.get(questionId);
+        return [
+          getAnswerText(answer, submission.answeredQuestions.get(questionId)),
+          getAnswerResultLabel(answer),
+        ];
+      }),
+      submission.score,
+      submission.maxScore,
+      toPercentage(submission.score, submission.maxScore),
+    ]),
+  ];
+
+  const summaryRows: XlsxCell[][] = [
+    [
+      "Question",
+      "Question Text",
+      "Type",
+      "Answered",
+      "Correct",
+      "Partially Correct",
+      "Incorrect",
+      "Not Graded",
+      "Percentage Correct",
+    ],
+    ...quiz.questions.map((question, index) => {
+      const answers = submissions.flatMap((submission) => {
+        const answer = submission.answers.get(questionIds[index]);
+        return answer ? [answer] : [];
+      });
+      const count = (label: string) =>
+        answers.filter((answer) => getAnswerResultLabel(answer) === label)
+          .length;
+      const graded = answers.filter((answer) => answer.credit !== undefined);
+      const credit = graded.reduce(
+        (sum, answer) => sum + (answer.credit ?? 0),
+        0
+      );
+      return [
+        `Q${index + 1}`,
+        question.questionText,
+        question.type,
+        answers.length,
+        count("Correct"),
+        count("Partial"),
+        count("Incorrect"),
+        count("Not graded"),
+        toPercentage(credit, graded.length),
+      ];
+    }),
+  ];
+
+  return { submissions: submissionRows, summary: summaryRows };
+}
@@ -0,0 +1,349 @@
+import { MeshCatalogItem, OrganGroup, Quiz } from "@/app/models/Quiz";
+import type { IQuestion, IQuiz } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import { z } from "zod";
+import { loadClientTargets } from "./clientQuiz";
+import { requestQuestionSchema } from "./questionSchemas";
+import { isValidAvailabilityWindow } from "./availability";
+import { saveQuizVersion } from "./quizVersions";
+import type { SessionPayload } from "./session";
+
+// Portable quiz documents to move quizzes between databases, e.g. from the dev
+// to the production MongoDB. IDs are local to a database, so select-organ
+// targets are referenced by `meshName`/`groupName` and resolved against the
+// mesh catalog and organ groups of the importing database. Questions from the
+// question bank are exported as plain questions. Bump QUIZ_EXPORT_VERSION and
+// keep reading the old version when making a breaking change to the format.
+
+export const QUIZ_EXPORT_FORMAT = "quiz-manager/quizzes";
+export const QUIZ_EXPORT_VERSION = 1;
+export const SUPPORTED_QUIZ_EXPORT_VERSIONS = [1];
+
+const portableTargetSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("mesh"), meshName: z.string().trim().min(1) }),
+  z.object({ type: z.literal("group"), groupName: z.string().trim().min(1) }),
+]);
+
+const portableQuestionSchema = z.object({
+  questionText: z.string(),
+  type: z.enum([
+    "multiple-choice",
+    "true-false",
+    "select-organ",
+    "short-answer",
+  ]),
+  answers: z
+    .array(z.object({ text: z.string(), isCorrect: z.boolean() }))
+    .optional(),
+  target: portableTargetSchema.optional(),
+  acceptedAnswers: z.array(z.string()).optional(),
+  typoTolerance: z.number().optional(),
+});
+
+const portableQuizSchema = z.object({
+  title: z.string(),
+  description: z.string().optional(),
+  studyYear: z.number(),
+  questions: z.array(portableQuestionSchema),
+  scheduledAt: z.string().datetime().optional().nullable(),
+  opensAt: z.string().datetime().optional().nullable(),
+  closesAt: z.string().datetime().optional().nullable(),
+  gracePeriodMinutes: z.number().optional().nullable(),
+  shuffleQuestions: z.boolean().optional(),
+  shuffleAnswers: z.boolean().optional(),
+});
+
+export const quizExportDocumentSchema = z.object({
+  format: z.literal(QUIZ_EXPORT_FORMAT, {
+    errorMap: () => ({ message: "Not a quiz export document" }),
+  }),
+  version: z
+    .number()
+    .refine((version) => SUPPORTED_QUIZ_EXPORT_VERSIONS.includes(version), {
+      message: "Unsupported export version",
+    }),
+  exportedAt: z.string().optional(),
+  quizzes: z.array(portableQuizSchema),
+});
+
+export type PortableTarget = z.infer<typeof portableTargetSchema>;
+export type PortableQuestion = z.infer<typeof portableQuestionSchema>;
+export type PortableQuiz = z.infer<typeof portableQuizSchema>;
+export type QuizExportDocument = z.infer<typeof quizExportDocumentSchema>;
+
+export type ExportableQuiz = Pick<
+  IQuiz,
+  | "title"
+  | "description"
+  | "studyYear"
+  | "questions"
+  | "scheduledAt"
+  | "opensAt"
+  | "closesAt"
+  | "gracePeriodMinutes"
+  | "shuffleQuestions"
+  | "shuffleAnswers"
+>;
+
+export interface UnresolvedReference {
+  quizTitle: string;
+  questionIndex: number;
+  questionText: string;
+  target: PortableTarget;
+}
+
+export interface QuizImportReport {
+  dryRun: boolean; // Nothing was saved, `imported` lists the quizzes that would be imported
+  imported: { title: string; questionCount: number; _id?: string }[];
+  skipped: { title: string; errors: string[] }[];
+  unresolvedReferences: UnresolvedReference[];
+}
+
+/**
+ * Converts quizzes to the portable format, with select-organ targets as mesh
+ * and group names. A target that no longer exists is left out, the import
+ * reports the question as invalid.
+ *
+ * @param {ExportableQuiz[]} quizzes - The stored quizzes.
+ * @returns {Promise<PortableQuiz[]>} The portable quizzes.
+ */
+export async function toPortableQuizzes(
+  quizzes: ExportableQuiz[]
+): Promise<PortableQuiz[]> {
+  const targets = await loadClientTargets(quizzes);
+
+  const toPortableQuestion = (question: IQuestion): PortableQuestion => {
+    const portableQuestion: PortableQuestion = {
+      questionText: question.questionText,
+      type: question.type,
+    };
+    if (question.type === "multiple-choice" || question.type === "true-false") {
+      portableQuestion.answers = (question.answers ?? []).map(
+        ({ text, isCorrect }) => ({ text, isCorrect })
+      );
+    }
+    if (question.type === "select-organ" && question.target_id) {
+      const targetId = question.target_id.toString();
+      if (question.targetType === "group") {
+        const group = targets.groups.get(targetId);
+        if (group) {
+          portableQuestion.target = {
+            type: "group",
+            groupName: group.groupName,
+          };
+        }
+      } else {
+        const mesh = targets.meshes.get(targetId);
+        if (mesh) {
+          portableQuestion.target = { type: "mesh", meshName: mesh.meshName };
+        }
+      }
+    }
+    if (question.type === "short-answer") {
+      portableQuestion.acceptedAnswers = question.acceptedAnswers ?? [];
+      if (question.typoTolerance !== undefined) {
+        portableQuestion.typoTolerance = question.typoTolerance;
+      }
+    }
+    return portableQuestion;
+  };
+
+  return quizzes.map((quiz) => ({
+    title: quiz.title,
+    description: quiz.description,
+    studyYear: quiz.studyYear,
+    questions: quiz.questions.map(toPortableQuestion),
+    scheduledAt: quiz.scheduledAt?.toISOString() ?? null,
+    opensAt: quiz.opensAt?.toISOString() ?? null,
+    closesAt: quiz.closesAt?.toISOString() ?? null,
+    gracePeriodMinutes: quiz.gracePeriodMinutes ?? null,
+    shuffleQuestions: quiz.shuffleQuestions,
+    shuffleAnswers: quiz.shuffleAnswers,
+  }));
+}
+
+/**
+ * Builds the export document for the given quizzes, see {@link toPortableQuizzes}.
+ *
+ * @param {ExportableQuiz[]} quizzes - The stored quizzes.
+ * @returns {Promise<QuizExportDocument>} The export document.
+ */
+export async function buildQuizExport(
+  quizzes: ExportableQuiz[]
+): Promise<QuizExportDocument> {
+  return {
+    format: QUIZ_EXPORT_FORMAT,
+    version: QUIZ_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    quizzes: await toPortableQuizzes(quizzes),
+  };
+}
+
+/**
+ * Looks up the `_id` of every mesh and organ group name targeted by the
+ * portable quizzes.
+ *
+ * @param {PortableQuiz[]} quizzes - The portable quizzes.
+ * @returns {Promise<{ meshes: Map<string, Types.ObjectId>; groups: Map<string, Types.ObjectId> }>} The IDs by name.
+ */
+async function resolveTargetNames(quizzes: PortableQuiz[]): Promise<{
+  meshes: Map<string, Types.ObjectId>;
+  groups: Map<string, Types.ObjectId>;
+}> {
+  const meshNames = new Set<string>();
+  const groupNames = new Set<string>();
+  quizzes.forEach((quiz) =>
+    quiz.questions.forEach(({ target }) => {
+      if (target?.type === "mesh") meshNames.add(target.meshName);
+      if (target?.type === "group") groupNames.add(target.groupName);
+    })
+  );
+
+  const [meshes, groups] = await Promise.all([
+    meshNames.size
+      ? MeshCatalogItem.find({ meshName: { $in: Array.from(meshNames) } })
+          .select("meshName")
+          .lean<{ _id: Types.ObjectId; meshName: string }[]>()
+      : [],
+    groupNames.size
+      ? OrganGroup.find({ groupName: { $in: Array.from(groupNames) } })
+          .select("groupName")
+          .lean<{ _id: Types.ObjectId; groupName: string }[]>()
+      : [],
+  ]);
+
+  return {
+    meshes: new Map(meshes.map((mesh) => [mesh.meshName, mesh._id])),
+    groups: new Map(groups.map((group) => [group.groupName, group._id])),
+  };
+}
+
+/**
+ * Imports portable quizzes as new quizzes. Select-organ targets are resolved by
+ * name; a quiz with a target that does not exist in this database, or with
+ * invalid content, is skipped so no quiz is imported incomplete. The report
+ * lists the imported and skipped quizzes and every unresolved reference. With
+ * `dryRun` nothing is saved, so the report can be reviewed first.
+ *
+ * @param {PortableQuiz[]} quizzes - The portable quizzes, e.g. from {@link quizExportDocumentSchema}.
+ * @param {{ dryRun?: boolean; editor?: SessionPayload | null }} options - Whether to save the quizzes, and the teacher importing them.
+ * @returns {Promise<QuizImportReport>} The import report.
+ */
+export async function importPortableQuizzes(
+  quizzes: PortableQuiz[],
+  {
+    dryRun = false,
+    editor,
+  }: { dryRun?: boolean; editor?: SessionPayload | null }
+): Promise<QuizImportReport> {
+  const targetIds = await resolveTargetNames(quizzes);
+  const report: QuizImportReport = {
+    dryRun,
+    imported: [],
+    skipped: [],
+    unresolvedReferences: [],
+  };
+
+  for (const quiz of quizzes) {
+    const errors: string[] = [];
+    if (!quiz.title.trim()) errors.push("Title is required");
+    if (!Number.isInteger(quiz.studyYear) || quiz.studyYear < 1) {
+      errors.push("Study year must be a positive integer");
+    }
+    if (quiz.questions.length === 0) {
+      errors.push("At least one question is required");
+    }
+    if (!isValidAvailabilityWindow(quiz.opensAt, quiz.closesAt)) {
+      errors.push("The quiz must close after it opens");
+    }
+
+    let unresolvedCount = 0;
+    const questions = quiz.questions.map((question, questionIndex) => {
+      let target_id: Types.ObjectId | undefined;
+      if (question.target) {
+        target_id =
+          question.target.type === "group"
+            ? targetIds.groups.get(question.target.groupName)
+            : targetIds.meshes.get(question.target.meshName);
+        if (!target_id) {
+          unresolvedCount++;
+          report.unresolvedReferences.push({
+            quizTitle: quiz.title,
+            questionIndex,
+            questionText: question.questionText,
+            target: question.target,
+          });
+        }
+      }
+
+      // Validate the content like a question of a new quiz
+      const validationResult = requestQuestionSchema.safeParse({
+        questionText: question.questionText,
+        type: question.type,
+        answers: question.answers ?? [],
+        targetType: question.target?.type,
+        target_id: target_id?.toString(),
+        acceptedAnswers: question.acceptedAnswers,
+        typoTolerance: question.typoTolerance,
+      });
+      if (!validationResult.success && (!question.target || target_id)) {
+        errors.push(
+          `Question ${questionIndex + 1}: ${validationResult.error.errors
+            .map((e) => e.message)
+            .join(", ")}`
+        );
+      }
+
+      return {
+        questionText: question.questionText.trim(),
+        type: question.type,
+        answers: question.type === "select-organ" ? [] : question.answers ?? [],
+        targetType: question.target?.type,
+        target_id,
+        acceptedAnswers:
+          question.type === "short-answer"
+            ? question.acceptedAnswers ?? []
+            : undefined,
+        typoTolerance: question.typoTolerance,
+      };
+    });
+
+    if (unresolvedCount > 0) {
+      errors.push(`${unresolvedCount} select-organ targets could not be found`);
+    }
+
+    if (errors.length > 0) {
+      report.skipped.push({ title: quiz.title, errors });
+      continue;
+    }
+    if (dryRun) {
+      report.imported.push({
+        title: quiz.title,
+        questionCount: questions.length,
+      });
+      continue;
+    }
+
+    const newQuiz = new Quiz({
+      title: quiz.title.trim(),
+      description: quiz.description,
+      studyYear: quiz.studyYear,
+      questions,
+      scheduledAt: quiz.scheduledAt ? new Date(quiz.scheduledAt) : null,
+      opensAt: quiz.opensAt ? new Date(quiz.opensAt) : undefined,
+      closesAt: quiz.closesAt ? new Date(quiz.closesAt) : undefined,
+      gracePeriodMinutes: quiz.gracePeriodMinutes ?? undefined,
+      shuffleQuestions: quiz.shuffleQuestions,
+      shuffleAnswers: quiz.shuffleAnswers,
+    });
+    await newQuiz.save();
+    await saveQuizVersion(newQuiz.toObject(), editor);
+    report.imported.push({
+      title: newQuiz.title,
+      questionCount: questions.length,
+      _id: newQuiz._id.toString(),
+    });
+  }
+
+  return report;
+}
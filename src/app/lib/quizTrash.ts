@@ -0,0 +1,53 @@
+import {
+  Quiz,
+  QuizVersion,
+  ShortAnswerGrade,
+  Submission,
+} from "@/app/models/Quiz";
+import { Types } from "mongoose";
+
+// Soft deletion of quizzes. `DELETE /api/quizzes/[id]` moves a quiz to the
+// trash by setting `deletedAt`, so its submissions keep a quiz to refer to and
+// the quiz can be restored. Trashed quizzes are excluded from the quiz lists
+// and do not accept submissions. Purging a quiz from the trash removes it
+// permanently; its submissions are only removed when explicitly requested.
+
+// Matches quizzes that are not in the trash, `null` also matches quizzes
+// created before soft deletion that have no `deletedAt`
+export const NOT_IN_TRASH = { deletedAt: null };
+
+export const IN_TRASH = { deletedAt: { $ne: null } };
+
+export interface PurgeResult {
+  deletedSubmissions: number;
+}
+
+/**
+ * Permanently removes a quiz from the trash. With `deleteSubmissions` its
+ * submissions, short-answer grades and version snapshots are removed as well.
+ * Otherwise they are kept, e.g. for the student records, and the submissions
+ * no longer refer to an existing quiz.
+ *
+ * @param {string} quizId - The ID of the quiz.
+ * @param {boolean} deleteSubmissions - Whether the submissions are removed too.
+ * @returns {Promise<PurgeResult | null>} The number of removed submissions, or null if the quiz is not in the trash.
+ */
+export async function purgeQuiz(
+  quizId: string,
+  deleteSubmissions: boolean
+): Promise<PurgeResult | null> {
+  const purgedQuiz = await Quiz.findOneAndDelete({
+    _id: quizId,
+    ...IN_TRASH,
+  }).lean();
+  if (!purgedQuiz) return null;
+  if (!deleteSubmissions) return { deletedSubmissions: 0 };
+
+  const quizObjectId = new Types.ObjectId(quizId);
+  const { deletedCount } = await Submission.deleteMany({
+    quiz_id: quizObjectId,
+  });
+  await ShortAnswerGrade.deleteMany({ quiz_id: quizObjectId });
+  await QuizVersion.deleteMany({ quiz_id: quizObjectId });
+  return { deletedSubmissions: deletedCount };
+}
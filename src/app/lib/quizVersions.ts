@@ -0,0 +1,151 @@
+import { Quiz, QuizVersion } from "@/app/models/Quiz";
+import type { IQuestion, IQuiz, IQuizVersion } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+import type { SessionPayload } from "./session";
+
+// Every save of a quiz increments `Quiz.version` and stores an immutable
+// snapshot of the saved quiz (QuizVersion). Submissions record the version they
+// answered, so results and regrading use the questions the student saw, even
+// after the quiz was edited. Quizzes created before versioning have no version;
+// they are treated as version 1 and their content is stored as version 1 right
+// before they are changed for the first time.
+
+export const QUIZ_VERSION_FIELDS = [
+  "title",
+  "description",
+  "studyYear",
+  "questions",
+  "scheduledAt",
+  "opensAt",
+  "closesAt",
+  "gracePeriodMinutes",
+  "shuffleQuestions",
+  "shuffleAnswers",
+] as const;
+
+export type QuizVersionContent = Pick<
+  IQuizVersion,
+  (typeof QUIZ_VERSION_FIELDS)[number]
+>;
+
+// A quiz with the fields needed to store a version of it
+export type VersionedQuiz = QuizVersionContent & {
+  _id: Types.ObjectId;
+  version?: number;
+};
+
+/**
+ * Returns the current version of a quiz.
+ *
+ * @param {Pick<IQuiz, "version">} quiz - The quiz.
+ * @returns {number} The version, 1 for quizzes that were not saved since versioning.
+ */
+export function getQuizVersion(quiz: Pick<IQuiz, "version">): number {
+  return quiz.version ?? 1;
+}
+
+/**
+ * Stores a snapshot of a quiz as its current version. An existing snapshot of
+ * the version is never overwritten.
+ *
+ * @param {VersionedQuiz} quiz - The quiz as it was saved.
+ * @param {SessionPayload | null} [editor] - The teacher who saved the quiz.
+ * @returns {Promise<void>}
+ */
+export async function saveQuizVersion(
+  quiz: VersionedQuiz,
+  editor?: SessionPayload | null
+): Promise<void> {
+  const snapshot: Record<string, unknown> = {
+    editedBy: editor ? new Types.ObjectId(editor.sub) : undefined,
+    editedByName: editor?.name,
+  };
+  QUIZ_VERSION_FIELDS.forEach((field) => {
+    snapshot[field] = quiz[field] ?? undefined;
+  });
+
+  await QuizVersion.updateOne(
+    { quiz_id: quiz._id, version: getQuizVersion(quiz) },
+    { $setOnInsert: snapshot },
+    { upsert: true }
+  );
+}
+
+/**
+ * Stores the content of a quiz that was created before versioning as version 1,
+ * so its submissions can still be graded against it after the quiz is changed.
+ * Does nothing for quizzes that already have a version.
+ *
+ * @param {VersionedQuiz} quiz - The quiz before it is changed.
+ * @returns {Promise<void>}
+ */
+export async function ensureQuizVersioned(quiz: VersionedQuiz): Promise<void> {
+  if (quiz.version !== undefined) return;
+
+  await saveQuizVersion({ ...quiz, version: 1 });
+  await Quiz.updateOne(
+    { _id: quiz._id, version: { $exists: false } },
+    { $set: { version: 1 } }
+  );
+}
+
+/**
+ * Returns the questions of the given versions of a quiz. Versions without a
+ * snapshot get the current questions.
+ *
+ * @param {Pick<IQuiz, "_id" | "version" | "questions">} quiz - The current quiz.
+ * @param {Iterable<number | undefined>} versions - The versions, e.g. the `quizVersion` of submissions.
+ * @returns {Promise<Map<number, IQuestion[]>>} The questions by version, including every requested version.
+ */
+export async function loadVersionQuestions(
+  quiz: Pick<IQuiz, "_id" | "version" | "questions">,
+  versions: Iterable<number | undefined>
+): Promise<Map<number, IQuestion[]>> {
+  const currentVersion = getQuizVersion(quiz);
+  const requestedVersions = new Set(
+    Array.from(versions, (version) => version ?? 1)
+  );
+  requestedVersions.delete(currentVersion);
+
+  const snapshots = requestedVersions.size
+    ? await QuizVersion.find({
+        quiz_id: new Types.ObjectId(String(quiz._id)),
+        version: { $in: Array.from(requestedVersions) },
+      })
+        .select("version questions")
+        .lean<{ version: number; questions: IQuestion[] }[]>()
+    : [];
+
+  const questionsByVersion = new Map<number, IQuestion[]>([
+    [currentVersion, quiz.questions],
+  ]);
+  snapshots.forEach((snapshot) =>
+    questionsByVersion.set(snapshot.version, snapshot.questions)
+  );
+  requestedVersions.forEach(
+    (version) =>
+      !questionsByVersion.has(version) &&
+      questionsByVersion.set(version, quiz.questions)
+  );
+  return questionsByVersion;
+}
+
+/**
+ * Returns the content of a version of a quiz. The current version of a quiz that
+ * was not saved since versioning has no snapshot, its content is the quiz itself.
+ *
+ * @param {VersionedQuiz} quiz - The current quiz.
+ * @param {number} version - The version.
+ * @returns {Promise<(QuizVersionContent & { version: number }) | null>} The version, or null if it does not exist.
+ */
+export async function findQuizVersion(
+  quiz: VersionedQuiz,
+  version: number
+): Promise<(QuizVersionContent & { version: number }) | null> {
+  const snapshot = await QuizVersion.findOne({
+    quiz_id: new Types.ObjectId(String(quiz._id)),
+    version,
+  }).lean<QuizVersionContent & { version: number }>();
+  if (snapshot) return snapshot;
+  return version === getQuizVersion(quiz) ? { ...quiz, version } : null;
+}
@@ -0,0 +1,202 @@
+import { NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { Student } from "@/app/models/Quiz";
+
+// Filters for the results of a quiz, e.g. to compare year 1 and year 4
+// students on the same quiz. The same query parameters are accepted by the
+// results, the item analysis, the export and the report of a quiz, so the
+// downloads match what the results page shows.
+// The first or latest attempt is determined among all submissions of a student
+// to the quiz, before the study year and date filters are applied: a student
+// whose first attempt was in year 1 has no first attempt in year 4.
+
+export type ResultsAttempt = "first" | "latest";
+
+export interface ResultsFilter {
+  studyYear?: number; // The study year at submission
+  from?: Date; // Submitted at or after
+  to?: Date; // Submitted at or before
+  cohort?: string; // The cohort of the student, excludes anonymous submissions
+  attempt?: ResultsAttempt; // Only the first or latest submission of every student
+}
+
+type FilterableSubmission = {
+  student_id?: Types.ObjectId;
+  studyYearAtSubmission: number;
+  submittedAt: Date;
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses the results filter from the query parameters of a request.
+ *
+ * Query Parameters:
+ * - studyYearAtSubmission: The study year at submission, a positive integer.
+ *   `studyYear` is accepted as well for older links.
+ * - from / to: The first and last submission date (ISO 8601). A `to` date
+ *   without a time includes that whole day (UTC).
+ * - cohort: The cohort of the student.
+ * - attempt: `first` or `latest`, only the first or latest submission of every
+ *   student. Anonymous submissions each count as their own attempt.
+ *
+ * @param {URLSearchParams} searchParams - The query parameters.
+ * @returns {ResultsFilter | NextResponse} The filter, or a 400 response for an invalid parameter.
+ */
+export function parseResultsFilter(
+  searchParams: URLSearchParams
+): ResultsFilter | NextResponse {
+  const filter: ResultsFilter = {};
+  const invalid = (message: string) =>
+    NextResponse.json({ error: message }, { status: 400 });
+
+  const studyYearKey = searchParams.has("studyYearAtSubmission")
+    ? "studyYearAtSubmission"
+    : "studyYear";
+  const studyYearQuery = searchParams.get(studyYearKey);
+  if (studyYearQuery) {
+    const year = Number(studyYearQuery);
+    if (!Number.isInteger(year) || year < 1) {
+      return invalid(
+        `Invalid ${studyYearKey} parameter. Must be a positive integer.`
+      );
+    }
+    filter.studyYear = year;
+  }
+
+  for (const key of ["from", "to"] as const) {
+    const dateQuery = searchParams.get(key);
+    if (!dateQuery) continue;
+    const date = new Date(dateQuery);
+    if (isNaN(date.getTime())) {
+      return invalid(`Invalid ${key} parameter. Must be an ISO 8601 date.`);
+    }
+    if (key === "to" && DATE_ONLY.test(dateQuery)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    filter[key] = date;
+  }
+  if (filter.from && filter.to && filter.from > filter.to) {
+    return invalid("Invalid date range. 'from' must be before 'to'.");
+  }
+
+  const cohortQuery = searchParams.get("cohort")?.trim();
+  if (cohortQuery) filter.cohort = cohortQuery;
+
+  const attemptQuery = searchParams.get("attempt");
+  if (attemptQuery) {
+    if (attemptQuery !== "first" && attemptQuery !== "latest") {
+      return invalid("Invalid attempt parameter. Must be 'first' or 'latest'.");
+    }
+    filter.attempt = attemptQuery;
+  }
+
+  return filter;
+}
+
+/**
+ * Builds the query for the submissions of a quiz that match a filter. With an
+ * attempt filter, the study year and dates are left to
+ * {@link selectSubmissions}, since the attempts of a student have to be
+ * determined among all of their submissions.
+ *
+ * @param {string} quizId - The ID of the quiz.
+ * @param {ResultsFilter} filter - The filter.
+ * @returns {Promise<Record<string, unknown>>} The query for `Submission.find`.
+ */
+export async function buildSubmissionQuery(
+  quizId: string,
+  filter: ResultsFilter
+): Promise<Record<string, unknown>> {
+  const query: Record<string, unknown> = {
+    quiz_id: new Types.ObjectId(quizId),
+  };
+
+  if (filter.cohort) {
+    const students = await Student.find({ cohort: filter.cohort })
+      .select("_id")
+      .lean<{ _id: Types.ObjectId }[]>();
+    query.student_id = { $in: students.map((student) => student._id) };
+  }
+
+  if (!filter.attempt) {
+    if (filter.studyYear !== undefined) {
+      query.studyYearAtSubmission = filter.studyYear;
+    }
+    if (filter.from || filter.to) {
+      query.submittedAt = {
+        ...(filter.from && { $gte: filter.from }),
+        ...(filter.to && { $lte: filter.to }),
+      };
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Selects the submissions that match a filter from the result of the query of
+ * {@link buildSubmissionQuery}: keeps the first or latest attempt of every
+ * student and then applies the study year and dates.
+ *
+ * @param {T[]} submissions - The submissions returned by the query, in any order.
+ * @param {ResultsFilter} filter - The filter.
+ * @returns {T[]} The matching submissions, in their original order.
+ */
+export function selectSubmissions<T extends FilterableSubmission>(
+  submissions: T[],
+  filter: ResultsFilter
+): T[] {
+  let selected = submissions;
+
+  if (filter.attempt) {
+    const attempts = new Map<string, T>();
+    submissions.forEach((submission) => {
+      if (!submission.student_id) return;
+      const studentId = submission.student_id.toString();
+      const current = attempts.get(studentId);
+      const submittedAt = new Date(submission.submittedAt).getTime();
+      const currentAt = current && new Date(current.submittedAt).getTime();
+      if (
+        currentAt === undefined ||
+        (filter.attempt === "first"
+          ? submittedAt < currentAt
+          : submittedAt >= currentAt)
+      ) {
+        attempts.set(studentId, submission);
+      }
+    });
+    const kept = new Set(attempts.values());
+    selected = selected.filter(
+      (submission) => !submission.student_id || kept.has(submission)
+    );
+  }
+
+  return selected.filter((submission) => {
+    const submittedAt = new Date(submission.submittedAt);
+    return (
+      (filter.studyYear === undefined ||
+        submission.studyYearAtSubmission === filter.studyYear) &&
+      (!filter.from || submittedAt >= filter.from) &&
+      (!filter.to || submittedAt <= filter.to)
+    );
+  });
+}
+
+/**
+ * Describes a results filter for the results report, e.g. "Submitted in study year 1".
+ *
+ * @param {ResultsFilter} filter - The filter.
+ * @returns {string[]} One description per filter, empty without filters.
+ */
+export function describeResultsFilter(filter: ResultsFilter): string[] {
+  const toDate = (date: Date) => date.toISOString().slice(0, 10);
+  return [
+    filter.studyYear !== undefined &&
+      `Submitted in study year ${filter.studyYear}`,
+    filter.from && `Submitted from ${toDate(filter.from)}`,
+    filter.to && `Submitted until ${toDate(filter.to)}`,
+    filter.cohort && `Cohort ${filter.cohort}`,
+    filter.attempt && `Only the ${filter.attempt} attempt of every student`,
+  ].filter((description): description is string => Boolean(description));
+}
@@ -0,0 +1,223 @@
+import type { IQuiz } from "@/app/models/Quiz";
+import { createPdfWriter } from "./pdf";
+import type { PdfBar } from "./pdf";
+import type { QuestionResult, ShortAnswerResponse } from "./questionResults";
+import type { GradedQuizSubmission } from "./quizResults";
+
+// Printable results report of a quiz. The report has the same content as the
+// results page: the statistics and the answer chart of every question and the
+// grouped responses to short-answer questions, preceded by the quiz details
+// and the overall scores. The charts are drawn in the PDF itself, so the
+// report is generated entirely on the server.
+
+// The colors of the charts on the results page
+const CORRECT_COLOR = "#82ca9d";
+const INCORRECT_COLOR = "#fa8072";
+const NEUTRAL_COLOR = "#8884d8";
+const MUTED_COLOR = "#4b5563";
+
+/**
+ * Formats a date for the report.
+ *
+ * @param {Date} date - The date.
+ * @returns {string} The date and time in UTC, e.g. 2024-01-31 12:00 UTC.
+ */
+const formatDate = (date: Date): string =>
+  `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+
+/**
+ * Formats a share as a percentage.
+ *
+ * @param {number} value - The count.
+ * @param {number} total - The total.
+ * @returns {string} The percentage with one decimal, e.g. 42.5%.
+ */
+const formatPercentage = (value: number, total: number): string =>
+  `${total > 0 ? ((value / total) * 100).toFixed(1) : "0.0"}%`;
+
+/**
+ * Returns the result of a group of short-answer responses for the report.
+ *
+ * @param {ShortAnswerResponse} response - The grouped response.
+ * @returns {string} The result, marked if it is a manual grade.
+ */
+const getResponseResult = (response: ShortAnswerResponse): string => {
+  if (response.manualGrade) {
+    const verdict = response.manualGrade.verdict;
+    return `${verdict.charAt(0).toUpperCase()}${verdict.slice(1)} (manual)`;
+  }
+  if (response.isCorrect === undefined) return "Not graded";
+  return response.isCorrect ? "Correct" : "Incorrect";
+};
+
+/**
+ * Builds the PDF results report of a quiz.
+ *
+ * @param {IQuiz} quiz - The quiz.
+ * @param {QuestionResult[]} questionResults - The results per question, see {@link computeQuestionResults}.
+ * @param {GradedQuizSubmission[]} submissions - The graded submissions, see {@link loadGradedSubmissions}.
+ * @param {string[]} [filterDescriptions] - The filters applied to the submissions, see {@link describeResultsFilter}.
+ * @returns {Promise<Buffer>} The PDF document.
+ */
+export async function buildResultsReport(
+  quiz: IQuiz,
+  questionResults: QuestionResult[],
+  submissions: GradedQuizSubmission[],
+  filterDescriptions: string[] = []
+): Promise<Buffer> {
+  const pdf = createPdfWriter(`${quiz.title} - Results`);
+
+  pdf.text(quiz.title, { size: 18, bold: true });
+  pdf.text("Quiz results report", { size: 11, color: MUTED_COLOR });
+  pdf.space(8);
+  if (quiz.description) {
+    pdf.text(quiz.description);
+    pdf.space(6);
+  }
+
+  const scores = submissions.map((submission) =>
+    submission.maxScore > 0 ? submission.score / submission.maxScore : 0
+  );
+  const averageScore =
+    scores.length > 0
+      ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+      : undefined;
+  const details: [string, string][] = [
+    ["Study year", `Year ${quiz.studyYear}`],
+    ["Quiz version", String(quiz.version ?? 1)],
+    ["Questions", String(quiz.questions.length)],
+    ...filterDescriptions.map((description): [string, string] => [
+      "Filter",
+      description,
+    ]),
+    ["Submissions", String(submissions.length)],
+    [
+      "Average score",
+      averageScore === undefined ? "-" : formatPercentage(averageScore, 1),
+    ],
+  ];
+  if (submissions.length > 0) {
+    details.push(
+      ["First submission", formatDate(submissions[0].submittedAt)],
+      [
+        "Last submission",
+        formatDate(submissions[submissions.length - 1].submittedAt),
+      ]
+    );
+  }
+  details.push(["Generated", formatDate(new Date())]);
+  pdf.table(
+    [
+      { header: "Detail", width: 0.35 },
+      { header: "Value", width: 0.65 },
+    ],
+    details
+  );
+
+  questionResults.forEach((result, index) => {
+    pdf.space(16);
+    pdf.rule();
+    pdf.text(`Q${index + 1}. ${result.questionText}`, {
+      size: 12,
+      bold: true,
+    });
+    pdf.space(2);
+
+    const isShortAnswer = result.questionType === "short-answer";
+    const isGraded =
+      !isShortAnswer ||
+      (result.acceptedAnswers?.length ?? 0) > 0 ||
+      Boolean(
+        result.shortAnswerResponses?.some((response) => response.manualGrade)
+      );
+    const statistics = [
+      `Type: ${result.questionType}`,
+      `Submissions: ${result.totalSubmissionsForQuestion}`,
+      isGraded
+        ? `Correct: ${result.totalCorrect} (${formatPercentage(
+            result.totalCorrect,
+            result.totalSubmissionsForQuestion
+          )})`
+        : "Correct: not graded",
+    ];
+    if (result.totalPartiallyCorrect) {
+      statistics.push(`Partially correct: ${result.totalPartiallyCorrect}`);
+    }
+    pdf.text(statistics.join("   "), { size: 9, color: MUTED_COLOR });
+
+    if (isShortAnswer) {
+      pdf.text(
+        `Accepted answers: ${
+          result.acceptedAnswers?.length
+            ? result.acceptedAnswers.join(", ")
+            : "none (graded manually)"
+        }`,
+        { size: 9, color: MUTED_COLOR }
+      );
+    } else if (result.questionType === "select-organ") {
+      pdf.text(
+        `Correct organ: ${result.correctTargetDisplayName ?? "Unknown"}`,
+        { size: 9, color: MUTED_COLOR }
+      );
+    } else {
+      const correctOptions = result.answersBreakdown
+        .filter((answer) => answer.isCorrectOption)
+        .map((answer) => answer.answerText);
+      pdf.text(
+        `Correct answer: ${
+          correctOptions.length ? correctOptions.join(", ") : "none"
+        }`,
+        { size: 9, color: MUTED_COLOR }
+      );
+    }
+    pdf.space(6);
+
+    if (isShortAnswer) {
+      const responses = result.shortAnswerResponses ?? [];
+      if (responses.length === 0) {
+        pdf.text("No short answers submitted for this question.", {
+          size: 9,
+        });
+        return;
+      }
+      pdf.table(
+        [
+          { header: "Response", width: 0.6 },
+          { header: "Students", width: 0.15, align: "right" },
+          { header: "Result", width: 0.25 },
+        ],
+        responses.map((response) => [
+          response.responseText || "No answer",
+          String(response.studentCount),
+          getResponseResult(response),
+        ])
+      );
+      return;
+    }
+
+    if (result.answersBreakdown.length === 0) {
+      pdf.text("No submissions provided data for this question's chart.", {
+        size: 9,
+      });
+      return;
+    }
+    // Bars are colored by correctness like on the results page
+    const canColorByCorrectness = result.answersBreakdown.every(
+      (answer) => typeof answer.isCorrectOption === "boolean"
+    );
+    const bars: PdfBar[] = result.answersBreakdown.map((answer) => ({
+      label: answer.answerText,
+      value: answer.studentCount,
+      color: !canColorByCorrectness
+        ? NEUTRAL_COLOR
+        : answer.isCorrectOption
+        ? CORRECT_COLOR
+        : INCORRECT_COLOR,
+    }));
+    pdf.text("Number of students per answer", { size: 9, bold: true });
+    pdf.space(2);
+    pdf.barChart(bars);
+  });
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,196 @@
+import { User, type IUser, type UserRole } from "@/app/models/User";
+
+// Session tokens are signed and expire after a working day. They are checked
+// against the user on every request (see isSessionCurrent), so deleting a user,
+// changing their role or logging out revokes the tokens issued before. This is
+// why the middleware runs on the Node.js runtime instead of the Edge runtime.
+
+export const SESSION_COOKIE_NAME = "quiz_manager_session";
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 8; // One working day
+
+export interface SessionPayload {
+  sub: string; // User._id
+  name: string;
+  email: string;
+  role: UserRole;
+  ver: number; // User.sessionVersion when the token was issued
+  exp: number; // Expiry as a UNIX timestamp in seconds
+}
+
+const encoder = new TextEncoder();
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error(
+      "Please define the SESSION_SECRET environment variable inside .env"
+    );
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSessionSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Creates a signed session token for the given user. The token has the form
+ * `<base64url(payload)>.<base64url(HMAC-SHA256 signature)>`.
+ *
+ * @param {Omit<SessionPayload, "exp">} user - The user data to store in the session.
+ * @returns {Promise<string>} The signed session token.
+ */
+export async function createSessionToken(
+  user: Omit<SessionPayload, "exp">
+): Promise<string> {
+  const payload: SessionPayload = {
+    ...user,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS,
+  };
+  const encodedPayload = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await getSigningKey(),
+    encoder.encode(encodedPayload)
+  );
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a session token created by {@link createSessionToken}.
+ *
+ * @param {string | undefined} token - The token from the session cookie.
+ * @returns {Promise<SessionPayload | null>} The session payload, or null if the token
+ * is missing, malformed, tampered with or expired.
+ */
+export async function verifySessionToken(
+  token: string | undefined
+): Promise<SessionPayload | null> {
+  if (!token) return null;
+  const [encodedPayload, encodedSignature] = token.split(".");
+  if (!encodedPayload || !encodedSignature) return null;
+
+  try {
+    const isValid = await crypto.subtle.verify(
+      "HMAC",
+      await getSigningKey(),
+      fromBase64Url(encodedSignature),
+      encoder.encode(encodedPayload)
+    );
+    if (!isValid) return null;
+
+    const payload = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(encodedPayload))
+    ) as SessionPayload;
+    if (!payload.exp || payload.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks that a verified session has not been revoked: the user still exists,
+ * still has the role of the session and their session version has not been
+ * bumped (on logout or a role change) since the token was issued. Expects the
+ * database to be connected, like the other helpers in lib.
+ *
+ * @param {SessionPayload} session - The payload of a verified session token.
+ * @returns {Promise<boolean>} Whether the session is still valid.
+ */
+export async function isSessionCurrent(
+  session: SessionPayload
+): Promise<boolean> {
+  const user = await User.findById(session.sub)
+    .select("role sessionVersion")
+    .lean<Pick<IUser, "role" | "sessionVersion"> | null>();
+
+  return (
+    !!user &&
+    user.role === session.role &&
+    (user.sessionVersion ?? 0) === session.ver
+  );
+}
+
+/**
+ * Reads the session cookie from an incoming request without checking it.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {string | undefined} The session token, or undefined if there is none.
+ */
+function getSessionToken(req: Request): string | undefined {
+  const cookieHeader = req.headers.get("cookie") || "";
+  const sessionCookie = cookieHeader
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${SESSION_COOKIE_NAME}=`));
+
+  return sessionCookie
+    ? decodeURIComponent(sessionCookie.slice(SESSION_COOKIE_NAME.length + 1))
+    : undefined;
+}
+
+/**
+ * Reads and verifies the session cookie from an incoming request, including
+ * whether the session has been revoked (see {@link isSessionCurrent}).
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<SessionPayload | null>} The session payload, or null if not logged in.
+ */
+export async function getSessionFromRequest(
+  req: Request
+): Promise<SessionPayload | null> {
+  const session = await verifySessionToken(getSessionToken(req));
+  if (!session || !(await isSessionCurrent(session))) return null;
+  return session;
+}
+
+/**
+ * Revokes all sessions of the user of the request, e.g. on logout. Tokens that
+ * are expired or tampered with are ignored.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<void>}
+ */
+export async function revokeSessionsFromRequest(req: Request): Promise<void> {
+  const session = await verifySessionToken(getSessionToken(req));
+  if (!session) return;
+  await User.updateOne({ _id: session.sub }, { $inc: { sessionVersion: 1 } });
+}
+
+/**
+ * Returns the options used when setting the session cookie.
+ */
+export function getSessionCookieOptions() {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  };
+}
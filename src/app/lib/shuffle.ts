@@ -0,0 +1,172 @@
+import type { IPresentedQuestion, IQuestion, IQuiz } from "@/app/models/Quiz";
+import type { Types } from "mongoose";
+
+// Per-student shuffling of question and answer order. The order is derived from a
+// seed of the quiz and the student, so a student gets the same order every time
+// the quiz is fetched and the server can recompute it when the quiz is submitted.
+// Submissions store the presented order and the `_id` of the selected answers,
+// so grading does not depend on the order.
+
+type ShuffleSettings = Pick<
+  IQuiz,
+  "_id" | "questions" | "shuffleQuestions" | "shuffleAnswers"
+>;
+
+/**
+ * Hashes a string into a 32-bit seed (FNV-1a).
+ *
+ * @param {string} text - The text to hash.
+ * @returns {number} The unsigned 32-bit hash.
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a deterministic pseudo-random number generator (mulberry32).
+ *
+ * @param {number} seed - The 32-bit seed.
+ * @returns {() => number} A function returning numbers in [0, 1), the same sequence for the same seed.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffles a copy of an array with the Fisher-Yates algorithm.
+ *
+ * @param {T[]} items - The items to shuffle.
+ * @param {() => number} random - The random number generator.
+ * @returns {T[]} The shuffled copy.
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Returns the order in which a student is presented the questions and answers
+ * of a quiz. Only the answers of multiple-choice questions are shuffled, the
+ * True/False order is kept.
+ *
+ * @param {ShuffleSettings} quiz - The quiz with its shuffle settings.
+ * @param {Types.ObjectId | string} studentId - The student the quiz is presented to.
+ * @returns {IPresentedQuestion[] | undefined} The presented order, or undefined if the quiz is not shuffled.
+ */
+export function getPresentedOrder(
+  quiz: ShuffleSettings,
+  studentId: Types.ObjectId | string
+): IPresentedQuestion[] | undefined {
+  if (!quiz.shuffleQuestions && !quiz.shuffleAnswers) return undefined;
+
+  const random = createSeededRandom(
+    hashSeed(`${String(quiz._id)}:${studentId.toString()}`)
+  );
+  const questions = quiz.shuffleQuestions
+    ? shuffle(quiz.questions, random)
+    : quiz.questions;
+
+  return questions.map((question) => ({
+    question_id: question._id!,
+    answerOrder:
+      quiz.shuffleAnswers &&
+      question.type === "multiple-choice" &&
+      question.answers?.length
+        ? shuffle(
+            question.answers.map((_, index) => index),
+            random
+          )
+        : undefined,
+  }));
+}
+
+/**
+ * Reorders the questions and answers of a quiz as they are presented to a
+ * student, see {@link getPresentedOrder}.
+ *
+ * @param {T} quiz - The quiz.
+ * @param {IPresentedQuestion[] | undefined} presentedOrder - The presented order, the quiz is returned as is if undefined.
+ * @returns {T} The quiz in the presented order.
+ */
+export function applyPresentedOrder<T extends Pick<IQuiz, "questions">>(
+  quiz: T,
+  presentedOrder: IPresentedQuestion[] | undefined
+): T {
+  if (!presentedOrder) return quiz;
+
+  const questionMap = new Map(
+    quiz.questions.map((question) => [question._id?.toString(), question])
+  );
+  return {
+    ...quiz,
+    questions: presentedOrder.flatMap(({ question_id, answerOrder }) => {
+      const question = questionMap.get(question_id.toString());
+      if (!question) return [];
+      return answerOrder && question.answers
+        ? [
+            {
+              ...question,
+              answers: answerOrder.map((index) => question.answers![index]),
+            },
+          ]
+        : [question];
+    }),
+  };
+}
+
+/**
+ * Returns the `_id` of the answer a student selected by its position, for
+ * clients that submit `selectedAnswerId_Index`. The position refers to the
+ * answers as they were presented, see {@link getPresentedOrder}.
+ *
+ * @param {IQuestion} question - The question of the quiz.
+ * @param {number} index - The position of the selected answer.
+ * @param {IPresentedQuestion[] | undefined} presentedOrder - The order the quiz was presented in, undefined if it was not shuffled.
+ * @returns {Types.ObjectId | undefined} The ID of the selected answer, or undefined if there is no answer at the position.
+ */
+export function getPresentedAnswerId(
+  question: IQuestion,
+  index: number,
+  presentedOrder: IPresentedQuestion[] | undefined
+): Types.ObjectId | undefined {
+  const answerOrder = presentedOrder?.find(
+    (presented) => presented.question_id.toString() === question._id?.toString()
+  )?.answerOrder;
+  const answerIndex = answerOrder ? answerOrder[index] : index;
+  return answerIndex === undefined
+    ? undefined
+    : question.answers?.[answerIndex]?._id;
+}
+
+/**
+ * Returns a quiz in the order it is presented to a student, see
+ * {@link getPresentedOrder}. Without a student the quiz is not shuffled.
+ *
+ * @param {T} quiz - The quiz with its shuffle settings.
+ * @param {Types.ObjectId | string | null} studentId - The student the quiz is presented to, if known.
+ * @returns {T} The quiz in the presented order.
+ */
+export function presentQuizToStudent<T extends ShuffleSettings>(
+  quiz: T,
+  studentId: Types.ObjectId | string | null
+): T {
+  return studentId
+    ? applyPresentedOrder(quiz, getPresentedOrder(quiz, studentId))
+    : quiz;
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server";
+import type { IQuestion, IQuiz } from "@/app/models/Quiz";
+import { getSessionFromRequest } from "./session";
+
+// Student-safe projection of quizzes. The quiz endpoints used by the UE client do
+// not require a teacher session, so without one they only return what a student
+// may see: no correct-answer flags, no accepted short answers and no
+// select-organ targets. Submissions are graded on the server, the client does
+// not need the answer key.
+
+export const QUIZ_VIEWS = ["student", "teacher"] as const;
+export type QuizView = (typeof QUIZ_VIEWS)[number];
+
+export interface StudentAnswer {
+  _id: string;
+  text: string;
+}
+
+export interface StudentQuestion {
+  _id: string;
+  type: IQuestion["type"];
+  questionText: string;
+  answers?: StudentAnswer[]; // For MCQ/TF
+}
+
+export type StudentQuiz<T extends Pick<IQuiz, "questions">> = Omit<
+  T,
+  "questions"
+> & { questions: StudentQuestion[] };
+
+/**
+ * Determines which view of a quiz a request may see, based on the `view` query
+ * parameter and the session. Requests without a teacher session always get the
+ * student view, teachers get the full quiz unless they ask for `view=student`.
+ *
+ * @param {Request} req - The incoming HTTP request.
+ * @returns {Promise<QuizView | NextResponse>} The view, or a 400/403 response for an invalid or forbidden view.
+ */
+export async function resolveQuizView(
+  req: Request
+): Promise<QuizView | NextResponse> {
+  const requestedView = new URL(req.url).searchParams.get("view");
+  if (requestedView && !QUIZ_VIEWS.includes(requestedView as QuizView)) {
+    return NextResponse.json(
+      {
+        error: "Invalid view parameter.",
+        details: { view: [`Must be one of: ${QUIZ_VIEWS.join(", ")}`] },
+      },
+      { status: 400 }
+    );
+  }
+  if (requestedView === "student") return "student";
+
+  const session = await getSessionFromRequest(req);
+  if (session) return "teacher";
+  if (requestedView === "teacher") {
+    return NextResponse.json(
+      { error: "The teacher view requires a teacher session." },
+      { status: 403 }
+    );
+  }
+  return "student";
+}
+
+/**
+ * Projects a question onto what a student may see. Only the ID, type, text and
+ * the answer options of MCQ/TF questions are kept.
+ *
+ * @param {IQuestion} question - The stored question.
+ * @returns {StudentQuestion} The question without correctness or target info.
+ */
+export function toStudentQuestion(question: IQuestion): StudentQuestion {
+  const studentQuestion: StudentQuestion = {
+    _id: question._id?.toString() ?? "",
+    type: question.type,
+    questionText: question.questionText,
+  };
+
+  if (question.type === "multiple-choice" || question.type === "true-false") {
+    studentQuestion.answers = (question.answers ?? []).map((answer) => ({
+      _id: answer._id?.toString() ?? "",
+      text: answer.text,
+    }));
+  }
+
+  return studentQuestion;
+}
+
+/**
+ * Projects a quiz onto what a student may see, see {@link toStudentQuestion}.
+ * The other fields of the quiz are kept as they are.
+ *
+ * @param {T} quiz - The stored quiz.
+ * @returns {StudentQuiz<T>} The quiz without the answer key.
+ */
+export function toStudentQuiz<T extends Pick<IQuiz, "questions">>(
+  quiz: T
+): StudentQuiz<T> {
+  return {
+    ...quiz,
+    questions: (quiz.questions ?? []).map(toStudentQuestion),
+  };
+}
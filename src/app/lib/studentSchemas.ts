@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+// Shared Zod schemas for student records, used by the students and import routes.
+
+export const studentRequestBodySchema = z.object({
+  name: z
+    .string({ required_error: "Name is required" })
+    .trim()
+    .min(1, { message: "Name must be at least 1 character long" }),
+  email: z
+    .string({ required_error: "Email is required" })
+    .trim()
+    .toLowerCase()
+    .email({ message: "Email must be a valid email address" }),
+  studyYear: z
+    .number({ invalid_type_error: "Study year must be a number" })
+    .int({ message: "Study year must be an integer" })
+    .min(1, { message: "Study year must be a positive number" })
+    .optional()
+    .nullable(),
+  cohort: z.string().trim().optional().nullable(),
+});
+
+export type StudentRequestBody = z.infer<typeof studentRequestBodySchema>;
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { Student } from "@/app/models/Quiz";
+import { Types } from "mongoose";
+
+/**
+ * Resolves a student from the `student_id` or `studentEmail` sent by the UE client, which
+ * does not always know the ID of the student.
+ *
+ * @param {unknown} studentId - The `student_id` from the request body or query.
+ * @param {unknown} studentEmail - The `studentEmail` from the request body or query.
+ * @returns {Promise<Types.ObjectId | null | NextResponse>} The ID of the student, `null` if no student
+ * was given, or an error response if the student is invalid or not on the roster.
+ */
+export async function resolveStudent(
+  studentId: unknown,
+  studentEmail: unknown
+): Promise<Types.ObjectId | null | NextResponse> {
+  if (studentId === undefined && studentEmail === undefined) return null;
+
+  let filter: Record<string, unknown>;
+  if (studentId !== undefined) {
+    if (typeof studentId !== "string" || !Types.ObjectId.isValid(studentId)) {
+      return NextResponse.json(
+        { error: "Invalid student_id format." },
+        { status: 400 }
+      );
+    }
+    filter = { _id: new Types.ObjectId(studentId) };
+  } else {
+    if (typeof studentEmail !== "string" || studentEmail.trim() === "") {
+      return NextResponse.json(
+        { error: "Invalid studentEmail." },
+        { status: 400 }
+      );
+    }
+    filter = { email: studentEmail.trim().toLowerCase() };
+  }
+
+  const student = await Student.findOne(filter).select("_id").lean<{
+    _id: Types.ObjectId;
+  }>();
+  if (!student) {
+    return NextResponse.json({ error: "Student not found." }, { status: 404 });
+  }
+  return student._id;
+}
@@ -28,4 +28,32 @@ export interface FrontendQuestion {
   answers: FrontendAnswer[];
   targetType?: "mesh" | "group";
   target_id?: string; // Stores ObjectId as string
+  acceptedAnswers?: string[]; // For short-answer
+  typoTolerance?: number; // For short-answer, undefined means automatic
+  bankQuestion_id?: string; // Set when the question was pulled from the question bank
+  bankLink?: "reference" | "copy";
+}
+
+export interface StudentClient {
+  _id: string;
+  name: string;
+  email: string;
+  studyYear?: number;
+  cohort?: string;
+}
+
+export type QuestionDifficulty = "easy" | "medium" | "hard";
+
+export interface BankQuestionClient {
+  _id: string;
+  questionText: string;
+  type: string;
+  answers: FrontendAnswer[];
+  targetType?: "mesh" | "group";
+  target_id?: string;
+  acceptedAnswers?: string[];
+  typoTolerance?: number;
+  organGroupIds?: string[];
+  studyYear?: number;
+  difficulty?: QuestionDifficulty;
 }
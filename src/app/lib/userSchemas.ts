@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+// Shared Zod schemas for creating user accounts, used by the setup and users routes.
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const newUserRequestBodySchema = z.object({
+  name: z
+    .string({ required_error: "Name is required" })
+    .trim()
+    .min(1, { message: "Name must be at least 1 character long" }),
+  email: z
+    .string({ required_error: "Email is required" })
+    .trim()
+    .toLowerCase()
+    .email({ message: "Email must be a valid email address" }),
+  password: z
+    .string({ required_error: "Password is required" })
+    .min(MIN_PASSWORD_LENGTH, {
+      message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+    }),
+  role: z.enum(["teacher", "admin"]).default("teacher"),
+});
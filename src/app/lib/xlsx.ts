@@ -0,0 +1,49 @@
+import ExcelJS from "exceljs";
+
+// Excel workbooks for exports, written with ExcelJS. Every cell is a number or
+// a string, the first row of every sheet is bold. Dates are written as text.
+
+export type XlsxCell = string | number | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCell[][];
+}
+
+/**
+ * Returns a valid sheet name: at most 31 characters without `[]:*?/\`.
+ *
+ * @param {string} name - The requested name.
+ * @returns {string} The sheet name.
+ */
+const toSheetName = (name: string): string =>
+  name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet";
+
+/**
+ * Returns the value of a cell in the workbook: empty cells are left out and
+ * numbers that are not finite are written as text.
+ *
+ * @param {XlsxCell} value - The cell value.
+ * @returns {string | number | null} The value to write.
+ */
+const toCellValue = (value: XlsxCell): string | number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  return String(value);
+};
+
+/**
+ * Creates an Excel workbook (.xlsx) with the given sheets.
+ *
+ * @param {XlsxSheet[]} sheets - The sheets, in order.
+ * @returns {Promise<Buffer>} The workbook file.
+ */
+export async function createXlsx(sheets: XlsxSheet[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  for (const sheet of sheets) {
+    const worksheet = workbook.addWorksheet(toSheetName(sheet.name));
+    worksheet.addRows(sheet.rows.map((row) => row.map(toCellValue)));
+    if (sheet.rows.length > 0) worksheet.getRow(1).font = { bold: true };
+  }
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,175 @@
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+
+// XML support for content packages (e.g. QTI), backed by fast-xml-parser. The
+// parsed document is turned into a tree of elements with their attributes and
+// text; the XML declaration, processing instructions, comments and the DOCTYPE
+// are left out and the document is not validated against a schema. Element and
+// attribute names keep their namespace prefix, the helpers below match on the
+// local name.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: (XmlElement | string)[];
+}
+
+// A node in the output of fast-xml-parser with `preserveOrder`: either a text
+// node or an element, keyed by its name, with the attributes under ":@"
+type ParsedNode = Record<string, ParsedNode[] | string> & {
+  ":@"?: Record<string, string>;
+};
+
+const TEXT_NODE = "#text";
+const ATTRIBUTES = ":@";
+
+const parser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: "",
+  ignoreDeclaration: true,
+  ignorePiTags: true,
+  trimValues: false,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  htmlEntities: true,
+});
+
+// Elements that separate words, e.g. paragraphs in an item body
+const BLOCK_ELEMENTS = new Set([
+  "p",
+  "div",
+  "br",
+  "li",
+  "td",
+  "th",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "blockquote",
+  "pre",
+  "prompt",
+]);
+
+/**
+ * Escapes text for use in XML content and attribute values.
+ *
+ * @param {string} text - The text to escape.
+ * @returns {string} The escaped text.
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Converts the nodes parsed by fast-xml-parser to elements and text.
+ *
+ * @param {ParsedNode[]} nodes - The parsed nodes.
+ * @returns {(XmlElement | string)[]} The elements and text.
+ */
+const toChildren = (nodes: ParsedNode[]): (XmlElement | string)[] =>
+  nodes.map((node) => {
+    const name = Object.keys(node).find((key) => key !== ATTRIBUTES) as string;
+    if (name === TEXT_NODE) return String(node[TEXT_NODE]);
+    return {
+      name,
+      attributes: { ...node[ATTRIBUTES] },
+      children: toChildren(node[name] as ParsedNode[]),
+    };
+  });
+
+/**
+ * Parses an XML document.
+ *
+ * @param {string} text - The XML document.
+ * @returns {XmlElement} The root element.
+ * @throws {Error} If the document is not well-formed.
+ */
+export function parseXml(text: string): XmlElement {
+  const input = text.replace(/^\uFEFF/, ""); // Strip the BOM
+  const validation = XMLValidator.validate(input);
+  if (validation !== true) {
+    const { msg, line, col } = validation.err;
+    throw new Error(`Invalid XML at line ${line}, column ${col}: ${msg}`);
+  }
+
+  const documentElement = toChildren(parser.parse(input)).find(
+    (child): child is XmlElement => typeof child !== "string"
+  );
+  if (!documentElement) throw new Error("Empty XML document");
+  return documentElement;
+}
+
+/**
+ * Returns the name of an element or attribute without its namespace prefix.
+ *
+ * @param {string} name - The qualified name.
+ * @returns {string} The local name.
+ */
+export const localName = (name: string): string =>
+  name.slice(name.indexOf(":") + 1);
+
+/**
+ * Returns the child elements of an element, optionally with the given local name.
+ *
+ * @param {XmlElement} element - The parent element.
+ * @param {string} [name] - The local name of the children.
+ * @returns {XmlElement[]} The child elements.
+ */
+export function childElements(
+  element: XmlElement,
+  name?: string
+): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      typeof child !== "string" && (!name || localName(child.name) === name)
+  );
+}
+
+/**
+ * Returns all descendant elements with the given local name, in document order.
+ *
+ * @param {XmlElement} element - The element to search in.
+ * @param {string} name - The local name of the descendants.
+ * @returns {XmlElement[]} The matching descendants.
+ */
+export function findElements(element: XmlElement, name: string): XmlElement[] {
+  return childElements(element).flatMap((child) => [
+    ...(localName(child.name) === name ? [child] : []),
+    ...findElements(child, name),
+  ]);
+}
+
+/**
+ * Returns the text of an element and its descendants, with the whitespace
+ * collapsed. Descendants with one of the excluded local names are left out.
+ *
+ * @param {XmlElement} element - The element.
+ * @param {string[]} [exclude] - The local names of descendants to leave out.
+ * @returns {string} The text content.
+ */
+export function textContent(
+  element: XmlElement,
+  exclude: string[] = []
+): string {
+  const collect = (node: XmlElement): string =>
+    node.children
+      .map((child) =>
+        typeof child === "string"
+          ? child
+          : exclude.includes(localName(child.name))
+          ? " "
+          : BLOCK_ELEMENTS.has(localName(child.name))
+          ? ` ${collect(child)} `
+          : collect(child)
+      )
+      .join("");
+  return collect(element).replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,92 @@
+import {
+  FlateErrorCode,
+  unzipSync,
+  zipSync,
+  type FlateError,
+  type Unzipped,
+  type Zippable,
+} from "fflate";
+
+// ZIP archive support for content packages (e.g. QTI), backed by fflate.
+// Archives are uploaded by users, so reading them is limited in the number of
+// files and in their uncompressed size to guard against zip bombs.
+
+/** The maximum number of files read from an archive. */
+export const MAX_ZIP_ENTRIES = 5000;
+/** The maximum uncompressed size of a single file in an archive, in bytes. */
+export const MAX_ZIP_ENTRY_SIZE = 20 * 1024 * 1024;
+/** The maximum uncompressed size of all files in an archive, in bytes. */
+export const MAX_ZIP_TOTAL_SIZE = 100 * 1024 * 1024;
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer | string;
+}
+
+/**
+ * Creates a ZIP archive with the given files.
+ *
+ * @param {ZipEntry[]} entries - The files, with their path in the archive.
+ * @returns {Buffer} The ZIP archive.
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  const files: Zippable = {};
+  for (const entry of entries) {
+    files[entry.name] = Buffer.isBuffer(entry.data)
+      ? new Uint8Array(entry.data)
+      : new TextEncoder().encode(entry.data);
+  }
+  return Buffer.from(zipSync(files));
+}
+
+/**
+ * Reads the files of a ZIP archive. Directories are left out.
+ *
+ * The limits are checked against the uncompressed sizes declared in the
+ * archive before anything is extracted. fflate extracts each file into a
+ * buffer of its declared size, so an archive that understates its sizes
+ * cannot use more memory than the limits allow.
+ *
+ * @param {Buffer} archive - The ZIP archive.
+ * @returns {Map<string, Buffer>} The contents of the files by their path in the archive.
+ * @throws {Error} If the archive is not a valid ZIP archive, uses an unsupported compression method or exceeds a limit.
+ */
+export function readZip(archive: Buffer): Map<string, Buffer> {
+  let entryCount = 0;
+  let totalSize = 0;
+
+  let contents: Unzipped;
+  try {
+    contents = unzipSync(new Uint8Array(archive), {
+      filter: (file) => {
+        if (file.name.endsWith("/")) return false;
+        if (++entryCount > MAX_ZIP_ENTRIES) {
+          throw new Error(`The archive has more than ${MAX_ZIP_ENTRIES} files`);
+        }
+        if (file.originalSize > MAX_ZIP_ENTRY_SIZE) {
+          throw new Error(
+            `${file.name} is larger than ${MAX_ZIP_ENTRY_SIZE} bytes uncompressed`
+          );
+        }
+        totalSize += file.originalSize;
+        if (totalSize > MAX_ZIP_TOTAL_SIZE) {
+          throw new Error(
+            `The archive is larger than ${MAX_ZIP_TOTAL_SIZE} bytes uncompressed`
+          );
+        }
+        return true;
+      },
+    });
+  } catch (error) {
+    if ((error as FlateError).code === FlateErrorCode.InvalidZipData) {
+      throw new Error("Not a ZIP archive");
+    }
+    throw error;
+  }
+
+  const files = new Map<string, Buffer>();
+  for (const [name, data] of Object.entries(contents)) {
+    files.set(name, Buffer.from(data.buffer, data.byteOffset, data.length));
+  }
+  return files;
+}
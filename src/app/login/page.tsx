@@ -0,0 +1,159 @@
+"use client";
+
+import { JSX, Suspense, useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+/**
+ * The login form. When no users exist yet, the form is used to create the
+ * first admin account instead.
+ *
+ * @returns {JSX.Element} The login form.
+ */
+function LoginForm(): JSX.Element {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [setupRequired, setSetupRequired] = useState(false);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const checkSetup = async () => {
+      try {
+        const response = await fetch("/api/auth/setup");
+        if (!response.ok) throw new Error("Failed to check setup status");
+        const data = await response.json();
+        setSetupRequired(data.setupRequired);
+      } catch (error) {
+        console.error(error);
+      }
+    };
+    checkSetup();
+  }, []);
+
+  /**
+   * Handles form submission by logging the user in (or creating the first
+   * admin account) and redirecting to the page they originally requested.
+   * @param {React.FormEvent} e The form event
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const response = await fetch(
+        setupRequired ? "/api/auth/setup" : "/api/auth/login",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            setupRequired ? { name, email, password } : { email, password }
+          ),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to log in");
+      }
+
+      const from = searchParams.get("from");
+      // Only allow relative redirects to prevent open redirects
+      router.push(from && from.startsWith("/") ? from : "/");
+      router.refresh();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-md mx-auto mt-12">
+      <CardHeader>
+        <CardTitle>
+          {setupRequired ? "Create Admin Account" : "Log In"}
+        </CardTitle>
+        <CardDescription>
+          {setupRequired
+            ? "No accounts exist yet. Create the first admin account to get started."
+            : "Log in with your teacher account to manage quizzes."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {setupRequired && (
+            <div>
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-2"
+                required
+              />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              autoComplete="username"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="mt-2"
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete={setupRequired ? "new-password" : "current-password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="mt-2"
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading
+              ? "Please wait..."
+              : setupRequired
+              ? "Create Account"
+              : "Log In"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Page component for logging in.
+ *
+ * @returns {JSX.Element} The login page.
+ */
+export default function LoginPage(): JSX.Element {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
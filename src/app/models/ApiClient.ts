@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document, Types } from "mongoose";
+
+// Permissions of an API key beyond submitting quizzes and reading the student
+// view of quizzes. "select-organ-targets": the quizzes of /api/client/* include
+// the target meshes of select-organ questions, i.e. their answer. Only grant it
+// to the lab installations that highlight the target after answering.
+export const API_CLIENT_SCOPES = ["select-organ-targets"] as const;
+export type ApiClientScope = (typeof API_CLIENT_SCOPES)[number];
+
+export interface IApiClient extends Document {
+  name: string; // e.g., "Anatomy lab PCs"
+  keyPrefix: string; // First characters of the key, shown in the admin UI to tell keys apart
+  keyHash: string; // SHA-256 of the full key, the key itself is never stored
+  createdBy?: Types.ObjectId; // References User._id
+  revokedAt?: Date | null;
+  lastUsedAt?: Date;
+  usageCount: number;
+  usageByEndpoint?: Map<string, number>; // e.g., { "submissions": 120, "mesh-catalog": 3400 }
+  scopes: ApiClientScope[];
+}
+
+const ApiClientSchema = new Schema<IApiClient>(
+  {
+    name: { type: String, required: true },
+    keyPrefix: { type: String, required: true },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+      select: false,
+    },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User" },
+    revokedAt: { type: Date, default: null },
+    lastUsedAt: { type: Date },
+    usageCount: { type: Number, required: true, default: 0 },
+    usageByEndpoint: { type: Map, of: Number, default: {} },
+    scopes: { type: [String], enum: API_CLIENT_SCOPES, default: [] },
+  },
+  { timestamps: true }
+);
+
+export const ApiClient =
+  mongoose.models.ApiClient ||
+  mongoose.model<IApiClient>("ApiClient", ApiClientSchema);
@@ -54,9 +54,18 @@ export interface IQuestion {
   // For type: "select-organ"
   targetType?: "mesh" | "group";
   target_id?: Types.ObjectId;
+
+  // For type: "short-answer"
+  acceptedAnswers?: string[]; // e.g., ["Heart", "Cor"], including synonyms and Latin names
+  typoTolerance?: number; // Max edit distance for a typo, based on answer length if not set
+
+  // Set when the question was pulled from the question bank
+  bankQuestion_id?: Types.ObjectId; // References BankQuestion._id
+  bankLink?: "reference" | "copy"; // References are kept in sync with the bank question
 }
 
-const QuestionSchema = new Schema<IQuestion>({
+// Fields that make up the content of a question, shared with the question bank.
+const questionContentDefinition = {
   questionText: { type: String, required: true },
   type: {
     type: String,
@@ -66,6 +75,14 @@ const QuestionSchema = new Schema<IQuestion>({
   answers: { type: [AnswerSchema], default: undefined },
   targetType: { type: String, enum: ["mesh", "group"], default: undefined },
   target_id: { type: Schema.Types.ObjectId, default: undefined }, // Ref depends on targetType, handled in app logic
+  acceptedAnswers: { type: [String], default: undefined },
+  typoTolerance: { type: Number, min: 0, default: undefined },
+};
+
+const QuestionSchema = new Schema<IQuestion>({
+  ...questionContentDefinition,
+  bankQuestion_id: { type: Schema.Types.ObjectId, ref: "Question" },
+  bankLink: { type: String, enum: ["reference", "copy"], default: undefined },
 });
 
 export interface IQuiz extends Document {
@@ -74,6 +91,13 @@ export interface IQuiz extends Document {
   studyYear: number; // The overall intended study year for this quiz
   questions: IQuestion[];
   scheduledAt?: Date;
+  opensAt?: Date; // Submissions are accepted from this moment, always if not set
+  closesAt?: Date; // Submissions are accepted until this moment (plus the grace period)
+  gracePeriodMinutes?: number; // Overrides SUBMISSION_GRACE_PERIOD_MINUTES for this quiz
+  shuffleQuestions?: boolean; // Every student gets the questions in their own order
+  shuffleAnswers?: boolean; // Every student gets the MCQ answers in their own order
+  version?: number; // Incremented on every save, see QuizVersion. Not set for quizzes that were never saved since versioning
+  deletedAt?: Date | null; // Set while the quiz is in the trash, see lib/quizTrash.ts
 }
 
 const QuizSchema = new Schema<IQuiz>(
@@ -83,6 +107,13 @@ const QuizSchema = new Schema<IQuiz>(
     studyYear: { type: Number, required: true, index: true },
     questions: { type: [QuestionSchema], required: true },
     scheduledAt: { type: Date, required: false },
+    opensAt: { type: Date, index: true },
+    closesAt: { type: Date, index: true },
+    gracePeriodMinutes: { type: Number, min: 0 },
+    shuffleQuestions: { type: Boolean, default: false },
+    shuffleAnswers: { type: Boolean, default: false },
+    version: { type: Number, min: 1, default: 1 },
+    deletedAt: { type: Date, default: null, index: true },
   },
   { timestamps: true }
 );
@@ -90,32 +121,144 @@ const QuizSchema = new Schema<IQuiz>(
 export const Quiz =
   mongoose.models.Quiz || mongoose.model<IQuiz>("Quiz", QuizSchema);
 
+// An immutable snapshot of a quiz, created every time the quiz is saved.
+// Submissions record the version they answered, see lib/quizVersions.ts.
+export interface IQuizVersion
+  extends Document,
+    Pick<
+      IQuiz,
+      | "title"
+      | "description"
+      | "studyYear"
+      | "questions"
+      | "scheduledAt"
+      | "opensAt"
+      | "closesAt"
+      | "gracePeriodMinutes"
+      | "shuffleQuestions"
+      | "shuffleAnswers"
+    > {
+  quiz_id: Types.ObjectId; // References Quiz._id
+  version: number;
+  editedBy?: Types.ObjectId; // References User._id
+  editedByName?: string;
+  createdAt: Date;
+}
+
+const QuizVersionSchema = new Schema<IQuizVersion>(
+  {
+    quiz_id: {
+      type: Schema.Types.ObjectId,
+      ref: "Quiz",
+      required: true,
+      index: true,
+    },
+    version: { type: Number, required: true, min: 1 },
+    title: { type: String, required: true },
+    description: { type: String },
+    studyYear: { type: Number, required: true },
+    questions: { type: [QuestionSchema], required: true },
+    scheduledAt: { type: Date },
+    opensAt: { type: Date },
+    closesAt: { type: Date },
+    gracePeriodMinutes: { type: Number, min: 0 },
+    shuffleQuestions: { type: Boolean },
+    shuffleAnswers: { type: Boolean },
+    editedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    editedByName: { type: String },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+QuizVersionSchema.index({ quiz_id: 1, version: 1 }, { unique: true });
+
+export const QuizVersion =
+  mongoose.models.QuizVersion ||
+  mongoose.model<IQuizVersion>("QuizVersion", QuizVersionSchema);
+
+export type QuestionDifficulty = "easy" | "medium" | "hard";
+
+// A reusable question in the question bank. Quizzes embed a copy of the content;
+// questions pulled in by reference are updated when the bank question changes.
+export interface IBankQuestion
+  extends Document,
+    Omit<IQuestion, "_id" | "bankQuestion_id" | "bankLink"> {
+  organGroupIds?: Types.ObjectId[]; // References OrganGroup._id
+  studyYear?: number;
+  difficulty?: QuestionDifficulty;
+}
+
+const BankQuestionSchema = new Schema<IBankQuestion>(
+  {
+    ...questionContentDefinition,
+    organGroupIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: "OrganGroup" }],
+      index: true,
+    },
+    studyYear: { type: Number, min: 1, index: true },
+    difficulty: { type: String, enum: ["easy", "medium", "hard"], index: true },
+  },
+  { timestamps: true }
+);
+
+export const BankQuestion =
+  mongoose.models.Question ||
+  mongoose.model<IBankQuestion>("Question", BankQuestionSchema);
+
 export interface ISubmissionAnswer {
   question_id: Types.ObjectId;
-  selectedAnswerId_Index?: number; // For MCQ/TF
+  selectedAnswer_id?: Types.ObjectId; // For MCQ/TF, references the _id of one of question.answers
   responseText_ClickedMesh_id?: Types.ObjectId; // For "select-organ", references MeshCatalogItem._id
   responseText_ShortAnswer?: string; // For "short-answer"
+  isCorrect?: boolean; // Set when grading at submission time, undefined if not auto-gradable
+  credit?: number; // Score for this answer between 0 and 1, partial credit comes from manual grading
+  manualVerdict?: ShortAnswerVerdict; // Set if a teacher graded this short answer, see ShortAnswerGrade
 }
 
 const SubmissionAnswerSchema = new Schema<ISubmissionAnswer>(
   {
     question_id: { type: Schema.Types.ObjectId, required: true },
-    selectedAnswerId_Index: { type: Number },
+    selectedAnswer_id: { type: Schema.Types.ObjectId },
     responseText_ClickedMesh_id: {
       type: Schema.Types.ObjectId,
       ref: "MeshCatalogItem",
     },
     responseText_ShortAnswer: { type: String },
+    isCorrect: { type: Boolean },
+    credit: { type: Number, min: 0, max: 1 },
+    manualVerdict: {
+      type: String,
+      enum: ["correct", "incorrect", "partial"],
+      default: undefined,
+    },
+  },
+  { _id: false }
+);
+
+// A question as it was presented to a student of a shuffled quiz, see lib/shuffle.ts
+export interface IPresentedQuestion {
+  question_id: Types.ObjectId;
+  answerOrder?: number[]; // Index in question.answers for every presented answer, for shuffled MCQs
+}
+
+const PresentedQuestionSchema = new Schema<IPresentedQuestion>(
+  {
+    question_id: { type: Schema.Types.ObjectId, required: true },
+    answerOrder: { type: [Number], default: undefined },
   },
   { _id: false }
 );
 
 export interface ISubmission extends Document {
   quiz_id: Types.ObjectId; // References Quiz._id
-  student_id?: string;
+  student_id?: Types.ObjectId; // References Student._id, resolved when submitting
   studyYearAtSubmission: number; // Study year chosen by student in UE
   submittedAt: Date;
   answers: ISubmissionAnswer[];
+  score?: number; // Sum of the answer credits, recalculated when short answers are graded manually
+  maxScore?: number; // Number of questions in the quiz at submission time
+  presentedOrder?: IPresentedQuestion[]; // Set if the quiz was shuffled, the order the student saw
+  quizVersion?: number; // The QuizVersion that was answered, version 1 if not set
 }
 
 const SubmissionSchema = new Schema<ISubmission>(
@@ -126,10 +269,14 @@ const SubmissionSchema = new Schema<ISubmission>(
       required: true,
       index: true,
     },
-    student_id: { type: String, index: true },
+    student_id: { type: Schema.Types.ObjectId, ref: "Student", index: true },
     studyYearAtSubmission: { type: Number, required: true },
     submittedAt: { type: Date, required: true, default: Date.now },
     answers: { type: [SubmissionAnswerSchema], required: true },
+    score: { type: Number },
+    maxScore: { type: Number },
+    presentedOrder: { type: [PresentedQuestionSchema], default: undefined },
+    quizVersion: { type: Number, min: 1 },
   },
   { timestamps: true }
 );
@@ -141,15 +288,70 @@ export const Submission =
 export interface IStudent extends Document {
   name: string;
   email: string;
+  studyYear?: number; // Current study year, used to filter the roster
+  cohort?: string; // e.g., "2025-A", the class the student belongs to
 }
 
 const StudentSchema = new Schema<IStudent>(
   {
     name: { type: String, required: true },
-    email: { type: String, required: true, unique: true },
+    email: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    studyYear: { type: Number, min: 1, index: true },
+    cohort: { type: String, trim: true, index: true },
   },
   { timestamps: true }
 );
 
 export const Student =
   mongoose.models.Student || mongoose.model<IStudent>("Student", StudentSchema);
+
+export type ShortAnswerVerdict = "correct" | "incorrect" | "partial";
+
+// A teacher's verdict for all identical responses to a short-answer question.
+// Overrides the automatic grading for every submission with this response text.
+export interface IShortAnswerGrade extends Document {
+  quiz_id: Types.ObjectId; // References Quiz._id
+  question_id: Types.ObjectId; // References Quiz.questions._id
+  responseText: string; // Trimmed response text, identical responses share one grade
+  verdict: ShortAnswerVerdict;
+  comment?: string;
+  gradedBy?: Types.ObjectId; // References User._id
+  gradedByName?: string;
+}
+
+const ShortAnswerGradeSchema = new Schema<IShortAnswerGrade>(
+  {
+    quiz_id: {
+      type: Schema.Types.ObjectId,
+      ref: "Quiz",
+      required: true,
+      index: true,
+    },
+    question_id: { type: Schema.Types.ObjectId, required: true },
+    responseText: { type: String, required: true },
+    verdict: {
+      type: String,
+      required: true,
+      enum: ["correct", "incorrect", "partial"],
+    },
+    comment: { type: String },
+    gradedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    gradedByName: { type: String },
+  },
+  { timestamps: true }
+);
+
+ShortAnswerGradeSchema.index(
+  { quiz_id: 1, question_id: 1, responseText: 1 },
+  { unique: true }
+);
+
+export const ShortAnswerGrade =
+  mongoose.models.ShortAnswerGrade ||
+  mongoose.model<IShortAnswerGrade>("ShortAnswerGrade", ShortAnswerGradeSchema);
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export type UserRole = "teacher" | "admin";
+
+export interface IUser extends Document {
+  name: string;
+  email: string;
+  passwordHash: string; // Format: "scrypt$<salt>$<hash>", see lib/password.ts
+  role: UserRole;
+  lastLoginAt?: Date;
+  sessionVersion: number; // Bumped to revoke all session tokens, see lib/session.ts
+}
+
+const UserSchema = new Schema<IUser>(
+  {
+    name: { type: String, required: true },
+    email: {
+      type: String,
+      required: true,
+      unique: true,
+      lowercase: true,
+      trim: true,
+    },
+    passwordHash: { type: String, required: true, select: false },
+    role: {
+      type: String,
+      required: true,
+      enum: ["teacher", "admin"],
+      default: "teacher",
+    },
+    lastLoginAt: { type: Date },
+    sessionVersion: { type: Number, default: 0 },
+  },
+  { timestamps: true }
+);
+
+// A user whose role changes has to log in again with the new role.
+UserSchema.pre("save", function () {
+  if (!this.isNew && this.isModified("role")) {
+    this.sessionVersion = (this.sessionVersion ?? 0) + 1;
+  }
+});
+
+export const User =
+  mongoose.models.User || mongoose.model<IUser>("User", UserSchema);
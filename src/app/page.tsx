@@ -1,11 +1,14 @@
 import { getQuizzes } from "./lib/getQuizzes";
 import QuizList from "./components/QuizList";
 import { IQuiz, IQuestion } from "./models/Quiz";
+import { ImportQuizzesDialog } from "./components/ImportQuizzesDialog";
+import { Button } from "@/components/ui/button";
 
 type QuizListQuiz = {
   _id: string;
   title: string;
   description: string;
+  studyYear?: number;
   questions: {
     question: string;
     type: string;
@@ -29,6 +32,7 @@ export default async function Home() {
       _id: (quiz._id as { toString: () => string }).toString(), // Convert ObjectId to string
       title: quiz.title || "Untitled Quiz",
       description: quiz.description || "No description available",
+      studyYear: quiz.studyYear,
 
       // Convert Date to ISO string or null
       scheduledAt: quiz.scheduledAt
@@ -60,7 +64,22 @@ export default async function Home() {
 
   return (
     <div className="container mx-auto p-4">
-      <h1 className="text-3xl font-bold">Quizzes</h1>
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold">Quizzes</h1>
+        <div className="flex gap-2">
+          <ImportQuizzesDialog />
+          <Button variant="outline" asChild>
+            <a href="/api/quizzes/export" download>
+              Export All
+            </a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href="/api/quizzes/export?format=qti" download>
+              Export QTI
+            </a>
+          </Button>
+        </div>
+      </div>
       <QuizList quizzes={quizzesForClient} />
     </div>
   );
@@ -0,0 +1,652 @@
+"use client";
+
+import { JSX, Suspense, useCallback, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import EditQuestionBox from "../components/EditQuestionBox";
+import { OrganGroupCombobox } from "../components/OrganGroupCombobox";
+import type {
+  BankQuestionClient,
+  FrontendQuestion,
+  OrganGroupMin,
+} from "@/app/lib/types";
+
+interface QuestionUsage {
+  quizId: string;
+  title: string;
+  studyYear: number;
+  bankLink: "reference" | "copy";
+}
+
+// Matches the 409 response of PUT /api/questions/[id]
+interface QuestionSyncImpact {
+  quizId: string;
+  title: string;
+  submissionCount: number;
+}
+
+const emptyQuestion: FrontendQuestion = {
+  questionText: "",
+  type: "multiple-choice",
+  answers: [],
+};
+
+const emptyTags = {
+  organGroupIds: [] as string[],
+  studyYear: "",
+  difficulty: "",
+};
+
+/**
+ * The question bank: questions that can be reused across quizzes. Lists the
+ * questions with filters on text, type, organ group, study year and difficulty,
+ * and allows adding, editing and deleting questions. `?edit=<id>` opens a
+ * question in the editor.
+ *
+ * @returns {JSX.Element} The question bank.
+ */
+function QuestionBank(): JSX.Element {
+  const searchParams = useSearchParams();
+  const [questions, setQuestions] = useState<BankQuestionClient[]>([]);
+  const [organGroups, setOrganGroups] = useState<OrganGroupMin[]>([]);
+  const [draft, setDraft] = useState<FrontendQuestion>(emptyQuestion);
+  const [tags, setTags] = useState(emptyTags);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [usedIn, setUsedIn] = useState<QuestionUsage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [syncImpact, setSyncImpact] = useState<QuestionSyncImpact[] | null>(
+    null
+  );
+  const [search, setSearch] = useState("");
+  const [filterType, setFilterType] = useState("all");
+  const [filterStudyYear, setFilterStudyYear] = useState("all");
+  const [filterDifficulty, setFilterDifficulty] = useState("all");
+  const [filterOrganGroupId, setFilterOrganGroupId] = useState<
+    string | undefined
+  >();
+
+  const fetchQuestions = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (search) params.set("search", search);
+      if (filterType !== "all") params.set("type", filterType);
+      if (filterStudyYear !== "all") params.set("studyYear", filterStudyYear);
+      if (filterDifficulty !== "all") {
+        params.set("difficulty", filterDifficulty);
+      }
+      if (filterOrganGroupId) params.set("organGroupId", filterOrganGroupId);
+      const response = await fetch(`/api/questions?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch bank questions");
+      setQuestions(await response.json());
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to fetch bank questions");
+    }
+  }, [
+    search,
+    filterType,
+    filterStudyYear,
+    filterDifficulty,
+    filterOrganGroupId,
+  ]);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  useEffect(() => {
+    fetch("/api/organ-groups")
+      .then((response) => (response.ok ? response.json() : []))
+      .then(setOrganGroups)
+      .catch((error) => console.error(error));
+  }, []);
+
+  /**
+   * Loads a question into the editor, together with the quizzes that use it.
+   * @param {string} questionId The ID of the question to edit
+   */
+  const startEditing = useCallback(async (questionId: string) => {
+    try {
+      const response = await fetch(`/api/questions/${questionId}`);
+      if (!response.ok) throw new Error("Failed to fetch bank question");
+      const question = await response.json();
+      setEditingId(question._id);
+      setDraft({
+        questionText: question.questionText,
+        type: question.type,
+        answers: question.answers ?? [],
+        targetType: question.targetType,
+        target_id: question.target_id,
+        acceptedAnswers: question.acceptedAnswers,
+        typoTolerance: question.typoTolerance,
+      });
+      setTags({
+        organGroupIds: question.organGroupIds ?? [],
+        studyYear: question.studyYear?.toString() ?? "",
+        difficulty: question.difficulty ?? "",
+      });
+      setUsedIn(question.usedIn ?? []);
+      window.scrollTo({ top: 0, behavior: "smooth" });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    const editId = searchParams.get("edit");
+    if (editId) startEditing(editId);
+  }, [searchParams, startEditing]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(emptyQuestion);
+    setTags(emptyTags);
+    setUsedIn([]);
+  };
+
+  const updateDraft = (changes: Partial<FrontendQuestion>) =>
+    setDraft((prev) => ({ ...prev, ...changes }));
+
+  /**
+   * Saves the question in the editor as a new bank question or updates the
+   * edited one. Quizzes that reference the question are updated by the server.
+   * If that changes the answer key of quizzes that students already took, the
+   * server responds with a 409 status and the teacher has to confirm the
+   * update.
+   * @param {boolean} confirm Whether the teacher confirmed the update
+   */
+  const saveQuestion = async (confirm = false) => {
+    setLoading(true);
+    try {
+      const response = await fetch(
+        editingId
+          ? `/api/questions/${editingId}${confirm ? "?confirm=true" : ""}`
+          : "/api/questions",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            questionText: draft.questionText,
+            type: draft.type,
+            // Keep the DB _id of existing answers
+            answers: draft.answers.map(({ _id, text, isCorrect }) => ({
+              ...(_id && !_id.startsWith("new_") ? { _id } : {}),
+              text,
+              isCorrect,
+            })),
+            targetType: draft.targetType,
+            target_id: draft.target_id,
+            acceptedAnswers: draft.acceptedAnswers?.filter((ans) => ans.trim()),
+            typoTolerance: draft.typoTolerance,
+            organGroupIds: tags.organGroupIds,
+            studyYear: tags.studyYear ? parseInt(tags.studyYear, 10) : null,
+            difficulty: tags.difficulty || null,
+          }),
+        }
+      );
+      const data = await response.json();
+      if (response.status === 409) {
+        setSyncImpact(data.details.quizzes);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save bank question");
+      }
+      toast.success(
+        editingId
+          ? `Question updated, ${data.syncedQuizzes} linked quiz(zes) updated`
+          : "Question added to the bank!"
+      );
+      resetForm();
+      fetchQuestions();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Deletes a bank question and refreshes the list.
+   * @param {string} questionId The ID of the question to delete
+   */
+  const handleDeleteQuestion = async (questionId: string) => {
+    try {
+      const response = await fetch(`/api/questions/${questionId}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete bank question");
+      }
+      toast.success(
+        data.unlinkedQuizzes > 0
+          ? `Question deleted, ${data.unlinkedQuizzes} quiz(zes) keep a copy`
+          : "Question deleted successfully"
+      );
+      if (editingId === questionId) resetForm();
+      fetchQuestions();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    }
+  };
+
+  const groupName = (groupId: string) =>
+    organGroups.find((group) => group._id === groupId)?.groupName ?? groupId;
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <h1 className="text-3xl font-bold">Question Bank</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? "Edit Question" : "New Question"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveQuestion();
+            }}
+            className="space-y-4"
+          >
+            <EditQuestionBox
+              index={0}
+              question={draft}
+              onChangeQuestionText={(_, questionText) =>
+                updateDraft({ questionText })
+              }
+              onChangeQuestionType={(_, type) =>
+                updateDraft({
+                  type,
+                  targetType: undefined,
+                  target_id: undefined,
+                  answers:
+                    type === "multiple-choice" || type === "true-false"
+                      ? draft.answers
+                      : [],
+                  acceptedAnswers:
+                    type === "short-answer" ? draft.acceptedAnswers : undefined,
+                  typoTolerance:
+                    type === "short-answer" ? draft.typoTolerance : undefined,
+                })
+              }
+              onChangeAnswerText={(_, answerIndex, text) =>
+                updateDraft({
+                  answers: draft.answers.map((a, j) =>
+                    j === answerIndex ? { ...a, text } : a
+                  ),
+                })
+              }
+              onSetCorrectAnswer={(_, answerIndex) =>
+                updateDraft({
+                  answers: draft.answers.map((a, j) => ({
+                    ...a,
+                    isCorrect: j === answerIndex,
+                  })),
+                })
+              }
+              onAddAnswer={() =>
+                updateDraft({
+                  answers: [
+                    ...draft.answers,
+                    { text: "", isCorrect: false, _id: `new_${Date.now()}` },
+                  ],
+                })
+              }
+              onRemoveAnswer={(_, answerIndex) =>
+                updateDraft({
+                  answers: draft.answers.filter((_, j) => j !== answerIndex),
+                })
+              }
+              onChangeTargetType={(_, targetType) =>
+                updateDraft({ targetType, target_id: undefined })
+              }
+              onChangeTargetId={(_, target_id) => updateDraft({ target_id })}
+              onChangeAcceptedAnswers={(_, acceptedAnswers) =>
+                updateDraft({ acceptedAnswers })
+              }
+              onChangeTypoTolerance={(_, typoTolerance) =>
+                updateDraft({ typoTolerance })
+              }
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Organ Groups</Label>
+                <OrganGroupCombobox
+                  selectedGroupId={undefined}
+                  onSelectGroup={(groupId) =>
+                    groupId &&
+                    !tags.organGroupIds.includes(groupId) &&
+                    setTags({
+                      ...tags,
+                      organGroupIds: [...tags.organGroupIds, groupId],
+                    })
+                  }
+                />
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {tags.organGroupIds.map((groupId) => (
+                    <Button
+                      key={groupId}
+                      type="button"
+                      variant="secondary"
+                      size="sm"
+                      onClick={() =>
+                        setTags({
+                          ...tags,
+                          organGroupIds: tags.organGroupIds.filter(
+                            (id) => id !== groupId
+                          ),
+                        })
+                      }
+                    >
+                      {groupName(groupId)} ×
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="studyYear" className="mb-2">
+                  Study Year
+                </Label>
+                <Select
+                  value={tags.studyYear || "none"}
+                  onValueChange={(value) =>
+                    setTags({
+                      ...tags,
+                      studyYear: value === "none" ? "" : value,
+                    })
+                  }
+                >
+                  <SelectTrigger id="studyYear">
+                    <SelectValue placeholder="Select study year" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Any year</SelectItem>
+                    <SelectItem value="1">Year 1</SelectItem>
+                    <SelectItem value="2">Year 2</SelectItem>
+                    <SelectItem value="3">Year 3</SelectItem>
+                    <SelectItem value="4">Year 4</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="difficulty" className="mb-2">
+                  Difficulty
+                </Label>
+                <Select
+                  value={tags.difficulty || "none"}
+                  onValueChange={(value) =>
+                    setTags({
+                      ...tags,
+                      difficulty: value === "none" ? "" : value,
+                    })
+                  }
+                >
+                  <SelectTrigger id="difficulty">
+                    <SelectValue placeholder="Select difficulty" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not set</SelectItem>
+                    <SelectItem value="easy">Easy</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="hard">Hard</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {usedIn.length > 0 && (
+              <div className="text-sm">
+                <p className="font-medium">Used in:</p>
+                <ul className="list-disc pl-5">
+                  {usedIn.map((usage) => (
+                    <li key={usage.quizId}>
+                      <Link
+                        href={`/edit/${usage.quizId}`}
+                        className="hover:underline"
+                      >
+                        {usage.title}
+                      </Link>{" "}
+                      (Year {usage.studyYear},{" "}
+                      {usage.bankLink === "reference"
+                        ? "updated when saved"
+                        : "copy"}
+                      )
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={loading}>
+                {loading
+                  ? "Saving..."
+                  : editingId
+                  ? "Save Question"
+                  : "Add to Bank"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Questions</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search question text"
+              className="md:col-span-2"
+            />
+            <Select value={filterType} onValueChange={setFilterType}>
+              <SelectTrigger>
+                <SelectValue placeholder="Type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                <SelectItem value="multiple-choice">Multiple Choice</SelectItem>
+                <SelectItem value="true-false">True/False</SelectItem>
+                <SelectItem value="select-organ">Select Organ</SelectItem>
+                <SelectItem value="short-answer">Short Answer</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filterStudyYear} onValueChange={setFilterStudyYear}>
+              <SelectTrigger>
+                <SelectValue placeholder="Study year" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All years</SelectItem>
+                <SelectItem value="1">Year 1</SelectItem>
+                <SelectItem value="2">Year 2</SelectItem>
+                <SelectItem value="3">Year 3</SelectItem>
+                <SelectItem value="4">Year 4</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={filterDifficulty}
+              onValueChange={setFilterDifficulty}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Difficulty" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any difficulty</SelectItem>
+                <SelectItem value="easy">Easy</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="hard">Hard</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="max-w-sm">
+            <OrganGroupCombobox
+              selectedGroupId={filterOrganGroupId}
+              onSelectGroup={setFilterOrganGroupId}
+            />
+          </div>
+          {questions.length === 0 ? (
+            <p className="text-sm text-gray-500">No bank questions found.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2">Question</th>
+                  <th className="py-2">Type</th>
+                  <th className="py-2">Organ Groups</th>
+                  <th className="py-2">Study Year</th>
+                  <th className="py-2">Difficulty</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {questions.map((question) => (
+                  <tr key={question._id} className="border-b last:border-0">
+                    <td className="py-2">{question.questionText}</td>
+                    <td className="py-2 capitalize">
+                      {question.type.replace("-", " ")}
+                    </td>
+                    <td className="py-2">
+                      {(question.organGroupIds ?? [])
+                        .map(groupName)
+                        .join(", ") || "-"}
+                    </td>
+                    <td className="py-2">{question.studyYear ?? "-"}</td>
+                    <td className="py-2 capitalize">
+                      {question.difficulty ?? "-"}
+                    </td>
+                    <td className="py-2 text-right space-x-2 whitespace-nowrap">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => startEditing(question._id)}
+                      >
+                        Edit
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="destructive" size="sm">
+                            Delete
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>
+                              Delete this question?
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Quizzes that use this question keep it, linked
+                              questions become copies that are no longer
+                              updated.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              className="bg-destructive text-white hover:bg-destructive/90"
+                              onClick={() => handleDeleteQuestion(question._id)}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog
+        open={syncImpact !== null}
+        onOpenChange={(open) => !open && setSyncImpact(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Students already took quizzes that use this question
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Saving changes the answer key in these quizzes. Their grades do
+              not change, but the results page combines answers to the old and
+              the new question.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="list-disc pl-5 text-sm">
+            {syncImpact?.map((quiz) => (
+              <li key={quiz.quizId}>
+                {quiz.title} ({quiz.submissionCount} submissions)
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                setSyncImpact(null);
+                saveQuestion(true);
+              }}
+            >
+              Save anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+/**
+ * Page component for the question bank.
+ *
+ * @returns {JSX.Element} The question bank page.
+ */
+export default function QuestionBankPage(): JSX.Element {
+  return (
+    <Suspense>
+      <QuestionBank />
+    </Suspense>
+  );
+}
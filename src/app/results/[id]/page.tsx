@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useParams } from "next/navigation";
 import {
   BarChart,
@@ -20,9 +20,20 @@ import {
   CardTitle,
   CardDescription,
 } from "@/components/ui/card";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { FileTextIcon } from "@radix-ui/react-icons";
 import type { IQuestion } from "@/app/models/Quiz";
+import { ShortAnswerGrading } from "@/app/components/ShortAnswerGrading";
+import type { ShortAnswerResponse } from "@/app/components/ShortAnswerGrading";
+import { DownloadResultsMenu } from "@/app/components/DownloadResultsMenu";
+import { ItemAnalysis } from "@/app/components/ItemAnalysis";
+import {
+  EMPTY_RESULTS_FILTERS,
+  ResultsFilters,
+  toResultsFilterQuery,
+} from "@/app/components/ResultsFilters";
+import type { ResultsFilterValues } from "@/app/components/ResultsFilters";
 
 // Interfaces to match the API response structure
 interface AnswerBreakdown {
@@ -37,11 +48,21 @@ interface QuestionResult {
   questionType: IQuestion["type"];
   totalSubmissionsForQuestion: number;
   totalCorrect: number;
+  totalPartiallyCorrect?: number;
   answersBreakdown: AnswerBreakdown[];
   submittedTextAnswers?: string[];
+  shortAnswerResponses?: ShortAnswerResponse[];
+  acceptedAnswers?: string[];
   correctOrganDisplayName?: string;
 }
 
+type ResultsTab = "questions" | "item-analysis";
+
+const RESULTS_TABS: { value: ResultsTab; label: string }[] = [
+  { value: "questions", label: "Questions" },
+  { value: "item-analysis", label: "Item Analysis" },
+];
+
 // Chart component (can be in the same file or a separate one)
 interface QuestionChartProps {
   data: AnswerBreakdown[];
@@ -132,11 +153,19 @@ const QuestionChart: React.FC<QuestionChartProps> = ({
 };
 
 interface ShortAnswerDisplayProps {
-  responses: string[];
+  quizId: string;
+  questionId: string;
+  responses: ShortAnswerResponse[];
+  acceptedAnswers: string[];
+  onGraded: () => void;
 }
 
 const ShortAnswerDisplay: React.FC<ShortAnswerDisplayProps> = ({
+  quizId,
+  questionId,
   responses,
+  acceptedAnswers,
+  onGraded,
 }) => {
   if (!responses || responses.length === 0) {
     return (
@@ -147,18 +176,23 @@ const ShortAnswerDisplay: React.FC<ShortAnswerDisplayProps> = ({
   }
   return (
     <div>
+      <p className="text-sm text-gray-600 mb-2">
+        Accepted answers:{" "}
+        {acceptedAnswers.length > 0
+          ? acceptedAnswers.join(", ")
+          : "none (graded manually)"}
+      </p>
       <h4 className="text-md font-semibold mb-2">Submitted Answers:</h4>
-      <ScrollArea className="h-[200px] w-full rounded-md border p-3">
-        {" "}
-        {/* */}
-        <ul className="space-y-2">
-          {responses.map((response, index) => (
-            <li key={index} className="text-sm p-2 bg-gray-50 rounded">
-              {response}
-            </li>
-          ))}
-        </ul>
-      </ScrollArea>
+      <p className="text-xs text-gray-500 mb-2">
+        Identical answers are grouped. Grading a group overrides the automatic
+        grading for every student who gave that answer.
+      </p>
+      <ShortAnswerGrading
+        quizId={quizId}
+        questionId={questionId}
+        responses={responses}
+        onGraded={onGraded}
+      />
     </div>
   );
 };
@@ -170,43 +204,56 @@ export default function QuizResultsPage() {
   const [quizTitle, setQuizTitle] = useState<string>("");
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<ResultsTab>("questions");
+  const [filters, setFilters] = useState<ResultsFilterValues>(
+    EMPTY_RESULTS_FILTERS
+  );
+  const filterQuery = toResultsFilterQuery(filters);
 
-  useEffect(() => {
-    if (quizId) {
-      const fetchResults = async () => {
-        try {
-          setLoading(true);
-          const response = await fetch(`/api/quizzes/${quizId}/results`);
-          if (!response.ok) {
-            const errorData = await response.json();
-            throw new Error(
-              errorData.error ||
-                `Failed to fetch results: ${response.statusText}`
-            );
-          }
-          const data: QuestionResult[] = await response.json();
-          setResults(data);
-          // Assuming the first question's quiz data might indirectly give a title,
-          // or you might fetch quiz details separately if needed for the title.
-          // For simplicity, we'll try to get a hint from the first question or set a generic one.
-          if (data.length > 0) {
-            // This is a placeholder. Ideally, fetch quiz details separately for its title.
-            // For now, we don't have the quiz title directly in QuestionResult.
-            // setQuizTitle(data[0].quizTitle || `Results for Quiz`); // quizTitle not in QuestionResult
-          }
-        } catch (err) {
-          setError(
-            err instanceof Error ? err.message : "An unknown error occurred"
+  const fetchResults = useCallback(
+    async (showLoading = true) => {
+      try {
+        if (showLoading) setLoading(true);
+        const response = await fetch(
+          `/api/quizzes/${quizId}/results${
+            filterQuery ? `?${filterQuery}` : ""
+          }`
+        );
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(
+            errorData.error || `Failed to fetch results: ${response.statusText}`
           );
-        } finally {
-          setLoading(false);
         }
-      };
-      fetchResults();
-    }
-  }, [quizId]);
+        const data: QuestionResult[] = await response.json();
+        setResults(data);
+        setError(null);
+        // Assuming the first question's quiz data might indirectly give a title,
+        // or you might fetch quiz details separately if needed for the title.
+        // For simplicity, we'll try to get a hint from the first question or set a generic one.
+        if (data.length > 0) {
+          // This is a placeholder. Ideally, fetch quiz details separately for its title.
+          // For now, we don't have the quiz title directly in QuestionResult.
+          // setQuizTitle(data[0].quizTitle || `Results for Quiz`); // quizTitle not in QuestionResult
+        }
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "An unknown error occurred"
+        );
+      } finally {
+        setLoading(false);
+      }
+    },
+    [quizId, filterQuery]
+  );
+
+  useEffect(() => {
+    if (quizId) fetchResults();
+  }, [quizId, fetchResults]);
 
-  if (loading) {
+  // Only the first load replaces the page, so the filters stay usable while
+  // the filtered results load
+  if (loading && results.length === 0) {
     return (
       <div className="container mx-auto p-4 text-center">
         Loading results...
@@ -214,7 +261,7 @@ export default function QuizResultsPage() {
     );
   }
 
-  if (error) {
+  if (error && results.length === 0) {
     return (
       <div className="container mx-auto p-4 text-center text-red-500">
         Error: {error}
@@ -232,65 +279,124 @@ export default function QuizResultsPage() {
 
   return (
     <div className="container mx-auto p-4 space-y-6">
-      <h1 className="text-3xl font-bold mb-6">Quiz Results</h1>
-      {results.map((questionResult) => (
-        <Card key={questionResult.questionId} className="overflow-hidden">
-          {" "}
-          {/* */}
-          <CardHeader>
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <h1 className="text-3xl font-bold">Quiz Results</h1>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a
+              href={`/api/quizzes/${quizId}/results/report${
+                filterQuery ? `?${filterQuery}` : ""
+              }`}
+              download
+            >
+              <FileTextIcon className="mr-2 h-4 w-4" />
+              Download Report
+            </a>
+          </Button>
+          <DownloadResultsMenu quizId={quizId} filterQuery={filterQuery} />
+        </div>
+      </div>
+      <ResultsFilters filters={filters} onChange={setFilters} />
+      {error && <p className="text-red-500">Error: {error}</p>}
+      {filterQuery &&
+        results.every((result) => result.totalSubmissionsForQuestion === 0) && (
+          <p className="text-gray-500">No submissions match these filters.</p>
+        )}
+      <div role="tablist" className="flex gap-2 border-b">
+        {RESULTS_TABS.map((tab) => (
+          <Button
+            key={tab.value}
+            role="tab"
+            aria-selected={activeTab === tab.value}
+            variant="ghost"
+            className={`rounded-b-none border-b-2 ${
+              activeTab === tab.value
+                ? "border-primary font-semibold"
+                : "border-transparent text-gray-500"
+            }`}
+            onClick={() => setActiveTab(tab.value)}
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+      {activeTab === "item-analysis" && (
+        <ItemAnalysis quizId={quizId} filterQuery={filterQuery} />
+      )}
+      {activeTab === "questions" &&
+        results.map((questionResult) => (
+          <Card key={questionResult.questionId} className="overflow-hidden">
             {" "}
             {/* */}
-            <CardTitle>{questionResult.questionText}</CardTitle> {/* */}
-            <CardDescription className="text-sm text-gray-600">
+            <CardHeader>
               {" "}
               {/* */}
-              Type: {questionResult.questionType} <br />
-              Total Submissions for this Question:{" "}
-              {questionResult.totalSubmissionsForQuestion}
-              {questionResult.questionType !== "short-answer" &&
-                typeof questionResult.totalCorrect === "number" && (
+              <CardTitle>{questionResult.questionText}</CardTitle> {/* */}
+              <CardDescription className="text-sm text-gray-600">
+                {" "}
+                {/* */}
+                Type: {questionResult.questionType} <br />
+                Total Submissions for this Question:{" "}
+                {questionResult.totalSubmissionsForQuestion}
+                {(questionResult.questionType !== "short-answer" ||
+                  (questionResult.acceptedAnswers?.length ?? 0) > 0 ||
+                  questionResult.shortAnswerResponses?.some(
+                    (response) => response.manualGrade
+                  )) &&
+                  typeof questionResult.totalCorrect === "number" && (
+                    <>
+                      <br />
+                      Total Correct Answers: {questionResult.totalCorrect} (
+                      {questionResult.totalSubmissionsForQuestion > 0
+                        ? (
+                            (questionResult.totalCorrect /
+                              questionResult.totalSubmissionsForQuestion) *
+                            100
+                          ).toFixed(1)
+                        : 0}
+                      %)
+                    </>
+                  )}
+                {!!questionResult.totalPartiallyCorrect && (
                   <>
                     <br />
-                    Total Correct Answers: {questionResult.totalCorrect} (
-                    {questionResult.totalSubmissionsForQuestion > 0
-                      ? (
-                          (questionResult.totalCorrect /
-                            questionResult.totalSubmissionsForQuestion) *
-                          100
-                        ).toFixed(1)
-                      : 0}
-                    %)
-                  </>
-                )}
-              {questionResult.questionType === "select-organ" &&
-                questionResult.correctOrganDisplayName && (
-                  <>
-                    {" "}
-                    <br /> Correct Organ:{" "}
-                    {questionResult.correctOrganDisplayName}{" "}
+                    Partially Correct Answers:{" "}
+                    {questionResult.totalPartiallyCorrect}
                   </>
                 )}
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            {" "}
-            {/* */}
-            {questionResult.questionType === "short-answer" ? (
-              <ShortAnswerDisplay
-                responses={questionResult.submittedTextAnswers || []}
-              />
-            ) : questionResult.answersBreakdown &&
-              questionResult.answersBreakdown.length > 0 ? (
-              <QuestionChart
-                data={questionResult.answersBreakdown}
-                questionType={questionResult.questionType}
-              />
-            ) : (
-              <p>No submissions provided data for this question's chart.</p>
-            )}
-          </CardContent>
-        </Card>
-      ))}
+                {questionResult.questionType === "select-organ" &&
+                  questionResult.correctOrganDisplayName && (
+                    <>
+                      {" "}
+                      <br /> Correct Organ:{" "}
+                      {questionResult.correctOrganDisplayName}{" "}
+                    </>
+                  )}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {" "}
+              {/* */}
+              {questionResult.questionType === "short-answer" ? (
+                <ShortAnswerDisplay
+                  quizId={quizId}
+                  questionId={questionResult.questionId}
+                  responses={questionResult.shortAnswerResponses || []}
+                  acceptedAnswers={questionResult.acceptedAnswers || []}
+                  onGraded={() => fetchResults(false)}
+                />
+              ) : questionResult.answersBreakdown &&
+                questionResult.answersBreakdown.length > 0 ? (
+                <QuestionChart
+                  data={questionResult.answersBreakdown}
+                  questionType={questionResult.questionType}
+                />
+              ) : (
+                <p>No submissions provided data for this question's chart.</p>
+              )}
+            </CardContent>
+          </Card>
+        ))}
     </div>
   );
 }
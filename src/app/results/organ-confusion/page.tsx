@@ -0,0 +1,344 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Matches the response of GET /api/results/organ-confusion
+interface ConfusionTarget {
+  targetType: "mesh" | "group";
+  targetId: string;
+  displayName: string;
+  organGroupIds: string[];
+  answerCount: number;
+  correctCount: number;
+  noAnswerCount: number;
+  confusions: { meshId: string; count: number }[];
+}
+
+interface ConfusionMesh {
+  meshId: string;
+  displayName: string;
+  organGroupIds: string[];
+}
+
+interface OrganConfusion {
+  targets: ConfusionTarget[];
+  meshes: ConfusionMesh[];
+  organGroups: { groupId: string; groupName: string }[];
+}
+
+const UNGROUPED = "Ungrouped";
+const TOP_CONFUSION_COUNT = 10;
+
+const formatPercentage = (value: number, total: number): string =>
+  `${total > 0 ? Math.round((value / total) * 100) : 0}%`;
+
+export default function OrganConfusionPage() {
+  const [confusion, setConfusion] = useState<OrganConfusion | null>(null);
+  const [studyYear, setStudyYear] = useState<string>("all");
+  const [groupFilter, setGroupFilter] = useState<string>("all");
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchConfusion = async () => {
+      try {
+        setLoading(true);
+        const query = studyYear === "all" ? "" : `?studyYear=${studyYear}`;
+        const response = await fetch(`/api/results/organ-confusion${query}`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(
+            errorData.error ||
+              `Failed to fetch organ confusion: ${response.statusText}`
+          );
+        }
+        setConfusion(await response.json());
+        setError(null);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "An unknown error occurred"
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchConfusion();
+  }, [studyYear]);
+
+  const groupNames = new Map(
+    confusion?.organGroups.map((group) => [group.groupId, group.groupName])
+  );
+  // The API sorts targets and meshes by the first of their group names
+  const primaryGroupName = (organGroupIds: string[]) =>
+    organGroupIds
+      .flatMap((groupId) => groupNames.get(groupId) ?? [])
+      .sort()[0] ?? UNGROUPED;
+
+  const targets = (confusion?.targets ?? []).filter(
+    (target) =>
+      groupFilter === "all" || target.organGroupIds.includes(groupFilter)
+  );
+  const shownMeshIds = new Set(
+    targets.flatMap((target) => target.confusions.map((item) => item.meshId))
+  );
+  const meshes = (confusion?.meshes ?? []).filter((mesh) =>
+    shownMeshIds.has(mesh.meshId)
+  );
+  const meshNames = new Map(
+    confusion?.meshes.map((mesh) => [mesh.meshId, mesh.displayName])
+  );
+
+  // Consecutive columns of the same organ group share a header
+  const columnGroups: { groupName: string; span: number }[] = [];
+  meshes.forEach((mesh) => {
+    const groupName = primaryGroupName(mesh.organGroupIds);
+    const last = columnGroups[columnGroups.length - 1];
+    if (last?.groupName === groupName) last.span++;
+    else columnGroups.push({ groupName, span: 1 });
+  });
+
+  const rates = targets.flatMap((target) =>
+    target.confusions.map((item) =>
+      target.answerCount > 0 ? item.count / target.answerCount : 0
+    )
+  );
+  const maxRate = Math.max(0, ...rates);
+
+  const topConfusions = targets
+    .flatMap((target) => target.confusions.map((item) => ({ target, ...item })))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_CONFUSION_COUNT);
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <header>
+        <h1 className="text-3xl font-bold">Organ Confusion</h1>
+        <p className="text-gray-600">
+          Which structures students click instead of the target of select-organ
+          questions, across all quizzes. Rows are the targets, columns the
+          meshes clicked instead, both grouped by organ group. The color shows
+          the share of the answers to a target that clicked that mesh.
+        </p>
+      </header>
+
+      <div className="flex flex-wrap gap-3">
+        <Select value={studyYear} onValueChange={setStudyYear}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Study year" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All years</SelectItem>
+            <SelectItem value="1">Year 1</SelectItem>
+            <SelectItem value="2">Year 2</SelectItem>
+            <SelectItem value="3">Year 3</SelectItem>
+            <SelectItem value="4">Year 4</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={groupFilter} onValueChange={setGroupFilter}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Organ group" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All organ groups</SelectItem>
+            {confusion?.organGroups.map((group) => (
+              <SelectItem key={group.groupId} value={group.groupId}>
+                {group.groupName}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <p className="text-center">Loading organ confusion...</p>
+      ) : error ? (
+        <p className="text-center text-red-500">Error: {error}</p>
+      ) : targets.length === 0 ? (
+        <p className="text-center text-gray-500">
+          No answers to select-organ questions found.
+        </p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Misidentification Heatmap</CardTitle>
+              <CardDescription>
+                Hover over a cell for the number of answers.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {meshes.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No wrong answers for these targets.
+                </p>
+              ) : (
+                <table className="text-xs border-collapse">
+                  <thead>
+                    <tr>
+                      <th />
+                      {columnGroups.map((group, index) => (
+                        <th
+                          key={`${group.groupName}-${index}`}
+                          colSpan={group.span}
+                          className="border-x border-b px-1 py-1 font-semibold"
+                        >
+                          {group.groupName}
+                        </th>
+                      ))}
+                    </tr>
+                    <tr>
+                      <th className="text-left align-bottom pr-2">Target</th>
+                      {meshes.map((mesh) => (
+                        <th
+                          key={mesh.meshId}
+                          className="h-32 w-8 align-bottom font-normal"
+                        >
+                          <span className="inline-block whitespace-nowrap [writing-mode:vertical-rl] rotate-180">
+                            {mesh.displayName}
+                          </span>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {targets.map((target, index) => {
+                      const counts = new Map(
+                        target.confusions.map((item) => [
+                          item.meshId,
+                          item.count,
+                        ])
+                      );
+                      const groupName = primaryGroupName(target.organGroupIds);
+                      const isFirstOfGroup =
+                        index === 0 ||
+                        primaryGroupName(targets[index - 1].organGroupIds) !==
+                          groupName;
+                      return (
+                        <Fragment
+                          key={`${target.targetType}:${target.targetId}`}
+                        >
+                          {isFirstOfGroup && (
+                            <tr>
+                              <td
+                                colSpan={meshes.length + 1}
+                                className="pt-3 pb-1 font-semibold"
+                              >
+                                {groupName}
+                              </td>
+                            </tr>
+                          )}
+                          <tr>
+                            <td className="pr-2 py-1 whitespace-nowrap">
+                              {target.displayName}
+                              {target.targetType === "group" && " (group)"}
+                              <span className="block text-gray-500">
+                                {target.answerCount} answers,{" "}
+                                {formatPercentage(
+                                  target.correctCount,
+                                  target.answerCount
+                                )}{" "}
+                                correct
+                              </span>
+                            </td>
+                            {meshes.map((mesh) => {
+                              const count = counts.get(mesh.meshId) ?? 0;
+                              const rate =
+                                target.answerCount > 0
+                                  ? count / target.answerCount
+                                  : 0;
+                              return (
+                                <td
+                                  key={mesh.meshId}
+                                  title={`${target.displayName} mistaken for ${
+                                    mesh.displayName
+                                  }: ${count} of ${
+                                    target.answerCount
+                                  } answers (${formatPercentage(
+                                    count,
+                                    target.answerCount
+                                  )})`}
+                                  className="h-8 w-8 border text-center"
+                                  style={{
+                                    backgroundColor:
+                                      count > 0 && maxRate > 0
+                                        ? `rgba(220, 38, 38, ${(
+                                            0.1 +
+                                            (0.9 * rate) / maxRate
+                                          ).toFixed(2)})`
+                                        : undefined,
+                                  }}
+                                >
+                                  {count > 0 ? count : ""}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Most Frequent Confusions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {topConfusions.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No wrong answers for these targets.
+                </p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b">
+                      <th className="py-2">Target</th>
+                      <th className="py-2">Mistaken for</th>
+                      <th className="py-2 text-right">Answers</th>
+                      <th className="py-2 text-right">Share</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {topConfusions.map(({ target, meshId, count }) => (
+                      <tr
+                        key={`${target.targetType}:${target.targetId}:${meshId}`}
+                        className="border-b"
+                      >
+                        <td className="py-2">
+                          {target.displayName}
+                          {target.targetType === "group" && " (group)"}
+                        </td>
+                        <td className="py-2">{meshNames.get(meshId)}</td>
+                        <td className="py-2 text-right">{count}</td>
+                        <td className="py-2 text-right">
+                          {formatPercentage(count, target.answerCount)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import {
   CardDescription,
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 
 // Simplified Quiz type for this listing page
 interface ListedQuiz {
@@ -89,12 +90,17 @@ export default function SelectQuizForResultsPage() {
 
   return (
     <div className="container mx-auto p-4">
-      <header className="mb-6">
-        <h1 className="text-3xl font-bold">View Quiz Results</h1>
-        <p className="text-gray-600">
-          Select a quiz from the list below to see its detailed results and
-          charts.
-        </p>
+      <header className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">View Quiz Results</h1>
+          <p className="text-gray-600">
+            Select a quiz from the list below to see its detailed results and
+            charts.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/results/organ-confusion">Organ Confusion</Link>
+        </Button>
       </header>
 
       <Input
@@ -0,0 +1,386 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import {
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { IQuestion } from "@/app/models/Quiz";
+import type { StudentClient } from "@/app/lib/types";
+
+// Interfaces to match the API response structure
+interface AccuracyResult {
+  answered: number;
+  correct: number;
+  accuracy: number;
+}
+
+interface QuestionTypeAccuracy extends AccuracyResult {
+  questionType: IQuestion["type"];
+}
+
+interface OrganGroupAccuracy extends AccuracyResult {
+  organGroupId: string;
+  groupName: string;
+}
+
+interface StudentSubmissionResult {
+  submissionId: string;
+  quizId: string;
+  quizTitle: string;
+  submittedAt: string;
+  studyYearAtSubmission: number;
+  score: number;
+  maxScore: number;
+  percentage: number;
+  accuracyByQuestionType: Partial<Record<IQuestion["type"], number>>;
+  accuracyByOrganGroup: Record<string, number>;
+}
+
+interface StudentResults {
+  student: StudentClient;
+  submissionCount: number;
+  averagePercentage: number;
+  submissions: StudentSubmissionResult[];
+  byQuestionType: QuestionTypeAccuracy[];
+  byOrganGroup: OrganGroupAccuracy[];
+}
+
+type TrendBreakdown = "score" | "questionType" | "organGroup";
+
+const QUESTION_TYPE_LABELS: Record<IQuestion["type"], string> = {
+  "multiple-choice": "Multiple Choice",
+  "true-false": "True/False",
+  "select-organ": "Select Organ",
+  "short-answer": "Short Answer",
+};
+
+const LINE_COLORS = [
+  "#8884d8",
+  "#82ca9d",
+  "#fa8072",
+  "#ffc658",
+  "#0088fe",
+  "#ff8042",
+  "#a4de6c",
+  "#d0ed57",
+];
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString("nl-NL");
+
+interface TrendChartProps {
+  results: StudentResults;
+  breakdown: TrendBreakdown;
+}
+
+/**
+ * Line chart of the results of a student over time. Shows the score per quiz,
+ * or the accuracy per question type or organ group. Lines skip submissions
+ * without questions in that category.
+ */
+const TrendChart: React.FC<TrendChartProps> = ({ results, breakdown }) => {
+  const series =
+    breakdown === "questionType"
+      ? results.byQuestionType.map((t) => ({
+          key: t.questionType,
+          name: QUESTION_TYPE_LABELS[t.questionType],
+        }))
+      : breakdown === "organGroup"
+      ? results.byOrganGroup.map((g) => ({
+          key: g.organGroupId,
+          name: g.groupName,
+        }))
+      : [{ key: "percentage", name: "Score" }];
+
+  const data = results.submissions.map((submission) => ({
+    label: `${formatDate(submission.submittedAt)} ${submission.quizTitle}`,
+    percentage: submission.percentage,
+    ...(breakdown === "questionType"
+      ? submission.accuracyByQuestionType
+      : breakdown === "organGroup"
+      ? submission.accuracyByOrganGroup
+      : {}),
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      <LineChart
+        data={data}
+        margin={{ top: 5, right: 30, left: 20, bottom: 50 }}
+      >
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="label"
+          angle={-30}
+          textAnchor="end"
+          interval={0}
+          height={70}
+          tick={{ fontSize: 12 }}
+        />
+        <YAxis
+          domain={[0, 100]}
+          unit="%"
+          label={{ value: "Correct", angle: -90, position: "insideLeft" }}
+        />
+        <Tooltip formatter={(value) => `${value}%`} />
+        <Legend verticalAlign="top" />
+        {series.map((line, index) => (
+          <Line
+            key={line.key}
+            type="monotone"
+            dataKey={line.key}
+            name={line.name}
+            stroke={LINE_COLORS[index % LINE_COLORS.length]}
+            connectNulls
+            dot
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
+
+interface AccuracyBarChartProps {
+  data: { label: string; accuracy: number; answered: number }[];
+}
+
+/**
+ * Horizontal bar chart of the accuracy per category over all submissions.
+ */
+const AccuracyBarChart: React.FC<AccuracyBarChartProps> = ({ data }) => (
+  <ResponsiveContainer width="100%" height={Math.max(120, data.length * 40)}>
+    <BarChart data={data} layout="vertical" margin={{ left: 40, right: 30 }}>
+      <CartesianGrid strokeDasharray="3 3" />
+      <XAxis type="number" domain={[0, 100]} unit="%" />
+      <YAxis type="category" dataKey="label" width={140} />
+      <Tooltip
+        formatter={(value, name, props) => [
+          `${value}% of ${props.payload.answered} answer(s)`,
+          "Accuracy",
+        ]}
+      />
+      <Bar dataKey="accuracy" fill="#82ca9d" />
+    </BarChart>
+  </ResponsiveContainer>
+);
+
+/**
+ * Page component showing the results and progress history of a single student:
+ * every submitted quiz with its score, the accuracy per question type and organ
+ * group, and a trend chart over time.
+ */
+export default function StudentResultsPage() {
+  const params = useParams();
+  const studentId = params.id as string;
+  const [results, setResults] = useState<StudentResults | null>(null);
+  const [breakdown, setBreakdown] = useState<TrendBreakdown>("score");
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchResults = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/students/${studentId}/results`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(
+            errorData.error || `Failed to fetch results: ${response.statusText}`
+          );
+        }
+        setResults(await response.json());
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "An unknown error occurred"
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+    if (studentId) fetchResults();
+  }, [studentId]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto p-4 text-center">
+        Loading results...
+      </div>
+    );
+  }
+
+  if (error || !results) {
+    return (
+      <div className="container mx-auto p-4 text-center text-red-500">
+        Error: {error}
+      </div>
+    );
+  }
+
+  const { student } = results;
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <div>
+        <Link
+          href="/students"
+          className="text-sm text-gray-500 hover:underline"
+        >
+          &larr; All students
+        </Link>
+        <h1 className="text-3xl font-bold">{student.name}</h1>
+        <p className="text-gray-600">
+          {student.email}
+          {student.studyYear && ` · Year ${student.studyYear}`}
+          {student.cohort && ` · Cohort ${student.cohort}`}
+        </p>
+      </div>
+
+      {results.submissionCount === 0 ? (
+        <p className="text-center text-gray-500">
+          This student has not submitted any quizzes yet.
+        </p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4">
+              <div>
+                <CardTitle>Progress</CardTitle>
+                <CardDescription>
+                  {results.submissionCount} submission(s), average score{" "}
+                  {results.averagePercentage}%
+                </CardDescription>
+              </div>
+              <Select
+                value={breakdown}
+                onValueChange={(value: TrendBreakdown) => setBreakdown(value)}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="score">Score per quiz</SelectItem>
+                  <SelectItem value="questionType">By question type</SelectItem>
+                  <SelectItem value="organGroup">By organ group</SelectItem>
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              <TrendChart results={results} breakdown={breakdown} />
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Accuracy by Question Type</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AccuracyBarChart
+                  data={results.byQuestionType.map((t) => ({
+                    label: QUESTION_TYPE_LABELS[t.questionType],
+                    accuracy: t.accuracy,
+                    answered: t.answered,
+                  }))}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Accuracy by Organ Group</CardTitle>
+                <CardDescription>
+                  Based on the select organ questions.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {results.byOrganGroup.length > 0 ? (
+                  <AccuracyBarChart
+                    data={results.byOrganGroup.map((g) => ({
+                      label: g.groupName,
+                      accuracy: g.accuracy,
+                      answered: g.answered,
+                    }))}
+                  />
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    No select organ questions answered yet.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Submitted Quizzes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-2">Quiz</th>
+                    <th className="py-2">Submitted</th>
+                    <th className="py-2">Study Year</th>
+                    <th className="py-2 text-right">Score</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...results.submissions].reverse().map((submission) => (
+                    <tr
+                      key={submission.submissionId}
+                      className="border-b last:border-0"
+                    >
+                      <td className="py-2">
+                        <Link
+                          href={`/results/${submission.quizId}`}
+                          className="hover:underline"
+                        >
+                          {submission.quizTitle}
+                        </Link>
+                      </td>
+                      <td className="py-2">
+                        {new Date(submission.submittedAt).toLocaleString(
+                          "nl-NL"
+                        )}
+                      </td>
+                      <td className="py-2">
+                        {submission.studyYearAtSubmission}
+                      </td>
+                      <td className="py-2 text-right">
+                        {submission.score} / {submission.maxScore} (
+                        {submission.percentage}%)
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+"use client";
+
+import { JSX, useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import type { StudentClient } from "@/app/lib/types";
+
+interface ImportReport {
+  created: number;
+  updated: number;
+  errors: { line: number; error: string }[];
+}
+
+const emptyForm = { name: "", email: "", studyYear: "", cohort: "" };
+
+/**
+ * Page component for teachers to manage the student roster.
+ *
+ * Lists the students with filters on study year, cohort and name/email, allows
+ * adding, editing and deleting students and importing a class roster from a
+ * CSV file (columns `name`, `email`, `studyYear`, `cohort`).
+ *
+ * @returns {JSX.Element} The student management page.
+ */
+export default function StudentsPage(): JSX.Element {
+  const [students, setStudents] = useState<StudentClient[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [filterStudyYear, setFilterStudyYear] = useState("");
+  const [filterCohort, setFilterCohort] = useState("");
+  const [search, setSearch] = useState("");
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+
+  const fetchStudents = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (filterStudyYear) params.set("studyYear", filterStudyYear);
+      if (filterCohort) params.set("cohort", filterCohort);
+      if (search) params.set("search", search);
+      const response = await fetch(`/api/students?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch students");
+      setStudents(await response.json());
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to fetch students");
+    }
+  }, [filterStudyYear, filterCohort, search]);
+
+  useEffect(() => {
+    fetchStudents();
+  }, [fetchStudents]);
+
+  /**
+   * Fills the form with a student, so it can be edited.
+   * @param {StudentClient} student The student to edit
+   */
+  const startEditing = (student: StudentClient) => {
+    setEditingId(student._id);
+    setForm({
+      name: student.name,
+      email: student.email,
+      studyYear: student.studyYear?.toString() ?? "",
+      cohort: student.cohort ?? "",
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+  };
+
+  /**
+   * Handles form submission by creating a new student or updating the edited one.
+   * @param {React.FormEvent} e The form event
+   */
+  const handleSaveStudent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    try {
+      const response = await fetch(
+        editingId ? `/api/students/${editingId}` : "/api/students",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: form.name,
+            email: form.email,
+            studyYear: form.studyYear ? parseInt(form.studyYear, 10) : null,
+            cohort: form.cohort || null,
+          }),
+        }
+      );
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to save student");
+      }
+      toast.success(
+        editingId ? "Student updated successfully!" : "Student added!"
+      );
+      resetForm();
+      fetchStudents();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Deletes a student and refreshes the list.
+   * @param {string} studentId The ID of the student to delete
+   */
+  const handleDeleteStudent = async (studentId: string) => {
+    try {
+      const response = await fetch(`/api/students/${studentId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to delete student");
+      }
+      toast.success("Student deleted successfully");
+      if (editingId === studentId) resetForm();
+      fetchStudents();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    }
+  };
+
+  /**
+   * Uploads the selected CSV file to the import endpoint and shows the report.
+   * @param {React.ChangeEvent<HTMLInputElement>} e The change event of the file input
+   */
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    setLoading(true);
+    try {
+      const response = await fetch("/api/students/import", {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: await file.text(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to import students");
+      }
+      setImportReport(data);
+      toast.success(
+        `Imported ${data.created} new and ${data.updated} existing students`
+      );
+      fetchStudents();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    } finally {
+      setLoading(false);
+      input.value = ""; // Allow importing the same file again
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <h1 className="text-3xl font-bold">Students</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? "Edit Student" : "New Student"}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={handleSaveStudent}
+            className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end"
+          >
+            <div>
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="mt-2"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                className="mt-2"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="studyYear">Study Year</Label>
+              <Input
+                id="studyYear"
+                type="number"
+                min={1}
+                value={form.studyYear}
+                onChange={(e) =>
+                  setForm({ ...form, studyYear: e.target.value })
+                }
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cohort">Cohort</Label>
+              <Input
+                id="cohort"
+                value={form.cohort}
+                onChange={(e) => setForm({ ...form, cohort: e.target.value })}
+                placeholder="e.g. 2025-A"
+                className="mt-2"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={loading} className="flex-1">
+                {loading ? "Saving..." : editingId ? "Save" : "Add Student"}
+              </Button>
+              {editingId && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Roster</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-500">
+            Upload a CSV file with a header row containing the columns{" "}
+            <code>name</code>, <code>email</code> and optionally{" "}
+            <code>studyYear</code> and <code>cohort</code>. Existing students
+            are matched by email and updated.
+          </p>
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleImport}
+            disabled={loading}
+            className="max-w-sm"
+          />
+          {importReport && importReport.errors.length > 0 && (
+            <div className="text-sm">
+              <p className="font-medium text-red-600">
+                {importReport.errors.length} row(s) were skipped:
+              </p>
+              <ul className="list-disc pl-5">
+                {importReport.errors.map((error) => (
+                  <li key={error.line}>
+                    Line {error.line}: {error.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Roster</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search name or email"
+            />
+            <Input
+              type="number"
+              min={1}
+              value={filterStudyYear}
+              onChange={(e) => setFilterStudyYear(e.target.value)}
+              placeholder="Study year"
+            />
+            <Input
+              value={filterCohort}
+              onChange={(e) => setFilterCohort(e.target.value)}
+              placeholder="Cohort"
+            />
+          </div>
+          {students.length === 0 ? (
+            <p className="text-sm text-gray-500">No students found.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2">Name</th>
+                  <th className="py-2">Email</th>
+                  <th className="py-2">Study Year</th>
+                  <th className="py-2">Cohort</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {students.map((student) => (
+                  <tr key={student._id} className="border-b last:border-0">
+                    <td className="py-2">
+                      <Link
+                        href={`/students/${student._id}`}
+                        className="hover:underline"
+                      >
+                        {student.name}
+                      </Link>
+                    </td>
+                    <td className="py-2">{student.email}</td>
+                    <td className="py-2">{student.studyYear ?? "-"}</td>
+                    <td className="py-2">{student.cohort || "-"}</td>
+                    <td className="py-2 text-right space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => startEditing(student)}
+                      >
+                        Edit
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="destructive" size="sm">
+                            Delete
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>
+                              Delete {student.name}?
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The submissions of this student are kept, but will
+                              no longer be linked to a student.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              className="bg-destructive text-white hover:bg-destructive/90"
+                              onClick={() => handleDeleteStudent(student._id)}
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { JSX, useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface TrashedQuiz {
+  _id: string;
+  title: string;
+  studyYear: number;
+  questionCount: number;
+  submissionCount: number;
+  deletedAt: string;
+}
+
+/**
+ * Page component for teachers to manage the quizzes in the trash.
+ *
+ * Deleted quizzes are moved to the trash, where they can be restored or
+ * deleted permanently. The submissions of a permanently deleted quiz are kept
+ * unless the teacher chooses to delete them too.
+ *
+ * @returns {JSX.Element} The trash page.
+ */
+export default function TrashPage(): JSX.Element {
+  const [quizzes, setQuizzes] = useState<TrashedQuiz[]>([]);
+  const [deleteSubmissions, setDeleteSubmissions] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await fetch("/api/quizzes/trash");
+      if (!response.ok) throw new Error("Failed to fetch the trash");
+      setQuizzes(await response.json());
+    } catch (error) {
+      console.error(error);
+      toast.error("Failed to fetch the trash");
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  /**
+   * Restores a quiz from the trash and refreshes the list.
+   * @param {TrashedQuiz} quiz The quiz to restore
+   */
+  const handleRestore = async (quiz: TrashedQuiz) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/quizzes/${quiz._id}/restore`, {
+        method: "POST",
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to restore quiz");
+      }
+      toast.success(`Restored "${quiz.title}"`);
+      fetchTrash();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Permanently deletes a quiz, and its submissions if the teacher chose so,
+   * and refreshes the list.
+   * @param {TrashedQuiz} quiz The quiz to delete permanently
+   */
+  const handlePurge = async (quiz: TrashedQuiz) => {
+    setLoading(true);
+    try {
+      const response = await fetch(
+        `/api/quizzes/${quiz._id}/purge${
+          deleteSubmissions ? "?deleteSubmissions=true" : ""
+        }`,
+        { method: "DELETE" }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete quiz");
+      }
+      toast.success(
+        deleteSubmissions
+          ? `Deleted "${quiz.title}" and ${data.deletedSubmissions} submissions`
+          : `Deleted "${quiz.title}"`
+      );
+      fetchTrash();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "An unknown error occurred."
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 space-y-6">
+      <h1 className="text-3xl font-bold">Trash</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Deleted Quizzes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {quizzes.length === 0 ? (
+            <p className="text-sm text-gray-500">The trash is empty.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b">
+                  <th className="py-2">Title</th>
+                  <th className="py-2">Study Year</th>
+                  <th className="py-2">Questions</th>
+                  <th className="py-2">Submissions</th>
+                  <th className="py-2">Deleted</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {quizzes.map((quiz) => (
+                  <tr key={quiz._id} className="border-b last:border-0">
+                    <td className="py-2">{quiz.title}</td>
+                    <td className="py-2">{quiz.studyYear}</td>
+                    <td className="py-2">{quiz.questionCount}</td>
+                    <td className="py-2">{quiz.submissionCount}</td>
+                    <td className="py-2">
+                      {new Date(quiz.deletedAt).toLocaleString("nl-NL")}
+                    </td>
+                    <td className="py-2 text-right space-x-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={loading}
+                        onClick={() => handleRestore(quiz)}
+                      >
+                        Restore
+                      </Button>
+                      <AlertDialog
+                        onOpenChange={(open) =>
+                          open && setDeleteSubmissions(false)
+                        }
+                      >
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            disabled={loading}
+                          >
+                            Delete Permanently
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>
+                              Permanently delete {quiz.title}?
+                            </AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This action cannot be undone. The submissions of
+                              this quiz are kept unless you delete them too.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          {quiz.submissionCount > 0 && (
+                            <div className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                id={`deleteSubmissions-${quiz._id}`}
+                                checked={deleteSubmissions}
+                                onChange={(e) =>
+                                  setDeleteSubmissions(e.target.checked)
+                                }
+                                className="h-4 w-4"
+                              />
+                              <Label htmlFor={`deleteSubmissions-${quiz._id}`}>
+                                Also delete its {quiz.submissionCount}{" "}
+                                submissions
+                              </Label>
+                            </div>
+                          )}
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              className="bg-destructive text-white hover:bg-destructive/90"
+                              onClick={() => handlePurge(quiz)}
+                            >
+                              Delete Permanently
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { NextResponse, type NextRequest } from "next/server";
+import dbConnect from "@/app/lib/dbConnect";
+import {
+  SESSION_COOKIE_NAME,
+  isSessionCurrent,
+  verifySessionToken,
+} from "@/app/lib/session";
+import type { UserRole } from "@/app/models/User";
+
+interface RouteRule {
+  methods: string[];
+  pattern: RegExp;
+}
+
+// Pages and endpoints that anyone can reach.
+const PUBLIC_ROUTES: RouteRule[] = [
+  { methods: ["GET"], pattern: /^\/login$/ },
+  { methods: ["GET"], pattern: /^\/api-docs$/ },
+  { methods: ["GET", "POST"], pattern: /^\/api\/auth(\/.*)?$/ },
+];
+
+// Endpoints consumed by the Unreal Engine client. These do not require a teacher
+// session, the route handlers authenticate the UE client themselves where needed
+// (API keys, see lib/apiKeys.ts).
+const CLIENT_ROUTES: RouteRule[] = [
+  { methods: ["GET"], pattern: /^\/api\/quizzes$/ },
+  // The trash and the export (with answer keys) are for teachers only
+  { methods: ["GET"], pattern: /^\/api\/quizzes\/(?!(?:trash|export)$)[^/]+$/ },
+  { methods: ["GET"], pattern: /^\/api\/mesh-catalog$/ },
+  { methods: ["GET"], pattern: /^\/api\/organ-groups$/ },
+  { methods: ["POST"], pattern: /^\/api\/submissions$/ },
+  { methods: ["GET"], pattern: /^\/api\/client\/.+$/ },
+];
+
+// Pages and endpoints only available to admins. Everything else requires at least
+// the "teacher" role.
+const ADMIN_ROUTES: RegExp[] = [
+  /^\/admin(\/.*)?$/,
+  /^\/api\/users(\/.*)?$/,
+  /^\/api\/api-clients(\/.*)?$/,
+];
+
+const matchesRule = (rules: RouteRule[], method: string, pathname: string) =>
+  rules.some(
+    (rule) =>
+      (rule.methods.includes(method) ||
+        (method === "HEAD" && rule.methods.includes("GET"))) &&
+      rule.pattern.test(pathname)
+  );
+
+/**
+ * Returns the minimum role required to access a route, or null if the route is
+ * public or reserved for the UE client.
+ *
+ * @param {string} method - The HTTP method of the request.
+ * @param {string} pathname - The path of the request.
+ * @returns {UserRole | null} The required role, or null if no session is needed.
+ */
+export function getRequiredRole(
+  method: string,
+  pathname: string
+): UserRole | null {
+  if (matchesRule(PUBLIC_ROUTES, method, pathname)) return null;
+  if (matchesRule(CLIENT_ROUTES, method, pathname)) return null;
+  if (ADMIN_ROUTES.some((pattern) => pattern.test(pathname))) return "admin";
+  return "teacher";
+}
+
+/**
+ * Next.js middleware that enforces teacher/admin sessions on the quiz management
+ * pages and API routes. Unauthenticated page requests are redirected to the login
+ * page, unauthenticated API requests receive a 401 and users without the required
+ * role receive a 403. Revoked sessions (see lib/session.ts) count as unauthenticated.
+ *
+ * @param {NextRequest} req - The incoming request.
+ * @returns {Promise<NextResponse>} The response, or a pass-through to the route.
+ */
+export async function middleware(req: NextRequest): Promise<NextResponse> {
+  const { pathname } = req.nextUrl;
+  const requiredRole = getRequiredRole(req.method, pathname);
+  if (!requiredRole) return NextResponse.next();
+
+  const isApiRoute = pathname.startsWith("/api/");
+  const token = await verifySessionToken(
+    req.cookies.get(SESSION_COOKIE_NAME)?.value
+  );
+  if (token) await dbConnect();
+  const session = token && (await isSessionCurrent(token)) ? token : null;
+
+  if (!session) {
+    if (isApiRoute) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+    const loginUrl = new URL("/login", req.url);
+    loginUrl.searchParams.set("from", pathname);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (requiredRole === "admin" && session.role !== "admin") {
+    if (isApiRoute) {
+      return NextResponse.json(
+        { error: "You do not have permission to perform this action" },
+        { status: 403 }
+      );
+    }
+    return NextResponse.redirect(new URL("/", req.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Checking for revoked sessions needs the database
+  runtime: "nodejs",
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.svg$).*)"],
+};
@@ -0,0 +1,161 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET, POST } from "@/app/api/api-clients/route";
+import { DELETE } from "@/app/api/api-clients/[id]/route";
+import { ApiClient } from "@/app/models/ApiClient";
+import { hashApiKey } from "@/app/lib/apiKeys";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/ApiClient", () => ({
+  API_CLIENT_SCOPES: ["select-organ-targets"],
+  ApiClient: {
+    find: vi.fn(),
+    create: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/api-clients route", () => {
+  const mockClientId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439031");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (ApiClient.find as Mock).mockReturnValue({
+      sort: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue([]),
+    });
+    (ApiClient.create as Mock).mockImplementation(async (data: any) => ({
+      ...data,
+      _id: mockClientId,
+      usageCount: 0,
+      createdAt: new Date(),
+    }));
+  });
+
+  it("should return a list of API clients", async () => {
+    (ApiClient.find as Mock).mockReturnValue({
+      sort: vi.fn().mockReturnThis(),
+      lean: vi
+        .fn()
+        .mockResolvedValue([
+          { _id: mockClientId, name: "Lab PCs", usageCount: 3 },
+        ]),
+    });
+
+    const res = await GET();
+
+    expect(res.status).toBe(200);
+    const clients = await res.json();
+    expect(clients).toHaveLength(1);
+    expect(clients[0].name).toBe("Lab PCs");
+  });
+
+  it("should issue a new API key and only store its hash", async () => {
+    const req = new Request("http://localhost:3000/api/api-clients", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Lab PCs" }),
+    });
+
+    const res = await POST(req);
+
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.apiKey).toMatch(/^vaq_/);
+    expect(body.keyHash).toBeUndefined();
+
+    const storedData = (ApiClient.create as Mock).mock.calls[0][0];
+    expect(storedData.keyHash).toBe(hashApiKey(body.apiKey));
+    expect(storedData.keyPrefix).toBe(body.apiKey.slice(0, 10));
+    expect(JSON.stringify(storedData)).not.toContain(body.apiKey);
+    expect(storedData.scopes).toEqual([]);
+  });
+
+  it("should issue a key with the select-organ targets scope", async () => {
+    const req = new Request("http://localhost:3000/api/api-clients", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: "Lab PCs",
+        scopes: ["select-organ-targets"],
+      }),
+    });
+
+    const res = await POST(req);
+
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.scopes).toEqual(["select-organ-targets"]);
+  });
+
+  it("should return 400 for an unknown scope", async () => {
+    const req = new Request("http://localhost:3000/api/api-clients", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Lab PCs", scopes: ["answer-keys"] }),
+    });
+
+    const res = await POST(req);
+
+    expect(res.status).toBe(400);
+    expect(ApiClient.create).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 when the name is missing", async () => {
+    const req = new Request("http://localhost:3000/api/api-clients", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: " " }),
+    });
+
+    const res = await POST(req);
+    expect(res.status).toBe(400);
+    expect(ApiClient.create).not.toHaveBeenCalled();
+  });
+
+  it("should revoke an API key", async () => {
+    (ApiClient.findOneAndUpdate as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue({
+        _id: mockClientId,
+        revokedAt: new Date(),
+      }),
+    });
+
+    const req = new Request(
+      `http://localhost:3000/api/api-clients/${mockClientId.toHexString()}`,
+      { method: "DELETE" }
+    );
+    const res = await DELETE(req, {
+      params: { id: mockClientId.toHexString() },
+    });
+
+    expect(res.status).toBe(200);
+    expect(ApiClient.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: mockClientId.toHexString(), revokedAt: null },
+      { revokedAt: expect.any(Date) },
+      { new: true }
+    );
+  });
+
+  it("should return 404 when revoking an unknown or revoked key", async () => {
+    (ApiClient.findOneAndUpdate as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(null),
+    });
+
+    const req = new Request(
+      `http://localhost:3000/api/api-clients/${mockClientId.toHexString()}`,
+      { method: "DELETE" }
+    );
+    const res = await DELETE(req, {
+      params: { id: mockClientId.toHexString() },
+    });
+
+    expect(res.status).toBe(404);
+  });
+});
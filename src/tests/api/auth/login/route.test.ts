@@ -0,0 +1,107 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { POST } from "@/app/api/auth/login/route";
+import { User } from "@/app/models/User";
+import { hashPassword } from "@/app/lib/password";
+import { SESSION_COOKIE_NAME, verifySessionToken } from "@/app/lib/session";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/User", () => ({
+  User: {
+    findOne: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/auth/login route", () => {
+  const mockUserId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439021");
+  let passwordHash: string;
+
+  const createLoginRequest = (body: object) =>
+    new Request("http://localhost:3000/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    process.env.SESSION_SECRET = "test-session-secret";
+    passwordHash ??= await hashPassword("correct horse");
+
+    (User.findOne as Mock).mockReturnValue({
+      select: vi.fn().mockResolvedValue({
+        _id: mockUserId,
+        name: "Jane Teacher",
+        email: "jane@example.com",
+        role: "teacher",
+        sessionVersion: 3,
+        passwordHash,
+        save: vi.fn().mockResolvedValue(undefined),
+      }),
+    });
+  });
+
+  it("should log in with valid credentials and set a session cookie", async () => {
+    const res = await POST(
+      createLoginRequest({
+        email: "Jane@Example.com",
+        password: "correct horse",
+      })
+    );
+
+    expect(res.status).toBe(200);
+    expect(User.findOne).toHaveBeenCalledWith({ email: "jane@example.com" });
+
+    const body = await res.json();
+    expect(body).toEqual({
+      _id: mockUserId.toHexString(),
+      name: "Jane Teacher",
+      email: "jane@example.com",
+      role: "teacher",
+    });
+    expect(body.passwordHash).toBeUndefined();
+
+    const session = await verifySessionToken(
+      res.cookies.get(SESSION_COOKIE_NAME)?.value
+    );
+    expect(session).toMatchObject({
+      sub: mockUserId.toHexString(),
+      role: "teacher",
+      ver: 3,
+    });
+  });
+
+  it("should return 401 for a wrong password", async () => {
+    const res = await POST(
+      createLoginRequest({ email: "jane@example.com", password: "wrong" })
+    );
+
+    expect(res.status).toBe(401);
+    expect(res.cookies.get(SESSION_COOKIE_NAME)).toBeUndefined();
+  });
+
+  it("should return 401 for an unknown email", async () => {
+    (User.findOne as Mock).mockReturnValue({
+      select: vi.fn().mockResolvedValue(null),
+    });
+
+    const res = await POST(
+      createLoginRequest({ email: "nobody@example.com", password: "secret" })
+    );
+
+    expect(res.status).toBe(401);
+  });
+
+  it("should return 400 for a missing password", async () => {
+    const res = await POST(createLoginRequest({ email: "jane@example.com" }));
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.details.password).toBeDefined();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { POST } from "@/app/api/auth/logout/route";
+import { User } from "@/app/models/User";
+import { SESSION_COOKIE_NAME, createSessionToken } from "@/app/lib/session";
+
+// Mock Mongoose models
+vi.mock("@/app/models/User", () => ({
+  User: {
+    updateOne: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/auth/logout route", () => {
+  const mockUserId = "507f1f77bcf86cd799439021";
+
+  const createLogoutRequest = (cookie?: string) =>
+    new Request("http://localhost:3000/api/auth/logout", {
+      method: "POST",
+      headers: cookie ? { cookie } : {},
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.SESSION_SECRET = "test-session-secret";
+    (User.updateOne as Mock).mockResolvedValue({ modifiedCount: 1 });
+  });
+
+  it("should revoke the sessions of the user and clear the cookie", async () => {
+    const token = await createSessionToken({
+      sub: mockUserId,
+      name: "Jane Teacher",
+      email: "jane@example.com",
+      role: "teacher",
+      ver: 0,
+    });
+
+    const res = await POST(
+      createLogoutRequest(`${SESSION_COOKIE_NAME}=${token}`)
+    );
+
+    expect(res.status).toBe(200);
+    expect(User.updateOne).toHaveBeenCalledWith(
+      { _id: mockUserId },
+      { $inc: { sessionVersion: 1 } }
+    );
+    expect(res.cookies.get(SESSION_COOKIE_NAME)?.value).toBe("");
+  });
+
+  it("should clear the cookie without a valid session", async () => {
+    const res = await POST(
+      createLogoutRequest(`${SESSION_COOKIE_NAME}=tampered.token`)
+    );
+
+    expect(res.status).toBe(200);
+    expect(User.updateOne).not.toHaveBeenCalled();
+  });
+});
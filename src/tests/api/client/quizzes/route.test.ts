@@ -0,0 +1,211 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET } from "@/app/api/client/quizzes/route";
+import { Quiz, MeshCatalogItem, OrganGroup } from "@/app/models/Quiz";
+import { ApiClient } from "@/app/models/ApiClient";
+import { hashApiKey } from "@/app/lib/apiKeys";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Quiz: { find: vi.fn() },
+  MeshCatalogItem: { find: vi.fn() },
+  OrganGroup: { find: vi.fn() },
+}));
+
+vi.mock("@/app/models/ApiClient", () => ({
+  API_CLIENT_SCOPES: ["select-organ-targets"],
+  ApiClient: {
+    findOne: vi.fn(),
+    updateOne: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/client/quizzes route", () => {
+  const mockApiKey = "vaq_test_key";
+  const mockTargetsApiKey = "vaq_targets_key";
+  const authHeaders = { Authorization: `Bearer ${mockApiKey}` };
+  const targetsAuthHeaders = { Authorization: `Bearer ${mockTargetsApiKey}` };
+  const url = "http://localhost:3000/api/client/quizzes?studyYear=1";
+
+  const mockHeartMeshId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439021"
+  );
+  const mockThoraxGroupId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439031"
+  );
+  const mockQuiz = {
+    _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439011"),
+    title: "Thorax",
+    studyYear: 1,
+    questions: [
+      {
+        _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439012"),
+        type: "multiple-choice",
+        questionText: "Which organ pumps blood?",
+        answers: [
+          {
+            _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439041"),
+            text: "Heart",
+            isCorrect: true,
+          },
+          {
+            _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439042"),
+            text: "Lung",
+            isCorrect: false,
+          },
+        ],
+      },
+      {
+        _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439013"),
+        type: "select-organ",
+        questionText: "Select the heart",
+        targetType: "mesh",
+        target_id: mockHeartMeshId,
+      },
+      {
+        _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439014"),
+        type: "select-organ",
+        questionText: "Select a part of the thorax",
+        targetType: "group",
+        target_id: mockThoraxGroupId,
+      },
+      {
+        _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439015"),
+        type: "short-answer",
+        questionText: "Name the largest organ",
+        acceptedAnswers: ["Skin", "Cutis"],
+        typoTolerance: 1,
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (ApiClient.findOne as Mock).mockImplementation((filter: any) => ({
+      lean: vi.fn().mockResolvedValue(
+        filter.keyHash === hashApiKey(mockApiKey)
+          ? { _id: new mongoose.Types.ObjectId(), scopes: [] }
+          : filter.keyHash === hashApiKey(mockTargetsApiKey)
+          ? {
+              _id: new mongoose.Types.ObjectId(),
+              scopes: ["select-organ-targets"],
+            }
+          : null
+      ),
+    }));
+    (ApiClient.updateOne as Mock).mockResolvedValue({ modifiedCount: 1 });
+
+    (Quiz.find as Mock).mockReturnValue({
+      sort: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue([mockQuiz]),
+    });
+    (MeshCatalogItem.find as Mock).mockImplementation((filter: any) => ({
+      select: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue(
+        filter.organGroupIds
+          ? [
+              { meshName: "Heart", organGroupIds: [mockThoraxGroupId] },
+              { meshName: "Lung_L", organGroupIds: [mockThoraxGroupId] },
+            ]
+          : [
+              {
+                _id: mockHeartMeshId,
+                meshName: "Heart",
+                displayName: "Heart",
+              },
+            ]
+      ),
+    }));
+    (OrganGroup.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      lean: vi
+        .fn()
+        .mockResolvedValue([{ _id: mockThoraxGroupId, groupName: "Thorax" }]),
+    });
+  });
+
+  it("should return the open quizzes without correct-answer data", async () => {
+    const res = await GET(new Request(url, { headers: targetsAuthHeaders }));
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("X-Client-Api-Version")).toBe("1");
+    const body = await res.json();
+    expect(body.apiVersion).toBe(1);
+    expect(body.quizzes).toHaveLength(1);
+
+    const serialized = JSON.stringify(body);
+    expect(serialized).not.toContain("isCorrect");
+    expect(serialized).not.toContain("acceptedAnswers");
+    expect(serialized).not.toContain("Cutis");
+    expect(serialized).not.toContain("target_id");
+
+    const [mcq, meshQuestion, groupQuestion, shortAnswer] =
+      body.quizzes[0].questions;
+    expect(mcq.answers).toEqual([
+      { _id: "507f1f77bcf86cd799439041", text: "Heart" },
+      { _id: "507f1f77bcf86cd799439042", text: "Lung" },
+    ]);
+    expect(meshQuestion.target).toEqual({
+      type: "mesh",
+      meshName: "Heart",
+      displayName: "Heart",
+    });
+    expect(groupQuestion.target).toEqual({
+      type: "group",
+      groupName: "Thorax",
+      meshNames: ["Heart", "Lung_L"],
+    });
+    expect(shortAnswer).toEqual({
+      _id: "507f1f77bcf86cd799439015",
+      type: "short-answer",
+      questionText: "Name the largest organ",
+    });
+  });
+
+  it("should leave out select-organ targets without the scope", async () => {
+    const res = await GET(new Request(url, { headers: authHeaders }));
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    const [, meshQuestion, groupQuestion] = body.quizzes[0].questions;
+    expect(meshQuestion).toEqual({
+      _id: "507f1f77bcf86cd799439013",
+      type: "select-organ",
+      questionText: "Select the heart",
+    });
+    expect(groupQuestion.target).toBeUndefined();
+    expect(JSON.stringify(body)).not.toContain("Lung_L");
+    expect(MeshCatalogItem.find).not.toHaveBeenCalled();
+  });
+
+  it("should only query open quizzes of the study year", async () => {
+    await GET(new Request(url, { headers: authHeaders }));
+
+    const [[filter]] = (Quiz.find as Mock).mock.calls;
+    expect(filter.studyYear).toBe(1);
+    expect(filter.$and).toHaveLength(2);
+  });
+
+  it("should return 400 for an unsupported client API version", async () => {
+    const res = await GET(
+      new Request(url, {
+        headers: { ...authHeaders, "X-Client-Api-Version": "2" },
+      })
+    );
+
+    expect(res.status).toBe(400);
+    expect(Quiz.find).not.toHaveBeenCalled();
+  });
+
+  it("should return 401 without an API key", async () => {
+    const res = await GET(new Request(url));
+
+    expect(res.status).toBe(401);
+  });
+});
@@ -1,6 +1,11 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { GET, POST } from "@/app/api/mesh-catalog/route";
 
+// API key authentication is covered by the submissions tests
+vi.mock("@/app/lib/apiKeys", () => ({
+  authenticateApiClient: vi.fn(() => Promise.resolve(null)),
+}));
+
 describe("/api/mesh-catalog route", () => {
   it("should return a list of mesh catalog items", async () => {
     const req = new Request("http://localhost:3000/api/mesh-catalog");
@@ -0,0 +1,420 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { PUT, DELETE } from "@/app/api/questions/[id]/route";
+import { BankQuestion, Quiz, QuizVersion, Submission } from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  BankQuestion: {
+    findById: vi.fn(),
+    findByIdAndUpdate: vi.fn(),
+    findByIdAndDelete: vi.fn(),
+  },
+  Quiz: {
+    find: vi.fn(),
+    updateOne: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  QuizVersion: {
+    updateOne: vi.fn(),
+  },
+  Submission: {
+    aggregate: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/questions/[id] route", () => {
+  const mockQuestionId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439051"
+  );
+  const context = { params: { id: mockQuestionId.toHexString() } };
+  const url = `http://localhost:3000/api/questions/${mockQuestionId.toHexString()}`;
+
+  const updatedQuestion = {
+    _id: mockQuestionId,
+    questionText: "Name the largest organ",
+    type: "short-answer",
+    answers: [],
+    acceptedAnswers: ["Skin"],
+    typoTolerance: 1,
+  };
+
+  const referencingQuizzes = [
+    { _id: new mongoose.Types.ObjectId(), version: 3, questions: [] },
+    { _id: new mongoose.Types.ObjectId(), version: 1, questions: [] },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (BankQuestion.findById as Mock).mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue({ answers: [] }),
+      }),
+    });
+    (BankQuestion.findByIdAndUpdate as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(updatedQuestion),
+    });
+    (BankQuestion.findByIdAndDelete as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue({ _id: mockQuestionId }),
+    });
+    (Quiz.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(referencingQuizzes),
+    });
+    (Quiz.updateMany as Mock).mockResolvedValue({ modifiedCount: 2 });
+    (QuizVersion.updateOne as Mock).mockResolvedValue({});
+  });
+
+  describe("PUT /api/questions/[id]", () => {
+    it("should update the question and sync the quizzes that reference it", async () => {
+      const req = new Request(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          questionText: "Name the largest organ",
+          type: "short-answer",
+          answers: [],
+          acceptedAnswers: ["Skin"],
+          typoTolerance: 1,
+        }),
+      });
+      const res = await PUT(req, context);
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body.syncedQuizzes).toBe(2);
+      expect(Quiz.updateMany).toHaveBeenCalledWith(
+        {
+          deletedAt: null,
+          questions: {
+            $elemMatch: {
+              bankQuestion_id: mockQuestionId,
+              bankLink: "reference",
+            },
+          },
+        },
+        {
+          $set: {
+            "questions.$[linked].questionText": "Name the largest organ",
+            "questions.$[linked].type": "short-answer",
+            "questions.$[linked].answers": [],
+            "questions.$[linked].acceptedAnswers": ["Skin"],
+            "questions.$[linked].typoTolerance": 1,
+          },
+          $unset: {
+            "questions.$[linked].targetType": 1,
+            "questions.$[linked].target_id": 1,
+          },
+          $inc: { version: 1 },
+        },
+        {
+          arrayFilters: [
+            {
+              "linked.bankQuestion_id": mockQuestionId,
+              "linked.bankLink": "reference",
+            },
+          ],
+        }
+      );
+    });
+
+    it("should store a new version of each synced quiz", async () => {
+      const req = new Request(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          questionText: "Name the largest organ",
+          type: "short-answer",
+          answers: [],
+          acceptedAnswers: ["Skin"],
+        }),
+      });
+      await PUT(req, context);
+
+      expect(QuizVersion.updateOne).toHaveBeenCalledTimes(2);
+      expect(QuizVersion.updateOne).toHaveBeenCalledWith(
+        { quiz_id: referencingQuizzes[0]._id, version: 3 },
+        expect.objectContaining({ $setOnInsert: expect.any(Object) }),
+        { upsert: true }
+      );
+    });
+
+    it("should not update quizzes if no quiz references the question", async () => {
+      (Quiz.find as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue([]),
+      });
+      const req = new Request(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          questionText: "Name the largest organ",
+          type: "short-answer",
+          answers: [],
+          acceptedAnswers: ["Skin"],
+        }),
+      });
+      const res = await PUT(req, context);
+      const body = await res.json();
+
+      expect(body.syncedQuizzes).toBe(0);
+      expect(Quiz.updateMany).not.toHaveBeenCalled();
+    });
+
+    describe("when a referencing quiz has submissions", () => {
+      const quizQuestionId = new mongoose.Types.ObjectId();
+      const quizWithSubmissions = {
+        _id: new mongoose.Types.ObjectId(),
+        title: "Anatomy Basics",
+        version: 2,
+        questions: [
+          {
+            _id: quizQuestionId,
+            questionText: "Name the largest organ",
+            type: "short-answer",
+            answers: [],
+            acceptedAnswers: ["Liver"],
+            typoTolerance: 1,
+            bankQuestion_id: mockQuestionId,
+            bankLink: "reference",
+          },
+        ],
+      };
+      const body = JSON.stringify({
+        questionText: "Name the largest organ",
+        type: "short-answer",
+        answers: [],
+        acceptedAnswers: ["Skin"],
+        typoTolerance: 1,
+      });
+
+      beforeEach(() => {
+        (Quiz.find as Mock).mockReturnValue({
+          lean: vi.fn().mockResolvedValue([quizWithSubmissions]),
+        });
+        (Submission.aggregate as Mock).mockResolvedValue([
+          {
+            submissionCount: [{ count: 4 }],
+            answerCounts: [{ _id: quizQuestionId, count: 4 }],
+          },
+        ]);
+      });
+
+      it("should return 409 if the answer key of the quiz changes", async () => {
+        const res = await PUT(
+          new Request(url, { method: "PUT", body }),
+          context
+        );
+        const responseBody = await res.json();
+
+        expect(res.status).toBe(409);
+        expect(responseBody.details.quizzes).toEqual([
+          expect.objectContaining({
+            quizId: quizWithSubmissions._id.toString(),
+            title: "Anatomy Basics",
+            submissionCount: 4,
+            changedQuestions: [
+              expect.objectContaining({
+                questionId: quizQuestionId.toString(),
+                answerCount: 4,
+                changedFields: ["acceptedAnswers"],
+              }),
+            ],
+          }),
+        ]);
+        expect(BankQuestion.findByIdAndUpdate).not.toHaveBeenCalled();
+        expect(Quiz.updateMany).not.toHaveBeenCalled();
+      });
+
+      it("should sync the quizzes when the update is confirmed", async () => {
+        const res = await PUT(
+          new Request(`${url}?confirm=true`, { method: "PUT", body }),
+          context
+        );
+
+        expect(res.status).toBe(200);
+        expect(Submission.aggregate).not.toHaveBeenCalled();
+        expect(Quiz.updateMany).toHaveBeenCalled();
+      });
+    });
+
+    describe("when a referenced question has answers", () => {
+      const heartAnswerId = new mongoose.Types.ObjectId();
+      const lungAnswerId = new mongoose.Types.ObjectId();
+      const quizQuestionId = new mongoose.Types.ObjectId();
+      const currentAnswers = [
+        { _id: heartAnswerId, text: "Hart", isCorrect: true },
+        { _id: lungAnswerId, text: "Lung", isCorrect: false },
+      ];
+      const quizWithSubmissions = {
+        _id: new mongoose.Types.ObjectId(),
+        title: "Anatomy Basics",
+        version: 2,
+        questions: [
+          {
+            _id: quizQuestionId,
+            questionText: "Which organ pumps blood?",
+            type: "multiple-choice",
+            answers: currentAnswers,
+            bankQuestion_id: mockQuestionId,
+            bankLink: "reference",
+          },
+        ],
+      };
+      const putAnswers = (answers: object[], query = "") =>
+        PUT(
+          new Request(`${url}${query}`, {
+            method: "PUT",
+            body: JSON.stringify({
+              questionText: "Which organ pumps blood?",
+              type: "multiple-choice",
+              answers,
+            }),
+          }),
+          context
+        );
+
+      beforeEach(() => {
+        (BankQuestion.findById as Mock).mockReturnValue({
+          select: vi.fn().mockReturnValue({
+            lean: vi.fn().mockResolvedValue({ answers: currentAnswers }),
+          }),
+        });
+        // Returns the question as it was stored by the update
+        (BankQuestion.findByIdAndUpdate as Mock).mockImplementation(
+          (_id, update) => ({
+            lean: vi
+              .fn()
+              .mockResolvedValue({ _id: mockQuestionId, ...update.$set }),
+          })
+        );
+        (Quiz.find as Mock).mockReturnValue({
+          lean: vi.fn().mockResolvedValue([quizWithSubmissions]),
+        });
+        (Submission.aggregate as Mock).mockResolvedValue([
+          {
+            submissionCount: [{ count: 4 }],
+            answerCounts: [{ _id: quizQuestionId, count: 4 }],
+          },
+        ]);
+      });
+
+      it("should keep the answer IDs in the quiz when an answer text is fixed", async () => {
+        const res = await putAnswers(
+          [
+            { _id: heartAnswerId.toString(), text: "Heart", isCorrect: true },
+            { _id: lungAnswerId.toString(), text: "Lung", isCorrect: false },
+          ],
+          "?confirm=true"
+        );
+
+        expect(res.status).toBe(200);
+        const [, update] = (Quiz.updateMany as Mock).mock.calls[0];
+        expect(update.$set["questions.$[linked].answers"]).toEqual([
+          { _id: heartAnswerId, text: "Heart", isCorrect: true },
+          { _id: lungAnswerId, text: "Lung", isCorrect: false },
+        ]);
+      });
+
+      it("should keep the answer IDs by position if answers are sent without them", async () => {
+        const res = await putAnswers(
+          [
+            { text: "Heart", isCorrect: true },
+            { text: "Lung", isCorrect: false },
+            { text: "Liver", isCorrect: false },
+          ],
+          "?confirm=true"
+        );
+
+        expect(res.status).toBe(200);
+        const [, update] = (Quiz.updateMany as Mock).mock.calls[0];
+        const answers = update.$set["questions.$[linked].answers"];
+        expect(answers[0]._id).toEqual(heartAnswerId);
+        expect(answers[1]._id).toEqual(lungAnswerId);
+        expect(answers[2]._id).toBeInstanceOf(mongoose.Types.ObjectId);
+        expect([heartAnswerId, lungAnswerId]).not.toContainEqual(
+          answers[2]._id
+        );
+      });
+
+      it("should return 409 if only the answer IDs change", async () => {
+        const res = await putAnswers([
+          {
+            _id: new mongoose.Types.ObjectId().toString(),
+            text: "Hart",
+            isCorrect: true,
+          },
+          { _id: lungAnswerId.toString(), text: "Lung", isCorrect: false },
+        ]);
+        const responseBody = await res.json();
+
+        expect(res.status).toBe(409);
+        expect(responseBody.details.quizzes[0].changedQuestions).toEqual([
+          expect.objectContaining({
+            questionId: quizQuestionId.toString(),
+            changedFields: ["answers"],
+          }),
+        ]);
+        expect(BankQuestion.findByIdAndUpdate).not.toHaveBeenCalled();
+      });
+    });
+
+    it("should return 400 for an invalid answer ID", async () => {
+      const req = new Request(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          questionText: "Which organ pumps blood?",
+          type: "multiple-choice",
+          answers: [{ _id: "new_1", text: "Heart", isCorrect: true }],
+        }),
+      });
+      const res = await PUT(req, context);
+
+      expect(res.status).toBe(400);
+      expect(BankQuestion.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 if the question does not exist", async () => {
+      (BankQuestion.findById as Mock).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          lean: vi.fn().mockResolvedValue(null),
+        }),
+      });
+      const req = new Request(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          questionText: "Name the largest organ",
+          type: "short-answer",
+          answers: [],
+          acceptedAnswers: ["Skin"],
+        }),
+      });
+      const res = await PUT(req, context);
+
+      expect(res.status).toBe(404);
+      expect(BankQuestion.findByIdAndUpdate).not.toHaveBeenCalled();
+      expect(Quiz.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE /api/questions/[id]", () => {
+    it("should turn references to the deleted question into copies", async () => {
+      const res = await DELETE(new Request(url, { method: "DELETE" }), context);
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body.unlinkedQuizzes).toBe(2);
+      expect(Quiz.updateMany).toHaveBeenCalledWith(
+        expect.anything(),
+        { $set: { "questions.$[linked].bankLink": "copy" } },
+        expect.anything()
+      );
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET, POST } from "@/app/api/questions/route";
+import { BankQuestion } from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  BankQuestion: {
+    find: vi.fn(),
+    create: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/questions route", () => {
+  const url = "http://localhost:3000/api/questions";
+  const mockGroupId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439031");
+  const mockTargetId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439021");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (BankQuestion.find as Mock).mockReturnValue({
+      sort: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue([]),
+    });
+    (BankQuestion.create as Mock).mockImplementation((data: any) =>
+      Promise.resolve({ _id: new mongoose.Types.ObjectId(), ...data })
+    );
+  });
+
+  describe("GET /api/questions", () => {
+    it("should filter questions by text, type, organ group, study year and difficulty", async () => {
+      const res = await GET(
+        new Request(
+          `${url}?search=heart?&type=select-organ&organGroupId=${mockGroupId.toHexString()}&studyYear=2&difficulty=hard`
+        )
+      );
+
+      expect(res.status).toBe(200);
+      expect(BankQuestion.find).toHaveBeenCalledWith({
+        questionText: /heart\?/i,
+        type: "select-organ",
+        organGroupIds: mockGroupId,
+        studyYear: 2,
+        difficulty: "hard",
+      });
+    });
+
+    it("should return 400 for an invalid difficulty", async () => {
+      const res = await GET(new Request(`${url}?difficulty=impossible`));
+
+      expect(res.status).toBe(400);
+      expect(BankQuestion.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/questions", () => {
+    it("should create a select-organ question with its tags", async () => {
+      const req = new Request(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          questionText: "Select the heart",
+          type: "select-organ",
+          targetType: "mesh",
+          target_id: mockTargetId.toHexString(),
+          answers: [],
+          organGroupIds: [mockGroupId.toHexString()],
+          studyYear: 1,
+          difficulty: null,
+        }),
+      });
+      const res = await POST(req);
+
+      expect(res.status).toBe(201);
+      expect(BankQuestion.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          questionText: "Select the heart",
+          type: "select-organ",
+          answers: [],
+          targetType: "mesh",
+          target_id: mockTargetId,
+          organGroupIds: [mockGroupId],
+          studyYear: 1,
+          difficulty: undefined,
+        })
+      );
+    });
+
+    it("should return 400 for a multiple-choice question without answers", async () => {
+      const req = new Request(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          questionText: "Which organ pumps blood?",
+          type: "multiple-choice",
+          answers: [],
+        }),
+      });
+      const res = await POST(req);
+
+      expect(res.status).toBe(400);
+      expect(BankQuestion.create).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for a select-organ question with answers", async () => {
+      const req = new Request(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          questionText: "Select the heart",
+          type: "select-organ",
+          targetType: "mesh",
+          target_id: mockTargetId.toHexString(),
+          answers: [
+            {
+              text: "Heart",
+              isCorrect: true,
+              target_id: mockTargetId.toHexString(),
+            },
+          ],
+        }),
+      });
+      const res = await POST(req);
+      const body = await res.json();
+
+      expect(res.status).toBe(400);
+      expect(body.details.answers).toEqual([
+        "Select organ questions should not have predefined answers.",
+      ]);
+      expect(BankQuestion.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { POST } from "@/app/api/quizzes/[id]/duplicate/route";
+import { Quiz, QuizVersion } from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => {
+  const QuizMock = vi.fn();
+  (QuizMock as any).findById = vi.fn();
+
+  return {
+    Quiz: QuizMock, // Use the mock that has both constructor and static methods
+    QuizVersion: {
+      updateOne: vi.fn(),
+    },
+  };
+});
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/quizzes/[id]/duplicate route", () => {
+  const mockQuizId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439011");
+  const mockQuestionId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439012"
+  );
+  const mockAnswerId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439041");
+  const mockTargetId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439021");
+  const context = { params: { id: mockQuizId.toHexString() } };
+  const url = `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}/duplicate`;
+
+  const mockQuiz = {
+    _id: mockQuizId,
+    title: "Thorax",
+    description: "Organs of the thorax",
+    studyYear: 1,
+    version: 3,
+    scheduledAt: new Date("2025-09-01T09:00:00Z"),
+    opensAt: new Date("2025-09-01T09:00:00Z"),
+    closesAt: new Date("2025-09-01T11:00:00Z"),
+    gracePeriodMinutes: 5,
+    shuffleQuestions: true,
+    questions: [
+      {
+        _id: mockQuestionId,
+        type: "multiple-choice",
+        questionText: "Which organ pumps blood?",
+        answers: [
+          { _id: mockAnswerId, text: "Heart", isCorrect: true },
+          {
+            _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439042"),
+            text: "Lung",
+            isCorrect: false,
+          },
+        ],
+      },
+      {
+        _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439013"),
+        type: "select-organ",
+        questionText: "Select the heart",
+        targetType: "mesh",
+        target_id: mockTargetId,
+        answers: [],
+      },
+    ],
+  };
+
+  const duplicate = (body?: object) =>
+    POST(
+      new Request(url, {
+        method: "POST",
+        body: body ? JSON.stringify(body) : undefined,
+      }),
+      context
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+    (QuizVersion.updateOne as Mock).mockResolvedValue({});
+
+    // Mock for the constructor 'new Quiz(data).save()'
+    (Quiz as unknown as Mock).mockImplementation((data: any) => {
+      const quiz = { ...data, _id: new mongoose.Types.ObjectId(), version: 1 };
+      return {
+        ...quiz,
+        save: vi.fn().mockResolvedValue(quiz),
+        toObject: () => quiz,
+      };
+    });
+  });
+
+  it("should copy the questions with new IDs and clear the schedule", async () => {
+    const res = await duplicate();
+    const body = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(body._id).not.toBe(mockQuizId.toHexString());
+    expect(body).toMatchObject({
+      title: "Thorax (copy)",
+      description: "Organs of the thorax",
+      studyYear: 1,
+      scheduledAt: null,
+      shuffleQuestions: true,
+    });
+    expect(body.opensAt).toBeUndefined();
+    expect(body.closesAt).toBeUndefined();
+    expect(body.gracePeriodMinutes).toBeUndefined();
+
+    expect(body.questions).toHaveLength(2);
+    expect(body.questions[0]._id).not.toBe(mockQuestionId.toHexString());
+    expect(body.questions[0].answers[0]._id).not.toBe(
+      mockAnswerId.toHexString()
+    );
+    expect(body.questions[0].answers.map((a: any) => a.text)).toEqual([
+      "Heart",
+      "Lung",
+    ]);
+    expect(body.questions[1]).toMatchObject({
+      questionText: "Select the heart",
+      targetType: "mesh",
+      target_id: mockTargetId.toHexString(),
+    });
+
+    // The copy starts its own version history
+    expect(QuizVersion.updateOne).toHaveBeenCalledWith(
+      { quiz_id: expect.anything(), version: 1 },
+      expect.anything(),
+      { upsert: true }
+    );
+  });
+
+  it("should retarget the study year and keep the schedule if requested", async () => {
+    const res = await duplicate({
+      title: "Thorax 2026",
+      studyYear: 2,
+      clearSchedule: false,
+    });
+    const body = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(body).toMatchObject({
+      title: "Thorax 2026",
+      studyYear: 2,
+      scheduledAt: mockQuiz.scheduledAt.toISOString(),
+      opensAt: mockQuiz.opensAt.toISOString(),
+      closesAt: mockQuiz.closesAt.toISOString(),
+      gracePeriodMinutes: 5,
+    });
+  });
+
+  it("should return 400 for an invalid body", async () => {
+    const res = await duplicate({ studyYear: 0 });
+
+    expect(res.status).toBe(400);
+    expect(Quiz).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 if the quiz does not exist", async () => {
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(null),
+    });
+
+    const res = await duplicate();
+
+    expect(res.status).toBe(404);
+    expect(Quiz).not.toHaveBeenCalled();
+  });
+});
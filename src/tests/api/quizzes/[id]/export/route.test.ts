@@ -0,0 +1,140 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET } from "@/app/api/quizzes/[id]/export/route";
+import { MeshCatalogItem, OrganGroup, Quiz } from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Quiz: {
+    findById: vi.fn(),
+  },
+  MeshCatalogItem: {
+    find: vi.fn(),
+  },
+  OrganGroup: {
+    find: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/quizzes/[id]/export route", () => {
+  const mockQuizId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439011");
+  const mockMeshId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439021");
+  const mockGroupId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439031");
+  const context = { params: { id: mockQuizId.toHexString() } };
+  const url = `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}/export`;
+
+  const mockQuiz = {
+    _id: mockQuizId,
+    title: "Thorax: Heart & Lungs",
+    description: "Organs of the thorax",
+    studyYear: 1,
+    scheduledAt: null,
+    shuffleQuestions: true,
+    questions: [
+      {
+        _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439012"),
+        type: "multiple-choice",
+        questionText: "Which organ pumps blood?",
+        answers: [
+          {
+            _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439041"),
+            text: "Heart",
+            isCorrect: true,
+          },
+        ],
+      },
+      {
+        _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439013"),
+        type: "select-organ",
+        questionText: "Select the heart",
+        targetType: "mesh",
+        target_id: mockMeshId,
+        answers: [],
+      },
+      {
+        _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439014"),
+        type: "select-organ",
+        questionText: "Select the lungs",
+        targetType: "group",
+        target_id: mockGroupId,
+        answers: [],
+      },
+    ],
+  };
+
+  const mockFind = (model: unknown, result: object[]) =>
+    (model as { find: Mock }).find.mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue(result),
+      }),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+    mockFind(MeshCatalogItem, [
+      { _id: mockMeshId, meshName: "heart", displayName: "Heart" },
+    ]);
+    mockFind(OrganGroup, [{ _id: mockGroupId, groupName: "Lungs" }]);
+  });
+
+  it("should export the quiz with the targets referenced by name", async () => {
+    const res = await GET(new Request(url), context);
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="thorax-heart-lungs.json"'
+    );
+    expect(body).toMatchObject({ format: "quiz-manager/quizzes", version: 1 });
+    expect(body.quizzes).toHaveLength(1);
+    expect(body.quizzes[0]).toMatchObject({
+      title: "Thorax: Heart & Lungs",
+      studyYear: 1,
+      shuffleQuestions: true,
+    });
+    expect(body.quizzes[0].questions).toEqual([
+      {
+        questionText: "Which organ pumps blood?",
+        type: "multiple-choice",
+        answers: [{ text: "Heart", isCorrect: true }],
+      },
+      {
+        questionText: "Select the heart",
+        type: "select-organ",
+        target: { type: "mesh", meshName: "heart" },
+      },
+      {
+        questionText: "Select the lungs",
+        type: "select-organ",
+        target: { type: "group", groupName: "Lungs" },
+      },
+    ]);
+    // No database IDs in the export
+    expect(JSON.stringify(body)).not.toContain(mockMeshId.toHexString());
+  });
+
+  it("should return 404 if the quiz does not exist", async () => {
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(null),
+    });
+
+    const res = await GET(new Request(url), context);
+
+    expect(res.status).toBe(404);
+  });
+
+  it("should return 400 for an invalid ID", async () => {
+    const res = await GET(new Request(url), { params: { id: "invalid" } });
+
+    expect(res.status).toBe(400);
+  });
+});
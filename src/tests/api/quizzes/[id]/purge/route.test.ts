@@ -0,0 +1,106 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { DELETE } from "@/app/api/quizzes/[id]/purge/route";
+import {
+  Quiz,
+  QuizVersion,
+  ShortAnswerGrade,
+  Submission,
+} from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Quiz: {
+    findOneAndDelete: vi.fn(),
+  },
+  QuizVersion: {
+    deleteMany: vi.fn(),
+  },
+  ShortAnswerGrade: {
+    deleteMany: vi.fn(),
+  },
+  Submission: {
+    deleteMany: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/quizzes/[id]/purge route", () => {
+  const mockQuizId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439011");
+  const context = { params: { id: mockQuizId.toHexString() } };
+  const url = `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}/purge`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (Quiz.findOneAndDelete as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue({
+        _id: mockQuizId,
+        title: "Thorax",
+        deletedAt: new Date(),
+      }),
+    });
+    (Submission.deleteMany as Mock).mockResolvedValue({ deletedCount: 12 });
+    (ShortAnswerGrade.deleteMany as Mock).mockResolvedValue({});
+    (QuizVersion.deleteMany as Mock).mockResolvedValue({});
+  });
+
+  it("should only purge quizzes in the trash and keep their submissions", async () => {
+    const res = await DELETE(new Request(url, { method: "DELETE" }), context);
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).deletedSubmissions).toBe(0);
+    expect(Quiz.findOneAndDelete).toHaveBeenCalledWith({
+      _id: mockQuizId.toHexString(),
+      deletedAt: { $ne: null },
+    });
+    expect(Submission.deleteMany).not.toHaveBeenCalled();
+    expect(QuizVersion.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("should delete the submissions when requested", async () => {
+    const res = await DELETE(
+      new Request(`${url}?deleteSubmissions=true`, { method: "DELETE" }),
+      context
+    );
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).deletedSubmissions).toBe(12);
+    expect(Submission.deleteMany).toHaveBeenCalledWith({
+      quiz_id: mockQuizId,
+    });
+    expect(ShortAnswerGrade.deleteMany).toHaveBeenCalledWith({
+      quiz_id: mockQuizId,
+    });
+    expect(QuizVersion.deleteMany).toHaveBeenCalledWith({
+      quiz_id: mockQuizId,
+    });
+  });
+
+  it("should return 404 for a quiz that is not in the trash", async () => {
+    (Quiz.findOneAndDelete as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(null),
+    });
+
+    const res = await DELETE(
+      new Request(`${url}?deleteSubmissions=true`, { method: "DELETE" }),
+      context
+    );
+
+    expect(res.status).toBe(404);
+    expect(Submission.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an invalid quiz ID", async () => {
+    const res = await DELETE(new Request(url, { method: "DELETE" }), {
+      params: { id: "invalid" },
+    });
+
+    expect(res.status).toBe(400);
+    expect(Quiz.findOneAndDelete).not.toHaveBeenCalled();
+  });
+});
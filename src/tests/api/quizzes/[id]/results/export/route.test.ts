@@ -0,0 +1,308 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET } from "@/app/api/quizzes/[id]/results/export/route";
+import {
+  Quiz,
+  Submission,
+  Student,
+  MeshCatalogItem,
+  ShortAnswerGrade,
+} from "@/app/models/Quiz";
+import { parseCsv } from "@/app/lib/csv";
+import ExcelJS from "exceljs";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Quiz: {
+    findById: vi.fn(),
+  },
+  Submission: {
+    find: vi.fn(),
+  },
+  Student: {
+    find: vi.fn(),
+  },
+  MeshCatalogItem: {
+    find: vi.fn(),
+  },
+  ShortAnswerGrade: {
+    find: vi.fn(),
+  },
+  QuizVersion: {
+    find: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/quizzes/[id]/results/export route", () => {
+  const mockQuizId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439011");
+  const mockQuestionIdMCQ = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439012"
+  );
+  const mockQuestionIdSA = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439013"
+  );
+  const mockQuestionIdSO = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439014"
+  );
+  const mockAnswerIdHeart = new mongoose.Types.ObjectId(
+    "807f1f77bcf86cd799439001"
+  );
+  const mockAnswerIdLung = new mongoose.Types.ObjectId(
+    "807f1f77bcf86cd799439002"
+  );
+  const mockMeshId = new mongoose.Types.ObjectId("607f1f77bcf86cd799439001");
+  const mockStudentId = new mongoose.Types.ObjectId("907f1f77bcf86cd799439001");
+  const context = { params: { id: mockQuizId.toHexString() } };
+  const url = `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}/results/export`;
+
+  const mockQuiz = {
+    _id: mockQuizId,
+    title: "Thorax",
+    version: 1,
+    questions: [
+      {
+        _id: mockQuestionIdMCQ,
+        type: "multiple-choice",
+        questionText: "Which organ pumps blood?",
+        answers: [
+          { _id: mockAnswerIdHeart, text: "Heart", isCorrect: true },
+          { _id: mockAnswerIdLung, text: "Lung", isCorrect: false },
+        ],
+      },
+      {
+        _id: mockQuestionIdSA,
+        type: "short-answer",
+        questionText: "Name the largest organ",
+        answers: [],
+        acceptedAnswers: ["Skin"],
+      },
+      {
+        _id: mockQuestionIdSO,
+        type: "select-organ",
+        questionText: "Select the heart",
+        answers: [],
+        targetType: "mesh",
+        target_id: mockMeshId,
+      },
+    ],
+  };
+
+  const mockSubmissions = [
+    {
+      _id: new mongoose.Types.ObjectId(),
+      student_id: mockStudentId,
+      studyYearAtSubmission: 1,
+      submittedAt: new Date("2025-09-01T09:00:00Z"),
+      quizVersion: 1,
+      answers: [
+        {
+          question_id: mockQuestionIdMCQ,
+          selectedAnswer_id: mockAnswerIdHeart,
+        },
+        { question_id: mockQuestionIdSA, responseText_ShortAnswer: "=Skin" },
+        {
+          question_id: mockQuestionIdSO,
+          responseText_ClickedMesh_id: mockMeshId,
+        },
+      ],
+    },
+    {
+      _id: new mongoose.Types.ObjectId(),
+      studyYearAtSubmission: 2,
+      submittedAt: new Date("2025-09-01T10:00:00Z"),
+      quizVersion: 1,
+      answers: [
+        { question_id: mockQuestionIdMCQ, selectedAnswer_id: mockAnswerIdLung },
+        { question_id: mockQuestionIdSA, responseText_ShortAnswer: "Skin" },
+      ],
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+    (Submission.find as Mock).mockReturnValue({
+      sort: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue(mockSubmissions),
+      }),
+    });
+    (Student.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue([
+          {
+            _id: mockStudentId,
+            name: "Jan de Vries",
+            email: "jan@example.com",
+            cohort: "2025-A",
+          },
+        ]),
+      }),
+    });
+    (MeshCatalogItem.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        lean: vi
+          .fn()
+          .mockResolvedValue([{ _id: mockMeshId, displayName: "Heart" }]),
+      }),
+    });
+    (ShortAnswerGrade.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([]),
+    });
+  });
+
+  it("should export one CSV row per submission", async () => {
+    const res = await GET(new Request(`${url}?format=csv`), context);
+    const rows = parseCsv(await res.text());
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="thorax-results.csv"'
+    );
+    expect(rows[0]).toEqual([
+      "Student",
+      "Email",
+      "Cohort",
+      "Study Year",
+      "Submitted At",
+      "Quiz Version",
+      "Q1 Answer",
+      "Q1 Result",
+      "Q2 Answer",
+      "Q2 Result",
+      "Q3 Answer",
+      "Q3 Result",
+      "Score",
+      "Max Score",
+      "Percentage",
+    ]);
+    expect(rows.slice(1)).toEqual([
+      [
+        "Jan de Vries",
+        "jan@example.com",
+        "2025-A",
+        "1",
+        "2025-09-01T09:00:00.000Z",
+        "1",
+        "Heart",
+        "Correct",
+        // Answers that look like a formula are escaped
+        "'=Skin",
+        "Correct",
+        "Heart",
+        "Correct",
+        "3",
+        "3",
+        "100",
+      ],
+      [
+        "",
+        "",
+        "",
+        "2",
+        "2025-09-01T10:00:00.000Z",
+        "1",
+        "Lung",
+        "Incorrect",
+        "Skin",
+        "Correct",
+        "",
+        "Not answered",
+        "1",
+        "3",
+        "33.3",
+      ],
+    ]);
+  });
+
+  it("should export the per-question summary as CSV", async () => {
+    const res = await GET(
+      new Request(`${url}?format=csv&sheet=summary`),
+      context
+    );
+    const rows = parseCsv(await res.text());
+
+    expect(res.status).toBe(200);
+    expect(rows.slice(1)).toEqual([
+      [
+        "Q1",
+        "Which organ pumps blood?",
+        "multiple-choice",
+        "2",
+        "1",
+        "0",
+        "1",
+        "0",
+        "50",
+      ],
+      [
+        "Q2",
+        "Name the largest organ",
+        "short-answer",
+        "2",
+        "2",
+        "0",
+        "0",
+        "0",
+        "100",
+      ],
+      [
+        "Q3",
+        "Select the heart",
+        "select-organ",
+        "1",
+        "1",
+        "0",
+        "0",
+        "0",
+        "100",
+      ],
+    ]);
+  });
+
+  it("should export an Excel workbook with a submissions and a summary sheet", async () => {
+    const res = await GET(new Request(`${url}?format=xlsx`), context);
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await res.arrayBuffer());
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe(
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    );
+    expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual([
+      "Submissions",
+      "Summary",
+    ]);
+    const submissionsSheet = workbook.getWorksheet("Submissions")!;
+    expect(submissionsSheet.getRow(1).font?.bold).toBe(true);
+    expect(submissionsSheet.getCell("A2").value).toBe("Jan de Vries");
+    expect(submissionsSheet.getCell("M2").value).toBe(3);
+    expect(workbook.getWorksheet("Summary")!.getCell("B2").value).toBe(
+      "Which organ pumps blood?"
+    );
+  });
+
+  it("should return 400 for an invalid format", async () => {
+    const res = await GET(new Request(`${url}?format=pdf`), context);
+
+    expect(res.status).toBe(400);
+    expect(Quiz.findById).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 if the quiz does not exist", async () => {
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(null),
+    });
+
+    const res = await GET(new Request(`${url}?format=csv`), context);
+
+    expect(res.status).toBe(404);
+  });
+});
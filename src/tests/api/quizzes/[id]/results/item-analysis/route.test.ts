@@ -0,0 +1,199 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET } from "@/app/api/quizzes/[id]/results/item-analysis/route";
+import {
+  Quiz,
+  Submission,
+  MeshCatalogItem,
+  ShortAnswerGrade,
+} from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Quiz: {
+    findById: vi.fn(),
+  },
+  Submission: {
+    find: vi.fn(),
+  },
+  Student: {
+    find: vi.fn(),
+  },
+  MeshCatalogItem: {
+    find: vi.fn(),
+  },
+  ShortAnswerGrade: {
+    find: vi.fn(),
+  },
+  QuizVersion: {
+    find: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/quizzes/[id]/results/item-analysis route", () => {
+  const mockQuizId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439011");
+  const mockQuestionIdMCQ = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439012"
+  );
+  const mockQuestionIdTF = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439013"
+  );
+  const mockAnswerIdHeart = new mongoose.Types.ObjectId(
+    "807f1f77bcf86cd799439001"
+  );
+  const mockAnswerIdLung = new mongoose.Types.ObjectId(
+    "807f1f77bcf86cd799439002"
+  );
+  const mockAnswerIdTrue = new mongoose.Types.ObjectId(
+    "807f1f77bcf86cd799439003"
+  );
+  const mockAnswerIdFalse = new mongoose.Types.ObjectId(
+    "807f1f77bcf86cd799439004"
+  );
+  const context = { params: { id: mockQuizId.toHexString() } };
+  const url = `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}/results/item-analysis`;
+
+  const mockQuiz = {
+    _id: mockQuizId,
+    title: "Thorax",
+    version: 1,
+    questions: [
+      {
+        _id: mockQuestionIdMCQ,
+        type: "multiple-choice",
+        questionText: "Which organ pumps blood?",
+        answers: [
+          { _id: mockAnswerIdHeart, text: "Heart", isCorrect: true },
+          { _id: mockAnswerIdLung, text: "Lung", isCorrect: false },
+        ],
+      },
+      {
+        _id: mockQuestionIdTF,
+        type: "true-false",
+        questionText: "The liver is an organ",
+        answers: [
+          { _id: mockAnswerIdTrue, text: "True", isCorrect: true },
+          { _id: mockAnswerIdFalse, text: "False", isCorrect: false },
+        ],
+      },
+    ],
+  };
+
+  // Every combination of a right and a wrong answer to both questions
+  const mockSubmissions = [
+    [mockAnswerIdHeart, mockAnswerIdTrue],
+    [mockAnswerIdHeart, mockAnswerIdFalse],
+    [mockAnswerIdLung, mockAnswerIdTrue],
+    [mockAnswerIdLung, mockAnswerIdFalse],
+  ].map(([mcqAnswer, tfAnswer], index) => ({
+    _id: new mongoose.Types.ObjectId(),
+    studyYearAtSubmission: 1,
+    submittedAt: new Date(`2025-09-0${index + 1}T09:00:00Z`),
+    quizVersion: 1,
+    answers: [
+      { question_id: mockQuestionIdMCQ, selectedAnswer_id: mcqAnswer },
+      { question_id: mockQuestionIdTF, selectedAnswer_id: tfAnswer },
+    ],
+  }));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+    (Submission.find as Mock).mockReturnValue({
+      sort: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue(mockSubmissions),
+      }),
+    });
+    (MeshCatalogItem.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue([]),
+      }),
+    });
+    (ShortAnswerGrade.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([]),
+    });
+  });
+
+  it("should return the item analysis of a quiz", async () => {
+    const res = await GET(new Request(url), context);
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.submissionCount).toBe(4);
+    expect(body.reliability).toMatchObject({
+      method: "KR-20",
+      itemCount: 2,
+      submissionCount: 4,
+    });
+    expect(body.items).toHaveLength(2);
+    expect(body.items[0]).toMatchObject({
+      questionId: mockQuestionIdMCQ.toHexString(),
+      questionType: "multiple-choice",
+      submissionCount: 4,
+      answeredCount: 4,
+      difficulty: 0.5,
+    });
+    expect(body.items[0].options).toContainEqual(
+      expect.objectContaining({
+        answerId: mockAnswerIdHeart.toHexString(),
+        isCorrect: true,
+        count: 2,
+        proportion: 0.5,
+      })
+    );
+    expect(body.items[1]).toMatchObject({
+      questionId: mockQuestionIdTF.toHexString(),
+      difficulty: 0.5,
+    });
+  });
+
+  it("should only analyze the submissions that match the filter", async () => {
+    const res = await GET(
+      new Request(`${url}?studyYearAtSubmission=1`),
+      context
+    );
+
+    expect(res.status).toBe(200);
+    expect(Submission.find).toHaveBeenCalledWith({
+      quiz_id: mockQuizId,
+      studyYearAtSubmission: 1,
+    });
+  });
+
+  it("should return 400 for an invalid quiz ID", async () => {
+    const res = await GET(new Request(url), { params: { id: "invalid" } });
+
+    expect(res.status).toBe(400);
+    expect(Quiz.findById).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an invalid filter parameter", async () => {
+    const res = await GET(new Request(`${url}?attempt=second`), context);
+    const body = await res.json();
+
+    expect(res.status).toBe(400);
+    expect(body.error).toBe(
+      "Invalid attempt parameter. Must be 'first' or 'latest'."
+    );
+    expect(Quiz.findById).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 if the quiz does not exist", async () => {
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(null),
+    });
+
+    const res = await GET(new Request(url), context);
+
+    expect(res.status).toBe(404);
+    expect(Submission.find).not.toHaveBeenCalled();
+  });
+});
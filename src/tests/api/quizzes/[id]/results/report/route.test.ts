@@ -0,0 +1,237 @@
+// @vitest-environment node
+// PDFKit writes binary data that the jsdom environment corrupts
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET } from "@/app/api/quizzes/[id]/results/report/route";
+import {
+  Quiz,
+  Submission,
+  Student,
+  MeshCatalogItem,
+  OrganGroup,
+  ShortAnswerGrade,
+} from "@/app/models/Quiz";
+import { inflateSync } from "zlib";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Quiz: {
+    findById: vi.fn(),
+  },
+  Submission: {
+    find: vi.fn(),
+  },
+  Student: {
+    find: vi.fn(),
+  },
+  MeshCatalogItem: {
+    find: vi.fn(),
+  },
+  OrganGroup: {
+    find: vi.fn(),
+  },
+  ShortAnswerGrade: {
+    find: vi.fn(),
+  },
+  QuizVersion: {
+    find: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+/**
+ * Returns the lines of text in the content streams of a PDF document. Every
+ * text operation is a line, with the strings of its TJ array joined.
+ *
+ * @param {Buffer} pdf - The PDF document.
+ * @returns {{ lines: string[]; contents: string }} The lines and the decompressed content of all pages.
+ */
+const readPageContents = (pdf: Buffer) => {
+  const streams: string[] = [];
+  let position = 0;
+  for (;;) {
+    const start = pdf.indexOf("stream\n", position);
+    if (start === -1) break;
+    const dictionary = pdf
+      .subarray(pdf.lastIndexOf(" obj", start), start)
+      .toString("latin1");
+    const length = Number(/\/Length (\d+)/.exec(dictionary)?.[1] ?? 0);
+    const dataStart = start + "stream\n".length;
+    // Only the page contents are compressed
+    if (dictionary.includes("/FlateDecode")) {
+      streams.push(
+        inflateSync(pdf.subarray(dataStart, dataStart + length)).toString(
+          "latin1"
+        )
+      );
+    }
+    position = dataStart + length + "\nendstream".length;
+  }
+  const contents = streams.join("\n");
+  const lines = Array.from(contents.matchAll(/\[(.*)\] TJ/g), ([, array]) =>
+    Array.from(array.matchAll(/<([0-9a-f]*)>/g), ([, hex]) =>
+      Buffer.from(hex, "hex").toString("latin1")
+    ).join("")
+  );
+  return { lines, contents };
+};
+
+/**
+ * Returns the fill color operation of a hex color in a content stream.
+ *
+ * @param {string} hex - The color, e.g. "#82ca9d".
+ * @returns {string} The color operation.
+ */
+const toFillColor = (hex: string): string =>
+  `${[1, 3, 5]
+    .map((start) => parseInt(hex.slice(start, start + 2), 16) / 255)
+    .join(" ")} scn`;
+
+describe("/api/quizzes/[id]/results/report route", () => {
+  const mockQuizId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439011");
+  const mockQuestionIdMCQ = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439012"
+  );
+  const mockQuestionIdSA = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439013"
+  );
+  const mockAnswerIdHeart = new mongoose.Types.ObjectId(
+    "807f1f77bcf86cd799439001"
+  );
+  const mockAnswerIdLung = new mongoose.Types.ObjectId(
+    "807f1f77bcf86cd799439002"
+  );
+  const context = { params: { id: mockQuizId.toHexString() } };
+  const url = `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}/results/report`;
+
+  const mockQuiz = {
+    _id: mockQuizId,
+    title: "Thorax (Week 1)",
+    studyYear: 1,
+    version: 1,
+    questions: [
+      {
+        _id: mockQuestionIdMCQ,
+        type: "multiple-choice",
+        questionText: "Which organ pumps blood?",
+        answers: [
+          { _id: mockAnswerIdHeart, text: "Heart", isCorrect: true },
+          { _id: mockAnswerIdLung, text: "Lung", isCorrect: false },
+        ],
+      },
+      {
+        _id: mockQuestionIdSA,
+        type: "short-answer",
+        questionText: "Name the largest organ",
+        answers: [],
+        acceptedAnswers: ["Skin"],
+      },
+    ],
+  };
+
+  const mockSubmissions = [
+    {
+      _id: new mongoose.Types.ObjectId(),
+      quiz_id: mockQuizId,
+      studyYearAtSubmission: 1,
+      submittedAt: new Date("2025-09-01T09:00:00Z"),
+      quizVersion: 1,
+      answers: [
+        {
+          question_id: mockQuestionIdMCQ,
+          selectedAnswer_id: mockAnswerIdHeart,
+        },
+        { question_id: mockQuestionIdSA, responseText_ShortAnswer: "Skin" },
+      ],
+    },
+    {
+      _id: new mongoose.Types.ObjectId(),
+      quiz_id: mockQuizId,
+      studyYearAtSubmission: 1,
+      submittedAt: new Date("2025-09-01T10:00:00Z"),
+      quizVersion: 1,
+      answers: [
+        { question_id: mockQuestionIdMCQ, selectedAnswer_id: mockAnswerIdLung },
+        { question_id: mockQuestionIdSA, responseText_ShortAnswer: "Liver" },
+      ],
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+    // The per-question results and the graded submissions query differently
+    (Submission.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockSubmissions),
+      sort: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue(mockSubmissions),
+      }),
+    });
+    (Student.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue([]),
+      }),
+    });
+    (MeshCatalogItem.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([]),
+    });
+    (OrganGroup.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([]),
+    });
+    (ShortAnswerGrade.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([]),
+    });
+  });
+
+  it("should return the results report as a PDF download", async () => {
+    const res = await GET(new Request(url), context);
+    const pdf = Buffer.from(await res.arrayBuffer());
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/pdf");
+    expect(res.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="thorax-week-1-report.pdf"'
+    );
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(pdf.toString("latin1").trimEnd().endsWith("%%EOF")).toBe(true);
+
+    const { lines, contents } = readPageContents(pdf);
+    expect(lines).toContain("Thorax (Week 1)");
+    expect(lines).toContain("Average score");
+    expect(lines).toContain("50.0%");
+    expect(lines).toContain("Q1. Which organ pumps blood?");
+    expect(lines).toContain("Q2. Name the largest organ");
+    // The short-answer responses are listed with their result
+    expect(lines).toContain("Liver");
+    expect(lines).toContain("Incorrect");
+    // Every page has a footer with the page number
+    expect(lines).toContain("Page 1 of 1");
+    // The bars of the chart are drawn as filled rectangles in the chart colors
+    expect(contents).toContain(toFillColor("#82ca9d"));
+    expect(contents).toContain(toFillColor("#fa8072"));
+  });
+
+  it("should return 400 for an invalid quiz ID", async () => {
+    const res = await GET(new Request(url), { params: { id: "invalid" } });
+
+    expect(res.status).toBe(400);
+    expect(Quiz.findById).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 if the quiz does not exist", async () => {
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(null),
+    });
+
+    const res = await GET(new Request(url), context);
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -5,6 +5,9 @@ import {
   Submission,
   MeshCatalogItem,
   OrganGroup,
+  ShortAnswerGrade,
+  QuizVersion,
+  Student,
 } from "@/app/models/Quiz";
 import mongoose from "mongoose";
 
@@ -22,6 +25,15 @@ vi.mock("@/app/models/Quiz", () => ({
   OrganGroup: {
     find: vi.fn(),
   },
+  ShortAnswerGrade: {
+    find: vi.fn(),
+  },
+  QuizVersion: {
+    find: vi.fn(),
+  },
+  Student: {
+    find: vi.fn(),
+  },
 }));
 
 // Mock dbConnect
@@ -45,6 +57,10 @@ describe("/api/quizzes/[id]/results route", () => {
   const mockMeshId2 = new mongoose.Types.ObjectId("607f1f77bcf86cd799439002");
   const mockGroupId1 = new mongoose.Types.ObjectId("707f1f77bcf86cd799439001");
 
+  const mockAnswerId3 = new mongoose.Types.ObjectId("807f1f77bcf86cd799439003");
+  const mockAnswerId4 = new mongoose.Types.ObjectId("807f1f77bcf86cd799439004");
+  const mockAnswerId5 = new mongoose.Types.ObjectId("807f1f77bcf86cd799439005");
+
   beforeEach(() => {
     vi.clearAllMocks();
 
@@ -61,6 +77,9 @@ describe("/api/quizzes/[id]/results route", () => {
     (OrganGroup.find as Mock).mockReturnValue({
       lean: vi.fn().mockResolvedValue([]),
     });
+    (ShortAnswerGrade.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([]),
+    });
   });
 
   it("should return 400 for invalid quiz ID format", async () => {
@@ -99,9 +118,9 @@ describe("/api/quizzes/[id]/results route", () => {
           questionText: "What is 2 + 2?",
           type: "multiple-choice",
           answers: [
-            { text: "3", isCorrect: false },
-            { text: "4", isCorrect: true },
-            { text: "5", isCorrect: false },
+            { _id: mockAnswerId3, text: "3", isCorrect: false },
+            { _id: mockAnswerId4, text: "4", isCorrect: true },
+            { _id: mockAnswerId5, text: "5", isCorrect: false },
           ],
         },
       ],
@@ -112,21 +131,21 @@ describe("/api/quizzes/[id]/results route", () => {
         _id: new mongoose.Types.ObjectId(),
         quiz_id: mockQuizId,
         answers: [
-          { question_id: mockQuestionIdMCQ, selectedAnswerId_Index: 1 },
+          { question_id: mockQuestionIdMCQ, selectedAnswer_id: mockAnswerId4 },
         ], // Correct
       },
       {
         _id: new mongoose.Types.ObjectId(),
         quiz_id: mockQuizId,
         answers: [
-          { question_id: mockQuestionIdMCQ, selectedAnswerId_Index: 0 },
+          { question_id: mockQuestionIdMCQ, selectedAnswer_id: mockAnswerId3 },
         ], // Incorrect
       },
       {
         _id: new mongoose.Types.ObjectId(),
         quiz_id: mockQuizId,
         answers: [
-          { question_id: mockQuestionIdMCQ, selectedAnswerId_Index: 1 },
+          { question_id: mockQuestionIdMCQ, selectedAnswer_id: mockAnswerId4 },
         ], // Correct
       },
     ];
@@ -160,6 +179,124 @@ describe("/api/quizzes/[id]/results route", () => {
     });
   });
 
+  it("should count selected answers by ID after the answers were edited", async () => {
+    // "4" moved to the front and "3" was removed after the students submitted
+    const mockQuiz = {
+      _id: mockQuizId,
+      title: "Test Quiz MCQ",
+      questions: [
+        {
+          _id: mockQuestionIdMCQ,
+          questionText: "What is 2 + 2?",
+          type: "multiple-choice",
+          answers: [
+            { _id: mockAnswerId4, text: "4", isCorrect: true },
+            { _id: mockAnswerId5, text: "5", isCorrect: false },
+          ],
+        },
+      ],
+    };
+    const mockSubmissions = [mockAnswerId4, mockAnswerId3, mockAnswerId5].map(
+      (selectedAnswer_id) => ({
+        _id: new mongoose.Types.ObjectId(),
+        quiz_id: mockQuizId,
+        answers: [{ question_id: mockQuestionIdMCQ, selectedAnswer_id }],
+      })
+    );
+
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+    (Submission.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockSubmissions),
+    });
+
+    const req = new Request(
+      `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}/results`
+    );
+    const res = await GET(req, { params: { id: mockQuizId.toHexString() } });
+
+    expect(res.status).toBe(200);
+    const results = await res.json();
+    expect(results[0]).toMatchObject({
+      totalSubmissionsForQuestion: 3,
+      totalCorrect: 1,
+      answersBreakdown: [
+        { answerText: "4", studentCount: 1, isCorrectOption: true },
+        { answerText: "5", studentCount: 1, isCorrectOption: false },
+      ],
+    });
+  });
+
+  it("should grade submissions against the version of the quiz they answered", async () => {
+    const answers = [
+      { _id: mockAnswerId3, text: "3", isCorrect: false },
+      { _id: mockAnswerId4, text: "4", isCorrect: true },
+    ];
+    const question = {
+      _id: mockQuestionIdMCQ,
+      questionText: "What is 2 + 2?",
+      type: "multiple-choice",
+    };
+    // "3" was marked as correct by mistake in version 1
+    const mockQuiz = {
+      _id: mockQuizId,
+      title: "Test Quiz MCQ",
+      version: 2,
+      questions: [{ ...question, answers }],
+    };
+    const mockSubmissions = [
+      { quizVersion: 1, selectedAnswer_id: mockAnswerId3 },
+      { quizVersion: 2, selectedAnswer_id: mockAnswerId4 },
+      { quizVersion: 2, selectedAnswer_id: mockAnswerId3 },
+    ].map(({ quizVersion, selectedAnswer_id }) => ({
+      _id: new mongoose.Types.ObjectId(),
+      quiz_id: mockQuizId,
+      quizVersion,
+      answers: [{ question_id: mockQuestionIdMCQ, selectedAnswer_id }],
+    }));
+
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+    (Submission.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockSubmissions),
+    });
+    (QuizVersion.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue([
+        {
+          version: 1,
+          questions: [
+            {
+              ...question,
+              answers: answers.map((answer) => ({
+                ...answer,
+                isCorrect: !answer.isCorrect,
+              })),
+            },
+          ],
+        },
+      ]),
+    });
+
+    const req = new Request(
+      `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}/results`
+    );
+    const res = await GET(req, { params: { id: mockQuizId.toHexString() } });
+
+    expect(res.status).toBe(200);
+    const results = await res.json();
+    expect(results[0]).toMatchObject({
+      totalSubmissionsForQuestion: 3,
+      totalCorrect: 2,
+      answersBreakdown: [
+        { answerText: "3", studentCount: 2, isCorrectOption: false },
+        { answerText: "4", studentCount: 1, isCorrectOption: true },
+      ],
+    });
+  });
+
   it("should return quiz results for a short-answer question", async () => {
     const mockQuiz = {
       _id: mockQuizId,
@@ -226,6 +363,166 @@ describe("/api/quizzes/[id]/results route", () => {
     });
   });
 
+  it("should grade short answers against the accepted answers", async () => {
+    const mockQuiz = {
+      _id: mockQuizId,
+      title: "Test Quiz SA graded",
+      questions: [
+        {
+          _id: mockQuestionIdSA,
+          questionText: "Name the collarbone",
+          type: "short-answer",
+          answers: [],
+          acceptedAnswers: ["Clavicle", "Clavícula"],
+        },
+      ],
+    };
+
+    const mockSubmissions = [
+      "clavicula",
+      "Clavicle",
+      "Clavicule",
+      "Scapula",
+    ].map((responseText) => ({
+      _id: new mongoose.Types.ObjectId(),
+      quiz_id: mockQuizId,
+      answers: [
+        {
+          question_id: mockQuestionIdSA,
+          responseText_ShortAnswer: responseText,
+        },
+      ],
+    }));
+
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+    (Submission.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockSubmissions),
+    });
+
+    const req = new Request(
+      `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}/results`
+    );
+    const res = await GET(req, { params: { id: mockQuizId.toHexString() } });
+
+    expect(res.status).toBe(200);
+    const results = await res.json();
+    expect(results[0].totalCorrect).toBe(3);
+    expect(results[0].acceptedAnswers).toEqual(["Clavicle", "Clavícula"]);
+    expect(results[0].shortAnswerResponses).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          responseText: "clavicula",
+          isCorrect: true,
+          matchType: "normalized",
+          matchedAnswer: "Clavícula",
+        }),
+        expect.objectContaining({
+          responseText: "Clavicle",
+          isCorrect: true,
+          matchType: "exact",
+        }),
+        expect.objectContaining({
+          responseText: "Clavicule",
+          isCorrect: true,
+          matchType: "fuzzy",
+          matchedAnswer: "Clavicle",
+          distance: 1,
+        }),
+        expect.objectContaining({
+          responseText: "Scapula",
+          isCorrect: false,
+          matchType: "none",
+        }),
+      ])
+    );
+  });
+
+  it("should let manual grades override the automatic grading", async () => {
+    const mockQuiz = {
+      _id: mockQuizId,
+      title: "Test Quiz SA manual",
+      questions: [
+        {
+          _id: mockQuestionIdSA,
+          questionText: "Name the collarbone",
+          type: "short-answer",
+          answers: [],
+          acceptedAnswers: ["Clavicle"],
+        },
+      ],
+    };
+
+    const mockSubmissions = ["Collarbone", "collarbone ", "Scapula", "Rib"].map(
+      (responseText) => ({
+        _id: new mongoose.Types.ObjectId(),
+        quiz_id: mockQuizId,
+        answers: [
+          {
+            question_id: mockQuestionIdSA,
+            responseText_ShortAnswer: responseText,
+          },
+        ],
+      })
+    );
+
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+    (Submission.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockSubmissions),
+    });
+    (ShortAnswerGrade.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([
+        {
+          question_id: mockQuestionIdSA,
+          responseText: "Collarbone",
+          verdict: "correct",
+          comment: "English name is fine",
+          gradedByName: "Test Teacher",
+        },
+        {
+          question_id: mockQuestionIdSA,
+          responseText: "Scapula",
+          verdict: "partial",
+        },
+      ]),
+    });
+
+    const req = new Request(
+      `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}/results`
+    );
+    const res = await GET(req, { params: { id: mockQuizId.toHexString() } });
+
+    expect(res.status).toBe(200);
+    const results = await res.json();
+    expect(results[0].totalCorrect).toBe(1);
+    expect(results[0].totalPartiallyCorrect).toBe(1);
+    expect(results[0].shortAnswerResponses).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          responseText: "Collarbone",
+          studentCount: 1,
+          isCorrect: true,
+          manualGrade: expect.objectContaining({
+            verdict: "correct",
+            comment: "English name is fine",
+          }),
+        }),
+        expect.objectContaining({
+          responseText: "collarbone",
+          isCorrect: false,
+        }),
+        expect.objectContaining({
+          responseText: "Scapula",
+          isCorrect: false,
+          credit: 0.5,
+        }),
+      ])
+    );
+  });
+
   it("should return quiz results for a select-organ (mesh) question", async () => {
     const mockQuiz = {
       _id: mockQuizId,
@@ -401,4 +698,117 @@ describe("/api/quizzes/[id]/results route", () => {
       ]),
     });
   });
+
+  describe("filters", () => {
+    const url = `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}/results`;
+    const studentId1 = new mongoose.Types.ObjectId();
+    const studentId2 = new mongoose.Types.ObjectId();
+    const mockQuiz = {
+      _id: mockQuizId,
+      title: "Test Quiz MCQ",
+      questions: [
+        {
+          _id: mockQuestionIdMCQ,
+          questionText: "What is 2 + 2?",
+          type: "multiple-choice",
+          answers: [
+            { _id: mockAnswerId3, text: "3", isCorrect: false },
+            { _id: mockAnswerId4, text: "4", isCorrect: true },
+          ],
+        },
+      ],
+    };
+    const submission = (
+      studentId: mongoose.Types.ObjectId | undefined,
+      studyYearAtSubmission: number,
+      submittedAt: string,
+      selectedAnswerId: mongoose.Types.ObjectId
+    ) => ({
+      _id: new mongoose.Types.ObjectId(),
+      quiz_id: mockQuizId,
+      student_id: studentId,
+      studyYearAtSubmission,
+      submittedAt: new Date(submittedAt),
+      answers: [
+        { question_id: mockQuestionIdMCQ, selectedAnswer_id: selectedAnswerId },
+      ],
+    });
+
+    beforeEach(() => {
+      (Quiz.findById as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue(mockQuiz),
+      });
+    });
+
+    it("should only query the submissions of the given study year and dates", async () => {
+      await GET(
+        new Request(`${url}?studyYear=4&from=2025-01-01&to=2025-06-30`),
+        {
+          params: { id: mockQuizId.toHexString() },
+        }
+      );
+
+      expect(Submission.find).toHaveBeenCalledWith({
+        quiz_id: mockQuizId,
+        studyYearAtSubmission: 4,
+        submittedAt: {
+          $gte: new Date("2025-01-01T00:00:00.000Z"),
+          $lte: new Date("2025-06-30T23:59:59.999Z"),
+        },
+      });
+    });
+
+    it("should only query the submissions of students of the given cohort", async () => {
+      (Student.find as Mock).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          lean: vi.fn().mockResolvedValue([{ _id: studentId1 }]),
+        }),
+      });
+
+      await GET(new Request(`${url}?cohort=2025-A`), {
+        params: { id: mockQuizId.toHexString() },
+      });
+
+      expect(Student.find).toHaveBeenCalledWith({ cohort: "2025-A" });
+      expect(Submission.find).toHaveBeenCalledWith({
+        quiz_id: mockQuizId,
+        student_id: { $in: [studentId1] },
+      });
+    });
+
+    it("should only count the first attempt of every student", async () => {
+      (Submission.find as Mock).mockReturnValue({
+        lean: vi
+          .fn()
+          .mockResolvedValue([
+            submission(studentId1, 1, "2025-03-01", mockAnswerId4),
+            submission(studentId1, 1, "2025-02-01", mockAnswerId3),
+            submission(studentId2, 4, "2025-04-01", mockAnswerId4),
+            submission(undefined, 4, "2025-04-02", mockAnswerId4),
+          ]),
+      });
+
+      const res = await GET(new Request(`${url}?attempt=first&studyYear=1`), {
+        params: { id: mockQuizId.toHexString() },
+      });
+      const results = await res.json();
+
+      // The study year is applied after selecting the attempts
+      expect(Submission.find).toHaveBeenCalledWith({ quiz_id: mockQuizId });
+      expect(results[0]).toMatchObject({
+        totalSubmissionsForQuestion: 1,
+        totalCorrect: 0,
+      });
+    });
+
+    it("should return 400 for an invalid filter parameter", async () => {
+      const res = await GET(new Request(`${url}?attempt=best`), {
+        params: { id: mockQuizId.toHexString() },
+      });
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain("Invalid attempt parameter");
+      expect(Quiz.findById).not.toHaveBeenCalled();
+    });
+  });
 });
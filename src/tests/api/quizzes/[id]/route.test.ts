@@ -0,0 +1,467 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET, PUT, DELETE } from "@/app/api/quizzes/[id]/route";
+import { Quiz, QuizVersion, Student, Submission } from "@/app/models/Quiz";
+import { User } from "@/app/models/User";
+import { SESSION_COOKIE_NAME, createSessionToken } from "@/app/lib/session";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Quiz: {
+    findById: vi.fn(),
+    findOne: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    updateOne: vi.fn(),
+  },
+  QuizVersion: {
+    updateOne: vi.fn(),
+  },
+  Submission: {
+    aggregate: vi.fn(),
+  },
+  Student: {
+    findOne: vi.fn(),
+  },
+}));
+
+vi.mock("@/app/models/User", () => ({
+  User: {
+    findById: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/quizzes/[id] route", () => {
+  const mockQuizId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439011");
+  const mockTargetId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439021");
+  const context = { params: { id: mockQuizId.toHexString() } };
+  const url = `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}`;
+
+  const mockQuiz = {
+    _id: mockQuizId,
+    title: "Thorax",
+    description: "Organs of the thorax",
+    studyYear: 1,
+    questions: [
+      {
+        _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439012"),
+        type: "multiple-choice",
+        questionText: "Which organ pumps blood?",
+        answers: [
+          {
+            _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439041"),
+            text: "Heart",
+            isCorrect: true,
+          },
+          {
+            _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439042"),
+            text: "Lung",
+            isCorrect: false,
+          },
+        ],
+      },
+      {
+        _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439013"),
+        type: "true-false",
+        questionText: "The heart has four chambers",
+        answers: [
+          { text: "True", isCorrect: true },
+          { text: "False", isCorrect: false },
+        ],
+      },
+      {
+        _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439014"),
+        type: "select-organ",
+        questionText: "Select the heart",
+        targetType: "mesh",
+        target_id: mockTargetId,
+        answers: [{ text: "Heart", isCorrect: true, target_id: mockTargetId }],
+      },
+      {
+        _id: new mongoose.Types.ObjectId("507f1f77bcf86cd799439015"),
+        type: "short-answer",
+        questionText: "Name the largest organ",
+        acceptedAnswers: ["Skin", "Cutis"],
+        typoTolerance: 1,
+      },
+    ],
+  };
+
+  const expectNoAnswerKey = (body: unknown) => {
+    const serialized = JSON.stringify(body);
+    expect(serialized).not.toContain("isCorrect");
+    expect(serialized).not.toContain("target_id");
+    expect(serialized).not.toContain("targetType");
+    expect(serialized).not.toContain(mockTargetId.toHexString());
+    expect(serialized).not.toContain("acceptedAnswers");
+    expect(serialized).not.toContain("Cutis");
+    expect(serialized).not.toContain("typoTolerance");
+  };
+
+  const teacherRequest = async (requestUrl: string) =>
+    new Request(requestUrl, {
+      headers: {
+        cookie: `${SESSION_COOKIE_NAME}=${await createSessionToken({
+          sub: new mongoose.Types.ObjectId().toHexString(),
+          name: "Teacher",
+          email: "teacher@example.com",
+          role: "teacher",
+          ver: 0,
+        })}`,
+      },
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.SESSION_SECRET = "test-session-secret";
+
+    (User.findById as Mock).mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue({ role: "teacher", sessionVersion: 0 }),
+      }),
+    });
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+    (Quiz.findOne as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+    (Quiz.findOneAndUpdate as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue({ ...mockQuiz, deletedAt: new Date() }),
+    });
+    (Quiz.updateOne as Mock).mockResolvedValue({});
+    (QuizVersion.updateOne as Mock).mockResolvedValue({});
+    // 200 students answered every question
+    (Submission.aggregate as Mock).mockResolvedValue([
+      {
+        submissionCount: [{ count: 200 }],
+        answerCounts: mockQuiz.questions.map((question) => ({
+          _id: question._id,
+          count: 200,
+        })),
+      },
+    ]);
+  });
+
+  it("should return the student view without a teacher session", async () => {
+    const res = await GET(new Request(url), context);
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expectNoAnswerKey(body);
+    expect(body.title).toBe("Thorax");
+    expect(body.questions).toEqual([
+      {
+        _id: "507f1f77bcf86cd799439012",
+        type: "multiple-choice",
+        questionText: "Which organ pumps blood?",
+        answers: [
+          { _id: "507f1f77bcf86cd799439041", text: "Heart" },
+          { _id: "507f1f77bcf86cd799439042", text: "Lung" },
+        ],
+      },
+      {
+        _id: "507f1f77bcf86cd799439013",
+        type: "true-false",
+        questionText: "The heart has four chambers",
+        answers: [
+          { _id: "", text: "True" },
+          { _id: "", text: "False" },
+        ],
+      },
+      {
+        _id: "507f1f77bcf86cd799439014",
+        type: "select-organ",
+        questionText: "Select the heart",
+      },
+      {
+        _id: "507f1f77bcf86cd799439015",
+        type: "short-answer",
+        questionText: "Name the largest organ",
+      },
+    ]);
+  });
+
+  it("should return the student view to a teacher asking for it", async () => {
+    const res = await GET(await teacherRequest(`${url}?view=student`), context);
+
+    expect(res.status).toBe(200);
+    expectNoAnswerKey(await res.json());
+  });
+
+  it("should return the full quiz to a teacher", async () => {
+    const res = await GET(await teacherRequest(url), context);
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.questions[0].answers[0].isCorrect).toBe(true);
+    expect(body.questions[2].target_id).toBe(mockTargetId.toHexString());
+    expect(body.questions[3].acceptedAnswers).toEqual(["Skin", "Cutis"]);
+  });
+
+  it("should not return the teacher view without a teacher session", async () => {
+    const forged = new Request(`${url}?view=teacher`, {
+      headers: { cookie: `${SESSION_COOKIE_NAME}=forged.token` },
+    });
+    const res = await GET(forged, context);
+
+    expect(res.status).toBe(403);
+    expect(Quiz.findById).not.toHaveBeenCalled();
+  });
+
+  it("should only return a quiz in the trash to a teacher", async () => {
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue({ ...mockQuiz, deletedAt: new Date() }),
+    });
+
+    expect((await GET(new Request(url), context)).status).toBe(404);
+    expect((await GET(await teacherRequest(url), context)).status).toBe(200);
+  });
+
+  it("should not reveal whether a student is on the roster", async () => {
+    const studentId = new mongoose.Types.ObjectId();
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue({
+        ...mockQuiz,
+        shuffleQuestions: true,
+        shuffleAnswers: true,
+      }),
+    });
+    const studentUrl = `${url}?student_id=${studentId.toHexString()}`;
+    const mockStudent = (student: object | null) =>
+      (Student.findOne as Mock).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          lean: vi.fn().mockResolvedValue(student),
+        }),
+      });
+
+    mockStudent({ _id: studentId });
+    const enrolled = await GET(new Request(studentUrl), context);
+    mockStudent(null);
+    const unknown = await GET(new Request(studentUrl), context);
+    const unknownEmail = await GET(
+      new Request(`${url}?studentEmail=someone@example.com`),
+      context
+    );
+
+    expect(enrolled.status).toBe(200);
+    expect(unknown.status).toBe(200);
+    expect(await unknown.json()).toEqual(await enrolled.json());
+    expect(unknownEmail.status).toBe(200);
+    expectNoAnswerKey(await unknownEmail.json());
+  });
+
+  it("should return 400 for an invalid student_id", async () => {
+    const res = await GET(new Request(`${url}?student_id=invalid`), context);
+
+    expect(res.status).toBe(400);
+  });
+
+  it("should return 400 for an unknown view", async () => {
+    const res = await GET(new Request(`${url}?view=answers`), context);
+
+    expect(res.status).toBe(400);
+    expect(Quiz.findById).not.toHaveBeenCalled();
+  });
+
+  describe("PUT /api/quizzes/[id]", () => {
+    // The request body the edit form sends for the quiz
+    const toRequestBody = (questions: object[]) => ({
+      title: mockQuiz.title,
+      description: mockQuiz.description,
+      studyYear: mockQuiz.studyYear,
+      questions: JSON.parse(JSON.stringify(questions)),
+    });
+    const putRequest = (body: unknown, requestUrl = url) =>
+      new Request(requestUrl, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    beforeEach(() => {
+      (Quiz.findOneAndUpdate as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue({ ...mockQuiz, version: 2 }),
+      });
+    });
+
+    it("should return 409 when removing a question of a quiz with submissions", async () => {
+      const res = await PUT(
+        putRequest(toRequestBody(mockQuiz.questions.slice(1))),
+        context
+      );
+
+      expect(res.status).toBe(409);
+      const body = await res.json();
+      expect(body.details).toEqual({
+        submissionCount: 200,
+        removedQuestions: [
+          {
+            questionId: "507f1f77bcf86cd799439012",
+            questionText: "Which organ pumps blood?",
+            answerCount: 200,
+          },
+        ],
+        changedQuestions: [],
+      });
+      expect(Quiz.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should return 409 when changing the answer key", async () => {
+      const [mcq, ...otherQuestions] = mockQuiz.questions;
+      const res = await PUT(
+        putRequest(
+          toRequestBody([
+            {
+              ...mcq,
+              answers: mcq.answers!.map((answer) => ({
+                ...answer,
+                isCorrect: !answer.isCorrect,
+              })),
+            },
+            ...otherQuestions,
+          ])
+        ),
+        context
+      );
+
+      expect(res.status).toBe(409);
+      const body = await res.json();
+      expect(body.details.changedQuestions).toEqual([
+        {
+          questionId: "507f1f77bcf86cd799439012",
+          questionText: "Which organ pumps blood?",
+          answerCount: 200,
+          changedFields: ["answers"],
+        },
+      ]);
+    });
+
+    it("should update a quiz with submissions when the change is confirmed", async () => {
+      const res = await PUT(
+        putRequest(
+          toRequestBody(mockQuiz.questions.slice(1)),
+          `${url}?confirm=true`
+        ),
+        context
+      );
+
+      expect(res.status).toBe(200);
+      expect(Submission.aggregate).not.toHaveBeenCalled();
+      expect(Quiz.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: mockQuizId.toHexString(), version: 1 },
+        expect.objectContaining({ $inc: { version: 1 } }),
+        { new: true, runValidators: true }
+      );
+    });
+
+    it("should not require a confirmation for edits that keep the results", async () => {
+      const res = await PUT(
+        putRequest({
+          ...toRequestBody(mockQuiz.questions),
+          title: "Thorax (revised)",
+        }),
+        context
+      );
+
+      expect(res.status).toBe(200);
+      expect(Quiz.findOneAndUpdate).toHaveBeenCalled();
+    });
+
+    it("should not require a confirmation for quizzes without submissions", async () => {
+      (Submission.aggregate as Mock).mockResolvedValue([
+        { submissionCount: [], answerCounts: [] },
+      ]);
+      const res = await PUT(
+        putRequest(toRequestBody(mockQuiz.questions.slice(1))),
+        context
+      );
+
+      expect(res.status).toBe(200);
+    });
+
+    it("should return 409 when the quiz was saved since the given version", async () => {
+      (Quiz.findById as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue({ ...mockQuiz, version: 3 }),
+      });
+
+      const res = await PUT(
+        putRequest({ ...toRequestBody(mockQuiz.questions), version: 2 }),
+        context
+      );
+
+      expect(res.status).toBe(409);
+      const body = await res.json();
+      expect(body.details).toEqual({ currentVersion: 3 });
+      expect(Quiz.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should return 409 when a concurrent save wins the update", async () => {
+      (Quiz.findOneAndUpdate as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue(null),
+      });
+      (Quiz.findById as Mock)
+        .mockReturnValueOnce({
+          lean: vi.fn().mockResolvedValue(mockQuiz),
+        })
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnValue({
+            lean: vi.fn().mockResolvedValue({ version: 2 }),
+          }),
+        });
+
+      const res = await PUT(
+        putRequest({ ...toRequestBody(mockQuiz.questions), version: 1 }),
+        context
+      );
+
+      expect(res.status).toBe(409);
+      const body = await res.json();
+      expect(body.details).toEqual({ currentVersion: 2 });
+      expect(QuizVersion.updateOne).toHaveBeenCalledTimes(1); // Only version 1
+    });
+  });
+
+  describe("DELETE /api/quizzes/[id]", () => {
+    it("should return 409 for a quiz with submissions", async () => {
+      const res = await DELETE(new Request(url, { method: "DELETE" }), context);
+
+      expect(res.status).toBe(409);
+      const body = await res.json();
+      expect(body.details.submissionCount).toBe(200);
+      expect(body.details.removedQuestions).toHaveLength(4);
+      expect(Quiz.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should move a quiz with submissions to the trash when confirmed", async () => {
+      const res = await DELETE(
+        new Request(`${url}?confirm=true`, { method: "DELETE" }),
+        context
+      );
+
+      expect(res.status).toBe(200);
+      expect(Quiz.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: mockQuizId.toHexString(), deletedAt: null },
+        { $set: { deletedAt: expect.any(Date) } },
+        { new: true }
+      );
+    });
+
+    it("should return 404 for a quiz that is already in the trash", async () => {
+      (Quiz.findOneAndUpdate as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue(null),
+      });
+
+      const res = await DELETE(
+        new Request(`${url}?confirm=true`, { method: "DELETE" }),
+        context
+      );
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,306 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import {
+  GET,
+  PUT,
+  DELETE,
+} from "@/app/api/quizzes/[id]/short-answer-grades/route";
+import { Quiz, Submission, ShortAnswerGrade } from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Quiz: {
+    findById: vi.fn(),
+  },
+  Submission: {
+    find: vi.fn(),
+    bulkWrite: vi.fn(),
+  },
+  MeshCatalogItem: {
+    find: vi.fn(),
+  },
+  ShortAnswerGrade: {
+    find: vi.fn(),
+    findOneAndUpdate: vi.fn(),
+    findOneAndDelete: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/quizzes/[id]/short-answer-grades route", () => {
+  const mockQuizId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439011");
+  const mockQuestionIdSA = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439013"
+  );
+  const mockQuestionIdMCQ = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439012"
+  );
+  const mockAnswerId4 = new mongoose.Types.ObjectId();
+  const context = { params: { id: mockQuizId.toHexString() } };
+  const url = `http://localhost:3000/api/quizzes/${mockQuizId.toHexString()}/short-answer-grades`;
+
+  const mockQuiz = {
+    _id: mockQuizId,
+    questions: [
+      {
+        _id: mockQuestionIdMCQ,
+        type: "multiple-choice",
+        questionText: "What is 2 + 2?",
+        answers: [
+          { _id: mockAnswerId4, text: "4", isCorrect: true },
+          { _id: new mongoose.Types.ObjectId(), text: "5", isCorrect: false },
+        ],
+      },
+      {
+        _id: mockQuestionIdSA,
+        type: "short-answer",
+        questionText: "Name the collarbone",
+        acceptedAnswers: ["Clavicle"],
+      },
+    ],
+  };
+  const mockSubmissionId = new mongoose.Types.ObjectId();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (Quiz.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+    (ShortAnswerGrade.findOneAndUpdate as Mock).mockImplementation(
+      (filter: any, update: any) => ({
+        lean: vi.fn().mockResolvedValue({ ...filter, ...update }),
+      })
+    );
+    (ShortAnswerGrade.findOneAndDelete as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue({ _id: new mongoose.Types.ObjectId() }),
+    });
+    (Submission.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([
+        {
+          _id: mockSubmissionId,
+          score: 1,
+          answers: [
+            {
+              question_id: mockQuestionIdMCQ,
+              selectedAnswer_id: mockAnswerId4,
+              isCorrect: true,
+            },
+            {
+              question_id: mockQuestionIdSA,
+              responseText_ShortAnswer: "Collarbone",
+              isCorrect: false,
+            },
+          ],
+        },
+      ]),
+    });
+    (Submission.bulkWrite as Mock).mockResolvedValue({ modifiedCount: 1 });
+  });
+
+  it("should return the manual grades of a quiz", async () => {
+    const mockGrades = [
+      {
+        question_id: mockQuestionIdSA,
+        responseText: "Collarbone",
+        verdict: "correct",
+      },
+    ];
+    (ShortAnswerGrade.find as Mock).mockReturnValue({
+      sort: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue(mockGrades),
+    });
+
+    const res = await GET(new Request(url), context);
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toHaveLength(1);
+    expect(body[0].verdict).toBe("correct");
+  });
+
+  it("should save a grade and regrade the submissions", async () => {
+    (ShortAnswerGrade.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([
+        {
+          question_id: mockQuestionIdSA,
+          responseText: "Collarbone",
+          verdict: "partial",
+        },
+      ]),
+    });
+
+    const req = new Request(url, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        question_id: mockQuestionIdSA.toHexString(),
+        responseText: " Collarbone ",
+        verdict: "partial",
+        comment: "Use the anatomical name",
+      }),
+    });
+    const res = await PUT(req, context);
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.regradedSubmissions).toBe(1);
+    expect(ShortAnswerGrade.findOneAndUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ responseText: "Collarbone" }),
+      expect.objectContaining({
+        verdict: "partial",
+        comment: "Use the anatomical name",
+      }),
+      expect.objectContaining({ upsert: true })
+    );
+    const [[updates]] = (Submission.bulkWrite as Mock).mock.calls;
+    expect(updates[0].updateOne.filter).toEqual({ _id: mockSubmissionId });
+    expect(updates[0].updateOne.update.$set.score).toBe(1.5);
+    expect(updates[0].updateOne.update.$set.answers[1]).toMatchObject({
+      credit: 0.5,
+      manualVerdict: "partial",
+    });
+  });
+
+  it("should not regrade submissions whose answers were not migrated", async () => {
+    const migratedSubmissionId = new mongoose.Types.ObjectId();
+    const shortAnswer = {
+      question_id: mockQuestionIdSA,
+      responseText_ShortAnswer: "Collarbone",
+      isCorrect: false,
+    };
+    (Submission.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([
+        {
+          _id: mockSubmissionId,
+          score: 1,
+          answers: [
+            {
+              question_id: mockQuestionIdMCQ,
+              selectedAnswerId_Index: 0,
+              isCorrect: true,
+            },
+            shortAnswer,
+          ],
+        },
+        {
+          _id: migratedSubmissionId,
+          score: 1,
+          answers: [
+            {
+              question_id: mockQuestionIdMCQ,
+              selectedAnswer_id: mockAnswerId4,
+              isCorrect: true,
+            },
+            shortAnswer,
+          ],
+        },
+      ]),
+    });
+    (ShortAnswerGrade.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([
+        {
+          question_id: mockQuestionIdSA,
+          responseText: "Collarbone",
+          verdict: "correct",
+        },
+      ]),
+    });
+
+    const req = new Request(url, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        question_id: mockQuestionIdSA.toHexString(),
+        responseText: "Collarbone",
+        verdict: "correct",
+      }),
+    });
+    const res = await PUT(req, context);
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).regradedSubmissions).toBe(1);
+    const [[updates]] = (Submission.bulkWrite as Mock).mock.calls;
+    expect(updates).toHaveLength(1);
+    expect(updates[0].updateOne.filter).toEqual({ _id: migratedSubmissionId });
+  });
+
+  it("should return 400 for an invalid verdict", async () => {
+    const req = new Request(url, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        question_id: mockQuestionIdSA.toHexString(),
+        responseText: "Collarbone",
+        verdict: "maybe",
+      }),
+    });
+    const res = await PUT(req, context);
+
+    expect(res.status).toBe(400);
+    expect(ShortAnswerGrade.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 if the question is not a short-answer question", async () => {
+    const req = new Request(url, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        question_id: mockQuestionIdMCQ.toHexString(),
+        responseText: "4",
+        verdict: "correct",
+      }),
+    });
+    const res = await PUT(req, context);
+
+    expect(res.status).toBe(404);
+    expect(ShortAnswerGrade.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("should remove a grade and regrade the submissions", async () => {
+    (ShortAnswerGrade.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([]),
+    });
+
+    const params = new URLSearchParams({
+      question_id: mockQuestionIdSA.toHexString(),
+      responseText: "Collarbone",
+    });
+    const res = await DELETE(
+      new Request(`${url}?${params.toString()}`, { method: "DELETE" }),
+      context
+    );
+
+    expect(res.status).toBe(200);
+    expect(ShortAnswerGrade.findOneAndDelete).toHaveBeenCalledWith({
+      quiz_id: mockQuizId,
+      question_id: mockQuestionIdSA,
+      responseText: "Collarbone",
+    });
+    // The stored score did not change, only the missing credits are added
+    const [[updates]] = (Submission.bulkWrite as Mock).mock.calls;
+    expect(updates[0].updateOne.update.$set.score).toBe(1);
+  });
+
+  it("should return 404 when removing a grade that does not exist", async () => {
+    (ShortAnswerGrade.findOneAndDelete as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(null),
+    });
+
+    const params = new URLSearchParams({
+      question_id: mockQuestionIdSA.toHexString(),
+      responseText: "Unknown",
+    });
+    const res = await DELETE(
+      new Request(`${url}?${params.toString()}`, { method: "DELETE" }),
+      context
+    );
+
+    expect(res.status).toBe(404);
+    expect(Submission.bulkWrite).not.toHaveBeenCalled();
+  });
+});
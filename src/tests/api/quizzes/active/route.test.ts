@@ -0,0 +1,127 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET } from "@/app/api/quizzes/active/route";
+import { Quiz } from "@/app/models/Quiz";
+import { ApiClient } from "@/app/models/ApiClient";
+import { hashApiKey } from "@/app/lib/apiKeys";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Quiz: {
+    find: vi.fn(),
+  },
+}));
+
+vi.mock("@/app/models/ApiClient", () => ({
+  ApiClient: {
+    findOne: vi.fn(),
+    updateOne: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/quizzes/active route", () => {
+  const mockApiKey = "vaq_test_key";
+  const authHeaders = { Authorization: `Bearer ${mockApiKey}` };
+  const url = "http://localhost:3000/api/quizzes/active";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (ApiClient.findOne as Mock).mockImplementation((filter: any) => ({
+      lean: vi
+        .fn()
+        .mockResolvedValue(
+          filter.keyHash === hashApiKey(mockApiKey)
+            ? { _id: new mongoose.Types.ObjectId() }
+            : null
+        ),
+    }));
+    (ApiClient.updateOne as Mock).mockResolvedValue({ modifiedCount: 1 });
+  });
+
+  it("should return the open quizzes of a study year, closing first", async () => {
+    (Quiz.find as Mock).mockReturnValue({
+      sort: vi.fn().mockReturnThis(),
+      lean: vi
+        .fn()
+        .mockResolvedValue([
+          { title: "Always open" },
+          { title: "Closes later", closesAt: new Date("2025-03-02T10:00:00Z") },
+          { title: "Closes first", closesAt: new Date("2025-03-01T10:00:00Z") },
+        ]),
+    });
+
+    const res = await GET(
+      new Request(`${url}?studyYear=2`, { headers: authHeaders })
+    );
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.map((quiz: any) => quiz.title)).toEqual([
+      "Closes first",
+      "Closes later",
+      "Always open",
+    ]);
+    const [[filter]] = (Quiz.find as Mock).mock.calls;
+    expect(filter.studyYear).toBe(2);
+    expect(filter.$and).toHaveLength(2);
+  });
+
+  it("should not return the answer key", async () => {
+    (Quiz.find as Mock).mockReturnValue({
+      sort: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue([
+        {
+          title: "Thorax",
+          questions: [
+            {
+              type: "multiple-choice",
+              questionText: "Which organ pumps blood?",
+              answers: [
+                { text: "Heart", isCorrect: true },
+                { text: "Lung", isCorrect: false },
+              ],
+            },
+            {
+              type: "select-organ",
+              questionText: "Select the heart",
+              targetType: "mesh",
+              target_id: new mongoose.Types.ObjectId(),
+            },
+          ],
+        },
+      ]),
+    });
+
+    const res = await GET(
+      new Request(`${url}?studyYear=2`, { headers: authHeaders })
+    );
+
+    expect(res.status).toBe(200);
+    const [quiz] = await res.json();
+    expect(quiz.questions[0].answers).toEqual([
+      { _id: "", text: "Heart" },
+      { _id: "", text: "Lung" },
+    ]);
+    expect(JSON.stringify(quiz)).not.toMatch(/isCorrect|target/);
+  });
+
+  it("should return 400 without a study year", async () => {
+    const res = await GET(new Request(url, { headers: authHeaders }));
+
+    expect(res.status).toBe(400);
+    expect(Quiz.find).not.toHaveBeenCalled();
+  });
+
+  it("should return 401 without an API key", async () => {
+    const res = await GET(new Request(`${url}?studyYear=2`));
+
+    expect(res.status).toBe(401);
+    expect(Quiz.find).not.toHaveBeenCalled();
+  });
+});
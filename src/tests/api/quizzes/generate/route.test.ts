@@ -0,0 +1,160 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { POST } from "@/app/api/quizzes/generate/route";
+import { BankQuestion, MeshCatalogItem, OrganGroup } from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  MeshCatalogItem: {
+    aggregate: vi.fn(),
+  },
+  BankQuestion: {
+    aggregate: vi.fn(),
+  },
+  OrganGroup: {
+    find: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/quizzes/generate route", () => {
+  const url = "http://localhost:3000/api/quizzes/generate";
+  const mockGroupId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439031");
+  const mockMeshId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439021");
+  const mockBankQuestionId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439051"
+  );
+
+  const generateRequest = (body: object) =>
+    new Request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (MeshCatalogItem.aggregate as Mock).mockResolvedValue([
+      { _id: mockMeshId, displayName: "Fourth Rib (L)" },
+    ]);
+    (BankQuestion.aggregate as Mock).mockResolvedValue([
+      {
+        _id: mockBankQuestionId,
+        questionText: "The femur is the longest bone",
+        type: "true-false",
+        answers: [
+          {
+            _id: new mongoose.Types.ObjectId(),
+            text: "True",
+            isCorrect: true,
+          },
+          {
+            _id: new mongoose.Types.ObjectId(),
+            text: "False",
+            isCorrect: false,
+          },
+        ],
+        organGroupIds: [mockGroupId],
+      },
+    ]);
+    (OrganGroup.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      lean: vi
+        .fn()
+        .mockResolvedValue([{ _id: mockGroupId, groupName: "Bones" }]),
+    });
+  });
+
+  it("should draw select-organ questions from the meshes of the organ groups for the study year", async () => {
+    const res = await POST(
+      generateRequest({
+        organGroupIds: [mockGroupId.toHexString()],
+        studyYear: 1,
+        questionCount: 10,
+      })
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(MeshCatalogItem.aggregate).toHaveBeenCalledWith([
+      {
+        $match: {
+          organGroupIds: { $in: [mockGroupId] },
+          defaultStudyYear: 1,
+        },
+      },
+      { $sample: { size: 10 } },
+      { $project: { displayName: 1 } },
+    ]);
+    expect(BankQuestion.aggregate).not.toHaveBeenCalled();
+    expect(body).toEqual({
+      title: "Bones - Year 1",
+      description: "Generated from the organ groups: Bones",
+      studyYear: 1,
+      questions: [
+        {
+          questionText: "Select the Fourth Rib (L)",
+          type: "select-organ",
+          targetType: "mesh",
+          target_id: mockMeshId.toHexString(),
+          answers: [],
+        },
+      ],
+    });
+  });
+
+  it("should add questions from the question bank as copies", async () => {
+    const res = await POST(
+      generateRequest({
+        organGroupIds: [mockGroupId.toHexString()],
+        studyYear: 1,
+        questionCount: 0,
+        bankQuestionCount: 5,
+      })
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(MeshCatalogItem.aggregate).not.toHaveBeenCalled();
+    expect(body.questions).toEqual([
+      {
+        questionText: "The femur is the longest bone",
+        type: "true-false",
+        answers: [
+          { text: "True", isCorrect: true },
+          { text: "False", isCorrect: false },
+        ],
+        bankQuestion_id: mockBankQuestionId.toHexString(),
+        bankLink: "copy",
+      },
+    ]);
+  });
+
+  it("should return 404 if no meshes match", async () => {
+    (MeshCatalogItem.aggregate as Mock).mockResolvedValue([]);
+
+    const res = await POST(
+      generateRequest({
+        organGroupIds: [mockGroupId.toHexString()],
+        studyYear: 4,
+        questionCount: 10,
+      })
+    );
+
+    expect(res.status).toBe(404);
+  });
+
+  it("should return 400 without organ groups", async () => {
+    const res = await POST(
+      generateRequest({ organGroupIds: [], studyYear: 1, questionCount: 10 })
+    );
+
+    expect(res.status).toBe(400);
+    expect(MeshCatalogItem.aggregate).not.toHaveBeenCalled();
+  });
+});
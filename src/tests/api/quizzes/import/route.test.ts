@@ -0,0 +1,304 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { POST } from "@/app/api/quizzes/import/route";
+import {
+  MeshCatalogItem,
+  OrganGroup,
+  Quiz,
+  QuizVersion,
+} from "@/app/models/Quiz";
+import mongoose from "mongoose";
+import { createZip } from "@/app/lib/zip";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => {
+  const QuizMock = vi.fn();
+
+  return {
+    Quiz: QuizMock,
+    QuizVersion: {
+      updateOne: vi.fn(),
+    },
+    MeshCatalogItem: {
+      find: vi.fn(),
+    },
+    OrganGroup: {
+      find: vi.fn(),
+    },
+  };
+});
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/quizzes/import route", () => {
+  const mockMeshId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439021");
+  const mockGroupId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439031");
+
+  const mcqQuestion = {
+    questionText: "Which organ pumps blood?",
+    type: "multiple-choice",
+    answers: [
+      { text: "Heart", isCorrect: true },
+      { text: "Lung", isCorrect: false },
+    ],
+  };
+  const exportDocument = (quizzes: object[]) => ({
+    format: "quiz-manager/quizzes",
+    version: 1,
+    exportedAt: "2025-09-01T09:00:00.000Z",
+    quizzes,
+  });
+  const thorax = {
+    title: "Thorax",
+    description: "Organs of the thorax",
+    studyYear: 1,
+    questions: [
+      mcqQuestion,
+      {
+        questionText: "Select the heart",
+        type: "select-organ",
+        target: { type: "mesh", meshName: "heart" },
+      },
+      {
+        questionText: "Select the lungs",
+        type: "select-organ",
+        target: { type: "group", groupName: "Lungs" },
+      },
+    ],
+  };
+
+  const importQuizzes = (body: object, query = "") =>
+    POST(
+      new Request(`http://localhost:3000/api/quizzes/import${query}`, {
+        method: "POST",
+        body: JSON.stringify(body),
+      })
+    );
+
+  const mockFind = (model: unknown, result: object[]) =>
+    (model as { find: Mock }).find.mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue(result),
+      }),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockFind(MeshCatalogItem, [{ _id: mockMeshId, meshName: "heart" }]);
+    mockFind(OrganGroup, [{ _id: mockGroupId, groupName: "Lungs" }]);
+    (QuizVersion.updateOne as Mock).mockResolvedValue({});
+
+    // Mock for the constructor 'new Quiz(data).save()'
+    (Quiz as unknown as Mock).mockImplementation((data: any) => {
+      const quiz = { ...data, _id: new mongoose.Types.ObjectId(), version: 1 };
+      return {
+        ...quiz,
+        save: vi.fn().mockResolvedValue(quiz),
+        toObject: () => quiz,
+      };
+    });
+  });
+
+  it("should import the quizzes with the targets resolved by name", async () => {
+    const res = await importQuizzes(exportDocument([thorax]));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.dryRun).toBe(false);
+    expect(body.imported).toEqual([
+      { title: "Thorax", questionCount: 3, _id: expect.any(String) },
+    ]);
+    expect(body.skipped).toEqual([]);
+    expect(body.unresolvedReferences).toEqual([]);
+
+    const data = (Quiz as unknown as Mock).mock.calls[0][0];
+    expect(data.questions[1]).toMatchObject({
+      targetType: "mesh",
+      target_id: mockMeshId,
+    });
+    expect(data.questions[2]).toMatchObject({
+      targetType: "group",
+      target_id: mockGroupId,
+    });
+    expect(QuizVersion.updateOne).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip quizzes with unresolved targets and report them", async () => {
+    mockFind(MeshCatalogItem, []);
+    const abdomen = {
+      title: "Abdomen",
+      studyYear: 2,
+      questions: [mcqQuestion],
+    };
+
+    const res = await importQuizzes(exportDocument([thorax, abdomen]));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.imported.map((quiz: any) => quiz.title)).toEqual(["Abdomen"]);
+    expect(body.skipped).toEqual([
+      {
+        title: "Thorax",
+        errors: ["1 select-organ targets could not be found"],
+      },
+    ]);
+    expect(body.unresolvedReferences).toEqual([
+      {
+        quizTitle: "Thorax",
+        questionIndex: 1,
+        questionText: "Select the heart",
+        target: { type: "mesh", meshName: "heart" },
+      },
+    ]);
+    expect(Quiz).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip quizzes with invalid questions", async () => {
+    const res = await importQuizzes(
+      exportDocument([
+        {
+          ...thorax,
+          questions: [{ ...mcqQuestion, answers: [] }],
+        },
+      ])
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.imported).toEqual([]);
+    expect(body.skipped[0].title).toBe("Thorax");
+    expect(body.skipped[0].errors[0]).toMatch(/^Question 1: /);
+    expect(Quiz).not.toHaveBeenCalled();
+  });
+
+  it("should not save anything in a dry run", async () => {
+    const res = await importQuizzes(exportDocument([thorax]), "?dryRun=true");
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.dryRun).toBe(true);
+    expect(body.imported).toEqual([{ title: "Thorax", questionCount: 3 }]);
+    expect(Quiz).not.toHaveBeenCalled();
+    expect(QuizVersion.updateOne).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for a document that is not a quiz export", async () => {
+    const res = await importQuizzes({ format: "other", quizzes: [] });
+
+    expect(res.status).toBe(400);
+    expect(Quiz).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an unsupported export version", async () => {
+    const res = await importQuizzes({
+      ...exportDocument([thorax]),
+      version: 2,
+    });
+
+    expect(res.status).toBe(400);
+    expect(Quiz).not.toHaveBeenCalled();
+  });
+
+  describe("QTI packages", () => {
+    const qtiPackage = createZip([
+      {
+        name: "imsmanifest.xml",
+        data: `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="m">
+  <resources>
+    <resource identifier="t" type="imsqti_test_xmlv2p1" href="test.xml"/>
+  </resources>
+</manifest>`,
+      },
+      {
+        name: "test.xml",
+        data: `<assessmentTest xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="t" title="Skin">
+  <testPart identifier="p" navigationMode="linear" submissionMode="individual">
+    <assessmentSection identifier="s" title="Skin" visible="true">
+      <assessmentItemRef identifier="i1" href="items/i1.xml"/>
+      <assessmentItemRef identifier="i2" href="items/i2.xml"/>
+    </assessmentSection>
+  </testPart>
+</assessmentTest>`,
+      },
+      {
+        name: "items/i1.xml",
+        data: `<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="i1" title="i1" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">
+    <correctResponse><value>Skin</value></correctResponse>
+  </responseDeclaration>
+  <itemBody><p>Name the largest organ</p><p><textEntryInteraction responseIdentifier="RESPONSE"/></p></itemBody>
+</assessmentItem>`,
+      },
+      {
+        name: "items/i2.xml",
+        data: `<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="i2" title="i2" adaptive="false" timeDependent="false">
+  <itemBody><hotspotInteraction responseIdentifier="RESPONSE" maxChoices="1"/></itemBody>
+</assessmentItem>`,
+      },
+    ]);
+
+    const importPackage = (query: string) =>
+      POST(
+        new Request(`http://localhost:3000/api/quizzes/import${query}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/zip" },
+          body: new Uint8Array(qtiPackage),
+        })
+      );
+
+    it("should import a QTI package and report the skipped items", async () => {
+      const res = await importPackage("?studyYear=3");
+      const body = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(body.imported).toEqual([
+        { title: "Skin", questionCount: 1, _id: expect.any(String) },
+      ]);
+      expect(body.skippedItems).toEqual([
+        {
+          quizTitle: "Skin",
+          item: "i2",
+          reason: "hotspotInteraction is not supported",
+        },
+      ]);
+      expect((Quiz as unknown as Mock).mock.calls[0][0]).toMatchObject({
+        title: "Skin",
+        studyYear: 3,
+        questions: [
+          {
+            questionText: "Name the largest organ",
+            type: "short-answer",
+            acceptedAnswers: ["Skin"],
+          },
+        ],
+      });
+    });
+
+    it("should return 400 for a QTI package without a study year", async () => {
+      const res = await importPackage("");
+
+      expect(res.status).toBe(400);
+      expect(Quiz).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for a zip that is not a QTI package", async () => {
+      const res = await POST(
+        new Request("http://localhost:3000/api/quizzes/import?studyYear=1", {
+          method: "POST",
+          headers: { "Content-Type": "application/zip" },
+          body: "not a zip",
+        })
+      );
+      const body = await res.json();
+
+      expect(res.status).toBe(400);
+      expect(body).toEqual({
+        error: "Invalid QTI package",
+        details: "Not a ZIP archive",
+      });
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET } from "@/app/api/quizzes/trash/route";
+import { Quiz, Submission } from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Quiz: {
+    find: vi.fn(),
+  },
+  Submission: {
+    aggregate: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/quizzes/trash route", () => {
+  const mockQuizId1 = new mongoose.Types.ObjectId("507f1f77bcf86cd799439011");
+  const mockQuizId2 = new mongoose.Types.ObjectId("507f1f77bcf86cd799439012");
+  const deletedAt = new Date("2025-06-01T10:00:00Z");
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (Quiz.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      sort: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue([
+        {
+          _id: mockQuizId1,
+          title: "Thorax",
+          studyYear: 1,
+          questions: [{}, {}],
+          deletedAt,
+        },
+        {
+          _id: mockQuizId2,
+          title: "Abdomen",
+          studyYear: 2,
+          questions: [{}],
+          deletedAt,
+        },
+      ]),
+    });
+    (Submission.aggregate as Mock).mockResolvedValue([
+      { _id: mockQuizId1, count: 3 },
+    ]);
+  });
+
+  it("should list the trashed quizzes with their submission counts", async () => {
+    const res = await GET(
+      new Request("http://localhost:3000/api/quizzes/trash")
+    );
+
+    expect(res.status).toBe(200);
+    expect(Quiz.find).toHaveBeenCalledWith({ deletedAt: { $ne: null } });
+    expect(await res.json()).toEqual([
+      {
+        _id: mockQuizId1.toHexString(),
+        title: "Thorax",
+        studyYear: 1,
+        questionCount: 2,
+        submissionCount: 3,
+        deletedAt: deletedAt.toISOString(),
+      },
+      {
+        _id: mockQuizId2.toHexString(),
+        title: "Abdomen",
+        studyYear: 2,
+        questionCount: 1,
+        submissionCount: 0,
+        deletedAt: deletedAt.toISOString(),
+      },
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET } from "@/app/api/results/organ-confusion/route";
+import {
+  Quiz,
+  QuizVersion,
+  Submission,
+  MeshCatalogItem,
+  OrganGroup,
+} from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Quiz: {
+    distinct: vi.fn(),
+    find: vi.fn(),
+  },
+  Submission: {
+    aggregate: vi.fn(),
+  },
+  MeshCatalogItem: {
+    find: vi.fn(),
+  },
+  OrganGroup: {
+    find: vi.fn(),
+  },
+  QuizVersion: {
+    find: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/results/organ-confusion route", () => {
+  const url = "http://localhost:3000/api/results/organ-confusion";
+  const mockQuizId = new mongoose.Types.ObjectId();
+  const mockQuestionIdMesh = new mongoose.Types.ObjectId();
+  const mockQuestionIdGroup = new mongoose.Types.ObjectId();
+  const ribLeftId = new mongoose.Types.ObjectId();
+  const ribRightId = new mongoose.Types.ObjectId();
+  const heartId = new mongoose.Types.ObjectId();
+  const thoracicCageId = new mongoose.Types.ObjectId();
+  const mediastinumId = new mongoose.Types.ObjectId();
+
+  const mockQuiz = {
+    _id: mockQuizId,
+    version: 1,
+    questions: [
+      {
+        _id: mockQuestionIdMesh,
+        type: "select-organ",
+        questionText: "Select the fourth left rib",
+        targetType: "mesh",
+        target_id: ribLeftId,
+      },
+      {
+        _id: mockQuestionIdGroup,
+        type: "select-organ",
+        questionText: "Select a bone of the thoracic cage",
+        targetType: "group",
+        target_id: thoracicCageId,
+      },
+    ],
+  };
+
+  // The answers counted per question, version and clicked mesh
+  const clicks = (
+    questionId: mongoose.Types.ObjectId,
+    meshId: mongoose.Types.ObjectId | null,
+    count: number,
+    quizVersion = 1
+  ) => ({
+    _id: {
+      quiz_id: mockQuizId,
+      quizVersion,
+      question_id: questionId,
+      clickedMeshId: meshId,
+    },
+    count,
+  });
+
+  const mockAnswerGroups = [
+    clicks(mockQuestionIdMesh, ribRightId, 2),
+    clicks(mockQuestionIdMesh, ribLeftId, 1),
+    clicks(mockQuestionIdGroup, ribLeftId, 1),
+    clicks(mockQuestionIdGroup, heartId, 1),
+    clicks(mockQuestionIdGroup, null, 1),
+  ];
+
+  const mockChain = (result: unknown) => ({
+    select: vi.fn().mockReturnValue({
+      lean: vi.fn().mockResolvedValue(result),
+    }),
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (Quiz.distinct as Mock).mockResolvedValue([mockQuizId]);
+    (Quiz.find as Mock).mockReturnValue(mockChain([mockQuiz]));
+    (QuizVersion.find as Mock).mockReturnValue(mockChain([]));
+    (Submission.aggregate as Mock).mockResolvedValue(mockAnswerGroups);
+    (MeshCatalogItem.find as Mock).mockReturnValue(
+      mockChain([
+        {
+          _id: ribLeftId,
+          displayName: "Fourth Rib (L)",
+          organGroupIds: [thoracicCageId],
+        },
+        {
+          _id: ribRightId,
+          displayName: "Fourth Rib (R)",
+          organGroupIds: [thoracicCageId],
+        },
+        { _id: heartId, displayName: "Heart", organGroupIds: [mediastinumId] },
+      ])
+    );
+    (OrganGroup.find as Mock).mockReturnValue(
+      mockChain([
+        { _id: thoracicCageId, groupName: "Thoracic Cage" },
+        { _id: mediastinumId, groupName: "Mediastinum" },
+      ])
+    );
+  });
+
+  it("should count the meshes clicked instead of every target", async () => {
+    const res = await GET(new Request(url));
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(Submission.aggregate).toHaveBeenCalledWith(
+      expect.arrayContaining([
+        {
+          $match: {
+            "answers.question_id": {
+              $in: [mockQuestionIdMesh, mockQuestionIdGroup],
+            },
+          },
+        },
+      ])
+    );
+    expect(body.targets).toEqual([
+      {
+        targetType: "mesh",
+        targetId: ribLeftId.toString(),
+        displayName: "Fourth Rib (L)",
+        organGroupIds: [thoracicCageId.toString()],
+        answerCount: 3,
+        correctCount: 1,
+        noAnswerCount: 0,
+        confusions: [{ meshId: ribRightId.toString(), count: 2 }],
+      },
+      {
+        targetType: "group",
+        targetId: thoracicCageId.toString(),
+        displayName: "Thoracic Cage",
+        organGroupIds: [thoracicCageId.toString()],
+        answerCount: 3,
+        correctCount: 1,
+        noAnswerCount: 1,
+        confusions: [{ meshId: heartId.toString(), count: 1 }],
+      },
+    ]);
+  });
+
+  it("should list the confused meshes sorted by organ group", async () => {
+    const res = await GET(new Request(url));
+    const body = await res.json();
+
+    expect(
+      body.meshes.map((mesh: { displayName: string }) => mesh.displayName)
+    ).toEqual(["Heart", "Fourth Rib (R)"]);
+    expect(body.organGroups).toEqual([
+      { groupId: mediastinumId.toString(), groupName: "Mediastinum" },
+      { groupId: thoracicCageId.toString(), groupName: "Thoracic Cage" },
+    ]);
+  });
+
+  it("should only include quizzes of the given study year", async () => {
+    await GET(new Request(`${url}?studyYear=2`));
+
+    expect(Quiz.distinct).toHaveBeenCalledWith(
+      "_id",
+      expect.objectContaining({ studyYear: 2, deletedAt: null })
+    );
+  });
+
+  it("should include quizzes whose select-organ questions were removed since", async () => {
+    // Version 2 has no select-organ questions left
+    (Quiz.find as Mock).mockReturnValue(mockChain([]));
+    (QuizVersion.find as Mock).mockReturnValue(
+      mockChain([
+        {
+          quiz_id: mockQuizId,
+          version: 1,
+          questions: mockQuiz.questions,
+        },
+      ])
+    );
+
+    const res = await GET(new Request(url));
+    const body = await res.json();
+
+    expect(QuizVersion.find).toHaveBeenCalledWith({
+      quiz_id: { $in: [mockQuizId] },
+      "questions.type": "select-organ",
+    });
+    expect(body.targets).toHaveLength(2);
+    expect(body.targets[0]).toMatchObject({
+      targetId: ribLeftId.toString(),
+      answerCount: 3,
+      correctCount: 1,
+    });
+  });
+
+  it("should return empty results without select-organ quizzes", async () => {
+    (Quiz.find as Mock).mockReturnValue(mockChain([]));
+
+    const res = await GET(new Request(url));
+
+    expect(await res.json()).toEqual({
+      targets: [],
+      meshes: [],
+      organGroups: [],
+    });
+    expect(Submission.aggregate).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an invalid study year", async () => {
+    const res = await GET(new Request(`${url}?studyYear=first`));
+
+    expect(res.status).toBe(400);
+    expect(Quiz.distinct).not.toHaveBeenCalled();
+  });
+});
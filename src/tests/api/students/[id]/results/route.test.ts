@@ -0,0 +1,225 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET } from "@/app/api/students/[id]/results/route";
+import {
+  Quiz,
+  QuizVersion,
+  Submission,
+  Student,
+  MeshCatalogItem,
+  OrganGroup,
+} from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Quiz: { find: vi.fn() },
+  QuizVersion: { find: vi.fn() },
+  Submission: { find: vi.fn() },
+  Student: { findById: vi.fn() },
+  MeshCatalogItem: { find: vi.fn() },
+  OrganGroup: { find: vi.fn() },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/students/[id]/results route", () => {
+  const mockStudentId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439051");
+  const mockQuizId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439011");
+  const mockMCQId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439012");
+  const mockMeshQuestionId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439013"
+  );
+  const mockGroupQuestionId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439014"
+  );
+  const mockHeartMeshId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439021"
+  );
+  const mockThoraxGroupId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439031"
+  );
+  const context = { params: { id: mockStudentId.toHexString() } };
+  const url = `http://localhost:3000/api/students/${mockStudentId.toHexString()}/results`;
+
+  const mockQuiz = {
+    _id: mockQuizId,
+    title: "Thorax",
+    questions: [
+      { _id: mockMCQId, type: "multiple-choice", questionText: "Q1" },
+      {
+        _id: mockMeshQuestionId,
+        type: "select-organ",
+        questionText: "Select the heart",
+        targetType: "mesh",
+        target_id: mockHeartMeshId,
+      },
+      {
+        _id: mockGroupQuestionId,
+        type: "select-organ",
+        questionText: "Select the thorax",
+        targetType: "group",
+        target_id: mockThoraxGroupId,
+      },
+    ],
+  };
+
+  const mockSubmissions = [
+    {
+      _id: new mongoose.Types.ObjectId(),
+      quiz_id: mockQuizId,
+      studyYearAtSubmission: 1,
+      submittedAt: new Date("2025-01-10T10:00:00Z"),
+      score: 1,
+      maxScore: 3,
+      answers: [
+        { question_id: mockMCQId, isCorrect: true, credit: 1 },
+        { question_id: mockMeshQuestionId, isCorrect: false, credit: 0 },
+        { question_id: mockGroupQuestionId, isCorrect: false, credit: 0 },
+      ],
+    },
+    {
+      _id: new mongoose.Types.ObjectId(),
+      quiz_id: mockQuizId,
+      studyYearAtSubmission: 1,
+      submittedAt: new Date("2025-02-10T10:00:00Z"),
+      score: 3,
+      maxScore: 3,
+      answers: [
+        // Stored before partial credit existed
+        { question_id: mockMCQId, isCorrect: true },
+        { question_id: mockMeshQuestionId, isCorrect: true, credit: 1 },
+        { question_id: mockGroupQuestionId, isCorrect: true, credit: 1 },
+      ],
+    },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (Student.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue({
+        _id: mockStudentId,
+        name: "Jane Doe",
+        email: "jane@example.com",
+      }),
+    });
+    (Submission.find as Mock).mockReturnValue({
+      sort: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue(mockSubmissions),
+    });
+    (Quiz.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue([mockQuiz]),
+    });
+    (MeshCatalogItem.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      lean: vi
+        .fn()
+        .mockResolvedValue([
+          { _id: mockHeartMeshId, organGroupIds: [mockThoraxGroupId] },
+        ]),
+    });
+    (OrganGroup.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      lean: vi
+        .fn()
+        .mockResolvedValue([{ _id: mockThoraxGroupId, groupName: "Thorax" }]),
+    });
+  });
+
+  it("should return the scores and accuracy history of a student", async () => {
+    const res = await GET(new Request(url), context);
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.student.name).toBe("Jane Doe");
+    expect(body.submissionCount).toBe(2);
+    expect(body.averagePercentage).toBe(66.7);
+    expect(body.submissions.map((s: any) => s.percentage)).toEqual([33.3, 100]);
+    expect(body.submissions[0]).toMatchObject({
+      quizTitle: "Thorax",
+      accuracyByQuestionType: { "multiple-choice": 100, "select-organ": 0 },
+      accuracyByOrganGroup: { [mockThoraxGroupId.toHexString()]: 0 },
+    });
+    expect(body.byQuestionType).toEqual([
+      {
+        questionType: "multiple-choice",
+        answered: 2,
+        correct: 2,
+        accuracy: 100,
+      },
+      { questionType: "select-organ", answered: 4, correct: 2, accuracy: 50 },
+    ]);
+    expect(body.byOrganGroup).toEqual([
+      {
+        organGroupId: mockThoraxGroupId.toHexString(),
+        groupName: "Thorax",
+        answered: 4,
+        correct: 2,
+        accuracy: 50,
+      },
+    ]);
+  });
+
+  it("should evaluate submissions against the version they answered", async () => {
+    // The multiple-choice question was removed in version 2
+    (Quiz.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      lean: vi
+        .fn()
+        .mockResolvedValue([
+          { ...mockQuiz, version: 2, questions: mockQuiz.questions.slice(1) },
+        ]),
+    });
+    (Submission.find as Mock).mockReturnValue({
+      sort: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue(
+        mockSubmissions.map((submission) => ({
+          ...submission,
+          quizVersion: 1,
+        }))
+      ),
+    });
+    (QuizVersion.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      lean: vi
+        .fn()
+        .mockResolvedValue([{ version: 1, questions: mockQuiz.questions }]),
+    });
+
+    const res = await GET(new Request(url), context);
+
+    expect(res.status).toBe(200);
+    expect(QuizVersion.find).toHaveBeenCalledWith({
+      quiz_id: mockQuizId,
+      version: { $in: [1] },
+    });
+    const body = await res.json();
+    expect(body.byQuestionType).toContainEqual({
+      questionType: "multiple-choice",
+      answered: 2,
+      correct: 2,
+      accuracy: 100,
+    });
+  });
+
+  it("should return 404 if the student does not exist", async () => {
+    (Student.findById as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue(null),
+    });
+
+    const res = await GET(new Request(url), context);
+
+    expect(res.status).toBe(404);
+    expect(Submission.find).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an invalid student ID", async () => {
+    const res = await GET(new Request(url), { params: { id: "invalid" } });
+
+    expect(res.status).toBe(400);
+  });
+});
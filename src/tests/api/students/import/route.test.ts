@@ -0,0 +1,108 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { POST } from "@/app/api/students/import/route";
+import { Student } from "@/app/models/Quiz";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Student: {
+    bulkWrite: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/students/import route", () => {
+  const url = "http://localhost:3000/api/students/import";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (Student.bulkWrite as Mock).mockResolvedValue({
+      upsertedCount: 1,
+      matchedCount: 1,
+    });
+  });
+
+  it("should upsert the students of a CSV roster by email", async () => {
+    const csv = [
+      "Name;E-mail;Study year;Cohort",
+      '"Doe, Jane";Jane.Doe@example.com;2;2025-A',
+      "John Smith;john@example.com;;",
+    ].join("\r\n");
+
+    const res = await POST(
+      new Request(url, {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: csv,
+      })
+    );
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toEqual({ created: 1, updated: 1, errors: [] });
+    const [[operations]] = (Student.bulkWrite as Mock).mock.calls;
+    expect(operations).toEqual([
+      {
+        updateOne: {
+          filter: { email: "jane.doe@example.com" },
+          update: {
+            $set: {
+              name: "Doe, Jane",
+              email: "jane.doe@example.com",
+              studyYear: 2,
+              cohort: "2025-A",
+            },
+          },
+          upsert: true,
+        },
+      },
+      {
+        updateOne: {
+          filter: { email: "john@example.com" },
+          update: { $set: { name: "John Smith", email: "john@example.com" } },
+          upsert: true,
+        },
+      },
+    ]);
+  });
+
+  it("should report invalid and duplicate rows with their line number", async () => {
+    const csv = [
+      "name,email,studyYear",
+      "Jane Doe,jane@example.com,1",
+      "No Email,,1",
+      "Jane Again,JANE@example.com,2",
+      "Bad Year,bad@example.com,first",
+    ].join("\n");
+
+    const res = await POST(
+      new Request(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ csv }),
+      })
+    );
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.errors.map((e: any) => e.line)).toEqual([3, 4, 5]);
+    const [[operations]] = (Student.bulkWrite as Mock).mock.calls;
+    expect(operations).toHaveLength(1);
+  });
+
+  it("should return 400 if the name or email column is missing", async () => {
+    const res = await POST(
+      new Request(url, {
+        method: "POST",
+        headers: { "Content-Type": "text/csv" },
+        body: "name,cohort\nJane Doe,2025-A",
+      })
+    );
+
+    expect(res.status).toBe(400);
+    expect(Student.bulkWrite).not.toHaveBeenCalled();
+  });
+});
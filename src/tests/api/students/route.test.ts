@@ -0,0 +1,108 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { GET, POST } from "@/app/api/students/route";
+import { Student } from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  Student: {
+    find: vi.fn(),
+    countDocuments: vi.fn(),
+    create: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("/api/students route", () => {
+  const url = "http://localhost:3000/api/students";
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (Student.find as Mock).mockReturnValue({
+      sort: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue([]),
+    });
+    (Student.countDocuments as Mock).mockResolvedValue(0);
+    (Student.create as Mock).mockImplementation((data: any) =>
+      Promise.resolve({ _id: new mongoose.Types.ObjectId(), ...data })
+    );
+  });
+
+  describe("GET /api/students", () => {
+    it("should filter students by study year, cohort and search text", async () => {
+      const res = await GET(
+        new Request(`${url}?studyYear=2&cohort=2025-A&search=doe.`)
+      );
+
+      expect(res.status).toBe(200);
+      expect(Student.find).toHaveBeenCalledWith({
+        studyYear: 2,
+        cohort: "2025-A",
+        $or: [{ name: /doe\./i }, { email: /doe\./i }],
+      });
+    });
+
+    it("should return 400 for an invalid study year", async () => {
+      const res = await GET(new Request(`${url}?studyYear=abc`));
+
+      expect(res.status).toBe(400);
+      expect(Student.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/students", () => {
+    it("should create a student with a normalized email", async () => {
+      const req = new Request(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: " Jane Doe ",
+          email: "Jane.Doe@Example.com",
+          studyYear: 2,
+          cohort: "2025-A",
+        }),
+      });
+      const res = await POST(req);
+
+      expect(res.status).toBe(201);
+      expect(Student.create).toHaveBeenCalledWith({
+        name: "Jane Doe",
+        email: "jane.doe@example.com",
+        studyYear: 2,
+        cohort: "2025-A",
+      });
+    });
+
+    it("should return 409 if the email is already used", async () => {
+      (Student.countDocuments as Mock).mockResolvedValue(1);
+
+      const req = new Request(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Jane Doe", email: "jane@example.com" }),
+      });
+      const res = await POST(req);
+
+      expect(res.status).toBe(409);
+      expect(Student.create).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for an invalid email", async () => {
+      const req = new Request(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Jane Doe", email: "not-an-email" }),
+      });
+      const res = await POST(req);
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.details.email).toBeDefined();
+    });
+  });
+});
@@ -5,7 +5,13 @@ import {
   Submission,
   MeshCatalogItem,
   OrganGroup,
+  ShortAnswerGrade,
+  Student,
+  QuizVersion,
 } from "@/app/models/Quiz";
+import { ApiClient } from "@/app/models/ApiClient";
+import { hashApiKey } from "@/app/lib/apiKeys";
+import { getPresentedOrder } from "@/app/lib/shuffle";
 import mongoose from "mongoose";
 
 // Mock Mongoose models
@@ -18,11 +24,29 @@ vi.mock("@/app/models/Quiz", () => {
       findById: vi.fn(),
     },
     Submission: SubmissionMock, // Use the mock that has both constructor and static methods
-    MeshCatalogItem: {},
+    MeshCatalogItem: {
+      find: vi.fn(),
+    },
     OrganGroup: {},
+    ShortAnswerGrade: {
+      find: vi.fn(),
+    },
+    Student: {
+      findOne: vi.fn(),
+    },
+    QuizVersion: {
+      find: vi.fn(),
+    },
   };
 });
 
+vi.mock("@/app/models/ApiClient", () => ({
+  ApiClient: {
+    findOne: vi.fn(),
+    updateOne: vi.fn(),
+  },
+}));
+
 // Mock dbConnect
 vi.mock("@/app/lib/dbConnect", () => ({
   default: vi.fn(() => Promise.resolve()),
@@ -36,13 +60,89 @@ describe("/api/submissions route", () => {
   const mockQuestionId2 = new mongoose.Types.ObjectId(
     "507f1f77bcf86cd799439013"
   );
+  const mockQuestionId3 = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439014"
+  );
+  const mockHeartMeshId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439021"
+  );
+  const mockLungMeshId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439022"
+  );
+  const mockThoraxGroupId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439031"
+  );
+  const mockHeartAnswerId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439041"
+  );
+  const mockLungAnswerId = new mongoose.Types.ObjectId(
+    "507f1f77bcf86cd799439042"
+  );
+  const mockQuiz = {
+    _id: mockQuizId,
+    title: "Mock Quiz",
+    questions: [
+      {
+        _id: mockQuestionId1,
+        type: "multiple-choice",
+        questionText: "Which organ pumps blood?",
+        answers: [
+          { _id: mockHeartAnswerId, text: "Heart", isCorrect: true },
+          { _id: mockLungAnswerId, text: "Lung", isCorrect: false },
+        ],
+      },
+      {
+        _id: mockQuestionId2,
+        type: "select-organ",
+        questionText: "Select an organ of the thorax",
+        targetType: "group",
+        target_id: mockThoraxGroupId,
+      },
+      {
+        _id: mockQuestionId3,
+        type: "short-answer",
+        questionText: "Name the largest organ of the body",
+      },
+    ],
+  };
+  const mockApiKey = "vaq_test_key";
+  const authHeaders = {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${mockApiKey}`,
+  };
 
   beforeEach(() => {
     vi.clearAllMocks();
 
-    // Mock for Quiz.findById().countDocuments() for POST requests
+    // Only the mock API key is valid
+    (ApiClient.findOne as Mock).mockImplementation((filter: any) => ({
+      lean: vi
+        .fn()
+        .mockResolvedValue(
+          filter.keyHash === hashApiKey(mockApiKey)
+            ? { _id: new mongoose.Types.ObjectId() }
+            : null
+        ),
+    }));
+    (ApiClient.updateOne as Mock).mockResolvedValue({ modifiedCount: 1 });
+
+    // Mock for Quiz.findById().lean() for POST requests
     (Quiz.findById as Mock).mockReturnValue({
-      countDocuments: vi.fn().mockResolvedValue(1),
+      lean: vi.fn().mockResolvedValue(mockQuiz),
+    });
+
+    // Mock for MeshCatalogItem.find().select().lean() used when grading
+    (MeshCatalogItem.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnThis(),
+      lean: vi.fn().mockResolvedValue([
+        { _id: mockHeartMeshId, organGroupIds: [mockThoraxGroupId] },
+        { _id: mockLungMeshId, organGroupIds: [] },
+      ]),
+    });
+
+    // No manual short-answer grades by default
+    (ShortAnswerGrade.find as Mock).mockReturnValue({
+      lean: vi.fn().mockResolvedValue([]),
     });
 
     // Mock for the static Submission.find() for GET requests
@@ -81,7 +181,7 @@ describe("/api/submissions route", () => {
 
       const req = new Request("http://localhost:3000/api/submissions", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: authHeaders,
         body: JSON.stringify(submissionData),
       });
 
@@ -91,6 +191,636 @@ describe("/api/submissions route", () => {
       const responseBody = await res.json();
       expect(responseBody.success).toBe(true);
       expect(responseBody.submissionId).toBeDefined();
+      expect(ApiClient.updateOne).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          $inc: { usageCount: 1, "usageByEndpoint.submissions": 1 },
+        })
+      );
+    });
+
+    it("should grade the answers and store the score", async () => {
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswerId_Index: 0,
+          },
+          {
+            question_id: mockQuestionId2.toHexString(),
+            responseText_ClickedMesh_id: mockHeartMeshId.toHexString(),
+          },
+          {
+            question_id: mockQuestionId3.toHexString(),
+            responseText_ShortAnswer: "Skin",
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(201);
+      const responseBody = await res.json();
+      expect(responseBody.score).toBe(2);
+      expect(responseBody.maxScore).toBe(3);
+      expect(responseBody.results).toEqual([
+        { question_id: mockQuestionId1.toHexString(), isCorrect: true },
+        { question_id: mockQuestionId2.toHexString(), isCorrect: true },
+        { question_id: mockQuestionId3.toHexString(), isCorrect: null },
+      ]);
+      expect(Submission).toHaveBeenCalledWith(
+        expect.objectContaining({ score: 2, maxScore: 3 })
+      );
+    });
+
+    it("should store selected answers by their ID", async () => {
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswer_id: mockHeartAnswerId.toHexString(),
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(201);
+      const savedAnswers = (Submission as unknown as Mock).mock.calls[0][0]
+        .answers;
+      expect(savedAnswers[0]).toMatchObject({
+        selectedAnswer_id: mockHeartAnswerId,
+        isCorrect: true,
+      });
+      expect(savedAnswers[0]).not.toHaveProperty("selectedAnswerId_Index");
+    });
+
+    it("should convert a selected answer index to the answer ID", async () => {
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswerId_Index: 1,
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(201);
+      const savedAnswers = (Submission as unknown as Mock).mock.calls[0][0]
+        .answers;
+      expect(savedAnswers[0]).toMatchObject({
+        selectedAnswer_id: mockLungAnswerId,
+        isCorrect: false,
+      });
+    });
+
+    it("should return 400 for an invalid selectedAnswer_id", async () => {
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswer_id: "not-an-id",
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(400);
+      expect(Submission).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for a duplicate answer to the same question", async () => {
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswerId_Index: 0,
+          },
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswerId_Index: 0,
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain("Duplicate answer");
+      expect(Submission).not.toHaveBeenCalled();
+    });
+
+    it("should return 400 for a short answer that is not a string", async () => {
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            responseText_ShortAnswer: { text: "Heart" },
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toContain("must be a string");
+      expect(Submission).not.toHaveBeenCalled();
+    });
+
+    it("should store the current version of the quiz by default", async () => {
+      (Quiz.findById as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue({ ...mockQuiz, version: 3 }),
+      });
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswer_id: mockHeartAnswerId.toHexString(),
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(201);
+      expect(Submission).toHaveBeenCalledWith(
+        expect.objectContaining({ quizVersion: 3 })
+      );
+      expect(QuizVersion.find).not.toHaveBeenCalled();
+    });
+
+    it("should grade against the version of the quiz the student answered", async () => {
+      // The correct answer was changed from Heart to Lung in version 2
+      (Quiz.findById as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue({
+          ...mockQuiz,
+          version: 2,
+          questions: [
+            {
+              ...mockQuiz.questions[0],
+              answers: [
+                { _id: mockHeartAnswerId, text: "Heart", isCorrect: false },
+                { _id: mockLungAnswerId, text: "Lung", isCorrect: true },
+              ],
+            },
+          ],
+        }),
+      });
+      (QuizVersion.find as Mock).mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        lean: vi
+          .fn()
+          .mockResolvedValue([{ version: 1, questions: mockQuiz.questions }]),
+      });
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        quizVersion: 1,
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswer_id: mockHeartAnswerId.toHexString(),
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(201);
+      const responseBody = await res.json();
+      expect(responseBody.score).toBe(1);
+      expect(Submission).toHaveBeenCalledWith(
+        expect.objectContaining({ quizVersion: 1, score: 1 })
+      );
+    });
+
+    it("should return 400 for a quizVersion newer than the quiz", async () => {
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        quizVersion: 2,
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswer_id: mockHeartAnswerId.toHexString(),
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(400);
+      expect(Submission).not.toHaveBeenCalled();
+    });
+
+    it("should mark wrong answers as incorrect", async () => {
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswerId_Index: 1,
+          },
+          {
+            question_id: mockQuestionId2.toHexString(),
+            responseText_ClickedMesh_id: mockLungMeshId.toHexString(),
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(201);
+      const responseBody = await res.json();
+      expect(responseBody.score).toBe(0);
+      expect(responseBody.maxScore).toBe(3);
+      const savedAnswers = (Submission as unknown as Mock).mock.calls[0][0]
+        .answers;
+      expect(savedAnswers.map((ans: any) => ans.isCorrect)).toEqual([
+        false,
+        false,
+      ]);
+    });
+
+    it("should apply manual grades of identical short answers", async () => {
+      (ShortAnswerGrade.find as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue([
+          {
+            question_id: mockQuestionId3,
+            responseText: "Skin",
+            verdict: "partial",
+          },
+        ]),
+      });
+
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswerId_Index: 0,
+          },
+          {
+            question_id: mockQuestionId3.toHexString(),
+            responseText_ShortAnswer: " Skin ",
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(201);
+      const responseBody = await res.json();
+      expect(responseBody.score).toBe(1.5);
+      const savedAnswers = (Submission as unknown as Mock).mock.calls[0][0]
+        .answers;
+      expect(savedAnswers[1]).toMatchObject({
+        isCorrect: false,
+        credit: 0.5,
+        manualVerdict: "partial",
+      });
+    });
+
+    it("should link the submission to the student resolved by email", async () => {
+      const mockStudentId = new mongoose.Types.ObjectId();
+      (Student.findOne as Mock).mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        lean: vi.fn().mockResolvedValue({ _id: mockStudentId }),
+      });
+
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studentEmail: " Jane.Doe@Example.com ",
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswerId_Index: 0,
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(201);
+      expect(Student.findOne).toHaveBeenCalledWith({
+        email: "jane.doe@example.com",
+      });
+      expect(Submission).toHaveBeenCalledWith(
+        expect.objectContaining({ student_id: mockStudentId })
+      );
+    });
+
+    it("should grade shuffled answers in the order presented to the student", async () => {
+      const mockStudentId = new mongoose.Types.ObjectId();
+      const shuffledQuiz = { ...mockQuiz, shuffleAnswers: true };
+      (Quiz.findById as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue(shuffledQuiz),
+      });
+      (Student.findOne as Mock).mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        lean: vi.fn().mockResolvedValue({ _id: mockStudentId }),
+      });
+      const presentedOrder = getPresentedOrder(
+        shuffledQuiz as any,
+        mockStudentId
+      )!;
+      // The position at which the student saw "Heart", the correct answer
+      const presentedHeartIndex = presentedOrder
+        .find((presented) => presented.question_id.equals(mockQuestionId1))!
+        .answerOrder!.indexOf(0);
+
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        student_id: mockStudentId.toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswerId_Index: presentedHeartIndex,
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+      const body = await res.json();
+
+      expect(res.status).toBe(201);
+      expect(body.score).toBe(1);
+      expect(Submission).toHaveBeenCalledWith(
+        expect.objectContaining({
+          presentedOrder,
+          answers: [
+            expect.objectContaining({
+              selectedAnswer_id: mockHeartAnswerId,
+              isCorrect: true,
+            }),
+          ],
+        })
+      );
+    });
+
+    it("should return 404 if the student is not on the roster", async () => {
+      (Student.findOne as Mock).mockReturnValue({
+        select: vi.fn().mockReturnThis(),
+        lean: vi.fn().mockResolvedValue(null),
+      });
+
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        student_id: new mongoose.Types.ObjectId().toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswerId_Index: 0,
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(404);
+      expect(Submission).not.toHaveBeenCalled();
+    });
+
+    it("should reject submissions after the quiz closed", async () => {
+      (Quiz.findById as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue({
+          ...mockQuiz,
+          closesAt: new Date(Date.now() - 60 * 60 * 1000),
+          gracePeriodMinutes: 10,
+        }),
+      });
+
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studyYearAtSubmission: 1,
+        // A backdated submission time does not matter, the server time is used
+        submittedAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswerId_Index: 0,
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(403);
+      expect(Submission).not.toHaveBeenCalled();
+    });
+
+    it("should accept submissions during the grace period", async () => {
+      (Quiz.findById as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue({
+          ...mockQuiz,
+          opensAt: new Date(Date.now() - 60 * 60 * 1000),
+          closesAt: new Date(Date.now() - 5 * 60 * 1000),
+          gracePeriodMinutes: 10,
+        }),
+      });
+
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: mockQuestionId1.toHexString(),
+            selectedAnswerId_Index: 0,
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+
+      expect(res.status).toBe(201);
+    });
+
+    it("should return 400 if an answer does not belong to the quiz", async () => {
+      const submissionData = {
+        quiz_id: mockQuizId.toHexString(),
+        studyYearAtSubmission: 1,
+        submittedAt: new Date().toISOString(),
+        answers: [
+          {
+            question_id: new mongoose.Types.ObjectId().toHexString(),
+            selectedAnswerId_Index: 0,
+          },
+        ],
+      };
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(submissionData),
+      });
+
+      const res = await POST(req);
+      expect(res.status).toBe(400);
+      expect(Submission).not.toHaveBeenCalled();
+    });
+
+    it("should return 401 without an API key", async () => {
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ quiz_id: mockQuizId.toHexString() }),
+      });
+
+      const res = await POST(req);
+      expect(res.status).toBe(401);
+      expect(Submission).not.toHaveBeenCalled();
+    });
+
+    it("should return 401 for an invalid or revoked API key", async () => {
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: "Bearer vaq_revoked_key",
+        },
+        body: JSON.stringify({ quiz_id: mockQuizId.toHexString() }),
+      });
+
+      const res = await POST(req);
+      expect(res.status).toBe(401);
+      expect(ApiClient.findOne).toHaveBeenCalledWith({
+        keyHash: hashApiKey("vaq_revoked_key"),
+        revokedAt: null,
+      });
+      expect(ApiClient.updateOne).not.toHaveBeenCalled();
     });
 
     it("should return 400 for invalid or missing quiz_id", async () => {
@@ -101,7 +831,7 @@ describe("/api/submissions route", () => {
 
       const req = new Request("http://localhost:3000/api/submissions", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: authHeaders,
         body: JSON.stringify(submissionData),
       });
 
@@ -117,7 +847,7 @@ describe("/api/submissions route", () => {
 
       const req = new Request("http://localhost:3000/api/submissions", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: authHeaders,
         body: JSON.stringify(submissionData),
       });
 
@@ -135,7 +865,7 @@ describe("/api/submissions route", () => {
 
       const req = new Request("http://localhost:3000/api/submissions", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: authHeaders,
         body: JSON.stringify(submissionData),
       });
 
@@ -145,7 +875,7 @@ describe("/api/submissions route", () => {
 
     it("should return 404 if quiz not found", async () => {
       (Quiz.findById as Mock).mockReturnValue({
-        countDocuments: vi.fn().mockResolvedValue(0), // Quiz not found
+        lean: vi.fn().mockResolvedValue(null), // Quiz not found
       });
 
       const submissionData = {
@@ -162,13 +892,39 @@ describe("/api/submissions route", () => {
 
       const req = new Request("http://localhost:3000/api/submissions", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: authHeaders,
         body: JSON.stringify(submissionData),
       });
 
       const res = await POST(req);
       expect(res.status).toBe(404);
     });
+
+    it("should return 404 if the quiz is in the trash", async () => {
+      (Quiz.findById as Mock).mockReturnValue({
+        lean: vi.fn().mockResolvedValue({ ...mockQuiz, deletedAt: new Date() }),
+      });
+
+      const req = new Request("http://localhost:3000/api/submissions", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify({
+          quiz_id: mockQuizId.toHexString(),
+          studyYearAtSubmission: 1,
+          submittedAt: new Date().toISOString(),
+          answers: [
+            {
+              question_id: mockQuestionId1.toHexString(),
+              selectedAnswerId_Index: 0,
+            },
+          ],
+        }),
+      });
+
+      const res = await POST(req);
+      expect(res.status).toBe(404);
+      expect(Submission).not.toHaveBeenCalled();
+    });
   });
 
   describe("GET /api/submissions", () => {
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  buildOpenQuizFilter,
+  getGracePeriodMinutes,
+  getQuizAvailability,
+  getSubmissionWindowError,
+  isValidAvailabilityWindow,
+} from "@/app/lib/availability";
+
+describe("quiz availability windows", () => {
+  const opensAt = new Date("2025-03-01T09:00:00Z");
+  const closesAt = new Date("2025-03-01T10:00:00Z");
+
+  afterEach(() => {
+    delete process.env.SUBMISSION_GRACE_PERIOD_MINUTES;
+  });
+
+  it("should determine whether a quiz is upcoming, open or closed", () => {
+    const quiz = { opensAt, closesAt };
+    expect(getQuizAvailability(quiz, new Date("2025-03-01T08:59:00Z"))).toBe(
+      "upcoming"
+    );
+    expect(getQuizAvailability(quiz, new Date("2025-03-01T09:30:00Z"))).toBe(
+      "open"
+    );
+    expect(getQuizAvailability(quiz, new Date("2025-03-01T10:00:00Z"))).toBe(
+      "closed"
+    );
+    expect(getQuizAvailability({}, new Date())).toBe("open");
+  });
+
+  it("should accept late submissions during the grace period", () => {
+    const quiz = { opensAt, closesAt, gracePeriodMinutes: 10 };
+    expect(
+      getSubmissionWindowError(quiz, new Date("2025-03-01T08:59:00Z"))
+    ).toMatch(/not open/);
+    expect(
+      getSubmissionWindowError(quiz, new Date("2025-03-01T10:09:00Z"))
+    ).toBeNull();
+    expect(
+      getSubmissionWindowError(quiz, new Date("2025-03-01T10:11:00Z"))
+    ).toMatch(/closed/);
+  });
+
+  it("should fall back to the configured grace period", () => {
+    expect(getGracePeriodMinutes({})).toBe(5);
+    process.env.SUBMISSION_GRACE_PERIOD_MINUTES = "0";
+    expect(getGracePeriodMinutes({})).toBe(0);
+    expect(getGracePeriodMinutes({ gracePeriodMinutes: 15 })).toBe(15);
+  });
+
+  it("should only accept windows that close after they open", () => {
+    expect(isValidAvailabilityWindow(opensAt, closesAt)).toBe(true);
+    expect(isValidAvailabilityWindow(closesAt, opensAt)).toBe(false);
+    expect(isValidAvailabilityWindow(null, closesAt.toISOString())).toBe(true);
+  });
+
+  it("should build a filter for quizzes that are open now", () => {
+    const now = new Date("2025-03-01T09:30:00Z");
+    expect(buildOpenQuizFilter(now)).toEqual({
+      $and: [
+        { $or: [{ opensAt: null }, { opensAt: { $lte: now } }] },
+        { $or: [{ closesAt: null }, { closesAt: { $gt: now } }] },
+      ],
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  levenshteinDistance,
+  matchShortAnswer,
+  normalizeShortAnswer,
+} from "@/app/lib/grading";
+
+describe("short answer matching", () => {
+  it("should normalize case, diacritics, punctuation and whitespace", () => {
+    expect(normalizeShortAnswer("  Musculus  Bíceps-Brachii! ")).toBe(
+      "musculus biceps brachii"
+    );
+  });
+
+  it("should calculate the edit distance", () => {
+    expect(levenshteinDistance("femur", "femur")).toBe(0);
+    expect(levenshteinDistance("femur", "femru")).toBe(2);
+    expect(levenshteinDistance("tibia", "tibiae")).toBe(1);
+    expect(levenshteinDistance("", "ulna")).toBe(4);
+  });
+
+  it("should prefer exact over normalized over fuzzy matches", () => {
+    const accepted = ["Heart", "Cor"];
+    expect(matchShortAnswer("Heart", accepted)).toEqual({
+      matchType: "exact",
+      matchedAnswer: "Heart",
+    });
+    expect(matchShortAnswer(" Cor ", accepted)).toEqual({
+      matchType: "exact",
+      matchedAnswer: "Cor",
+    });
+    expect(matchShortAnswer("HEART", accepted)).toEqual({
+      matchType: "normalized",
+      matchedAnswer: "Heart",
+    });
+    expect(matchShortAnswer("Haert", accepted)).toEqual({
+      matchType: "none",
+    });
+    expect(matchShortAnswer("Hearts", accepted)).toEqual({
+      matchType: "fuzzy",
+      matchedAnswer: "Heart",
+      distance: 1,
+    });
+  });
+
+  it("should not allow typos in very short answers by default", () => {
+    expect(matchShortAnswer("una", ["Ulna"]).matchType).toBe("none");
+    expect(matchShortAnswer("una", ["Ulna"], 1).matchType).toBe("fuzzy");
+  });
+
+  it("should respect an explicit typo tolerance of zero", () => {
+    expect(matchShortAnswer("Clavicule", ["Clavicle"], 0).matchType).toBe(
+      "none"
+    );
+  });
+
+  it("should not match empty responses", () => {
+    expect(matchShortAnswer(undefined, ["Heart"]).matchType).toBe("none");
+    expect(matchShortAnswer("   ", ["Heart"]).matchType).toBe("none");
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, expect, it } from "vitest";
+import { Types } from "mongoose";
+import { analyzeItems } from "@/app/lib/itemAnalysis";
+import type { GradedQuizSubmission, ResultsQuiz } from "@/app/lib/quizResults";
+import type { IQuestion, ISubmissionAnswer } from "@/app/models/Quiz";
+
+const mcqId = new Types.ObjectId();
+const trueFalseId = new Types.ObjectId();
+const shortAnswerId = new Types.ObjectId();
+const optionA = new Types.ObjectId();
+const optionB = new Types.ObjectId();
+const optionC = new Types.ObjectId();
+const optionTrue = new Types.ObjectId();
+const optionFalse = new Types.ObjectId();
+
+const questions = [
+  {
+    _id: mcqId,
+    type: "multiple-choice",
+    questionText: "Which organ pumps blood?",
+    answers: [
+      { _id: optionA, text: "Heart", isCorrect: true },
+      { _id: optionB, text: "Lung", isCorrect: false },
+      { _id: optionC, text: "Femur", isCorrect: false },
+    ],
+  },
+  {
+    _id: trueFalseId,
+    type: "true-false",
+    questionText: "The liver is an organ",
+    answers: [
+      { _id: optionTrue, text: "True", isCorrect: true },
+      { _id: optionFalse, text: "False", isCorrect: false },
+    ],
+  },
+  {
+    _id: shortAnswerId,
+    type: "short-answer",
+    questionText: "Name the largest organ",
+    answers: [],
+    acceptedAnswers: ["Skin"],
+  },
+] as unknown as IQuestion[];
+
+const quiz = { _id: new Types.ObjectId(), title: "Thorax", questions };
+
+/**
+ * Creates a graded submission of the quiz.
+ *
+ * @param {[Types.ObjectId, Partial<ISubmissionAnswer>][]} answers - The graded answers by question.
+ * @param {IQuestion[]} answeredQuestions - The questions of the answered version.
+ * @returns {GradedQuizSubmission} The submission.
+ */
+const makeSubmission = (
+  answers: [Types.ObjectId, Partial<ISubmissionAnswer>][],
+  answeredQuestions: IQuestion[] = questions
+): GradedQuizSubmission => ({
+  _id: new Types.ObjectId(),
+  studyYearAtSubmission: 1,
+  submittedAt: new Date("2025-09-01T09:00:00Z"),
+  quizVersion: 1,
+  answers: new Map(
+    answers.map(([questionId, answer]) => [
+      questionId.toString(),
+      { question_id: questionId, ...answer },
+    ])
+  ),
+  answeredQuestions: new Map(
+    answeredQuestions.map((question) => [question._id!.toString(), question])
+  ),
+  score: answers.reduce((sum, [, answer]) => sum + (answer.credit ?? 0), 0),
+  maxScore: answeredQuestions.length,
+});
+
+const mcq = (selected: Types.ObjectId) => ({
+  selectedAnswer_id: selected,
+  credit: selected === optionA ? 1 : 0,
+});
+const trueFalse = (selected: Types.ObjectId) => ({
+  selectedAnswer_id: selected,
+  credit: selected === optionTrue ? 1 : 0,
+});
+
+// Total scores 3, 2, 1 and 0
+const submissions = [
+  makeSubmission([
+    [mcqId, mcq(optionA)],
+    [trueFalseId, trueFalse(optionTrue)],
+    [shortAnswerId, { responseText_ShortAnswer: "Skin", credit: 1 }],
+  ]),
+  makeSubmission([
+    [mcqId, mcq(optionA)],
+    [trueFalseId, trueFalse(optionTrue)],
+    [shortAnswerId, { responseText_ShortAnswer: "Liver", credit: 0 }],
+  ]),
+  makeSubmission([
+    [mcqId, mcq(optionB)],
+    [trueFalseId, trueFalse(optionTrue)],
+  ]),
+  makeSubmission([
+    [mcqId, mcq(optionB)],
+    [trueFalseId, trueFalse(optionFalse)],
+    [shortAnswerId, { responseText_ShortAnswer: "Brain", credit: 0 }],
+  ]),
+];
+
+describe("item analysis", () => {
+  it("should calculate the difficulty and discrimination per question", () => {
+    const analysis = analyzeItems(quiz as ResultsQuiz, submissions);
+    const [mcqItem, trueFalseItem, shortAnswerItem] = analysis.items;
+
+    expect(analysis.submissionCount).toBe(4);
+    expect(analysis.upperLowerGroupSize).toBe(1);
+    expect(mcqItem).toMatchObject({
+      submissionCount: 4,
+      answeredCount: 4,
+      difficulty: 0.5,
+      pointBiserial: 0.707,
+      discriminationIndex: 1,
+      upperDifficulty: 1,
+      lowerDifficulty: 0,
+    });
+    expect(trueFalseItem.difficulty).toBe(0.75);
+    // Unanswered questions count as incorrect
+    expect(shortAnswerItem).toMatchObject({
+      answeredCount: 3,
+      difficulty: 0.25,
+      discriminationIndex: 1,
+    });
+  });
+
+  it("should analyze the distractors of MCQ options", () => {
+    const analysis = analyzeItems(quiz as ResultsQuiz, submissions);
+
+    expect(analysis.items[0].options).toEqual([
+      {
+        answerId: optionA.toString(),
+        answerText: "Heart",
+        isCorrect: true,
+        count: 2,
+        proportion: 0.5,
+        upperProportion: 1,
+        lowerProportion: 0,
+        discrimination: 1,
+      },
+      {
+        answerId: optionB.toString(),
+        answerText: "Lung",
+        isCorrect: false,
+        count: 2,
+        proportion: 0.5,
+        upperProportion: 0,
+        lowerProportion: 1,
+        discrimination: -1,
+      },
+      {
+        answerId: optionC.toString(),
+        answerText: "Femur",
+        isCorrect: false,
+        count: 0,
+        proportion: 0,
+        upperProportion: 0,
+        lowerProportion: 0,
+        discrimination: 0,
+      },
+    ]);
+    expect(analysis.items[0].flags).toEqual(["non-functioning-distractors"]);
+  });
+
+  it("should calculate KR-20 for dichotomous items", () => {
+    const analysis = analyzeItems(quiz as ResultsQuiz, submissions);
+
+    expect(analysis.reliability).toEqual({
+      method: "KR-20",
+      coefficient: 0.75,
+      itemCount: 3,
+      submissionCount: 4,
+    });
+  });
+
+  it("should use Cronbach's alpha for partial credit", () => {
+    const partialSubmissions = [
+      ...submissions.slice(0, 3),
+      makeSubmission([
+        [mcqId, mcq(optionB)],
+        [trueFalseId, trueFalse(optionFalse)],
+        [
+          shortAnswerId,
+          {
+            responseText_ShortAnswer: "Skn",
+            credit: 0.5,
+            manualVerdict: "partial",
+          },
+        ],
+      ]),
+    ];
+
+    const analysis = analyzeItems(quiz as ResultsQuiz, partialSubmissions);
+
+    expect(analysis.reliability.method).toBe("Cronbach's alpha");
+    expect(analysis.items[2].difficulty).toBe(0.375);
+  });
+
+  it("should flag questions with a wrong answer key", () => {
+    // The strongest students all choose the "wrong" option
+    const flipped = submissions.map((submission, index) =>
+      makeSubmission([
+        [mcqId, mcq(index < 2 ? optionB : optionA)],
+        [trueFalseId, submission.answers.get(trueFalseId.toString())!],
+        ...(submission.answers.has(shortAnswerId.toString())
+          ? [
+              [
+                shortAnswerId,
+                submission.answers.get(shortAnswerId.toString())!,
+              ] as [Types.ObjectId, ISubmissionAnswer],
+            ]
+          : []),
+      ])
+    );
+
+    const flags = analyzeItems(quiz as ResultsQuiz, flipped).items[0].flags;
+
+    expect(flags).toContain("negative-discrimination");
+    expect(flags).toContain("distractor-attracts-upper-group");
+  });
+
+  it("should leave out questions that are not graded yet", () => {
+    const ungraded = [
+      ...submissions.slice(0, 3),
+      makeSubmission([
+        [mcqId, mcq(optionB)],
+        [trueFalseId, trueFalse(optionFalse)],
+        [shortAnswerId, { responseText_ShortAnswer: "Brain" }],
+      ]),
+    ];
+
+    const analysis = analyzeItems(quiz as ResultsQuiz, ungraded);
+
+    expect(analysis.items[2]).toMatchObject({
+      difficulty: null,
+      pointBiserial: null,
+      flags: ["not-graded"],
+    });
+    expect(analysis.reliability.itemCount).toBe(2);
+  });
+
+  it("should only count submissions whose version had the question", () => {
+    const olderVersion = makeSubmission(
+      [
+        [mcqId, mcq(optionA)],
+        [trueFalseId, trueFalse(optionTrue)],
+      ],
+      questions.slice(0, 2)
+    );
+
+    const analysis = analyzeItems(quiz as ResultsQuiz, [
+      ...submissions,
+      olderVersion,
+    ]);
+
+    expect(analysis.items[0].submissionCount).toBe(5);
+    expect(analysis.items[2].submissionCount).toBe(4);
+    // Reliability is based on the submissions that had every question
+    expect(analysis.reliability.submissionCount).toBe(4);
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { buildQtiPackage, readQtiPackage } from "@/app/lib/qti";
+import { MAX_ZIP_ENTRY_SIZE, createZip, readZip } from "@/app/lib/zip";
+import { MeshCatalogItem, OrganGroup } from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+// Mock Mongoose models
+vi.mock("@/app/models/Quiz", () => ({
+  MeshCatalogItem: {
+    find: vi.fn(),
+  },
+  OrganGroup: {
+    find: vi.fn(),
+  },
+}));
+
+describe("QTI 2.1 packages", () => {
+  const mockMeshId = new mongoose.Types.ObjectId("507f1f77bcf86cd799439021");
+
+  const thorax: any = {
+    title: "Thorax & Heart",
+    description: "Organs of the thorax",
+    studyYear: 1,
+    shuffleQuestions: true,
+    shuffleAnswers: false,
+    questions: [
+      {
+        type: "multiple-choice",
+        questionText: "Which organs are in the thorax?",
+        answers: [
+          { text: "Heart", isCorrect: true },
+          { text: "Lung", isCorrect: true },
+          { text: "Liver", isCorrect: false },
+        ],
+      },
+      {
+        type: "true-false",
+        questionText: "The heart has <4> chambers",
+        answers: [
+          { text: "True", isCorrect: true },
+          { text: "False", isCorrect: false },
+        ],
+      },
+      {
+        type: "short-answer",
+        questionText: "Name the largest organ",
+        answers: [],
+        acceptedAnswers: ["Skin", "Cutis"],
+      },
+      {
+        type: "select-organ",
+        questionText: "Select the heart",
+        answers: [],
+        targetType: "mesh",
+        target_id: mockMeshId,
+      },
+    ],
+  };
+
+  const qtiItem = (identifier: string, body: string, declaration = "") =>
+    `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="${identifier}" title="${identifier}" adaptive="false" timeDependent="false">
+  ${declaration}
+  <itemBody>${body}</itemBody>
+</assessmentItem>`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (MeshCatalogItem.find as Mock).mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        lean: vi
+          .fn()
+          .mockResolvedValue([
+            { _id: mockMeshId, meshName: "heart", displayName: "Heart" },
+          ]),
+      }),
+    });
+  });
+
+  it("should write a package with a manifest, a test and an item per question", async () => {
+    const files = readZip(await buildQtiPackage([thorax]));
+
+    expect(Array.from(files.keys()).sort()).toEqual([
+      "imsmanifest.xml",
+      "quiz-1/item-1.xml",
+      "quiz-1/item-2.xml",
+      "quiz-1/item-3.xml",
+      "quiz-1/item-4.xml",
+      "quiz-1/test.xml",
+    ]);
+    const manifest = files.get("imsmanifest.xml")!.toString();
+    expect(manifest).toContain('type="imsqti_test_xmlv2p1"');
+    expect(manifest).toContain('<dependency identifierref="quiz-1-item-4"/>');
+    expect(files.get("quiz-1/test.xml")!.toString()).toContain(
+      'title="Thorax &amp; Heart"'
+    );
+    expect(files.get("quiz-1/item-1.xml")!.toString()).toContain(
+      "<correctResponse><value>CHOICE_1</value><value>CHOICE_2</value></correctResponse>"
+    );
+    expect(files.get("quiz-1/item-4.xml")!.toString()).toContain(
+      'targetType="mesh" targetName="heart"'
+    );
+    expect(OrganGroup.find).not.toHaveBeenCalled();
+  });
+
+  it("should read back the quizzes of an exported package", async () => {
+    const { quizzes, skippedItems } = readQtiPackage(
+      await buildQtiPackage([thorax]),
+      2
+    );
+
+    expect(skippedItems).toEqual([]);
+    expect(quizzes).toEqual([
+      {
+        title: "Thorax & Heart",
+        description: "Organs of the thorax",
+        studyYear: 2,
+        shuffleQuestions: true,
+        shuffleAnswers: false,
+        questions: [
+          {
+            questionText: "Which organs are in the thorax?",
+            type: "multiple-choice",
+            answers: thorax.questions[0].answers,
+          },
+          {
+            questionText: "The heart has <4> chambers",
+            type: "true-false",
+            answers: thorax.questions[1].answers,
+          },
+          {
+            questionText: "Name the largest organ",
+            type: "short-answer",
+            acceptedAnswers: ["Skin", "Cutis"],
+          },
+          {
+            questionText: "Select the heart",
+            type: "select-organ",
+            target: { type: "mesh", meshName: "heart" },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should import an item bank as one quiz and report unsupported items", () => {
+    const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="bank">
+  <organizations><organization identifier="org"><title>Anatomy bank</title></organization></organizations>
+  <resources>
+    <resource identifier="choice" type="imsqti_item_xmlv2p1" href="items/choice.xml"/>
+    <resource identifier="order" type="imsqti_item_xmlv2p1" href="items/order.xml"/>
+    <resource identifier="missing" type="imsqti_item_xmlv2p1" href="items/missing.xml"/>
+  </resources>
+</manifest>`;
+    const archive = createZip([
+      { name: "imsmanifest.xml", data: manifest },
+      {
+        name: "items/choice.xml",
+        data: qtiItem(
+          "choice",
+          `<p>Which bone is in the <b>thigh</b>?</p>
+           <choiceInteraction responseIdentifier="R" shuffle="true" maxChoices="1">
+             <simpleChoice identifier="a">Femur</simpleChoice>
+             <simpleChoice identifier="b">Humerus</simpleChoice>
+           </choiceInteraction>`,
+          `<responseDeclaration identifier="R" cardinality="single" baseType="identifier">
+             <correctResponse><value>a</value></correctResponse>
+           </responseDeclaration>`
+        ),
+      },
+      {
+        name: "items/order.xml",
+        data: qtiItem(
+          "order",
+          `<orderInteraction responseIdentifier="R">
+             <simpleChoice identifier="a">Skin</simpleChoice>
+           </orderInteraction>`
+        ),
+      },
+    ]);
+
+    const { quizzes, skippedItems } = readQtiPackage(archive, 1);
+
+    expect(quizzes).toHaveLength(1);
+    expect(quizzes[0]).toMatchObject({
+      title: "Anatomy bank",
+      studyYear: 1,
+      shuffleAnswers: true,
+      questions: [
+        {
+          questionText: "Which bone is in the thigh?",
+          type: "multiple-choice",
+          answers: [
+            { text: "Femur", isCorrect: true },
+            { text: "Humerus", isCorrect: false },
+          ],
+        },
+      ],
+    });
+    expect(skippedItems).toEqual([
+      {
+        quizTitle: "Anatomy bank",
+        item: "order",
+        reason: "orderInteraction is not supported",
+      },
+      {
+        quizTitle: "Anatomy bank",
+        item: "items/missing.xml",
+        reason: "The item file is missing",
+      },
+    ]);
+  });
+
+  it("should reject a zip without a manifest", () => {
+    const archive = createZip([{ name: "item.xml", data: "<x/>" }]);
+
+    expect(() => readQtiPackage(archive, 1)).toThrow(
+      "The package has no imsmanifest.xml"
+    );
+  });
+
+  it("should reject malformed XML", () => {
+    const archive = createZip([
+      { name: "imsmanifest.xml", data: "<manifest><resources></manifest>" },
+    ]);
+
+    expect(() => readQtiPackage(archive, 1)).toThrow("Invalid XML");
+  });
+
+  it("should reject a file that is too large uncompressed", () => {
+    const archive = createZip([
+      { name: "imsmanifest.xml", data: Buffer.alloc(MAX_ZIP_ENTRY_SIZE + 1) },
+    ]);
+
+    expect(() => readQtiPackage(archive, 1)).toThrow(
+      `imsmanifest.xml is larger than ${MAX_ZIP_ENTRY_SIZE} bytes uncompressed`
+    );
+  });
+
+  it("should not extract more than the declared size of a file", () => {
+    const archive = createZip([
+      { name: "bomb.xml", data: Buffer.alloc(1024 * 1024) },
+    ]);
+    // Understate the uncompressed size in the central directory
+    const central = archive.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    archive.writeUInt32LE(16, central + 24);
+
+    expect(readZip(archive).get("bomb.xml")).toHaveLength(16);
+  });
+});
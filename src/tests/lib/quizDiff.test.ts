@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { diffQuizVersions, type DiffableQuiz } from "@/app/lib/quizDiff";
+
+describe("quiz version diff", () => {
+  const heartQuestion = {
+    _id: "q1",
+    type: "multiple-choice",
+    questionText: "Which organ pumps blood?",
+    answers: [
+      { _id: "a1", text: "Heart", isCorrect: true },
+      { _id: "a2", text: "Lung", isCorrect: false },
+    ],
+  };
+  const skinQuestion = {
+    _id: "q2",
+    type: "short-answer",
+    questionText: "Name the largest organ",
+    answers: [],
+    acceptedAnswers: ["Skin"],
+  };
+  const liverQuestion = {
+    _id: "q3",
+    type: "select-organ",
+    questionText: "Select the liver",
+    answers: [],
+    targetType: "mesh",
+    target_id: "m1",
+  };
+  const version1: DiffableQuiz = {
+    title: "Thorax",
+    studyYear: 1,
+    questions: [heartQuestion, skinQuestion, liverQuestion],
+  };
+
+  it("should report no changes for identical versions", () => {
+    expect(diffQuizVersions(version1, { ...version1 })).toEqual({
+      fieldChanges: [],
+      addedQuestions: [],
+      removedQuestions: [],
+      changedQuestions: [],
+      movedQuestions: [],
+    });
+  });
+
+  it("should report changed quiz fields", () => {
+    const diff = diffQuizVersions(version1, {
+      ...version1,
+      title: "Thorax and abdomen",
+      shuffleQuestions: true,
+    });
+
+    expect(diff.fieldChanges).toEqual([
+      { field: "title", from: "Thorax", to: "Thorax and abdomen" },
+      { field: "shuffleQuestions", from: undefined, to: true },
+    ]);
+  });
+
+  it("should report added, removed and changed questions by their ID", () => {
+    const diff = diffQuizVersions(version1, {
+      ...version1,
+      questions: [
+        {
+          ...heartQuestion,
+          answers: [
+            { _id: "a1", text: "Heart", isCorrect: false },
+            { _id: "a2", text: "Lung", isCorrect: true },
+          ],
+        },
+        { ...skinQuestion, acceptedAnswers: ["Skin", "Cutis"] },
+        { _id: "q4", type: "true-false", questionText: "New", answers: [] },
+      ],
+    });
+
+    expect(diff.addedQuestions).toEqual([
+      { questionId: "q4", questionText: "New" },
+    ]);
+    expect(diff.removedQuestions).toEqual([
+      { questionId: "q3", questionText: "Select the liver" },
+    ]);
+    expect(diff.changedQuestions).toEqual([
+      {
+        questionId: "q1",
+        questionText: "Which organ pumps blood?",
+        changedFields: ["answers"],
+      },
+      {
+        questionId: "q2",
+        questionText: "Name the largest organ",
+        changedFields: ["acceptedAnswers"],
+      },
+    ]);
+    expect(diff.movedQuestions).toEqual([]);
+  });
+
+  it("should only report questions that moved relative to the others", () => {
+    const diff = diffQuizVersions(version1, {
+      ...version1,
+      questions: [
+        { _id: "q0", type: "true-false", questionText: "New", answers: [] },
+        heartQuestion,
+        liverQuestion,
+        skinQuestion,
+      ],
+    });
+
+    expect(diff.movedQuestions).toEqual([
+      {
+        questionId: "q2",
+        questionText: "Name the largest organ",
+        from: 1,
+        to: 3,
+      },
+    ]);
+    expect(diff.changedQuestions).toEqual([]);
+  });
+});
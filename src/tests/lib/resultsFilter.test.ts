@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { NextResponse } from "next/server";
+import { Types } from "mongoose";
+import {
+  describeResultsFilter,
+  parseResultsFilter,
+  selectSubmissions,
+} from "@/app/lib/resultsFilter";
+import type { ResultsFilter } from "@/app/lib/resultsFilter";
+
+const studentA = new Types.ObjectId();
+const studentB = new Types.ObjectId();
+
+const submission = (
+  name: string,
+  studentId: Types.ObjectId | undefined,
+  studyYearAtSubmission: number,
+  submittedAt: string
+) => ({
+  name,
+  student_id: studentId,
+  studyYearAtSubmission,
+  submittedAt: new Date(submittedAt),
+});
+
+const submissions = [
+  submission("A1", studentA, 1, "2025-01-10"),
+  submission("B1", studentB, 1, "2025-01-12"),
+  submission("anonymous", undefined, 1, "2025-01-15"),
+  submission("A2", studentA, 2, "2025-09-10"),
+];
+
+const select = (filter: ResultsFilter) =>
+  selectSubmissions(submissions, filter).map((selected) => selected.name);
+
+describe("parseResultsFilter", () => {
+  it("should parse all filters", () => {
+    const filter = parseResultsFilter(
+      new URLSearchParams(
+        "studyYearAtSubmission=2&from=2025-01-01&to=2025-01-31&cohort=%202025-A%20&attempt=latest"
+      )
+    );
+
+    expect(filter).toEqual({
+      studyYear: 2,
+      from: new Date("2025-01-01T00:00:00.000Z"),
+      to: new Date("2025-01-31T23:59:59.999Z"),
+      cohort: "2025-A",
+      attempt: "latest",
+    });
+  });
+
+  it("should accept studyYear for the study year at submission", () => {
+    const filter = parseResultsFilter(new URLSearchParams("studyYear=4"));
+
+    expect(filter).toEqual({ studyYear: 4 });
+  });
+
+  it("should keep the time of a to date with a time", () => {
+    const filter = parseResultsFilter(
+      new URLSearchParams("to=2025-01-31T12:00:00.000Z")
+    );
+
+    expect(filter).toEqual({ to: new Date("2025-01-31T12:00:00.000Z") });
+  });
+
+  it.each([
+    ["studyYearAtSubmission=4abc", "Invalid studyYearAtSubmission parameter"],
+    ["studyYearAtSubmission=0", "Invalid studyYearAtSubmission parameter"],
+    ["studyYearAtSubmission=-1", "Invalid studyYearAtSubmission parameter"],
+    ["studyYearAtSubmission=1.5", "Invalid studyYearAtSubmission parameter"],
+    ["studyYear=first", "Invalid studyYear parameter"],
+    ["from=yesterday", "Invalid from parameter"],
+    ["from=2025-02-01&to=2025-01-01", "Invalid date range"],
+    ["attempt=best", "Invalid attempt parameter"],
+  ])("should reject %s", async (query, message) => {
+    const response = parseResultsFilter(new URLSearchParams(query));
+
+    expect(response).toBeInstanceOf(NextResponse);
+    expect((response as NextResponse).status).toBe(400);
+    expect((await (response as NextResponse).json()).error).toContain(message);
+  });
+});
+
+describe("selectSubmissions", () => {
+  it("should keep every submission without filters", () => {
+    expect(select({})).toEqual(["A1", "B1", "anonymous", "A2"]);
+  });
+
+  it("should keep the first or latest attempt of every student", () => {
+    expect(select({ attempt: "first" })).toEqual(["A1", "B1", "anonymous"]);
+    expect(select({ attempt: "latest" })).toEqual(["B1", "anonymous", "A2"]);
+  });
+
+  it("should select the attempts before the study year and dates", () => {
+    expect(select({ attempt: "first", studyYear: 2 })).toEqual([]);
+    expect(
+      select({ attempt: "latest", to: new Date("2025-06-30T00:00:00Z") })
+    ).toEqual(["B1", "anonymous"]);
+  });
+});
+
+describe("describeResultsFilter", () => {
+  it("should describe every filter", () => {
+    expect(
+      describeResultsFilter({
+        studyYear: 4,
+        from: new Date("2025-01-01T00:00:00Z"),
+        cohort: "2025-A",
+        attempt: "first",
+      })
+    ).toEqual([
+      "Submitted in study year 4",
+      "Submitted from 2025-01-01",
+      "Cohort 2025-A",
+      "Only the first attempt of every student",
+    ]);
+  });
+});
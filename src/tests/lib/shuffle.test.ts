@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyPresentedOrder,
+  getPresentedAnswerId,
+  getPresentedOrder,
+} from "@/app/lib/shuffle";
+import type { IQuestion } from "@/app/models/Quiz";
+import mongoose from "mongoose";
+
+describe("per-student shuffling", () => {
+  const questionIds = Array.from(
+    { length: 6 },
+    () => new mongoose.Types.ObjectId()
+  );
+  const questions: IQuestion[] = questionIds.map((_id, index) =>
+    index === 0
+      ? {
+          _id,
+          type: "true-false",
+          questionText: "The heart has four chambers",
+          answers: [
+            { text: "True", isCorrect: true },
+            { text: "False", isCorrect: false },
+          ],
+        }
+      : {
+          _id,
+          type: "multiple-choice",
+          questionText: `Question ${index}`,
+          answers: ["A", "B", "C", "D", "E"].map((text) => ({
+            _id: new mongoose.Types.ObjectId(),
+            text,
+            isCorrect: text === "A",
+          })),
+        }
+  );
+  const quiz = {
+    _id: new mongoose.Types.ObjectId(),
+    questions,
+    shuffleQuestions: true,
+    shuffleAnswers: true,
+  };
+  const studentIds = Array.from(
+    { length: 10 },
+    () => new mongoose.Types.ObjectId()
+  );
+
+  it("should not shuffle quizzes without shuffle settings", () => {
+    expect(
+      getPresentedOrder(
+        { ...quiz, shuffleQuestions: false, shuffleAnswers: false },
+        studentIds[0]
+      )
+    ).toBeUndefined();
+  });
+
+  it("should present the same order to a student every time", () => {
+    expect(getPresentedOrder(quiz, studentIds[0])).toEqual(
+      getPresentedOrder(quiz, studentIds[0].toHexString())
+    );
+  });
+
+  it("should present different orders to different students", () => {
+    const orders = studentIds.map((studentId) =>
+      JSON.stringify(getPresentedOrder(quiz, studentId))
+    );
+    expect(new Set(orders).size).toBeGreaterThan(1);
+  });
+
+  it("should shuffle every question and only the answers of multiple-choice questions", () => {
+    const presentedOrder = getPresentedOrder(quiz, studentIds[0])!;
+
+    expect(
+      presentedOrder.map((presented) => presented.question_id.toString()).sort()
+    ).toEqual(questionIds.map((id) => id.toString()).sort());
+    presentedOrder.forEach((presented) => {
+      if (presented.question_id.equals(questionIds[0])) {
+        expect(presented.answerOrder).toBeUndefined();
+      } else {
+        expect([...presented.answerOrder!].sort()).toEqual([0, 1, 2, 3, 4]);
+      }
+    });
+  });
+
+  it("should resolve answers selected in the presented order to their IDs", () => {
+    const presentedOrder = getPresentedOrder(quiz, studentIds[0])!;
+    const presentedQuiz = applyPresentedOrder(quiz, presentedOrder);
+    const presentedQuestion = presentedQuiz.questions.find(
+      (question) => question.type === "multiple-choice"
+    )!;
+    const question = questions.find((q) => q._id === presentedQuestion._id)!;
+    // The student selects the answer shown at the position of "C"
+    const selectedIndex = presentedQuestion.answers!.findIndex(
+      (answer) => answer.text === "C"
+    );
+
+    expect(
+      getPresentedAnswerId(question, selectedIndex, presentedOrder)
+    ).toEqual(question.answers![2]._id);
+    expect(getPresentedAnswerId(question, 7, presentedOrder)).toBeUndefined();
+    expect(getPresentedAnswerId(question, 2, undefined)).toEqual(
+      question.answers![2]._id
+    );
+  });
+});
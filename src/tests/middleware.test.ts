@@ -0,0 +1,148 @@
+import { describe, expect, it, vi, beforeEach, type Mock } from "vitest";
+import { NextRequest } from "next/server";
+import { middleware, getRequiredRole } from "@/middleware";
+import { SESSION_COOKIE_NAME, createSessionToken } from "@/app/lib/session";
+import { User } from "@/app/models/User";
+
+// Mock Mongoose models
+vi.mock("@/app/models/User", () => ({
+  User: {
+    findById: vi.fn(),
+  },
+}));
+
+// Mock dbConnect
+vi.mock("@/app/lib/dbConnect", () => ({
+  default: vi.fn(() => Promise.resolve()),
+}));
+
+describe("middleware", () => {
+  const mockStoredUser = (user: object | null) =>
+    (User.findById as Mock).mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        lean: vi.fn().mockResolvedValue(user),
+      }),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.SESSION_SECRET = "test-session-secret";
+    mockStoredUser({ role: "teacher", sessionVersion: 0 });
+  });
+
+  const createRequest = async (
+    path: string,
+    method = "GET",
+    role?: "teacher" | "admin"
+  ) => {
+    const headers = new Headers();
+    if (role) {
+      const token = await createSessionToken({
+        sub: "507f1f77bcf86cd799439021",
+        name: "Jane Teacher",
+        email: "jane@example.com",
+        role,
+        ver: 0,
+      });
+      headers.set("cookie", `${SESSION_COOKIE_NAME}=${token}`);
+    }
+    return new NextRequest(`http://localhost:3000${path}`, { method, headers });
+  };
+
+  it("should leave the UE client endpoints and login page open", () => {
+    expect(getRequiredRole("GET", "/login")).toBeNull();
+    expect(getRequiredRole("POST", "/api/auth/login")).toBeNull();
+    expect(getRequiredRole("GET", "/api/quizzes")).toBeNull();
+    expect(getRequiredRole("GET", "/api/mesh-catalog")).toBeNull();
+    expect(getRequiredRole("POST", "/api/submissions")).toBeNull();
+    expect(getRequiredRole("GET", "/api/client/quizzes")).toBeNull();
+  });
+
+  it("should require a teacher for mutating quiz endpoints and results", () => {
+    expect(getRequiredRole("POST", "/api/quizzes")).toBe("teacher");
+    expect(getRequiredRole("PUT", "/api/quizzes/123")).toBe("teacher");
+    expect(getRequiredRole("DELETE", "/api/quizzes/123")).toBe("teacher");
+    expect(getRequiredRole("GET", "/api/quizzes/123/results")).toBe("teacher");
+    expect(getRequiredRole("GET", "/api/quizzes/trash")).toBe("teacher");
+    expect(getRequiredRole("GET", "/api/quizzes/export")).toBe("teacher");
+    expect(getRequiredRole("GET", "/api/submissions")).toBe("teacher");
+    expect(getRequiredRole("GET", "/create")).toBe("teacher");
+  });
+
+  it("should require an admin for user management", () => {
+    expect(getRequiredRole("GET", "/admin/users")).toBe("admin");
+    expect(getRequiredRole("POST", "/api/users")).toBe("admin");
+  });
+
+  it("should redirect unauthenticated page requests to the login page", async () => {
+    const res = await middleware(await createRequest("/edit/123"));
+
+    expect(res.status).toBe(307);
+    expect(res.headers.get("location")).toBe(
+      "http://localhost:3000/login?from=%2Fedit%2F123"
+    );
+  });
+
+  it("should return 401 for unauthenticated mutating API requests", async () => {
+    const res = await middleware(await createRequest("/api/quizzes", "POST"));
+
+    expect(res.status).toBe(401);
+  });
+
+  it("should let teachers through to quiz management", async () => {
+    const res = await middleware(
+      await createRequest("/api/quizzes/123", "DELETE", "teacher")
+    );
+
+    expect(res.headers.get("x-middleware-next")).toBe("1");
+    expect(User.findById).toHaveBeenCalledWith("507f1f77bcf86cd799439021");
+  });
+
+  it("should return 401 for a session revoked by logging out", async () => {
+    mockStoredUser({ role: "teacher", sessionVersion: 1 });
+
+    const res = await middleware(
+      await createRequest("/api/quizzes/123", "DELETE", "teacher")
+    );
+
+    expect(res.status).toBe(401);
+  });
+
+  it("should return 401 for the session of a deleted user", async () => {
+    mockStoredUser(null);
+
+    const res = await middleware(
+      await createRequest("/api/quizzes/123", "DELETE", "teacher")
+    );
+
+    expect(res.status).toBe(401);
+  });
+
+  it("should return 401 for an admin session after a demotion", async () => {
+    const res = await middleware(
+      await createRequest("/api/users", "POST", "admin")
+    );
+
+    expect(res.status).toBe(401);
+  });
+
+  it("should return 403 for teachers on admin endpoints", async () => {
+    const res = await middleware(
+      await createRequest("/api/users", "POST", "teacher")
+    );
+
+    expect(res.status).toBe(403);
+  });
+
+  it("should reject a tampered session cookie", async () => {
+    const req = await createRequest("/api/quizzes", "POST", "teacher");
+    const cookie = req.headers.get("cookie")!;
+    const tampered = new NextRequest("http://localhost:3000/api/quizzes", {
+      method: "POST",
+      headers: { cookie: cookie.slice(0, -2) + "xx" },
+    });
+
+    const res = await middleware(tampered);
+    expect(res.status).toBe(401);
+  });
+});